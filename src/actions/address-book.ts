@@ -0,0 +1,280 @@
+import {
+    Action,
+    IAgentRuntime,
+    Memory,
+    State,
+    HandlerCallback,
+    elizaLogger
+} from "@elizaos/core";
+import { type Address } from "viem";
+import { addressBook, findContactInText, normalizeContactName, AddressBookContact } from "../providers/address-book";
+import { addressGroups } from "../providers/address-groups";
+import {
+    addressResolver,
+    addressErrorResponse,
+    findAddressInputs,
+    stripAddresses,
+    AddressResolutionError
+} from "../providers/address-resolver";
+
+type ContactIntent = "save" | "remove" | "list";
+
+type ContactEntry = { address: Address; seiAddress?: string; unverified?: boolean };
+
+const ADDRESS_BOOK_NOUN = /\b(address ?book|contacts?)\b/;
+// Requests that use a contact rather than manage it belong to those actions
+const CONTACT_CONSUMERS = /\b(send|transfer|pay|portfolio|holdings|positions|balance|statement|export)\b/;
+
+// Words around the verb that aren't the contact's name
+const NOT_A_NAME = new Set(["to", "from", "in", "into", "of", "my", "the", "a", "an", "new", "address", "book", "addressbook", "contact", "contacts", "as", "named", "called", "with", "and", "for"]);
+
+export const manageAddressBookAction: Action = {
+    name: "MANAGE_ADDRESS_BOOK",
+    similes: [
+        "SAVE_CONTACT",
+        "ADD_CONTACT",
+        "REMOVE_CONTACT",
+        "LIST_CONTACTS",
+        "ADDRESS_BOOK"
+    ],
+
+    validate: async (runtime: IAgentRuntime, message: Memory) => {
+        const content = message.content?.text?.toLowerCase() || "";
+        if (CONTACT_CONSUMERS.test(content)) return false;
+        if (ADDRESS_BOOK_NOUN.test(content)) return true;
+
+        // "save 0x… as alice" / "forget alice"
+        if (/\b(save|remember|store)\b.*\b(as|named|called)\b/.test(content) && findAddressInputs(content).length > 0) return true;
+        return /\bforget\b/.test(content) && await addressBook.resolve(runtime, message.entityId, content) !== null;
+    },
+
+    description: "Save, update, list or remove named contacts (e.g. 'alice', 'treasury') whose 0x and sei1 addresses can be used by name in transfers and portfolio queries",
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<void> => {
+        try {
+            elizaLogger.info("Manage Address Book Action triggered");
+
+            const text = message.content?.text || "";
+            const inputs = findAddressInputs(text);
+            const contacts = await addressBook.list(runtime, message.entityId);
+            const existing = findContactInText(stripAddresses(text), contacts);
+            const intent = detectIntent(text, inputs.length > 0);
+
+            if (intent === "list") {
+                const response = existing ? formatContact(existing) : formatContactList(contacts);
+                respond(callback, response, { contacts: existing ? [existing] : contacts });
+                return;
+            }
+
+            if (intent === "remove") {
+                const name = existing?.name || extractContactName(text);
+                const removed = name ? await addressBook.remove(runtime, message.entityId, name) : null;
+                respond(callback, removed
+                    ? `🗑️ Removed ${removed.name} from your address book.`
+                    : `You don't have a contact called "${name ?? "that"}".\n\n${formatContactList(contacts)}`,
+                { contact: removed });
+                return;
+            }
+
+            const name = extractContactName(text) || existing?.name;
+            if (!name) {
+                respond(callback, "What should I call this address? Try 'save 0x1234… as alice' or 'add \"cold wallet\" sei1abcd… to my address book'.", {
+                    error: "No contact name found"
+                });
+                return;
+            }
+
+            if (inputs.length === 0) {
+                respond(callback, `Which address should I save as "${name}"? Include a 0x address, a sei1 address, or both.`, {
+                    error: "No address found"
+                });
+                return;
+            }
+
+            if (await addressGroups.get(runtime, message.entityId, name)) {
+                respond(callback, `"${name}" is already the name of one of your address groups. Pick a different contact name.`, {
+                    error: "Name used by an address group"
+                });
+                return;
+            }
+
+            const entry = await resolveEntry(runtime, inputs);
+            if ("error" in entry) {
+                respond(callback, entry.error, { error: entry.error });
+                return;
+            }
+
+            const replaced = contacts.find(c => c.name === name);
+            const contact = await addressBook.save(runtime, message.entityId, name, entry);
+            if (!contact) {
+                respond(callback, `"${name}" can't be used as a contact name. Start with a letter and use up to 32 letters, numbers, spaces, dashes or underscores.`, {
+                    error: "Invalid contact name"
+                });
+                return;
+            }
+
+            let response = `${replaced ? "✏️ Updated" : "✅ Saved"} ${formatContact(contact)}`;
+            if (entry.unverified) {
+                response += `\n\n${contact.seiAddress} isn't linked to an EVM address on-chain yet, so it couldn't be checked against ${contact.address}. Transfers and lookups use the 0x address.`;
+            }
+            response += `\n\nTry 'send 5 SEI to ${contact.name}' or 'show portfolio of ${contact.name}'.`;
+
+            respond(callback, response, { contact });
+
+        } catch (error) {
+            if (error instanceof AddressResolutionError) {
+                if (callback) {
+                    callback(addressErrorResponse(error, "MANAGE_ADDRESS_BOOK"));
+                }
+                return;
+            }
+
+            elizaLogger.error(`Error in manage address book action: ${error instanceof Error ? error.message : String(error)}`);
+
+            if (callback) {
+                callback({
+                    text: "I encountered an error while updating your address book. Please try again in a moment.",
+                    content: {
+                        error: error instanceof Error ? error.message : "Unknown error",
+                        action: "MANAGE_ADDRESS_BOOK"
+                    }
+                });
+            }
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Save 0x742d35Cc6634C0532925a3b844Bc454e4438f44e as alice" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "✅ Saved 📇 alice\n• 0x742d35Cc6634C0532925a3b844Bc454e4438f44e\n\nTry 'send 5 SEI to alice' or 'show portfolio of alice'.",
+                    action: "MANAGE_ADDRESS_BOOK"
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Remove alice from my address book" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "🗑️ Removed alice from your address book.",
+                    action: "MANAGE_ADDRESS_BOOK"
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Show my contacts" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "📇 Your address book:\n• alice: 0x742d...f44e\n• treasury: 0x1234...7890 / sei1qy35...m3xa\n\nUse a name anywhere you'd use an address, e.g. 'send 5 SEI to alice'.",
+                    action: "MANAGE_ADDRESS_BOOK"
+                }
+            }
+        ]
+    ]
+};
+
+function detectIntent(text: string, hasAddresses: boolean): ContactIntent {
+    const lower = text.toLowerCase();
+    if (/\b(delete|remove|forget|drop)\b/.test(lower)) return "remove";
+    if (hasAddresses || /\b(save|add|remember|store|update|set)\b/.test(lower)) return "save";
+    return "list";
+}
+
+/**
+ * Name for a contact that may not exist yet: a quoted name, the word after
+ * "as"/"named"/"called" ("save 0x… as alice"), or the first word after the
+ * verb ("add alice 0x… to my address book").
+ */
+function extractContactName(text: string): string | null {
+    const quoted = text.match(/["“']([^"”']+)["”']/);
+    if (quoted) return normalizeContactName(quoted[1]);
+
+    const words = stripAddresses(text).toLowerCase().match(/[a-z0-9_-]+/g) || [];
+    const label = words.findIndex(word => word === "as" || word === "named" || word === "called");
+    if (label >= 0 && words[label + 1]) return normalizeContactName(words[label + 1]);
+
+    const verb = words.findIndex(word => /^(save|add|remember|store|update|set|delete|remove|forget|drop)$/.test(word));
+    if (verb < 0) return null;
+    const candidate = words.slice(verb + 1).find(word => !NOT_A_NAME.has(word));
+    return candidate ? normalizeContactName(candidate) : null;
+}
+
+/**
+ * The EVM address (and sei1 address, if given) to store. When both formats are
+ * given they must resolve to the same account.
+ */
+async function resolveEntry(runtime: IAgentRuntime, inputs: string[]): Promise<ContactEntry | { error: string }> {
+    const evmInputs = inputs.filter(input => input.startsWith("0x"));
+    const seiInputs = inputs.filter(input => !input.startsWith("0x"));
+    if (evmInputs.length > 1 || seiInputs.length > 1) {
+        return { error: "A contact holds one account. Give at most one 0x address and one sei1 address." };
+    }
+
+    // Resolving the 0x address validates its checksum
+    const evmAddress = evmInputs[0] ? (await addressResolver.resolve(runtime, evmInputs[0])).address : undefined;
+    if (!seiInputs[0]) return { address: evmAddress! };
+
+    try {
+        const { address, seiAddress } = await addressResolver.resolve(runtime, seiInputs[0]);
+        if (evmAddress && evmAddress !== address) {
+            return { error: `${seiAddress} is linked to ${address}, not ${evmAddress}. Check that both addresses belong to the same account.` };
+        }
+        return { address, seiAddress };
+    } catch (error) {
+        // With a 0x address to fall back on, an unlinked sei1 address is kept for reference
+        if (error instanceof AddressResolutionError && error.code === "unassociated" && evmAddress) {
+            return { address: evmAddress, seiAddress: seiInputs[0], unverified: true };
+        }
+        throw error;
+    }
+}
+
+function shortAddress(address: string): string {
+    return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function formatContact(contact: AddressBookContact): string {
+    return `📇 ${contact.name}\n• ${contact.address}${contact.seiAddress ? `\n• ${contact.seiAddress}` : ""}`;
+}
+
+function formatContactList(contacts: AddressBookContact[]): string {
+    if (contacts.length === 0) {
+        return "Your address book is empty. Try 'save 0x1234… as alice'.";
+    }
+    const lines = contacts.map(contact =>
+        `• ${contact.name}: ${shortAddress(contact.address)}${contact.seiAddress ? ` / ${shortAddress(contact.seiAddress)}` : ""}`
+    );
+    return `📇 Your address book:\n${lines.join("\n")}\n\nUse a name anywhere you'd use an address, e.g. 'send 5 SEI to ${contacts[0].name}'.`;
+}
+
+function respond(callback: HandlerCallback | undefined, text: string, extra: Record<string, unknown>): void {
+    if (callback) {
+        callback({
+            text,
+            content: {
+                text,
+                action: "MANAGE_ADDRESS_BOOK",
+                ...extra
+            }
+        });
+    }
+}
@@ -0,0 +1,256 @@
+import {
+    Action,
+    IAgentRuntime,
+    Memory,
+    State,
+    HandlerCallback,
+    elizaLogger
+} from "@elizaos/core";
+import {
+    addressGroups,
+    findGroupInText,
+    normalizeGroupName,
+    AddressGroup,
+    MAX_GROUP_ADDRESSES
+} from "../providers/address-groups";
+import {
+    addressResolver,
+    addressErrorResponse,
+    findAddressInputs,
+    stripAddresses,
+    AddressResolutionError
+} from "../providers/address-resolver";
+
+type GroupIntent = "add" | "remove" | "delete" | "list";
+
+const GROUP_NOUN = /\b(address|wallet)?\s*groups?\b/;
+// Requests that use a group rather than manage it belong to those actions
+const GROUP_CONSUMERS = /\b(portfolio|holdings|positions|balance|statement|export|history|activity|p&l|pnl|csv|tax)\b/;
+
+// Words around "group" that aren't the group's name
+const NOT_A_NAME = new Set(["with", "to", "from", "for", "and", "of", "my", "the", "a", "an", "new", "address", "wallet", "called", "named", "all", "groups", "group"]);
+
+export const manageAddressGroupsAction: Action = {
+    name: "MANAGE_ADDRESS_GROUPS",
+    similes: [
+        "CREATE_ADDRESS_GROUP",
+        "ADD_TO_GROUP",
+        "REMOVE_FROM_GROUP",
+        "DELETE_ADDRESS_GROUP",
+        "LIST_ADDRESS_GROUPS"
+    ],
+
+    validate: async (runtime: IAgentRuntime, message: Memory) => {
+        const content = message.content?.text?.toLowerCase() || "";
+        if (GROUP_CONSUMERS.test(content)) return false;
+        if (GROUP_NOUN.test(content)) return true;
+
+        // "add 0x… to treasury" names an existing group without saying "group"
+        return /\b(add|put|remove|take)\b.*\b(to|into|from)\b/.test(content)
+            && findAddressInputs(content).length > 0
+            && await addressGroups.resolve(runtime, message.entityId, content) !== null;
+    },
+
+    description: "Create, edit, list or delete named groups of wallet addresses (e.g. 'treasury') that portfolio, history and statement requests can use as one portfolio",
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<void> => {
+        try {
+            elizaLogger.info("Manage Address Groups Action triggered");
+
+            const text = message.content?.text || "";
+            // sei1 members are stored by their EVM address
+            const resolved = await addressResolver.resolveAllFromText(runtime, text);
+            const addresses = [...new Set(resolved.map(r => r.address))];
+            const groups = await addressGroups.list(runtime, message.entityId);
+            const existing = findGroupInText(text, groups);
+            const intent = detectIntent(text, addresses.length > 0);
+
+            if (intent === "list") {
+                const response = existing ? formatGroup(existing) : formatGroupList(groups);
+                respond(callback, response, { groups: existing ? [existing] : groups });
+                return;
+            }
+
+            const name = existing?.name || extractGroupName(text);
+            if (!name) {
+                respond(callback, "Which group? Give it a one-word name or a quoted name, e.g. 'create group treasury with 0x1234… and 0xabcd…'.", {
+                    error: "No group name found"
+                });
+                return;
+            }
+
+            if (intent === "delete") {
+                const deleted = await addressGroups.delete(runtime, message.entityId, name);
+                respond(callback, deleted
+                    ? `🗑️ Deleted address group "${deleted.name}" (${deleted.addresses.length} address${deleted.addresses.length === 1 ? "" : "es"}).`
+                    : `You don't have an address group called "${name}".\n\n${formatGroupList(groups)}`,
+                { group: deleted });
+                return;
+            }
+
+            if (addresses.length === 0) {
+                respond(callback, `Which addresses should go in "${name}"? Include them in the message, e.g. 'add 0x1234… to ${name} group'.`, {
+                    error: "No addresses found"
+                });
+                return;
+            }
+
+            if (intent === "remove") {
+                const group = await addressGroups.removeAddresses(runtime, message.entityId, name, addresses);
+                if (!group) {
+                    respond(callback, `You don't have an address group called "${name}".`, { group: null });
+                    return;
+                }
+                const response = group.addresses.length === 0
+                    ? `Removed the last address from "${group.name}", so the group was deleted.`
+                    : `➖ Removed ${addresses.length} address${addresses.length === 1 ? "" : "es"} from "${group.name}".\n\n${formatGroup(group)}`;
+                respond(callback, response, { group });
+                return;
+            }
+
+            const before = groups.find(g => g.name === name)?.addresses.length ?? 0;
+            const group = await addressGroups.addAddresses(runtime, message.entityId, name, addresses);
+            if (!group) {
+                respond(callback, `"${name}" can't be used as a group name. Use up to 32 letters, numbers, spaces, dashes or underscores.`, {
+                    error: "Invalid group name"
+                });
+                return;
+            }
+
+            const added = group.addresses.length - before;
+            let response = before === 0
+                ? `✅ Created address group "${group.name}".\n\n${formatGroup(group)}`
+                : `➕ Added ${added} address${added === 1 ? "" : "es"} to "${group.name}".\n\n${formatGroup(group)}`;
+            if (before + addresses.length > group.addresses.length && group.addresses.length >= MAX_GROUP_ADDRESSES) {
+                response += `\n\nGroups are limited to ${MAX_GROUP_ADDRESSES} addresses; the rest were not added.`;
+            }
+            response += `\n\nTry 'show portfolio for ${group.name}' or 'export statement for ${group.name}'.`;
+
+            respond(callback, response, { group });
+
+        } catch (error) {
+            if (error instanceof AddressResolutionError) {
+                if (callback) {
+                    callback(addressErrorResponse(error, "MANAGE_ADDRESS_GROUPS"));
+                }
+                return;
+            }
+
+            elizaLogger.error(`Error in manage address groups action: ${error instanceof Error ? error.message : String(error)}`);
+
+            if (callback) {
+                callback({
+                    text: "I encountered an error while updating your address groups. Please try again in a moment.",
+                    content: {
+                        error: error instanceof Error ? error.message : "Unknown error",
+                        action: "MANAGE_ADDRESS_GROUPS"
+                    }
+                });
+            }
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Create group treasury with 0x1234567890123456789012345678901234567890 and 0xabcdef1234567890abcdef1234567890abcdef12" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "✅ Created address group \"treasury\".\n\n📁 treasury (2 addresses):\n• 0x1234...7890\n• 0xABcD...EF12\n\nTry 'show portfolio for treasury' or 'export statement for treasury'.",
+                    action: "MANAGE_ADDRESS_GROUPS"
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Remove 0xabcdef1234567890abcdef1234567890abcdef12 from the treasury group" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "➖ Removed 1 address from \"treasury\".\n\n📁 treasury (1 address):\n• 0x1234...7890",
+                    action: "MANAGE_ADDRESS_GROUPS"
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "List my address groups" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "📁 Your address groups:\n• treasury (1 address)\n• household (3 addresses)\n\nUse a group by name, e.g. 'show portfolio for treasury'.",
+                    action: "MANAGE_ADDRESS_GROUPS"
+                }
+            }
+        ]
+    ]
+};
+
+function detectIntent(text: string, hasAddresses: boolean): GroupIntent {
+    const lower = text.toLowerCase();
+    if (/\b(delete|remove|drop|take)\b/.test(lower)) return hasAddresses ? "remove" : "delete";
+    if (/\b(create|new|make|add|set up|save|include|put)\b/.test(lower)) return "add";
+    return "list";
+}
+
+/**
+ * Name of a group that may not exist yet: a quoted name, the word after
+ * "group" ("group treasury") or the word before it ("the treasury group").
+ */
+function extractGroupName(text: string): string | null {
+    const quoted = text.match(/["“']([^"”']+)["”']/);
+    if (quoted) return normalizeGroupName(quoted[1]);
+
+    const words = stripAddresses(text).toLowerCase().match(/[a-z0-9_-]+/g) || [];
+    const index = words.findIndex(word => word === "group");
+    if (index < 0) return null;
+
+    const after = words.slice(index + 1).find(word => word !== "called" && word !== "named");
+    for (const candidate of [after, words[index - 1]]) {
+        if (candidate && !NOT_A_NAME.has(candidate)) return normalizeGroupName(candidate);
+    }
+    return null;
+}
+
+function shortAddress(address: string): string {
+    return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function formatGroup(group: AddressGroup): string {
+    const count = `${group.addresses.length} address${group.addresses.length === 1 ? "" : "es"}`;
+    return `📁 ${group.name} (${count}):\n${group.addresses.map(address => `• ${shortAddress(address)}`).join("\n")}`;
+}
+
+function formatGroupList(groups: AddressGroup[]): string {
+    if (groups.length === 0) {
+        return "You don't have any address groups yet. Try 'create group treasury with 0x1234… and 0xabcd…'.";
+    }
+    const lines = groups.map(group => `• ${group.name} (${group.addresses.length} address${group.addresses.length === 1 ? "" : "es"})`);
+    return `📁 Your address groups:\n${lines.join("\n")}\n\nUse a group by name, e.g. 'show portfolio for ${groups[0].name}'.`;
+}
+
+function respond(callback: HandlerCallback | undefined, text: string, extra: Record<string, unknown>): void {
+    if (callback) {
+        callback({
+            text,
+            content: {
+                text,
+                action: "MANAGE_ADDRESS_GROUPS",
+                ...extra
+            }
+        });
+    }
+}
@@ -0,0 +1,294 @@
+import {
+    Action,
+    IAgentRuntime,
+    Memory,
+    State,
+    HandlerCallback,
+    elizaLogger
+} from "@elizaos/core";
+import { vaultProvider } from "../providers/vault-provider";
+import { vaultHistoryEngine, sharePriceVolatility } from "../providers/vault-history";
+import { netApy } from "../providers/vault-fees";
+import {
+    matchVaultNames,
+    getVaultDisplayName,
+    getVaultRiskLevel,
+    RiskScores,
+    VaultName,
+    RiskLevel,
+    FormattedVaultMetrics
+} from "../types/vault";
+
+// History window used for share price volatility
+const HISTORY_DAYS = 30;
+
+export interface VaultComparisonRow {
+    vaultName: VaultName;
+    displayName: string;
+    apy: number;
+    netApy: number;
+    feeDrag: number; // APY points lost to fees over a one-year hold
+    tvl: number;
+    riskLevel: RiskLevel;
+    volatility: number | null; // Annualized share price volatility (%)
+    metrics: FormattedVaultMetrics;
+}
+
+export const compareVaultsAction: Action = {
+    name: "COMPARE_VAULTS",
+    similes: [
+        "VAULT_COMPARISON",
+        "COMPARE_STRATEGIES",
+        "VAULT_VS_VAULT",
+        "SIDE_BY_SIDE"
+    ],
+
+    validate: async (runtime: IAgentRuntime, message: Memory) => {
+        const content = message.content?.text?.toLowerCase() || "";
+
+        const compareKeywords = [
+            "compare",
+            "comparison",
+            " vs ",
+            " vs. ",
+            "versus",
+            "side by side",
+            "difference between",
+            "which is better",
+            "better than"
+        ];
+
+        return compareKeywords.some(keyword => content.includes(keyword))
+            && matchVaultNames(content).length >= 2;
+    },
+
+    description: "Compare two or more vaults side by side: APY, TVL, fee drag, risk level and share price volatility",
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<void> => {
+        try {
+            elizaLogger.info("Compare Vaults Action triggered");
+
+            const content = message.content?.text || "";
+            const vaultNames = matchVaultNames(content);
+
+            if (vaultNames.length < 2) {
+                if (callback) {
+                    callback({
+                        text: "Please name at least two vaults to compare, for example: 'Compare Delta Neutral vs Stable Max vs Blue Chip'.",
+                        content: {
+                            text: "Not enough vaults to compare",
+                            action: "COMPARE_VAULTS",
+                            error: "Fewer than two vault names found"
+                        }
+                    });
+                }
+                return;
+            }
+
+            await vaultProvider.initialize(runtime);
+
+            const unconfigured = vaultNames.filter(name => !vaultProvider.getVaultAddress(name));
+            const rows = await compareVaults(runtime, vaultNames.filter(name => !unconfigured.includes(name)));
+
+            if (rows.length < 2) {
+                if (callback) {
+                    callback({
+                        text: `I could only load data for ${rows.length} of the ${vaultNames.length} vaults you named, so there's nothing to compare yet.${unconfigured.length > 0 ? ` Not configured: ${unconfigured.map(getVaultDisplayName).join(", ")}.` : ""}`,
+                        content: {
+                            text: "Not enough vault data to compare",
+                            action: "COMPARE_VAULTS",
+                            error: "Vault data unavailable"
+                        }
+                    });
+                }
+                return;
+            }
+
+            const verdict = buildVerdict(rows);
+            const response = formatComparisonResponse(rows, verdict, vaultNames.length - rows.length);
+
+            elizaLogger.info(`Vault comparison generated for ${rows.map(r => r.vaultName).join(", ")}`);
+
+            if (callback) {
+                callback({
+                    text: response,
+                    content: {
+                        text: response,
+                        action: "COMPARE_VAULTS",
+                        vaults: rows.map(({ metrics: _metrics, ...row }) => row),
+                        verdict
+                    }
+                });
+            }
+
+        } catch (error) {
+            elizaLogger.error(`Error in compare vaults action: ${error instanceof Error ? error.message : String(error)}`);
+
+            if (callback) {
+                callback({
+                    text: "I encountered an error while comparing vaults. Please try again in a moment.",
+                    content: {
+                        error: error instanceof Error ? error.message : "Unknown error",
+                        action: "COMPARE_VAULTS"
+                    }
+                });
+            }
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Delta Neutral vs Stable Max vs Blue Chip?" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "Vault Comparison\n\nVault               | APY   | Net APY | Fee Drag | TVL    | Risk     | Volatility\nDelta Neutral Vault | 12.5% | 10.0%   | 2.5 pts  | $1.23M | Low      | 1.8%\nStable Max Vault    | 8.2%  | 6.4%    | 1.8 pts  | $890K  | Very Low | 0.4%\nBlue Chip Vault     | 15.3% | 12.2%   | 3.1 pts  | $2.10M | Medium   | 6.9%\n\n🧭 Verdict: Blue Chip Vault has the highest net APY (12.2%) but carries Medium risk. Stable Max Vault is the lowest-risk option at 6.4% net. For return per unit of risk, Delta Neutral Vault (10.0% net, Low risk) stands out.",
+                    action: "COMPARE_VAULTS"
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Compare the SEI Hypergrowth vault with Arbitrage" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "Vault Comparison\n\nVault                 | APY   | Net APY | Fee Drag | TVL   | Risk        | Volatility\nSEI Hypergrowth Vault | 24.8% | 19.3%   | 5.5 pts  | $456K | High        | 18.2%\nArbitrage Vault       | 22.4% | 17.4%   | 5.0 pts  | $234K | Medium-High | 4.1%\n\n🧭 Verdict: SEI Hypergrowth Vault has the highest net APY (19.3%) but carries High risk. Arbitrage Vault is the lower-risk option at 17.4% net and also offers the best return per unit of risk. SEI Hypergrowth Vault's share price has been the most volatile (18.2% annualized).",
+                    action: "COMPARE_VAULTS"
+                }
+            }
+        ]
+    ]
+};
+
+/**
+ * Load metrics and recent history for each vault. Vaults whose metrics can't
+ * be read are left out; missing history only blanks the volatility column.
+ */
+export async function compareVaults(
+    runtime: IAgentRuntime,
+    vaultNames: VaultName[]
+): Promise<VaultComparisonRow[]> {
+    const fromTimestamp = Math.floor(Date.now() / 1000) - HISTORY_DAYS * 86400;
+
+    const rows = await Promise.all(vaultNames.map(async (vaultName): Promise<VaultComparisonRow | null> => {
+        const address = vaultProvider.getVaultAddress(vaultName);
+        if (!address) return null;
+
+        try {
+            const metrics = await vaultProvider.getVaultMetrics(runtime, address);
+
+            let volatility: number | null = null;
+            try {
+                const { history } = await vaultHistoryEngine.getYieldHistory(runtime, address, fromTimestamp);
+                volatility = sharePriceVolatility(history);
+            } catch (error) {
+                elizaLogger.warn(`No history for ${vaultName}, volatility omitted: ${error instanceof Error ? error.message : String(error)}`);
+            }
+
+            const net = netApy(metrics, metrics.apy);
+
+            return {
+                vaultName,
+                displayName: getVaultDisplayName(vaultName),
+                apy: metrics.apy,
+                netApy: net,
+                feeDrag: metrics.apy - net,
+                tvl: metrics.totalValueLocked,
+                riskLevel: getVaultRiskLevel(vaultName),
+                volatility,
+                metrics
+            };
+        } catch (error) {
+            elizaLogger.warn(`Failed to load metrics for ${vaultName}: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
+        }
+    }));
+
+    return rows.filter((row): row is VaultComparisonRow => row !== null);
+}
+
+/**
+ * Plain-language verdict: best net APY, lowest risk, and best net APY per
+ * point of risk score
+ */
+export function buildVerdict(rows: VaultComparisonRow[]): string {
+    const byReturn = [...rows].sort((a, b) => b.netApy - a.netApy)[0];
+    const bySafety = [...rows].sort((a, b) =>
+        RiskScores[a.riskLevel] - RiskScores[b.riskLevel] || b.netApy - a.netApy
+    )[0];
+    const byRiskAdjusted = [...rows].sort((a, b) =>
+        b.netApy / RiskScores[b.riskLevel] - a.netApy / RiskScores[a.riskLevel]
+    )[0];
+
+    const sentences: string[] = [];
+
+    if (byReturn === bySafety) {
+        sentences.push(`${byReturn.displayName} leads on both net APY (${byReturn.netApy.toFixed(1)}%) and risk (${byReturn.riskLevel}).`);
+    } else {
+        sentences.push(`${byReturn.displayName} has the highest net APY (${byReturn.netApy.toFixed(1)}%) but carries ${byReturn.riskLevel} risk.`);
+
+        const lowerRisk = rows.length === 2 ? "lower-risk" : "lowest-risk";
+        if (byRiskAdjusted === bySafety) {
+            sentences.push(`${bySafety.displayName} is the ${lowerRisk} option at ${bySafety.netApy.toFixed(1)}% net and also offers the best return per unit of risk.`);
+        } else {
+            sentences.push(`${bySafety.displayName} is the ${lowerRisk} option at ${bySafety.netApy.toFixed(1)}% net.`);
+            if (byRiskAdjusted !== byReturn) {
+                sentences.push(`For return per unit of risk, ${byRiskAdjusted.displayName} (${byRiskAdjusted.netApy.toFixed(1)}% net, ${byRiskAdjusted.riskLevel} risk) stands out.`);
+            }
+        }
+    }
+
+    const withVolatility = rows.filter(r => r.volatility !== null);
+    if (withVolatility.length >= 2) {
+        const mostVolatile = [...withVolatility].sort((a, b) => b.volatility! - a.volatility!)[0];
+        sentences.push(`${mostVolatile.displayName}'s share price has been the most volatile (${mostVolatile.volatility!.toFixed(1)}% annualized).`);
+    }
+
+    return sentences.join(" ");
+}
+
+function formatComparisonResponse(rows: VaultComparisonRow[], verdict: string, skipped: number): string {
+    const header = ["Vault", "APY", "Net APY", "Fee Drag", "TVL", "Risk", "Volatility"];
+    const body = rows.map(row => [
+        row.displayName,
+        `${row.apy.toFixed(1)}%`,
+        `${row.netApy.toFixed(1)}%`,
+        `${row.feeDrag.toFixed(1)} pts`,
+        formatTvl(row.tvl),
+        row.riskLevel,
+        row.volatility === null ? "n/a" : `${row.volatility.toFixed(1)}%`
+    ]);
+
+    const widths = header.map((title, i) => Math.max(title.length, ...body.map(cells => cells[i].length)));
+    const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join(" | ").trimEnd();
+
+    let response = `Vault Comparison\n\n`;
+    response += `${line(header)}\n`;
+    response += body.map(line).join("\n");
+    response += `\n\n🧭 Verdict: ${verdict}`;
+    response += `\n\nNet APY assumes a one-year hold after management, performance and withdrawal fees. Volatility uses the last ${HISTORY_DAYS} days of share price history.`;
+
+    if (skipped > 0) {
+        response += `\n\n⚠️ ${skipped} vault(s) were left out because their data couldn't be loaded.`;
+    }
+
+    return response;
+}
+
+function formatTvl(tvl: number): string {
+    if (tvl >= 1000000) return `$${(tvl / 1000000).toFixed(2)}M`;
+    if (tvl >= 1000) return `$${(tvl / 1000).toFixed(0)}K`;
+    return `$${tvl.toFixed(0)}`;
+}
@@ -8,6 +8,7 @@ import {
 } from "@elizaos/core";
 import { validateSeiConfig } from "../environment";
 import { ImpermanentLossProtector } from "../providers/impermanent-loss-protector";
+import { createAlertDispatcher } from "../services/alert-sinks";
 import { LiquidityPosition } from "../providers/coinbase-advanced";
 
 export const ilProtectionAction: Action = {
@@ -159,7 +160,7 @@ export const ilProtectionAction: Action = {
         COINBASE_ADVANCED_SECRET: config.COINBASE_ADVANCED_SECRET,
         COINBASE_ADVANCED_PASSPHRASE: config.COINBASE_ADVANCED_PASSPHRASE,
         COINBASE_SANDBOX: config.COINBASE_SANDBOX
-      });
+      }, createAlertDispatcher(runtime));
 
       // Get IL risk analysis first
       const riskAnalysis = await ilProtector.getILAnalysis(lpPosition);
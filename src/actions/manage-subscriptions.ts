@@ -0,0 +1,213 @@
+import {
+    Action,
+    IAgentRuntime,
+    Memory,
+    State,
+    HandlerCallback,
+    elizaLogger
+} from "@elizaos/core";
+import {
+    subscriptionEngine,
+    parseCondition,
+    describeRule,
+    SubscriptionRule
+} from "../providers/subscriptions";
+import { matchVaultName } from "../types/vault";
+
+type ManageIntent = "list" | "edit" | "delete";
+
+const SUBSCRIPTION_NOUN = /\b(alerts?|subscriptions?|watchlist|notifications?)\b/;
+const CREATE_PHRASES = /\b(alert|notify|tell|ping|warn|message|remind) me\b|\blet me know\b/;
+
+export const manageSubscriptionsAction: Action = {
+    name: "MANAGE_SUBSCRIPTIONS",
+    similes: [
+        "LIST_ALERTS",
+        "MY_ALERTS",
+        "EDIT_ALERT",
+        "DELETE_ALERT",
+        "UNSUBSCRIBE"
+    ],
+
+    validate: async (runtime: IAgentRuntime, message: Memory) => {
+        const content = message.content?.text?.toLowerCase() || "";
+        // "alert me if..." creates a rule; that's SUBSCRIBE_ALERT
+        if (CREATE_PHRASES.test(content)) return false;
+        return SUBSCRIPTION_NOUN.test(content) || /\bunsubscribe\b/.test(content);
+    },
+
+    description: "List, edit or delete the user's alert subscriptions (e.g. 'list my alerts', 'change alert 2 to $800', 'delete alert 3')",
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<void> => {
+        try {
+            elizaLogger.info("Manage Subscriptions Action triggered");
+
+            const text = message.content?.text || "";
+            const intent = detectIntent(text);
+            const rules = await subscriptionEngine.list(runtime, message.entityId);
+
+            if (intent === "delete") {
+                const all = /\ball\b/i.test(text);
+                const ids = all ? undefined : extractRuleIds(text);
+
+                if (!all && ids!.length === 0) {
+                    respond(callback, "Which alert should I delete? Say 'delete alert 2', or 'delete all my alerts'.\n\n" + formatRuleList(rules), { rules });
+                    return;
+                }
+
+                const removed = await subscriptionEngine.remove(runtime, message.entityId, ids);
+                const missing = (ids || []).filter(id => !removed.some(rule => rule.id === id));
+
+                let response = removed.length > 0
+                    ? `🗑️ Deleted ${removed.length} alert${removed.length > 1 ? "s" : ""}:\n${removed.map(rule => `• ${describeRule(rule)}`).join("\n")}`
+                    : "You don't have any alerts to delete.";
+                if (missing.length > 0) {
+                    response += `\n\nNo alert${missing.length > 1 ? "s" : ""} ${missing.map(id => `#${id}`).join(", ")} found for you.`;
+                }
+
+                respond(callback, response, { removed });
+                return;
+            }
+
+            if (intent === "edit") {
+                const [id] = extractRuleIds(text);
+                const rule = rules.find(r => r.id === id);
+
+                if (!rule) {
+                    respond(callback, `${id ? `I couldn't find alert #${id}.` : "Which alert should I change?"} Say e.g. 'change alert 2 to below $800'.\n\n${formatRuleList(rules)}`, { rules });
+                    return;
+                }
+                if (rule.metric === "lockExpiry") {
+                    respond(callback, `Alert #${rule.id} watches a lock expiry and has no threshold to change. Delete it with 'delete alert ${rule.id}'.`, { rule });
+                    return;
+                }
+
+                // Look for the new condition after the alert number so "#2" isn't read as a threshold
+                const afterId = text.slice(text.search(new RegExp(`#?${id}\\b`)) + String(id).length + 1);
+                const condition = parseCondition(afterId);
+                const vaultName = matchVaultName(afterId);
+
+                if (!condition && !vaultName) {
+                    respond(callback, `What should alert #${rule.id} change to? Say e.g. 'change alert ${rule.id} to below $800'.`, { rule });
+                    return;
+                }
+
+                const updated = await subscriptionEngine.update(runtime, message.entityId, rule.id, {
+                    ...(condition?.operator ? { operator: condition.operator } : {}),
+                    ...(condition ? { threshold: condition.threshold } : {}),
+                    ...(vaultName ? { vaultName } : {})
+                });
+
+                respond(callback, `✏️ Updated alert:\n• ${describeRule(updated!)}`, { rule: updated });
+                return;
+            }
+
+            respond(callback, formatRuleList(rules), { rules });
+
+        } catch (error) {
+            elizaLogger.error(`Error in manage subscriptions action: ${error instanceof Error ? error.message : String(error)}`);
+
+            if (callback) {
+                callback({
+                    text: "I encountered an error while managing your alerts. Please try again in a moment.",
+                    content: {
+                        error: error instanceof Error ? error.message : "Unknown error",
+                        action: "MANAGE_SUBSCRIPTIONS"
+                    }
+                });
+            }
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "List my alerts" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "🔔 Your alerts:\n• #1 Delta Neutral Vault position value below $900.00 (0xBFC1…3d7c)\n• #4 Stable Max Vault APY below 5.00%\n\nSay 'change alert 1 to $800' or 'delete alert 4' to manage them.",
+                    action: "MANAGE_SUBSCRIPTIONS"
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Change alert 1 to below $800" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "✏️ Updated alert:\n• #1 Delta Neutral Vault position value below $800.00 (0xBFC1…3d7c)",
+                    action: "MANAGE_SUBSCRIPTIONS"
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Delete alert 4" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "🗑️ Deleted 1 alert:\n• #4 Stable Max Vault APY below 5.00%",
+                    action: "MANAGE_SUBSCRIPTIONS"
+                }
+            }
+        ]
+    ]
+};
+
+function detectIntent(text: string): ManageIntent {
+    const lower = text.toLowerCase();
+    if (/\b(delete|remove|cancel|stop|clear|unsubscribe)\b/.test(lower)) return "delete";
+    if (/\b(edit|update|change|modify|adjust|move)\b/.test(lower)) return "edit";
+    return "list";
+}
+
+/**
+ * Rule numbers ("alert 2", "#3", "alerts 2 and 5"), ignoring amounts like "$800"
+ */
+function extractRuleIds(text: string): number[] {
+    const lower = text.toLowerCase();
+    const start = lower.search(/#\d|\b(alerts?|subscriptions?|rules?)\b/);
+    if (start < 0) return [];
+
+    const ids: number[] = [];
+    const scope = lower.slice(start).split(/\bto\b/)[0];
+    for (const match of scope.matchAll(/(^|[^$\d.])#?(\d+)\b(?![.%kKmM])/g)) {
+        ids.push(parseInt(match[2], 10));
+    }
+    return [...new Set(ids)];
+}
+
+function formatRuleList(rules: SubscriptionRule[]): string {
+    if (rules.length === 0) {
+        return "You don't have any alerts yet. Try 'alert me if my Delta Neutral position drops below $900'.";
+    }
+    const first = rules[0].id;
+    return `🔔 Your alerts:\n${rules.map(rule => `• ${describeRule(rule)}`).join("\n")}\n\nSay 'change alert ${first} to $800' or 'delete alert ${first}' to manage them.`;
+}
+
+function respond(callback: HandlerCallback | undefined, text: string, extra: Record<string, unknown>): void {
+    if (callback) {
+        callback({
+            text,
+            content: {
+                text,
+                action: "MANAGE_SUBSCRIPTIONS",
+                ...extra
+            }
+        });
+    }
+}
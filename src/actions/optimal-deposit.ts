@@ -9,7 +9,7 @@ import {
 import { vaultProvider } from "../providers/vault-provider";
 import {
     matchVaultName,
-    VaultDisplayNames,
+    getVaultDisplayName,
     VaultName,
     FormattedDepositRatio
 } from "../types/vault";
@@ -76,7 +76,7 @@ export const optimalDepositAction: Action = {
             if (!vaultAddress) {
                 if (callback) {
                     callback({
-                        text: `The ${VaultDisplayNames[vaultName]} address is not configured. Please check your environment configuration.`,
+                        text: `The ${getVaultDisplayName(vaultName)} address is not configured. Please check your environment configuration.`,
                         content: {
                             text: "Vault address not configured",
                             action: "OPTIMAL_DEPOSIT",
@@ -168,7 +168,7 @@ function formatOptimalDepositResponse(
     vaultName: VaultName,
     ratio: FormattedDepositRatio
 ): string {
-    const displayName = VaultDisplayNames[vaultName];
+    const displayName = getVaultDisplayName(vaultName);
 
     // Get token symbols based on vault
     const token0Symbol = getToken0Symbol(vaultName);
@@ -7,21 +7,65 @@ import {
     elizaLogger
 } from "@elizaos/core";
 import { vaultProvider } from "../providers/vault-provider";
+import { vaultEventIndexer } from "../providers/vault-event-indexer";
+import {
+    calculatePortfolioPnL,
+    CostBasisMethod,
+    PositionPnL
+} from "../providers/position-accounting";
 import { WalletProvider, initWalletProvider } from "../providers/wallet";
-import { FormattedCustomerPortfolio } from "../types/vault";
+import { addressGroups, toCombinedPositions, AddressGroup } from "../providers/address-groups";
+import { addressBook } from "../providers/address-book";
+import {
+    addressErrorResponse,
+    findAddressInputs,
+    AddressResolutionError
+} from "../providers/address-resolver";
+import { AggregatedPortfolio, FormattedCustomerPortfolio, VaultLedgerEntry } from "../types/vault";
 
 /**
- * Extract Ethereum address from message text
- * Supports formats like:
- * - "Check holdings for 0x1234..."
- * - "My wallet: 0x1234..."
- * - "0x1234..."
+ * Detect questions about deposit/withdraw history ("when did I deposit", etc.)
  */
-function extractAddressFromMessage(text: string): string | null {
-    // Regex to match Ethereum addresses (0x followed by 40 hex characters)
-    const addressRegex = /0x[a-fA-F0-9]{40}/;
-    const match = text.match(addressRegex);
-    return match ? match[0] : null;
+function isActivityQuery(text: string): boolean {
+    const activityKeywords = [
+        "when did i deposit",
+        "when did i withdraw",
+        "deposit history",
+        "withdrawal history",
+        "my activity",
+        "transaction history",
+        "my deposits",
+        "my withdrawals",
+        "how much did i deposit"
+    ];
+    const lower = text.toLowerCase();
+    return activityKeywords.some(keyword => lower.includes(keyword));
+}
+
+/**
+ * Detect P&L / cost-basis questions
+ */
+function isPnLQuery(text: string): boolean {
+    // Whole words only, so "unrealized" or "mirror" don't count
+    const pnlKeywords = [
+        /\bp&l\b/,
+        /\bpnl\b/,
+        /\bprofit and loss\b/,
+        /\bcost basis\b/,
+        /\brealized\b/,
+        /\btime-weighted\b/,
+        /\bmoney-weighted\b/,
+        /\birr\b/
+    ];
+    const lower = text.toLowerCase();
+    return pnlKeywords.some(keyword => keyword.test(lower));
+}
+
+function getCostBasisMethod(runtime: IAgentRuntime, text: string): CostBasisMethod {
+    const lower = text.toLowerCase();
+    if (lower.includes("average cost") || lower.includes("avg cost")) return "average";
+    if (lower.includes("fifo")) return "fifo";
+    return runtime.getSetting("PNL_COST_BASIS_METHOD") === "average" ? "average" : "fifo";
 }
 
 export const portfolioQueryAction: Action = {
@@ -41,8 +85,8 @@ export const portfolioQueryAction: Action = {
 
         elizaLogger.info(`[PORTFOLIO_QUERY] Validating message: "${originalText}"`);
 
-        // Check if message contains an Ethereum address
-        const hasAddress = extractAddressFromMessage(originalText) !== null;
+        // Check if message contains a 0x or sei1 address
+        const hasAddress = findAddressInputs(originalText).length > 0;
         elizaLogger.info(`[PORTFOLIO_QUERY] Has address: ${hasAddress}`);
 
         const portfolioKeywords = [
@@ -68,7 +112,16 @@ export const portfolioQueryAction: Action = {
             "check positions",
             "holdings for",
             "portfolio for",
-            "positions for"
+            "positions for",
+            "when did i deposit",
+            "when did i withdraw",
+            "deposit history",
+            "withdrawal history",
+            "my withdrawals",
+            "my p&l",
+            "my pnl",
+            "profit and loss",
+            "cost basis"
         ];
 
         // Validate if message has portfolio keywords OR contains a wallet address with context
@@ -84,13 +137,19 @@ export const portfolioQueryAction: Action = {
         );
         elizaLogger.info(`[PORTFOLIO_QUERY] Has address with context: ${hasAddressWithContext}`);
 
-        const shouldValidate = hasAddressWithContext || hasKeywords;
+        // "treasury portfolio" / "portfolio of alice", naming an address group or a saved contact
+        const hasNameWithContext = /portfolio|holdings|positions|balance/.test(content) && (
+            await addressGroups.resolve(runtime, message.entityId, originalText) !== null ||
+            await addressBook.resolve(runtime, message.entityId, originalText) !== null
+        );
+
+        const shouldValidate = hasAddressWithContext || hasKeywords || hasNameWithContext;
         elizaLogger.info(`[PORTFOLIO_QUERY] Validation result: ${shouldValidate}`);
 
         return shouldValidate;
     },
 
-    description: "Query user's vault portfolio including positions, balances, and withdrawal status",
+    description: "Query user's vault portfolio including positions, balances, and withdrawal status, for one wallet or saved contact, or combined across a named address group",
 
     handler: async (
         runtime: IAgentRuntime,
@@ -105,9 +164,19 @@ export const portfolioQueryAction: Action = {
             const messageText = message.content?.text || "";
             elizaLogger.info(`Message text: "${messageText}"`);
 
-            // Try to extract address from message first
-            let targetAddress = extractAddressFromMessage(messageText);
-            elizaLogger.info(`Extracted address from message: ${targetAddress || "none"}`);
+            // A named address group is reported as one combined portfolio
+            const group = findAddressInputs(messageText).length > 0
+                ? null
+                : await addressGroups.resolve(runtime, message.entityId, messageText);
+            if (group) {
+                await handleGroupPortfolio(runtime, group, messageText, callback);
+                return;
+            }
+
+            // Try the message first: a 0x address, a sei1 address resolved to its EVM address, or a saved contact
+            const resolved = await addressBook.resolveAddress(runtime, message.entityId, messageText);
+            let targetAddress: string | null = resolved?.address ?? null;
+            elizaLogger.info(`Extracted address from message: ${resolved ? `${resolved.input} -> ${resolved.address}` : "none"}`);
 
             let isOwnWallet = false;
 
@@ -123,7 +192,7 @@ export const portfolioQueryAction: Action = {
                     elizaLogger.warn("No wallet address available");
                     if (callback) {
                         callback({
-                            text: "Please provide a wallet address to check. For example:\n• 'Check holdings for 0x1234...'\n• 'Show portfolio for 0x1234...'\n\nOr configure your own wallet to check your positions with 'what's my portfolio?'",
+                            text: "Please provide a wallet address to check. For example:\n• 'Check holdings for 0x1234...'\n• 'Show portfolio for sei1abcd...'\n• 'Show portfolio of alice' (a contact in your address book)\n\nOr configure your own wallet to check your positions with 'what's my portfolio?'",
                             content: {
                                 text: "No wallet address provided",
                                 action: "PORTFOLIO_QUERY",
@@ -135,6 +204,10 @@ export const portfolioQueryAction: Action = {
                 }
             }
 
+            // Show sei1 addresses the way the user wrote them, and contacts by name
+            const accountAddress = resolved?.seiAddress ?? targetAddress;
+            const displayAddress = resolved?.contact ? `${resolved.contact} (${accountAddress})` : accountAddress;
+
             elizaLogger.info(`Fetching portfolio for address: ${targetAddress}${isOwnWallet ? " (own wallet)" : " (provided address)"}`);
 
             // Get customer portfolio from vault provider
@@ -142,10 +215,40 @@ export const portfolioQueryAction: Action = {
             const portfolios = await vaultProvider.getCustomerPortfolio(runtime, targetAddress as `0x${string}`);
             elizaLogger.info(`Portfolio query returned ${portfolios.length} positions`);
 
+            // Deposit/withdraw history comes from the event indexer ledger
+            const wantsActivity = isActivityQuery(messageText);
+            const wantsPnL = isPnLQuery(messageText);
+            let activity: VaultLedgerEntry[] = [];
+            if (wantsActivity || wantsPnL) {
+                try {
+                    activity = await vaultEventIndexer.getLedger(runtime, targetAddress as `0x${string}`);
+                    elizaLogger.info(`Ledger returned ${activity.length} entries for ${targetAddress}`);
+                } catch (error) {
+                    elizaLogger.warn(`Failed to load vault activity for ${targetAddress}: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
+
+            // Lot-based P&L from the ledger, valued at current share prices. Exited
+            // positions have no current value but still carry realized P&L
+            let pnl: PositionPnL[] = [];
+            if (wantsPnL && activity.length > 0) {
+                const currentByVault = Object.fromEntries(
+                    portfolios.map(p => [p.vaultAddress.toLowerCase(), { shareBalance: p.shareBalance, shareValue: p.shareValue }])
+                );
+                pnl = calculatePortfolioPnL(activity, currentByVault, getCostBasisMethod(runtime, messageText));
+            }
+
             if (portfolios.length === 0) {
-                const noPositionsText = isOwnWallet
+                let noPositionsText = isOwnWallet
                     ? "You don't have any positions in Yield Delta vaults yet. Use 'list vaults' to see available investment options."
-                    : `Address ${targetAddress} doesn't have any positions in Yield Delta vaults.`;
+                    : `Address ${displayAddress} doesn't have any positions in Yield Delta vaults.`;
+
+                if (wantsActivity && activity.length > 0) {
+                    noPositionsText += formatActivitySection(activity);
+                }
+                if (pnl.length > 0) {
+                    noPositionsText += formatPnLSection(pnl);
+                }
 
                 if (callback) {
                     callback({
@@ -154,7 +257,11 @@ export const portfolioQueryAction: Action = {
                             text: "No positions found",
                             action: "PORTFOLIO_QUERY",
                             portfolios: [],
-                            address: targetAddress
+                            activity: wantsActivity ? activity : undefined,
+                            pnl: wantsPnL ? pnl : undefined,
+                            address: targetAddress,
+                            seiAddress: resolved?.seiAddress,
+                            contact: resolved?.contact
                         }
                     });
                 }
@@ -166,7 +273,16 @@ export const portfolioQueryAction: Action = {
             const totalGains = portfolios.reduce((sum, p) => sum + p.unrealizedGains, 0);
 
             // Format response
-            const response = formatPortfolioResponse(portfolios, totalValue, totalGains, targetAddress, isOwnWallet);
+            let response = formatPortfolioResponse(portfolios, totalValue, totalGains, displayAddress, isOwnWallet);
+            if (wantsActivity && activity.length > 0) {
+                response += formatActivitySection(activity);
+            }
+
+            if (pnl.length > 0) {
+                response += formatPnLSection(pnl);
+            } else if (wantsPnL) {
+                response += "\n\nNo deposit history was found on-chain for this address, so P&L can't be calculated yet.";
+            }
 
             elizaLogger.info(`Portfolio query response generated for ${portfolios.length} positions`);
 
@@ -177,7 +293,11 @@ export const portfolioQueryAction: Action = {
                         text: response,
                         action: "PORTFOLIO_QUERY",
                         portfolios,
+                        activity: wantsActivity ? activity : undefined,
+                        pnl: wantsPnL ? pnl : undefined,
                         address: targetAddress,
+                        seiAddress: resolved?.seiAddress,
+                        contact: resolved?.contact,
                         isOwnWallet,
                         summary: {
                             totalValue,
@@ -189,6 +309,14 @@ export const portfolioQueryAction: Action = {
             }
 
         } catch (error) {
+            if (error instanceof AddressResolutionError) {
+                elizaLogger.warn(`Portfolio query address not resolved: ${error.message}`);
+                if (callback) {
+                    callback(addressErrorResponse(error, "PORTFOLIO_QUERY"));
+                }
+                return;
+            }
+
             elizaLogger.error("=== Portfolio Query Error ===");
             elizaLogger.error(`Error type: ${error instanceof Error ? error.constructor.name : typeof error}`);
             elizaLogger.error(`Error message: ${error instanceof Error ? error.message : String(error)}`);
@@ -302,10 +430,147 @@ export const portfolioQueryAction: Action = {
                     text: "Address 0x9876...3210 doesn't have any positions in Yield Delta vaults."
                 }
             }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "What's my P&L?" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "Your Yield Delta Portfolio:\n\nTotal Value: $2,100.00\n\nPositions:\n• Delta Neutral Vault: 1,000 shares ($2,100.00) +$100.00 gains ✓ Can withdraw\n\nTotal Unrealized Gains: +$100.00\n\nAll your positions are available for withdrawal.\n\nP&L (FIFO cost basis):\n• Delta Neutral Vault: cost $2,000.00 → value $2,100.00 | Realized +$0.00 | Unrealized +$100.00 | TWR +5.00% | MWR +11.20%/yr\n\nTotal P&L: +$100.00 (realized +$0.00, unrealized +$100.00)"
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "When did I deposit into my vaults?" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "Your Yield Delta Portfolio:\n\nTotal Value: $2,100.00\n\nPositions:\n• Delta Neutral Vault: 1,000 shares ($2,100.00) +$100.00 gains ✓ Can withdraw\n\nTotal Unrealized Gains: +$100.00\n\nAll your positions are available for withdrawal.\n\nVault Activity:\n• Mar 3, 2025: Deposited 1,500.00 into Delta Neutral Vault (750 shares)\n• Apr 12, 2025: Deposited 500.00 into Delta Neutral Vault (250 shares)\n\nTotal Deposited: 2,000.00 | Total Withdrawn: 0.00"
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Show portfolio for treasury" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "Yield Delta Portfolio for group \"treasury\" (2 addresses):\n\nTotal Value: $12,600.00\n\nPositions:\n• USDC Vault: 8,000 shares ($8,000.00) +$160.00 gains, 2 addresses, ✓ Can withdraw\n• Delta Neutral Vault: 2,300 shares ($4,600.00) +$230.00 gains, 1 address, $0.00 withdrawable\n\nTotal Unrealized Gains: +$390.00\n\nBy Address:\n• 0x1234...7890: $9,600.00 (76.2%) +$310.00 gains, 2 positions\n• 0xabcd...ef12: $3,000.00 (23.8%) +$80.00 gains, 1 position"
+                }
+            }
         ]
     ]
 };
 
+async function handleGroupPortfolio(
+    runtime: IAgentRuntime,
+    group: AddressGroup,
+    messageText: string,
+    callback?: HandlerCallback
+): Promise<void> {
+    elizaLogger.info(`Fetching portfolio for address group "${group.name}" (${group.addresses.length} addresses)`);
+
+    const aggregated = await vaultProvider.getAggregatedPortfolio(runtime, group.addresses);
+    const portfolios = toCombinedPositions(aggregated);
+
+    const wantsActivity = isActivityQuery(messageText);
+    const wantsPnL = isPnLQuery(messageText);
+    let activity: VaultLedgerEntry[] = [];
+    if (wantsActivity || wantsPnL) {
+        try {
+            activity = await vaultEventIndexer.getGroupLedger(runtime, group.addresses);
+        } catch (error) {
+            elizaLogger.warn(`Failed to load vault activity for group ${group.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    let response = formatGroupPortfolioResponse(group, aggregated, portfolios);
+    if (wantsActivity && activity.length > 0) {
+        response += formatActivitySection(activity, true);
+    }
+
+    // The group is treated as a single holder: lots from every address, valued at combined balances
+    let pnl: PositionPnL[] = [];
+    if (wantsPnL && activity.length > 0) {
+        const currentByVault = Object.fromEntries(
+            portfolios.map(p => [p.vaultAddress.toLowerCase(), { shareBalance: p.shareBalance, shareValue: p.shareValue }])
+        );
+        pnl = calculatePortfolioPnL(activity, currentByVault, getCostBasisMethod(runtime, messageText));
+        response += formatPnLSection(pnl);
+    } else if (wantsPnL) {
+        response += "\n\nNo deposit history was found on-chain for this group, so P&L can't be calculated yet.";
+    }
+
+    if (callback) {
+        callback({
+            text: response,
+            content: {
+                text: response,
+                action: "PORTFOLIO_QUERY",
+                group: group.name,
+                addresses: group.addresses,
+                portfolios,
+                aggregated,
+                activity: wantsActivity ? activity : undefined,
+                pnl: wantsPnL ? pnl : undefined,
+                summary: {
+                    totalValue: aggregated.totalValue,
+                    totalGains: aggregated.totalGains,
+                    positionCount: aggregated.positionCount
+                }
+            }
+        });
+    }
+}
+
+function formatGroupPortfolioResponse(
+    group: AddressGroup,
+    aggregated: AggregatedPortfolio,
+    portfolios: FormattedCustomerPortfolio[]
+): string {
+    const usd = (value: number) => `$${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    const signed = (value: number) => `${value >= 0 ? "+" : "-"}${usd(Math.abs(value))}`;
+    const short = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+    let response = `Yield Delta Portfolio for group "${group.name}" (${group.addresses.length} address${group.addresses.length === 1 ? "" : "es"}):\n\n`;
+
+    if (portfolios.length === 0) {
+        response += "None of these addresses have positions in Yield Delta vaults.";
+    } else {
+        response += `Total Value: ${usd(aggregated.totalValue)}\n\n`;
+        response += "Positions:\n";
+        for (const vault of aggregated.byVault) {
+            const shares = vault.shareBalance.toLocaleString("en-US", { maximumFractionDigits: 0 });
+            const holders = `${vault.holders.length} address${vault.holders.length === 1 ? "" : "es"}`;
+            const withdrawable = vault.withdrawableValue >= vault.shareValue
+                ? "✓ Can withdraw"
+                : `${usd(vault.withdrawableValue)} withdrawable`;
+            response += `• ${vault.vaultName}: ${shares} shares (${usd(vault.shareValue)}) ${signed(vault.unrealizedGains)} gains, ${holders}, ${withdrawable}\n`;
+        }
+        response += `\nTotal Unrealized Gains: ${signed(aggregated.totalGains)}`;
+    }
+
+    response += "\n\nBy Address:\n";
+    for (const entry of aggregated.byAddress) {
+        if (entry.error) {
+            response += `• ${short(entry.address)}: ⚠️ couldn't be read\n`;
+            continue;
+        }
+        const share = aggregated.totalValue > 0 ? ` (${(entry.totalValue / aggregated.totalValue * 100).toFixed(1)}%)` : "";
+        response += `• ${short(entry.address)}: ${usd(entry.totalValue)}${share} ${signed(entry.totalGains)} gains, ${entry.positions.length} position${entry.positions.length === 1 ? "" : "s"}\n`;
+    }
+
+    return response.trimEnd();
+}
+
 function formatPortfolioResponse(
     portfolios: FormattedCustomerPortfolio[],
     totalValue: number,
@@ -364,3 +629,53 @@ function formatPortfolioResponse(
 
     return response;
 }
+
+function formatActivitySection(activity: VaultLedgerEntry[], showAccount = false): string {
+    const formatAmount = (value: number) =>
+        value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+    // Show the most recent entries, oldest first
+    const recent = activity.slice(-10);
+
+    let section = "\n\nVault Activity:\n";
+    if (activity.length > recent.length) {
+        section += `(showing last ${recent.length} of ${activity.length} events)\n`;
+    }
+
+    for (const entry of recent) {
+        const date = new Date(entry.timestamp * 1000).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+        const shares = entry.shares.toLocaleString("en-US", { maximumFractionDigits: 2 });
+        const account = showAccount ? ` [${entry.user.slice(0, 6)}...${entry.user.slice(-4)}]` : "";
+        section += entry.type === "deposit"
+            ? `• ${date}: Deposited ${formatAmount(entry.amount)} into ${entry.vaultName} (${shares} shares)${account}\n`
+            : `• ${date}: Withdrew ${formatAmount(entry.amount)} from ${entry.vaultName} (${shares} shares)${account}\n`;
+    }
+
+    const totalDeposited = activity.filter(e => e.type === "deposit").reduce((sum, e) => sum + e.amount, 0);
+    const totalWithdrawn = activity.filter(e => e.type === "withdraw").reduce((sum, e) => sum + e.amount, 0);
+    section += `\nTotal Deposited: ${formatAmount(totalDeposited)} | Total Withdrawn: ${formatAmount(totalWithdrawn)}`;
+
+    return section;
+}
+
+function formatPnLSection(pnl: PositionPnL[]): string {
+    const formatSigned = (value: number) =>
+        `${value >= 0 ? "+" : "-"}$${Math.abs(value).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    const formatUsd = (value: number) =>
+        `$${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    const formatPct = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+    const method = pnl[0]?.method === "average" ? "average" : "FIFO";
+    let section = `\n\nP&L (${method} cost basis):\n`;
+
+    for (const position of pnl) {
+        const mwr = position.moneyWeightedReturn !== null ? ` | MWR ${formatPct(position.moneyWeightedReturn)}/yr` : "";
+        section += `• ${position.vaultName}: cost ${formatUsd(position.costBasis)} → value ${formatUsd(position.currentValue)} | Realized ${formatSigned(position.realizedPnL)} | Unrealized ${formatSigned(position.unrealizedPnL)} | TWR ${formatPct(position.timeWeightedReturn)}${mwr}\n`;
+    }
+
+    const realized = pnl.reduce((sum, p) => sum + p.realizedPnL, 0);
+    const unrealized = pnl.reduce((sum, p) => sum + p.unrealizedPnL, 0);
+    section += `\nTotal P&L: ${formatSigned(realized + unrealized)} (realized ${formatSigned(realized)}, unrealized ${formatSigned(unrealized)})`;
+
+    return section;
+}
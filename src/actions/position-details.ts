@@ -7,9 +7,10 @@ import {
     elizaLogger
 } from "@elizaos/core";
 import { vaultProvider } from "../providers/vault-provider";
+import { positionAnalytics, PositionAnalytics } from "../providers/position-analytics";
 import {
     matchVaultName,
-    VaultDisplayNames,
+    getVaultDisplayName,
     VaultName,
     FormattedPosition,
     FormattedVaultInfo
@@ -45,7 +46,7 @@ export const positionDetailsAction: Action = {
         return positionKeywords.some(keyword => content.includes(keyword));
     },
 
-    description: "Show current vault position details including tick ranges and liquidity for advanced users",
+    description: "Show current vault position details including price range, token amounts, in-range status and uncollected fees for advanced users",
 
     handler: async (
         runtime: IAgentRuntime,
@@ -82,7 +83,7 @@ export const positionDetailsAction: Action = {
             if (!vaultAddress) {
                 if (callback) {
                     callback({
-                        text: `The ${VaultDisplayNames[vaultName]} address is not configured. Please check your environment configuration.`,
+                        text: `The ${getVaultDisplayName(vaultName)} address is not configured. Please check your environment configuration.`,
                         content: {
                             text: "Vault address not configured",
                             action: "POSITION_DETAILS",
@@ -95,12 +96,22 @@ export const positionDetailsAction: Action = {
 
             elizaLogger.info(`Fetching position details for vault: ${vaultName}`);
 
+            // Live pool math when the pool can be read, otherwise the vault's own figures
+            let analytics: PositionAnalytics | null = null;
+            try {
+                analytics = await positionAnalytics.getPositionAnalytics(runtime, vaultAddress);
+            } catch (error) {
+                elizaLogger.warn(`Pool analytics unavailable for ${vaultName}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+
             // Get position and vault info
             const position = await vaultProvider.getCurrentPosition(runtime, vaultAddress);
             const info = await vaultProvider.getVaultInfo(runtime, vaultAddress);
 
             // Format response
-            const response = formatPositionDetailsResponse(vaultName, position, info);
+            const response = analytics
+                ? formatPositionAnalyticsResponse(vaultName, analytics)
+                : formatPositionDetailsResponse(vaultName, position, info);
 
             elizaLogger.info(`Position details response generated for ${vaultName}`);
 
@@ -112,6 +123,7 @@ export const positionDetailsAction: Action = {
                         action: "POSITION_DETAILS",
                         vaultName,
                         position,
+                        analytics,
                         vaultInfo: info
                     }
                 });
@@ -141,7 +153,7 @@ export const positionDetailsAction: Action = {
             {
                 name: "{{agentName}}",
                 content: {
-                    text: "Delta Neutral Vault - Current Position:\n\n📍 Tick Range:\n• Lower: -887220 (price: $0.38)\n• Upper: -886380 (price: $0.52)\n• Current: -886800 (price: $0.45)\n\n💧 Liquidity:\n• Total Liquidity: 1,234,567,890\n• Token0 (SEI): 50,000\n• Token1 (USDC): 22,500\n\n💰 Uncollected Fees:\n• SEI: 125.5\n• USDC: 56.2\n\nPosition is 65% in range. Rebalance expected when price moves outside ±5% of current range."
+                    text: "Delta Neutral Vault - Current Position (WSEI/USDC):\n\n📍 Range (USDC per WSEI):\n• Lower: 0.379254 (tick -286020)\n• Upper: 0.52123 (tick -282840)\n• Current: 0.45 (tick -284310)\n✅ In range: price can fall 15.7% or rise 15.8% before leaving it\n\n💧 Liquidity:\n• Total Liquidity: 1,234,567,890,123,456\n• WSEI: 50,012.4 ($22,505.58)\n• USDC: 22,481.9 ($22,481.90)\n• Position Value: $44,987.48\n\n💰 Uncollected Fees:\n• WSEI: 125.5\n• USDC: 56.2\n• Total: $112.68\n\nRebalance expected when price moves outside ±5% of current range."
                 }
             }
         ],
@@ -172,12 +184,52 @@ export const positionDetailsAction: Action = {
     ]
 };
 
+function formatPositionAnalyticsResponse(vaultName: VaultName, analytics: PositionAnalytics): string {
+    const displayName = getVaultDisplayName(vaultName);
+    const { token0, token1 } = analytics;
+    const pair = `${token1.symbol} per ${token0.symbol}`;
+    const usd = (value: number | null) => value === null
+        ? ""
+        : ` ($${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })})`;
+    const amount = (value: number) => value.toLocaleString("en-US", { maximumSignificantDigits: 6 });
+
+    let status: string;
+    if (analytics.inRange) {
+        status = `✅ In range: price can fall ${analytics.distanceToLower.toFixed(1)}% or rise ${analytics.distanceToUpper.toFixed(1)}% before leaving it`;
+    } else if (analytics.currentTick < analytics.tickLower) {
+        status = `⚠️ Out of range (below): price must rise ${(-analytics.distanceToLower).toFixed(1)}% to re-enter; position is all ${token0.symbol} and earns no fees`;
+    } else {
+        status = `⚠️ Out of range (above): price must fall ${(-analytics.distanceToUpper).toFixed(1)}% to re-enter; position is all ${token1.symbol} and earns no fees`;
+    }
+
+    const rebalanceThreshold = getRebalanceThreshold(vaultName);
+
+    return `${displayName} - Current Position (${token0.symbol}/${token1.symbol}):
+
+📍 Range (${pair}):
+• Lower: ${amount(analytics.priceLower)} (tick ${analytics.tickLower})
+• Upper: ${amount(analytics.priceUpper)} (tick ${analytics.tickUpper})
+• Current: ${amount(analytics.currentPrice)} (tick ${analytics.currentTick})
+${status}
+
+💧 Liquidity:
+• Total Liquidity: ${analytics.liquidity.toLocaleString("en-US", { maximumFractionDigits: 0 })}
+• ${token0.symbol}: ${amount(analytics.amount0)}${usd(analytics.token0PriceUsd === null ? null : analytics.amount0 * analytics.token0PriceUsd)}
+• ${token1.symbol}: ${amount(analytics.amount1)}${usd(analytics.token1PriceUsd === null ? null : analytics.amount1 * analytics.token1PriceUsd)}${analytics.valueUsd === null ? "" : `\n• Position Value:${usd(analytics.valueUsd)}`}
+
+💰 Uncollected Fees:
+• ${token0.symbol}: ${amount(analytics.fees0)}
+• ${token1.symbol}: ${amount(analytics.fees1)}${analytics.feesUsd === null ? "" : `\n• Total:${usd(analytics.feesUsd)}`}
+
+Rebalance expected when price moves outside ±${rebalanceThreshold}% of current range.`;
+}
+
 function formatPositionDetailsResponse(
     vaultName: VaultName,
     position: FormattedPosition,
     info: FormattedVaultInfo
 ): string {
-    const displayName = VaultDisplayNames[vaultName];
+    const displayName = getVaultDisplayName(vaultName);
 
     // Calculate in-range percentage (simplified)
     const priceRange = position.priceUpper - position.priceLower;
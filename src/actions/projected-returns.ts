@@ -7,14 +7,21 @@ import {
     elizaLogger
 } from "@elizaos/core";
 import { vaultProvider } from "../providers/vault-provider";
+import { vaultMetricsStore, realizedApy } from "../providers/vault-metrics-store";
+import { calculateNetReturn, formatBreakEven, NetReturnBreakdown } from "../providers/vault-fees";
+import { vaultHistoryEngine } from "../providers/vault-history";
+import { simulateProjection, DEFAULT_SIMULATIONS, MonteCarloProjection } from "../providers/vault-projections";
 import { SeiOracleProvider } from "../providers/sei-oracle";
 import {
     matchVaultName,
-    VaultDisplayNames,
+    getVaultDisplayName,
     VaultName,
     FormattedProjectedReturns
 } from "../types/vault";
 
+// Minimum history window the Monte Carlo projection samples from
+const MIN_HISTORY_DAYS = 90;
+
 export const projectedReturnsAction: Action = {
     name: "PROJECTED_RETURNS",
     similes: [
@@ -86,7 +93,7 @@ export const projectedReturnsAction: Action = {
             if (!vaultAddress) {
                 if (callback) {
                     callback({
-                        text: `The ${VaultDisplayNames[vaultName]} address is not configured. Please check your environment configuration.`,
+                        text: `The ${getVaultDisplayName(vaultName)} address is not configured. Please check your environment configuration.`,
                         content: {
                             text: "Vault address not configured",
                             action: "PROJECTED_RETURNS",
@@ -116,7 +123,7 @@ export const projectedReturnsAction: Action = {
 
             elizaLogger.info(`Calculating projections for ${amount} ${currency} in ${vaultName} for ${days} days`);
 
-            // Get vault metrics for current APY context
+            // Current APY and fee rates
             const metrics = await vaultProvider.getVaultMetrics(runtime, vaultAddress);
 
             // Calculate projected returns
@@ -139,6 +146,34 @@ export const projectedReturnsAction: Action = {
                 days
             );
 
+            // Also net of the performance fee, which the contract projection leaves out
+            const netReturn = calculateNetReturn(metrics, metrics.apy, depositUsdValue, days);
+
+            // Realized APY over the same window from locally recorded snapshots, if any
+            const snapshots = await vaultMetricsStore.getSnapshots(runtime, vaultAddress, {
+                fromTimestamp: Math.floor(Date.now() / 1000) - days * 86400
+            });
+            const realized = realizedApy(snapshots);
+            const historicalApy = realized === null ? null : {
+                apy: realized,
+                days: Math.round((snapshots[snapshots.length - 1].timestamp - snapshots[0].timestamp) / 86400)
+            };
+
+            // Outcome range bootstrapped from the vault's own share price history
+            let monteCarlo: MonteCarloProjection | null = null;
+            try {
+                const { history } = await vaultHistoryEngine.getYieldHistory(
+                    runtime,
+                    vaultAddress,
+                    Math.floor(Date.now() / 1000) - Math.max(days, MIN_HISTORY_DAYS) * 86400
+                );
+                monteCarlo = simulateProjection(history, metrics, depositUsdValue, days, {
+                    simulations: Number(runtime.getSetting("VAULT_MONTE_CARLO_SIMULATIONS")) || DEFAULT_SIMULATIONS
+                });
+            } catch (error) {
+                elizaLogger.warn(`No history for ${vaultName}, projection range omitted: ${error instanceof Error ? error.message : String(error)}`);
+            }
+
             // Format response
             const response = formatProjectedReturnsResponse(
                 vaultName,
@@ -147,7 +182,10 @@ export const projectedReturnsAction: Action = {
                 days,
                 depositUsdValue,
                 projections,
-                metrics.apy
+                metrics.apy,
+                netReturn,
+                historicalApy,
+                monteCarlo
             );
 
             elizaLogger.info(`Projected returns response generated for ${vaultName}`);
@@ -163,7 +201,12 @@ export const projectedReturnsAction: Action = {
                         currency,
                         days,
                         projections,
-                        currentApy: metrics.apy
+                        currentApy: metrics.apy,
+                        netReturn,
+                        netApy: netReturn.netApy,
+                        breakEvenDays: netReturn.breakEvenDays,
+                        monteCarlo,
+                        historicalApy
                     }
                 });
             }
@@ -192,7 +235,7 @@ export const projectedReturnsAction: Action = {
             {
                 name: "{{agentName}}",
                 content: {
-                    text: "Projected Returns for 1,000 SEI in Delta Neutral Vault (30 days):\n\n💰 Deposit: 1,000 SEI ($450.00)\n\n📊 Projections (based on current 12.5% APY):\n• Projected Value: $454.62\n• Gross Yield: $4.62\n• Management Fees: -$0.19\n• Net Yield: $4.43\n\n📤 On Withdrawal:\n• Withdrawal Fee: -$0.45\n• Final Value: $454.17\n\n⚠️ Note: Projections based on current APY. Actual returns may vary based on market conditions."
+                    text: "Projected Returns for 1,000 SEI in Delta Neutral Vault (30 days):\n\n💰 Deposit: 1,000 SEI ($450.00)\n\n📊 Projections (based on current 12.5% APY):\n• Projected Value: $454.62\n• Gross Yield: $4.62\n• Management Fees: -$0.19\n• Net Yield: $4.43\n\n📤 On Withdrawal:\n• Withdrawal Fee: -$0.45\n• Final Value: $454.17\n\n💸 After performance fees (-$0.42): $453.32, a net return of $3.32 (0.74%, 9.4% APY after all fees)\n⏱️ Break-even: 4 days\n\n🎲 Range from 2,000 simulations of past performance (after fees):\n• Pessimistic (P5): $451.62 (+0.36%)\n• Median (P50): $453.29 (+0.73%)\n• Optimistic (P95): $454.71 (+1.05%)\n• Contract projection: $454.17 (+0.93%)\n• Chance of loss: 0.4%\n• Expected drawdown: 0.12%\n\n⚠️ Note: Projections based on current APY. Actual returns may vary based on market conditions."
                 }
             }
         ],
@@ -204,7 +247,7 @@ export const projectedReturnsAction: Action = {
             {
                 name: "{{agentName}}",
                 content: {
-                    text: "Projected Returns for 5,000 USDC in Stable Max Vault (30 days):\n\n💰 Deposit: 5,000 USDC ($5,000.00)\n\n📊 Projections (based on current 8.2% APY):\n• Projected Value: $5,033.70\n• Gross Yield: $33.70\n• Management Fees: -$1.23\n• Net Yield: $32.47\n\n📤 On Withdrawal:\n• Withdrawal Fee: -$2.50\n• Final Value: $5,030.97\n\n⚠️ Note: Projections based on current APY. Actual returns may vary based on market conditions."
+                    text: "Projected Returns for 5,000 USDC in Stable Max Vault (30 days):\n\n💰 Deposit: 5,000 USDC ($5,000.00)\n\n📊 Projections (based on current 8.2% APY):\n• Projected Value: $5,033.70\n• Gross Yield: $33.70\n• Management Fees: -$1.23\n• Net Yield: $32.47\n\n📤 On Withdrawal:\n• Withdrawal Fee: -$2.50\n• Final Value: $5,030.97\n\n💸 After performance fees (-$1.56): $5,027.17, a net return of $27.17 (0.54%, 6.8% APY after all fees)\n⏱️ Break-even: 3 days\n\n⚠️ Note: Projections based on current APY. Actual returns may vary based on market conditions."
                 }
             }
         ],
@@ -216,7 +259,7 @@ export const projectedReturnsAction: Action = {
             {
                 name: "{{agentName}}",
                 content: {
-                    text: "Projected Returns for 10,000 USD in Arbitrage Vault (90 days):\n\n💰 Deposit: 10,000 USD ($10,000.00)\n\n📊 Projections (based on current 22.4% APY):\n• Projected Value: $10,552.05\n• Gross Yield: $552.05\n• Management Fees: -$24.66\n• Net Yield: $527.39\n\n📤 On Withdrawal:\n• Withdrawal Fee: -$20.00\n• Final Value: $10,507.39\n\n⚠️ Note: Projections based on current APY. Actual returns may vary based on market conditions."
+                    text: "Projected Returns for 10,000 USD in Arbitrage Vault (90 days):\n\n💰 Deposit: 10,000 USD ($10,000.00)\n\n📊 Projections (based on current 22.4% APY):\n• Projected Value: $10,552.05\n• Gross Yield: $552.05\n• Management Fees: -$24.66\n• Net Yield: $527.39\n\n📤 On Withdrawal:\n• Withdrawal Fee: -$20.00\n• Final Value: $10,507.39\n\n💸 After performance fees (-$72.75): $10,391.43, a net return of $391.43 (3.91%, 16.9% APY after all fees)\n⏱️ Break-even: 5 days\n\n⚠️ Note: Projections based on current APY. Actual returns may vary based on market conditions."
                 }
             }
         ]
@@ -275,29 +318,65 @@ function formatProjectedReturnsResponse(
     days: number,
     depositUsdValue: number,
     projections: FormattedProjectedReturns,
-    currentApy: number
+    currentApy: number,
+    netReturn: NetReturnBreakdown,
+    historicalApy: { apy: number; days: number } | null,
+    monteCarlo: MonteCarloProjection | null
 ): string {
-    const displayName = VaultDisplayNames[vaultName];
+    const displayName = getVaultDisplayName(vaultName);
     const amountFormatted = amount.toLocaleString("en-US", { maximumFractionDigits: 2 });
-    const depositValueFormatted = depositUsdValue.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    const usd = (value: number) => value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+    // Compare the current rate with what the vault actually delivered recently
+    let historyLine = "";
+    if (historicalApy !== null) {
+        const historicalYield = depositUsdValue * (Math.pow(1 + historicalApy.apy / 100, days / 365) - 1);
+        historyLine = `\n📈 Realized APY over the last ${historicalApy.days} days (recorded): ${historicalApy.apy.toFixed(1)}% → ~$${usd(historicalYield)} gross yield at that rate\n`;
+    }
 
     const grossYield = projections.projectedYield;
     const netYield = grossYield - projections.managementFees;
     const finalValue = projections.projectedValue - projections.withdrawalFees;
 
+    // Percentile outcomes next to the contract's single-APY figure
+    let rangeSection = "";
+    if (monteCarlo !== null) {
+        const outcome = (value: number) => {
+            const change = (value / depositUsdValue - 1) * 100;
+            return `$${usd(value)} (${change >= 0 ? "+" : ""}${change.toFixed(2)}%)`;
+        };
+        rangeSection = `\n🎲 Range from ${monteCarlo.simulations.toLocaleString("en-US")} simulations of past performance (after fees):
+• Pessimistic (P5): ${outcome(monteCarlo.p5)}
+• Median (P50): ${outcome(monteCarlo.p50)}
+• Optimistic (P95): ${outcome(monteCarlo.p95)}
+• Contract projection: ${outcome(finalValue)}
+• Chance of loss: ${monteCarlo.probabilityOfLoss.toFixed(1)}%
+• Expected drawdown: ${monteCarlo.expectedDrawdown.toFixed(2)}%
+`;
+    }
+
+    // Warn when the hold is too short to recover the withdrawal fee
+    let breakEvenLine = `⏱️ Break-even: ${formatBreakEven(netReturn.breakEvenDays)}`;
+    if (netReturn.breakEvenDays === null || days < netReturn.breakEvenDays) {
+        breakEvenLine += ` - withdrawing after ${days} days returns less than you deposited`;
+    }
+
     return `Projected Returns for ${amountFormatted} ${currency} in ${displayName} (${days} days):
 
-💰 Deposit: ${amountFormatted} ${currency} ($${depositValueFormatted})
+💰 Deposit: ${amountFormatted} ${currency} ($${usd(depositUsdValue)})
 
 📊 Projections (based on current ${currentApy.toFixed(1)}% APY):
-• Projected Value: $${projections.projectedValue.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-• Gross Yield: $${grossYield.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-• Management Fees: -$${projections.managementFees.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-• Net Yield: $${netYield.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+• Projected Value: $${usd(projections.projectedValue)}
+• Gross Yield: $${usd(grossYield)}
+• Management Fees: -$${usd(projections.managementFees)}
+• Net Yield: $${usd(netYield)}
 
 📤 On Withdrawal:
-• Withdrawal Fee: -$${projections.withdrawalFees.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-• Final Value: $${finalValue.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+• Withdrawal Fee: -$${usd(projections.withdrawalFees)}
+• Final Value: $${usd(finalValue)}
 
+💸 After performance fees (-$${usd(netReturn.performanceFees)}): $${usd(netReturn.netValue)}, a net return of ${netReturn.netReturn < 0 ? "-" : ""}$${usd(Math.abs(netReturn.netReturn))} (${netReturn.netReturnPct.toFixed(2)}%, ${netReturn.netApy.toFixed(1)}% APY after all fees)
+${breakEvenLine}
+${historyLine}${rangeSection}
 ⚠️ Note: Projections based on current APY. Actual returns may vary based on market conditions.`;
 }
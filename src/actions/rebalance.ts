@@ -9,6 +9,7 @@ import {
 import { validateSeiConfig } from "../environment";
 import { WalletProvider, seiChains } from "../providers/wallet";
 import { SeiOracleProvider } from "../providers/sei-oracle";
+import { addressResolver, findAddressInputs } from "../providers/address-resolver";
 
 // Portfolio rebalancing strategies
 interface AllocationStrategy {
@@ -359,10 +360,10 @@ export const rebalanceEvaluatorAction: Action = {
       const strategyMatch = text.match(/strategy[:\s]+([^,\n]+)/i);
       const strategyName = strategyMatch ? strategyMatch[1].trim() : undefined;
 
-      // Parse wallet address
-      const addressMatch = text.match(/(?:wallet|address)[:\s]+(0x[a-fA-F0-9]{40})/i);
-      const walletAddress = addressMatch 
-        ? addressMatch[1] 
+      // Parse wallet address (0x, or sei1 resolved to its EVM address)
+      const [addressInput] = findAddressInputs(text);
+      const walletAddress = addressInput
+        ? (await addressResolver.resolve(runtime, addressInput)).address
         : "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC"; // Default to User1 from updated deployment config
 
       if (callback) {
@@ -0,0 +1,532 @@
+import {
+    Action,
+    IAgentRuntime,
+    Memory,
+    State,
+    HandlerCallback,
+    elizaLogger
+} from "@elizaos/core";
+import { vaultProvider } from "../providers/vault-provider";
+import { RuntimeStore } from "../providers/runtime-store";
+import { isCancellation } from "../providers/pending-transactions";
+import {
+    RiskScores,
+    VaultName,
+    RiskLevel,
+    getVaultDisplayName
+} from "../types/vault";
+
+// Unanswered questionnaires are dropped after this long
+const SESSION_TTL_MS = 30 * 60 * 1000;
+const SESSION_KEY_PREFIX = "allocation-questionnaire:";
+
+// Shortest holding period used when weighing the withdrawal fee
+const MIN_FEE_WINDOW_DAYS = 30;
+
+export interface InvestorProfile {
+    horizonDays: number;
+    maxDrawdown: number; // Largest tolerable temporary loss (%)
+    liquidityDays: number | null; // How soon funds may be needed; null = no need
+}
+
+export interface AllocationCandidate {
+    vaultName: VaultName;
+    displayName: string;
+    apy: number | null; // null when metrics couldn't be read
+    riskLevel: RiskLevel;
+    withdrawalFeeRate: number;
+    isActive: boolean;
+}
+
+export interface AllocationLine {
+    vaultName: VaultName;
+    displayName: string;
+    weight: number; // Whole percent; weights sum to 100
+    apy: number;
+    riskLevel: RiskLevel;
+    reason: string;
+}
+
+export interface AllocationExclusion {
+    vaultName: VaultName;
+    displayName: string;
+    reason: string;
+}
+
+export interface AllocationRecommendation {
+    profile: InvestorProfile;
+    maxRiskLevel: RiskLevel;
+    allocations: AllocationLine[];
+    excluded: AllocationExclusion[];
+    blendedApy: number;
+}
+
+type ProfileAnswers = Partial<InvestorProfile>;
+type Question = keyof InvestorProfile;
+
+interface QuestionnaireSession {
+    answers: ProfileAnswers;
+    expiresAt: number;
+}
+
+const QUESTIONS: Record<Question, string> = {
+    horizonDays: "How long do you plan to keep this money invested? (e.g. 3 months, 2 years)",
+    maxDrawdown: "What's the largest temporary drop in value you could live with? (e.g. 5%, 15%, 30%)",
+    liquidityDays: "How soon might you need to withdraw? (e.g. anytime, within 3 months, not for years)"
+};
+
+// Requests for other actions, which can contain a percentage or a duration
+// without being questionnaire answers ("withdraw 25% from Delta Neutral")
+const OTHER_REQUEST = /\b(deposit|send|transfer|swap|stake|unstake|alert|notify|portfolio|holdings|statement|export|apy|tvl|vaults?)\b|\bwithdraw\s+(\$?\d|all\b|everything\b)|0x[a-f0-9]{40}|\bsei1/i;
+
+const sessions = new RuntimeStore();
+
+export const recommendAllocationAction: Action = {
+    name: "RECOMMEND_ALLOCATION",
+    similes: [
+        "ALLOCATION_ADVICE",
+        "SUGGEST_ALLOCATION",
+        "PORTFOLIO_SPLIT",
+        "VAULT_RECOMMENDATION"
+    ],
+
+    validate: async (runtime: IAgentRuntime, message: Memory) => {
+        const text = message.content?.text || "";
+        const content = text.toLowerCase();
+
+        // Follow-up answers to an open questionnaire
+        const session = await getSession(runtime, message);
+        if (session && !isOtherRequest(text)) {
+            return isCancellation(text) || Object.keys(parseProfileAnswers(text, missingQuestions(session.answers))).length > 0;
+        }
+
+        const allocationKeywords = [
+            "recommend an allocation",
+            "recommend allocation",
+            "suggest an allocation",
+            "allocation advice",
+            "how should i allocate",
+            "help me allocate",
+            "how should i split",
+            "split my",
+            "how should i diversify",
+            "help me diversify",
+            "diversify my",
+            "which vaults should i",
+            "where should i invest",
+            "recommend a vault",
+            "recommend vaults"
+        ];
+
+        return allocationKeywords.some(keyword => content.includes(keyword));
+    },
+
+    description: "Ask about investment horizon, drawdown tolerance and liquidity needs, then recommend a percentage split across vaults with the expected blended APY",
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<void> => {
+        try {
+            elizaLogger.info("Recommend Allocation Action triggered");
+
+            const text = message.content?.text || "";
+            const session = await getSession(runtime, message);
+
+            if (session && isCancellation(text)) {
+                await sessions.delete(runtime, sessionKey(message));
+                if (callback) {
+                    callback({
+                        text: "No problem, I've dropped the allocation questionnaire.",
+                        content: { text: "Questionnaire cancelled", action: "RECOMMEND_ALLOCATION", cancelled: true }
+                    });
+                }
+                return;
+            }
+
+            const previous = session?.answers || {};
+            const answers: ProfileAnswers = { ...previous, ...parseProfileAnswers(text, missingQuestions(previous)) };
+            const missing = missingQuestions(answers);
+
+            if (missing.length > 0) {
+                await sessions.set<QuestionnaireSession>(runtime, sessionKey(message), {
+                    answers,
+                    expiresAt: Date.now() + SESSION_TTL_MS
+                });
+
+                const intro = session
+                    ? "Thanks. Just need a bit more:"
+                    : "Happy to suggest an allocation. A few quick questions first:";
+                const response = `${intro}\n\n${missing.map((q, i) => `${i + 1}. ${QUESTIONS[q]}`).join("\n")}`;
+
+                if (callback) {
+                    callback({
+                        text: response,
+                        content: { text: response, action: "RECOMMEND_ALLOCATION", awaiting: missing, answers }
+                    });
+                }
+                return;
+            }
+
+            await sessions.delete(runtime, sessionKey(message));
+
+            const profile = answers as InvestorProfile;
+            const candidates = await loadCandidates(runtime);
+            const recommendation = recommendAllocation(profile, candidates);
+            const response = formatRecommendationResponse(recommendation);
+
+            elizaLogger.info(`Allocation recommended across ${recommendation.allocations.length} vaults`);
+
+            if (callback) {
+                callback({
+                    text: response,
+                    content: {
+                        text: response,
+                        action: "RECOMMEND_ALLOCATION",
+                        ...recommendation
+                    }
+                });
+            }
+
+        } catch (error) {
+            elizaLogger.error(`Error in recommend allocation action: ${error instanceof Error ? error.message : String(error)}`);
+
+            if (callback) {
+                callback({
+                    text: "I encountered an error while building an allocation. Please try again in a moment.",
+                    content: {
+                        error: error instanceof Error ? error.message : "Unknown error",
+                        action: "RECOMMEND_ALLOCATION"
+                    }
+                });
+            }
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "How should I split my money across the vaults?" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "Happy to suggest an allocation. A few quick questions first:\n\n1. How long do you plan to keep this money invested? (e.g. 3 months, 2 years)\n2. What's the largest temporary drop in value you could live with? (e.g. 5%, 15%, 30%)\n3. How soon might you need to withdraw? (e.g. anytime, within 3 months, not for years)",
+                    action: "RECOMMEND_ALLOCATION"
+                }
+            },
+            {
+                name: "{{user1}}",
+                content: { text: "2 years, 5%, not for years" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "Recommended Allocation\n\nProfile: 2-year horizon • up to 5% drawdown • no liquidity need\nRisk ceiling: Low\n\n• Stable Max Vault — 40% (8.2% APY, Very Low risk)\n  Very Low risk fits your profile; capped at 40% for diversification\n• Delta Neutral Vault — 33% (12.5% APY, Low risk)\n  Low risk fits your profile; weighted by 12.5% APY per unit of risk\n• Hedge Vault — 27% (10.1% APY, Low risk)\n  Low risk fits your profile; weighted by 10.1% APY per unit of risk\n\n📈 Expected blended APY: 10.1%\n\nExcluded:\n• Blue Chip Vault: Medium risk is above the Low ceiling for a 5% drawdown tolerance\n• SEI Hypergrowth Vault: High risk is above the Low ceiling for a 5% drawdown tolerance",
+                    action: "RECOMMEND_ALLOCATION"
+                }
+            }
+        ]
+    ]
+};
+
+/**
+ * Deterministic allocation: filter by risk ceiling, status, APY and withdrawal
+ * fee vs. the holding window, then weight by APY per point of risk score with a
+ * diversification cap. Same profile and metrics always give the same split.
+ */
+export function recommendAllocation(
+    profile: InvestorProfile,
+    candidates: AllocationCandidate[]
+): AllocationRecommendation {
+    const { ceiling, limitedBy } = riskCeiling(profile);
+    const maxRiskLevel = riskLevelForScore(ceiling);
+    const feeWindowDays = Math.max(MIN_FEE_WINDOW_DAYS, Math.min(profile.liquidityDays ?? profile.horizonDays, profile.horizonDays));
+
+    const included: (AllocationCandidate & { apy: number })[] = [];
+    const excluded: AllocationExclusion[] = [];
+
+    const sorted = [...candidates].sort((a, b) => a.vaultName.localeCompare(b.vaultName));
+    for (const candidate of sorted) {
+        const exclude = (reason: string) => excluded.push({ vaultName: candidate.vaultName, displayName: candidate.displayName, reason });
+
+        if (!candidate.isActive) {
+            exclude("vault is not active");
+        } else if (candidate.apy === null) {
+            exclude("live metrics unavailable");
+        } else if (candidate.apy <= 0) {
+            exclude("no positive APY right now");
+        } else if (RiskScores[candidate.riskLevel] > ceiling) {
+            exclude(limitedBy === "horizon"
+                ? `${candidate.riskLevel} risk is too much for a ${formatDays(profile.horizonDays)} horizon`
+                : `${candidate.riskLevel} risk is above the ${maxRiskLevel} ceiling for a ${profile.maxDrawdown}% drawdown tolerance`);
+        } else {
+            const windowYield = candidate.apy * feeWindowDays / 365;
+            if (candidate.withdrawalFeeRate > windowYield) {
+                exclude(`${candidate.withdrawalFeeRate.toFixed(2)}% withdrawal fee would exceed the ~${windowYield.toFixed(2)}% it earns over ${formatPeriod(feeWindowDays)}`);
+            } else {
+                included.push({ ...candidate, apy: candidate.apy });
+            }
+        }
+    }
+
+    const cap = included.length >= 3 ? 40 : included.length === 2 ? 60 : 100;
+    const rawWeights = included.map(c => c.apy / RiskScores[c.riskLevel]);
+    const weights = roundToHundred(capWeights(rawWeights, cap / 100));
+
+    const allocations: AllocationLine[] = included
+        .map((c, i) => ({
+            vaultName: c.vaultName,
+            displayName: c.displayName,
+            weight: weights[i],
+            apy: c.apy,
+            riskLevel: c.riskLevel,
+            reason: weights[i] >= cap && included.length > 1
+                ? `${c.riskLevel} risk fits your profile; capped at ${cap}% for diversification`
+                : `${c.riskLevel} risk fits your profile; weighted by ${c.apy.toFixed(1)}% APY per unit of risk`
+        }))
+        .filter(line => line.weight > 0)
+        .sort((a, b) => b.weight - a.weight || a.vaultName.localeCompare(b.vaultName));
+
+    const blendedApy = allocations.reduce((sum, line) => sum + line.apy * line.weight / 100, 0);
+
+    return { profile, maxRiskLevel, allocations, excluded, blendedApy };
+}
+
+function isOtherRequest(text: string): boolean {
+    if (OTHER_REQUEST.test(text)) return true;
+
+    // Naming a vault means the message is about that vault, not the questionnaire
+    const lower = text.toLowerCase();
+    return Object.values(VaultName).some(name => {
+        const vault = getVaultDisplayName(name).toLowerCase().replace(/ vault$/, "");
+        return new RegExp(`\\b${vault.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`).test(lower);
+    });
+}
+
+/**
+ * Pull whatever profile answers the text contains. When exactly one question
+ * is open, a bare duration or number is taken as the answer to it.
+ */
+export function parseProfileAnswers(text: string, expecting: Question[] = []): ProfileAnswers {
+    const answers: ProfileAnswers = {};
+    let rest = text.toLowerCase();
+
+    // Liquidity first, so "need it within 3 months" isn't read as the horizon
+    if (/\b(any ?time|immediately|at short notice|on demand|daily|instantly)\b/.test(rest)) {
+        answers.liquidityDays = 0;
+        rest = rest.replace(/\b(any ?time|immediately|at short notice|on demand|daily|instantly)\b/, " ");
+    } else if (/\b(not for (years|a while|a long time)|no need|(don't|do not|won't|will not) need|can lock|locked is fine|never)\b/.test(rest)) {
+        answers.liquidityDays = null;
+        rest = rest.replace(/\b(not for (years|a while|a long time)|no need|(don't|do not|won't|will not) need[^,;.\n]*|can lock|locked is fine|never)\b/, " ");
+    } else {
+        const liquidityMatch = rest.match(/(?:need|access|withdraw\w*|liquidity|cash)[^,;.\n]*?\b(?:within|in|after)\s+(?:the next\s+)?((?:\d+(?:\.\d+)?|an?|one)\s*(?:day|week|month|year)s?)/);
+        if (liquidityMatch) {
+            answers.liquidityDays = parseDuration(liquidityMatch[1]);
+            rest = rest.replace(liquidityMatch[0], " ");
+        }
+    }
+
+    const percentMatch = rest.match(/(\d+(?:\.\d+)?)\s*%/);
+    if (percentMatch) {
+        answers.maxDrawdown = parseFloat(percentMatch[1]);
+        rest = rest.replace(percentMatch[0], " ");
+    } else if (/\b(drawdown|drop|loss|lose|risk|volatil\w*)\b/.test(rest) || (expecting.length === 1 && expecting[0] === "maxDrawdown")) {
+        const tolerance = parseToleranceWord(rest);
+        if (tolerance !== null) answers.maxDrawdown = tolerance;
+    }
+
+    const durationMatch = rest.match(/((?:\d+(?:\.\d+)?|an?|one)\s*(?:day|week|month|year)s?)\b/);
+    const durationDays = durationMatch ? parseDuration(durationMatch[1]) : parseTermWord(rest);
+
+    if (durationDays !== null) {
+        // A bare duration answers the one open question, if that's liquidity
+        if (expecting.length === 1 && expecting[0] === "liquidityDays" && answers.liquidityDays === undefined) {
+            answers.liquidityDays = durationDays;
+        } else {
+            answers.horizonDays = durationDays;
+        }
+    }
+
+    // A bare number answers the drawdown question
+    if (answers.maxDrawdown === undefined && expecting.length === 1 && expecting[0] === "maxDrawdown") {
+        const bare = rest.match(/^\s*(\d+(?:\.\d+)?)\s*$/);
+        if (bare) answers.maxDrawdown = parseFloat(bare[1]);
+    }
+
+    return answers;
+}
+
+async function loadCandidates(runtime: IAgentRuntime): Promise<AllocationCandidate[]> {
+    const registered = await vaultProvider.getRegisteredVaults(runtime);
+
+    return Promise.all(registered.map(async (vault): Promise<AllocationCandidate> => {
+        const base = {
+            vaultName: vault.name,
+            displayName: vault.displayName,
+            riskLevel: vault.riskLevel,
+            isActive: vault.isActive
+        };
+
+        try {
+            const metrics = await vaultProvider.getVaultMetrics(runtime, vault.address);
+            return { ...base, apy: metrics.apy, withdrawalFeeRate: metrics.withdrawalFeeRate };
+        } catch (error) {
+            elizaLogger.warn(`No metrics for ${vault.displayName}: ${error instanceof Error ? error.message : String(error)}`);
+            return { ...base, apy: null, withdrawalFeeRate: 0 };
+        }
+    }));
+}
+
+// Highest risk score the profile allows, and which answer sets it
+function riskCeiling(profile: InvestorProfile): { ceiling: number; limitedBy: "drawdown" | "horizon" } {
+    const byDrawdown = profile.maxDrawdown <= 3 ? 1
+        : profile.maxDrawdown <= 8 ? 2
+        : profile.maxDrawdown <= 15 ? 3
+        : profile.maxDrawdown <= 25 ? 4
+        : 5;
+    const byHorizon = profile.horizonDays < 90 ? 2
+        : profile.horizonDays < 365 ? 4
+        : 5;
+
+    return byHorizon < byDrawdown
+        ? { ceiling: byHorizon, limitedBy: "horizon" }
+        : { ceiling: byDrawdown, limitedBy: "drawdown" };
+}
+
+function riskLevelForScore(score: number): RiskLevel {
+    const entry = Object.entries(RiskScores).find(([_, value]) => value === score);
+    return (entry ? entry[0] : "High") as RiskLevel;
+}
+
+// Normalize to fractions summing to 1 with none above `cap`, redistributing the excess
+function capWeights(raw: number[], cap: number): number[] {
+    const total = raw.reduce((sum, w) => sum + w, 0);
+    if (total <= 0) return raw.map(() => 0);
+
+    let weights = raw.map(w => w / total);
+    for (let i = 0; i < raw.length; i++) {
+        const over = weights.filter(w => w > cap + 1e-12);
+        if (over.length === 0) break;
+
+        const excess = weights.reduce((sum, w) => sum + Math.max(0, w - cap), 0);
+        const freeTotal = weights.filter(w => w < cap - 1e-12).reduce((sum, w) => sum + w, 0);
+        weights = weights.map(w => {
+            if (w >= cap - 1e-12) return cap;
+            return freeTotal > 0 ? w + excess * w / freeTotal : w;
+        });
+    }
+    return weights;
+}
+
+// Whole percentages summing to exactly 100 (largest remainder, ties by position)
+function roundToHundred(fractions: number[]): number[] {
+    if (fractions.length === 0) return [];
+
+    const exact = fractions.map(f => f * 100);
+    const rounded = exact.map(Math.floor);
+    let remaining = 100 - rounded.reduce((sum, w) => sum + w, 0);
+
+    const order = exact
+        .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+        .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+    for (const { index } of order) {
+        if (remaining <= 0) break;
+        rounded[index]++;
+        remaining--;
+    }
+    return rounded;
+}
+
+function parseDuration(value: string): number {
+    const match = value.match(/(\d+(?:\.\d+)?|an?|one)\s*(day|week|month|year)/);
+    if (!match) return 0;
+
+    const count = /^\d/.test(match[1]) ? parseFloat(match[1]) : 1;
+    const unitDays = { day: 1, week: 7, month: 30, year: 365 }[match[2] as "day" | "week" | "month" | "year"];
+    return Math.round(count * unitDays);
+}
+
+function parseTermWord(text: string): number | null {
+    if (/\bshort[- ]term\b/.test(text)) return 90;
+    if (/\b(medium|mid)[- ]term\b/.test(text)) return 365;
+    if (/\blong[- ]term\b/.test(text)) return 3 * 365;
+    return null;
+}
+
+function parseToleranceWord(text: string): number | null {
+    if (/\b(none|no loss|nothing|can't afford|cannot afford|very low|minimal)\b/.test(text)) return 2;
+    if (/\b(low|small|conservative)\b/.test(text)) return 5;
+    if (/\b(moderate|medium|some)\b/.test(text)) return 15;
+    if (/\b(high|large|aggressive|a lot)\b/.test(text)) return 30;
+    return null;
+}
+
+function missingQuestions(answers: ProfileAnswers): Question[] {
+    return (Object.keys(QUESTIONS) as Question[]).filter(q => answers[q] === undefined);
+}
+
+async function getSession(runtime: IAgentRuntime, message: Memory): Promise<QuestionnaireSession | undefined> {
+    const session = await sessions.get<QuestionnaireSession>(runtime, sessionKey(message));
+    if (!session) return undefined;
+
+    if (session.expiresAt < Date.now()) {
+        await sessions.delete(runtime, sessionKey(message));
+        return undefined;
+    }
+    return session;
+}
+
+function sessionKey(message: Memory): string {
+    return `${SESSION_KEY_PREFIX}${message.roomId}:${message.entityId}`;
+}
+
+// "2 years", "3 months", "10 days"
+function formatPeriod(days: number): string {
+    const [count, unit] = days >= 365 && days % 365 === 0 ? [days / 365, "year"]
+        : days >= 30 && days % 30 === 0 ? [days / 30, "month"]
+        : [days, "day"];
+    return `${count} ${unit}${count === 1 ? "" : "s"}`;
+}
+
+// "2-year", "3-month", "10-day"
+function formatDays(days: number): string {
+    return formatPeriod(days).replace(/ (\w+?)s?$/, "-$1");
+}
+
+function formatRecommendationResponse(recommendation: AllocationRecommendation): string {
+    const { profile, maxRiskLevel, allocations, excluded, blendedApy } = recommendation;
+
+    const liquidity = profile.liquidityDays === null
+        ? "no liquidity need"
+        : profile.liquidityDays === 0
+        ? "may withdraw anytime"
+        : `may withdraw within ${formatPeriod(profile.liquidityDays)}`;
+
+    let response = `Recommended Allocation\n\n`;
+    response += `Profile: ${formatDays(profile.horizonDays)} horizon • up to ${profile.maxDrawdown}% drawdown • ${liquidity}\n`;
+    response += `Risk ceiling: ${maxRiskLevel}\n\n`;
+
+    if (allocations.length === 0) {
+        response += `None of the configured vaults fit this profile right now, so I'd keep the funds liquid for the moment.\n`;
+    } else {
+        response += allocations
+            .map(line => `• ${line.displayName} — ${line.weight}% (${line.apy.toFixed(1)}% APY, ${line.riskLevel} risk)\n  ${line.reason}`)
+            .join("\n");
+        response += `\n\n📈 Expected blended APY: ${blendedApy.toFixed(1)}%\n`;
+    }
+
+    if (excluded.length > 0) {
+        response += `\nExcluded:\n`;
+        response += excluded.map(e => `• ${e.displayName}: ${e.reason}`).join("\n");
+        response += `\n`;
+    }
+
+    response += `\n⚠️ Based on current APYs, which change over time. Ask again with the same answers to re-run against live metrics.`;
+    return response;
+}
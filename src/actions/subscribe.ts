@@ -0,0 +1,235 @@
+import {
+    Action,
+    IAgentRuntime,
+    Memory,
+    State,
+    HandlerCallback,
+    elizaLogger
+} from "@elizaos/core";
+import type { Address } from "viem";
+import { vaultProvider } from "../providers/vault-provider";
+import { initWalletProvider } from "../providers/wallet";
+import { addressResolver, addressErrorResponse, AddressResolutionError } from "../providers/address-resolver";
+import {
+    subscriptionEngine,
+    parseSubscriptionRule,
+    describeRule,
+    isPositionRule,
+    SubscriptionRule
+} from "../providers/subscriptions";
+import { getVaultDisplayName, matchVaultName, VaultName } from "../types/vault";
+
+const SUBSCRIBE_KEYWORDS = [
+    "alert me",
+    "notify me",
+    "tell me when",
+    "tell me if",
+    "let me know when",
+    "let me know if",
+    "ping me",
+    "warn me",
+    "message me when",
+    "remind me when"
+];
+
+export const subscribeAlertAction: Action = {
+    name: "SUBSCRIBE_ALERT",
+    similes: [
+        "CREATE_ALERT",
+        "SET_ALERT",
+        "WATCH_POSITION",
+        "PRICE_ALERT",
+        "LOCK_EXPIRY_ALERT"
+    ],
+
+    validate: async (runtime: IAgentRuntime, message: Memory) => {
+        const content = message.content?.text?.toLowerCase() || "";
+        return SUBSCRIBE_KEYWORDS.some(keyword => content.includes(keyword))
+            && parseSubscriptionRule(content) !== null;
+    },
+
+    description: "Subscribe to an alert on a vault position (value, gains, shares, lock expiry) or vault metric (APY, TVL, share price); the agent messages the user in this room when it triggers",
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<void> => {
+        try {
+            elizaLogger.info("Subscribe Alert Action triggered");
+
+            const text = message.content?.text || "";
+            const draft = parseSubscriptionRule(text);
+
+            if (!draft) {
+                if (callback) {
+                    callback({
+                        text: "I couldn't work out what to watch. Try something like:\n• 'Alert me if my Delta Neutral position drops below $900'\n• 'Notify me when Stable Max APY goes above 8%'\n• 'Tell me when my SEI Vault lock expires'",
+                        content: {
+                            text: "Subscription not understood",
+                            action: "SUBSCRIBE_ALERT",
+                            error: "No rule found"
+                        }
+                    });
+                }
+                return;
+            }
+
+            await vaultProvider.initialize(runtime);
+
+            let ownerAddress: Address | undefined;
+            if (isPositionRule(draft.metric)) {
+                ownerAddress = await resolveOwnerAddress(runtime, text);
+                if (!ownerAddress) {
+                    if (callback) {
+                        callback({
+                            text: "Position alerts need a wallet. Include the address (e.g. 'alert me if 0x1234…'s Delta Neutral position drops below $900') or configure the agent wallet.",
+                            content: {
+                                text: "No wallet address",
+                                action: "SUBSCRIBE_ALERT",
+                                error: "No wallet address found"
+                            }
+                        });
+                    }
+                    return;
+                }
+            }
+
+            let vaultNames: VaultName[];
+            if (draft.vaultName) {
+                vaultNames = [draft.vaultName];
+            } else if (draft.metric === "lockExpiry") {
+                // "tell me when my lock expires": watch every position that is still locked
+                const portfolio = await vaultProvider.getCustomerPortfolio(runtime, ownerAddress!);
+                vaultNames = portfolio
+                    .filter(p => !p.canWithdraw && p.lockTimeRemaining > 0)
+                    .map(p => vaultProvider.getVaultNameByAddress(p.vaultAddress) || matchVaultName(p.vaultName))
+                    .filter((name): name is VaultName => name !== null);
+
+                if (vaultNames.length === 0) {
+                    if (callback) {
+                        callback({
+                            text: "None of your vault positions are locked right now, so there's nothing to watch. You can already withdraw from all of them.",
+                            content: {
+                                text: "No locked positions",
+                                action: "SUBSCRIBE_ALERT",
+                                rules: []
+                            }
+                        });
+                    }
+                    return;
+                }
+            } else {
+                if (callback) {
+                    callback({
+                        text: "Which vault should I watch? For example: 'Alert me if my Delta Neutral position drops below $900'.",
+                        content: {
+                            text: "Vault not identified",
+                            action: "SUBSCRIBE_ALERT",
+                            error: "No vault name found"
+                        }
+                    });
+                }
+                return;
+            }
+
+            const rules: SubscriptionRule[] = [];
+            for (const vaultName of vaultNames) {
+                rules.push(await subscriptionEngine.create(runtime, message, {
+                    vaultName,
+                    metric: draft.metric,
+                    operator: draft.operator,
+                    threshold: draft.threshold,
+                    ownerAddress
+                }));
+            }
+
+            elizaLogger.info(`Created subscription(s) ${rules.map(rule => `#${rule.id}`).join(", ")} on ${vaultNames.map(getVaultDisplayName).join(", ")}`);
+
+            const response = formatCreatedResponse(rules);
+
+            if (callback) {
+                callback({
+                    text: response,
+                    content: {
+                        text: response,
+                        action: "SUBSCRIBE_ALERT",
+                        rules
+                    }
+                });
+            }
+
+        } catch (error) {
+            if (error instanceof AddressResolutionError) {
+                if (callback) {
+                    callback(addressErrorResponse(error, "SUBSCRIBE_ALERT"));
+                }
+                return;
+            }
+
+            elizaLogger.error(`Error in subscribe alert action: ${error instanceof Error ? error.message : String(error)}`);
+
+            if (callback) {
+                callback({
+                    text: "I encountered an error while setting up your alert. Please try again in a moment.",
+                    content: {
+                        error: error instanceof Error ? error.message : "Unknown error",
+                        action: "SUBSCRIBE_ALERT"
+                    }
+                });
+            }
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Alert me if my Delta Neutral position drops below $900" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "✅ Alert set:\n• #1 Delta Neutral Vault position value below $900.00 (0xBFC1…3d7c)\n\nI'll message you here when it triggers. Say 'list my alerts' to review, edit or delete it.",
+                    action: "SUBSCRIBE_ALERT"
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Tell me when my lock expires" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "✅ Alerts set:\n• #2 SEI Vault: notify when the lock expires\n• #3 USDC Vault: notify when the lock expires\n\nI'll message you here when they trigger. Say 'list my alerts' to review, edit or delete them.",
+                    action: "SUBSCRIBE_ALERT"
+                }
+            }
+        ]
+    ]
+};
+
+async function resolveOwnerAddress(runtime: IAgentRuntime, text: string): Promise<Address | undefined> {
+    const resolved = await addressResolver.resolveFromText(runtime, text);
+    if (resolved) return resolved.address;
+
+    try {
+        const walletProvider = await initWalletProvider(runtime);
+        return walletProvider.getAddress() || undefined;
+    } catch (error) {
+        elizaLogger.warn(`No agent wallet for subscription: ${error instanceof Error ? error.message : String(error)}`);
+        return undefined;
+    }
+}
+
+function formatCreatedResponse(rules: SubscriptionRule[]): string {
+    const plural = rules.length > 1;
+    let response = `✅ Alert${plural ? "s" : ""} set:\n`;
+    response += rules.map(rule => `• ${describeRule(rule)}`).join("\n");
+    response += `\n\nI'll message you here when ${plural ? "they trigger" : "it triggers"}. Say 'list my alerts' to review, edit or delete ${plural ? "them" : "it"}.`;
+    return response;
+}
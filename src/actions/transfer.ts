@@ -1,4 +1,20 @@
-import { ByteArray, formatEther, parseEther, type Hex } from "viem";
+import {
+    ByteArray,
+    encodeFunctionData,
+    erc20Abi,
+    formatEther,
+    formatUnits,
+    parseEther,
+    parseUnits,
+    zeroAddress,
+    type Account,
+    type Address,
+    type Chain,
+    type Hex,
+    type PublicClient,
+    type Transport,
+    type WalletClient
+} from "viem";
 import {
     elizaLogger,
     AgentRuntime,
@@ -14,13 +30,18 @@ import {
 } from "@elizaos/core";
 
 import { WalletProvider } from "../providers/wallet";
-import { ADDRESS_PRECOMPILE_ABI, ADDRESS_PRECOMPILE_ADDRESS, ChainWithName } from "../types";
+import { addressResolver, findAddressInputs, isSeiAddress, stripAddresses } from "../providers/address-resolver";
+import { addressBook, findContactAtStart, AddressBookContact } from "../providers/address-book";
+import { TOKEN_ADDRESSES, getTokenAddress, type SeiNetworkName } from "../environment";
+import { ChainWithName } from "../types";
 import { sei, seiTestnet } from "viem/chains";
 
 // Create simplified interfaces to avoid deep type instantiation
 interface TransferParams {
     amount: string;
     toAddress: string;
+    recipientName?: string; // Address book contact the recipient came from
+    token?: string; // TOKEN_ADDRESSES symbol or ERC20 address; native SEI when unset
     data?: string;
 }
 
@@ -30,8 +51,18 @@ interface Transaction {
     to: string;
     value: string;
     data: string;
+    token?: Address; // ERC20 contract, unset for native SEI
+    symbol: string;
 }
 
+// Symbols with a configured token address (the same set on every network)
+const TOKEN_SYMBOLS = Object.keys(TOKEN_ADDRESSES["sei-mainnet"]);
+const AMOUNT_WITH_SYMBOL = new RegExp(`(\\d+(?:\\.\\d+)?)\\s*(${TOKEN_SYMBOLS.join("|")})\\b`, "i");
+// The recipient slot: whatever follows "to", up to punctuation
+const RECIPIENT_SLOT = /\bto\s+([^,.;!?]+)/i;
+// "100 of token 0x…", "erc20 0x…"
+const TOKEN_ADDRESS_IN_TEXT = /\b(?:token|erc20)\s+(0x[a-fA-F0-9]{40})\b/i;
+
 export const transferTemplate = `You are an AI assistant specialized in processing cryptocurrency transfer requests. Your task is to extract specific information from user messages and format it into a structured JSON response.
 
 First, review the recent messages from the conversation:
@@ -41,19 +72,22 @@ First, review the recent messages from the conversation:
 </recent_messages>
 
 Your goal is to extract the following information about the requested transfer:
-1. Amount to transfer in SEI
+1. Amount to transfer
 2. Recipient address
+3. Token to transfer, if it isn't native SEI (a symbol such as USDC, or an ERC20 token address)
 
 Before providing the final JSON output, show your reasoning process inside <analysis> tags. Follow these steps:
 
 1. Identify the relevant information from the user's message:
    - Quote the part mentioning the amount.
    - Quote the part mentioning the recipient address.
+   - Quote the part mentioning the token, if any.
 
 2. Validate each piece of information:
    - Amount: Attempt to convert the amount to a number to verify it's valid.
    - Address: Check that it either starts with "0x" or "sei1", and ensure that the address contains 42 characters,
    - Chain: Check that the chain is either mainnet, testnet, devnet or
+   - Token: Check that it is either a token symbol or an address starting with "0x" with 42 characters. Leave it null for native SEI.
 
 3. If any information is missing or invalid, prepare an appropriate error message.
 
@@ -66,11 +100,13 @@ After your analysis, provide the final output in a JSON markdown block. All fiel
 {
     "amount": string,
     "toAddress": string,
+    "token": string | null
 }
 \`\`\`
 
 Remember:
-- The amount should be a string representing the SEI amount without any currency symbol.
+- The amount should be a string representing the token amount without any currency symbol.
+- The token should be the symbol (e.g. "USDC") or the token contract address, or null when sending SEI.
 - The recipient address must be a valid Ethereum address starting with "0x" or a vald SEI address startng with "sei1".
 
 Now, process the user's request and provide your response.
@@ -88,45 +124,23 @@ export class TransferAction {
             `Transferring: ${params.amount} tokens to ${params.toAddress} on ${chain.name}`
         );
         
-        let recipientAddress: `0x${string}`;
-
-        // Handle SEI bech32 address conversion
-        if (params.toAddress.startsWith("sei")) {
-            const publicClient = this.walletProvider.getEvmPublicClient();
-            
-            try {
-                const evmAddress = await publicClient.readContract({
-                    address: ADDRESS_PRECOMPILE_ADDRESS as `0x${string}`,
-                    abi: ADDRESS_PRECOMPILE_ABI,
-                    functionName: 'getEvmAddr',
-                    args: [params.toAddress],
-                } as any);
-
-                if (!evmAddress || typeof evmAddress !== 'string' || !evmAddress.startsWith("0x")) {
-                    throw new Error(`ERROR: Recipient does not have valid EVM address. Got: ${evmAddress}`);
-                }
-
-                elizaLogger.log(`Translated address ${params.toAddress} to EVM address ${evmAddress}`);
-                recipientAddress = evmAddress as `0x${string}`;
-            } catch (error: unknown) {
-                // Fix the error handling here
-                const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-                throw new Error(`Failed to translate SEI address: ${errorMessage}`);
-            }
-        } else {
-            // Handle EVM address
-            if (!params.toAddress.startsWith("0x") || params.toAddress.length !== 42) {
-                throw new Error(`ERROR: Recipient address must be valid EVM address (0x...). Got: ${params.toAddress}`);
-            }
-            recipientAddress = params.toAddress as `0x${string}`;
-        }
+        // sei1 recipients are resolved through the address precompile on the wallet's chain
+        const { address: recipientAddress } = await addressResolver.resolveWithClient(
+            this.walletProvider.getEvmPublicClient(),
+            params.toAddress
+        );
 
         // Get wallet client and validate account
-        const walletClient = this.walletProvider.getEvmWalletClient();
+        const walletClient: WalletClient<Transport, Chain, Account> | undefined = this.walletProvider.getEvmWalletClient();
         if (!walletClient?.account?.address) {
             throw new Error("Wallet client account is undefined or invalid");
         }
 
+        const token = await this.resolveToken(params.token);
+        if (token) {
+            return this.transferToken(params, token, recipientAddress, walletClient);
+        }
+
         try {
             // Execute the transfer
             elizaLogger.log(`Sending transaction from ${walletClient.account.address} to ${recipientAddress}`);
@@ -138,14 +152,14 @@ export class TransferAction {
                 data: (params.data as Hex) || '0x',
             };
 
-            // Use type assertion to avoid deep type issues
-            const hash = await (walletClient as any).sendTransaction(transactionRequest);
+            const hash = await walletClient.sendTransaction(transactionRequest);
 
             if (!hash || typeof hash !== 'string') {
                 throw new Error('Invalid transaction hash received');
             }
 
-            elizaLogger.log(`Transaction sent successfully. Hash: ${hash}`);
+            await this.confirm(hash);
+            elizaLogger.log(`Transaction confirmed. Hash: ${hash}`);
 
             return {
                 hash,
@@ -153,6 +167,7 @@ export class TransferAction {
                 to: params.toAddress,
                 value: parseEther(params.amount).toString(),
                 data: (params.data as Hex) || '0x',
+                symbol: "SEI",
             };
 
         } catch (error: unknown) {
@@ -163,6 +178,102 @@ export class TransferAction {
         }
     }
 
+    /**
+     * ERC20 contract for a TOKEN_ADDRESSES symbol or a token address on the
+     * wallet's network. Null for native SEI.
+     */
+    async resolveToken(token?: string): Promise<Address | null> {
+        if (!token) return null;
+
+        let address: string;
+        if (token.startsWith("0x")) {
+            // Validates the checksum of a mixed-case token address
+            address = (await addressResolver.resolveWithClient(this.walletProvider.getEvmPublicClient(), token)).address;
+        } else {
+            try {
+                address = getTokenAddress(this.walletProvider.getCurrentChain().name as SeiNetworkName, token);
+            } catch {
+                throw new Error(`Unknown token ${token}. Use one of ${TOKEN_SYMBOLS.join(", ")} or an ERC20 token address`);
+            }
+        }
+
+        return address.toLowerCase() === zeroAddress ? null : address as Address;
+    }
+
+    /**
+     * Send an ERC20 token after reading its decimals and checking the wallet holds enough
+     */
+    private async transferToken(params: TransferParams, token: Address, recipient: Address, walletClient: WalletClient<Transport, Chain, Account>): Promise<Transaction> {
+        const publicClient = this.walletProvider.getEvmPublicClient();
+        const from = walletClient.account.address;
+
+        const decimals = await this.readDecimals(token);
+        const symbol = params.token?.startsWith("0x") ? await this.readSymbol(token) : String(params.token).toUpperCase();
+        const amount = parseUnits(params.amount, decimals);
+
+        const balance: bigint = await publicClient.readContract({ address: token, abi: erc20Abi, functionName: "balanceOf", args: [from] });
+        if (balance < amount) {
+            throw new Error(`Insufficient ${symbol} balance: have ${formatUnits(balance, decimals)}, need ${params.amount}`);
+        }
+
+        try {
+            elizaLogger.log(`Sending ${params.amount} ${symbol} (${token}) from ${from} to ${recipient}`);
+
+            const hash = await walletClient.writeContract({
+                account: walletClient.account,
+                address: token,
+                abi: erc20Abi,
+                functionName: "transfer",
+                args: [recipient, amount]
+            });
+
+            if (!hash || typeof hash !== 'string') {
+                throw new Error('Invalid transaction hash received');
+            }
+
+            await this.confirm(hash);
+            elizaLogger.log(`Token transfer confirmed. Hash: ${hash}`);
+
+            return {
+                hash,
+                from,
+                to: params.toAddress,
+                value: amount.toString(),
+                data: encodeFunctionData({ abi: erc20Abi, functionName: "transfer", args: [recipient, amount] }),
+                token,
+                symbol,
+            };
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            elizaLogger.error(`Token transfer failed: ${errorMessage}`);
+            throw new Error(`Transfer failed: ${errorMessage}`);
+        }
+    }
+
+    // A sent transaction only counts as a transfer once it is mined without reverting
+    private async confirm(hash: Hex): Promise<void> {
+        const receipt = await this.walletProvider.getEvmPublicClient().waitForTransactionReceipt({ hash });
+        if (receipt.status !== "success") {
+            throw new Error(`Transaction reverted: ${hash}`);
+        }
+    }
+
+    private async readDecimals(token: Address): Promise<number> {
+        try {
+            return Number(await this.walletProvider.getEvmPublicClient().readContract({ address: token, abi: erc20Abi, functionName: "decimals" }));
+        } catch {
+            throw new Error(`${token} doesn't look like an ERC20 token: its decimals could not be read`);
+        }
+    }
+
+    private async readSymbol(token: Address): Promise<string> {
+        try {
+            return String(await this.walletProvider.getEvmPublicClient().readContract({ address: token, abi: erc20Abi, functionName: "symbol" }));
+        } catch {
+            return `${token.slice(0, 6)}...${token.slice(-4)}`;
+        }
+    }
+
     /**
      * Validate transfer parameters before execution
      */
@@ -177,8 +288,8 @@ export class TransferAction {
 
         // Validate SEI bech32 address format
         if (params.toAddress.startsWith('sei')) {
-            if (params.toAddress.length !== 43) {
-                throw new Error('Invalid SEI address: must be 43 characters long');
+            if (!isSeiAddress(params.toAddress)) {
+                throw new Error('Invalid SEI address: must be a sei1 address with a valid checksum');
             }
         }
         // Validate EVM address format
@@ -198,28 +309,27 @@ export class TransferAction {
         try {
             this.validateParams(params);
             
-            const publicClient = this.walletProvider.getEvmPublicClient();
+            const publicClient: PublicClient = this.walletProvider.getEvmPublicClient();
             const walletClient = this.walletProvider.getEvmWalletClient();
             
             if (!walletClient?.account?.address) {
                 throw new Error("Wallet account not available for gas estimation");
             }
 
-            let recipientAddress: `0x${string}`;
-            
-            if (params.toAddress.startsWith("sei")) {
-                const evmAddress = await publicClient.readContract({
-                    address: ADDRESS_PRECOMPILE_ADDRESS as `0x${string}`,
-                    abi: ADDRESS_PRECOMPILE_ABI,
-                    functionName: 'getEvmAddr',
-                    args: [params.toAddress],
-                } as any);
-                recipientAddress = evmAddress as `0x${string}`;
-            } else {
-                recipientAddress = params.toAddress as `0x${string}`;
+            const { address: recipientAddress } = await addressResolver.resolveWithClient(publicClient, params.toAddress);
+
+            const token = await this.resolveToken(params.token);
+            if (token) {
+                return await publicClient.estimateContractGas({
+                    account: walletClient.account.address,
+                    address: token,
+                    abi: erc20Abi,
+                    functionName: "transfer",
+                    args: [recipientAddress, parseUnits(params.amount, await this.readDecimals(token))],
+                });
             }
 
-            const gasEstimate = await (publicClient as any).estimateGas({
+            const gasEstimate = await publicClient.estimateGas({
                 account: walletClient.account.address,
                 to: recipientAddress,
                 value: parseEther(params.amount),
@@ -232,7 +342,7 @@ export class TransferAction {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
             elizaLogger.error(`Gas estimation failed: ${errorMessage}`);
             // Return a conservative estimate if estimation fails
-            return BigInt(21000);
+            return params.token ? BigInt(65000) : BigInt(21000);
         }
     }
 }
@@ -259,18 +369,26 @@ export const transferAction: Action = {
                 return false;
             }
 
-            return (
+            if (!(
                 (text.includes("transfer") || text.includes("send") || text.includes("move")) &&
-                (text.includes("sei") || text.includes("token")) &&
-                (text.includes("0x") || text.includes("sei1"))
-            );
+                (text.includes("sei") || text.includes("token") || AMOUNT_WITH_SYMBOL.test(text))
+            )) {
+                return false;
+            }
+
+            // The recipient is an address, or a contact from the user's address book named after "to"
+            if (text.includes("0x") || text.includes("sei1")) {
+                return true;
+            }
+            const slot = findRecipientSlot(text);
+            return !!slot && findContactAtStart(slot, await addressBook.list(runtime, message.entityId)) !== null;
         } catch (error: unknown) {
             const errorMessage = getErrorMessage(error);
             elizaLogger.error(`Transfer validation error: ${errorMessage}`);
             return false;
         }
     },
-    description: "Transfer SEI tokens between addresses on the Sei network",
+    description: "Transfer SEI or ERC20 tokens (by symbol or token address) to a 0x address, sei1 address or address book contact on the Sei network",
     handler: async (
         runtime: IAgentRuntime,
         message: Memory,
@@ -296,18 +414,23 @@ export const transferAction: Action = {
                 const chainName = String(walletProvider.getCurrentChain().name);
                 const hash = String(transferResp.hash);
                 const recipient = String(transferResp.to);
-                const amount = String(params.amount);
-                const toAddress = String(params.toAddress);
+                const amount = `${params.amount} ${transferResp.symbol}`;
+                const toAddress = params.recipientName
+                    ? `${params.recipientName} (${params.toAddress})`
+                    : String(params.toAddress);
                 
-                const successMessage = `✅ Successfully transferred ${amount} SEI to ${toAddress}\n\n📄 Transaction Hash: ${hash}\n🔗 Chain: ${chainName}`;
+                const successMessage = `✅ Successfully transferred ${amount} to ${toAddress}\n\n📄 Transaction Hash: ${hash}\n🔗 Chain: ${chainName}`;
                 
                 const response = {
                     text: successMessage,
                     content: {
                         success: true,
                         hash,
-                        amount,
+                        amount: String(params.amount),
+                        token: transferResp.token,
+                        symbol: transferResp.symbol,
                         recipient,
+                        recipientName: params.recipientName,
                         chain: chainName,
                     },
                 };
@@ -362,6 +485,34 @@ export const transferAction: Action = {
                 },
             },
         ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "Send 5 SEI to treasury",
+                },
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "Transferring 5 SEI to treasury from your address book",
+                },
+            },
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: {
+                    text: "Send 25 USDC to 0x742d35Cc6634C0532925a3b844Bc454e4438f44e",
+                },
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "Transferring 25 USDC to 0x742d35Cc6634C0532925a3b844Bc454e4438f44e",
+                },
+            },
+        ],
     ],
 };
 
@@ -400,10 +551,15 @@ async function buildTransferDetails(message: Memory, runtime: IAgentRuntime): Pr
             throw new Error("Empty message text");
         }
 
-        const params = parseTransferParams(messageText);
+        // Without an address in the message, the recipient may be a saved contact ("send 5 SEI to alice")
+        const { rest } = splitTokenAddress(messageText);
+        const contact = findAddressInputs(rest).length === 0
+            ? await resolveRecipientContact(runtime, message, rest)
+            : null;
+        const params = parseTransferParams(messageText, contact);
         
         if (!params) {
-            throw new Error("Could not parse transfer parameters. Please specify amount and recipient address.\n\nExample: 'Send 100 SEI to 0x742d35Cc6634C0532925a3b844Bc454e4438f44e'");
+            throw new Error("Could not parse transfer parameters. Please specify amount and recipient address or contact name.\n\nExample: 'Send 100 SEI to 0x742d35Cc6634C0532925a3b844Bc454e4438f44e'");
         }
         
         return params;
@@ -415,26 +571,71 @@ async function buildTransferDetails(message: Memory, runtime: IAgentRuntime): Pr
 }
 
 // Enhanced parseTransferParams with better validation
-function parseTransferParams(text: string): TransferParams | null {
+function parseTransferParams(text: string, contact: AddressBookContact | null = null): TransferParams | null {
     // Ensure text is valid
     if (!text || typeof text !== 'string' || !text.trim()) {
         return null;
     }
 
-    // Extract amount and address using regex
-    const amountMatch = text.match(/(\d+(?:\.\d+)?)\s*(?:SEI|sei)/i);
-    const addressMatch = text.match(/(0x[a-fA-F0-9]{40}|sei1[a-z0-9]{38})/);
+    // Extract amount, token and address using regex
+    const { tokenAddress, rest } = splitTokenAddress(text);
+    const amountText = stripAddresses(rest);
+    const symbolMatch = amountText.match(AMOUNT_WITH_SYMBOL);
+    const amount = symbolMatch?.[1] ?? (tokenAddress ? amountText.match(/\b(\d+(?:\.\d+)?)\b/)?.[1] : undefined);
+    const toAddress = findAddressInputs(rest)[0] ?? contact?.address;
     
-    if (!amountMatch || !addressMatch) {
+    if (!amount || !toAddress) {
         return null;
     }
+
+    const token = tokenAddress ?? symbolMatch?.[2].toUpperCase();
     
     return {
-        amount: amountMatch[1],
-        toAddress: addressMatch[1]
+        amount,
+        toAddress,
+        recipientName: contact?.name,
+        token: token === "SEI" ? undefined : token
     };
 }
 
+/**
+ * The contact named in the recipient slot ("to alice"). Names anywhere else in
+ * the message are ignored, and an unknown name in the slot is an error rather
+ * than a reason to look further, since this decides where funds go.
+ */
+async function resolveRecipientContact(runtime: IAgentRuntime, message: Memory, text: string): Promise<AddressBookContact | null> {
+    const slot = findRecipientSlot(text)?.trim();
+    if (!slot) return null;
+
+    const contact = findContactAtStart(slot, await addressBook.list(runtime, message.entityId));
+    if (!contact) {
+        const name = slot.split(/\s+/)[0];
+        throw new Error(`"${name}" isn't in your address book. Save it first (e.g. 'save 0x… as ${name}') or send to a 0x or sei1 address`);
+    }
+    return contact;
+}
+
+/**
+ * The "to" slot naming the recipient: the first one after the amount, so
+ * "I want to send 5 SEI to alice" reads alice. Without an amount and symbol,
+ * the last "to" in the message.
+ */
+function findRecipientSlot(text: string): string | undefined {
+    const amount = text.match(AMOUNT_WITH_SYMBOL);
+    if (amount?.index !== undefined) {
+        const afterAmount = text.slice(amount.index + amount[0].length).match(RECIPIENT_SLOT);
+        if (afterAmount) return afterAmount[1];
+    }
+    const slots = Array.from(text.matchAll(new RegExp(RECIPIENT_SLOT, "gi")));
+    return slots[slots.length - 1]?.[1];
+}
+
+// "send 100 of token 0x… to 0x…": the token address isn't the recipient
+function splitTokenAddress(text: string): { tokenAddress?: string; rest: string } {
+    const match = text.match(TOKEN_ADDRESS_IN_TEXT);
+    return match ? { tokenAddress: match[1], rest: text.replace(match[1], " ") } : { rest: text };
+}
+
 // Update your initWalletProvider function
 async function initWalletProvider(runtime: IAgentRuntime): Promise<WalletProvider> {
     try {
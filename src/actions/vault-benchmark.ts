@@ -0,0 +1,224 @@
+import {
+    Action,
+    IAgentRuntime,
+    Memory,
+    State,
+    HandlerCallback,
+    elizaLogger
+} from "@elizaos/core";
+import { vaultProvider } from "../providers/vault-provider";
+import { vaultBenchmarkEngine, VaultBenchmark, BenchmarkName } from "../providers/vault-benchmark";
+import {
+    matchVaultName,
+    getVaultDisplayName,
+    VaultName
+} from "../types/vault";
+
+const DEFAULT_WINDOW_DAYS = 30;
+
+const BENCHMARK_ORDER: BenchmarkName[] = ["token0", "token1", "fiftyFifty", "stablecoin"];
+
+export const vaultBenchmarkAction: Action = {
+    name: "VAULT_BENCHMARK",
+    similes: [
+        "BENCHMARK_VAULT",
+        "VAULT_VS_HODL",
+        "COMPARE_TO_HOLDING",
+        "EXCESS_RETURN"
+    ],
+
+    validate: async (runtime: IAgentRuntime, message: Memory) => {
+        const content = message.content?.text?.toLowerCase() || "";
+
+        const benchmarkKeywords = [
+            "benchmark",
+            "hodl",
+            "vs holding",
+            "versus holding",
+            "than holding",
+            "than just holding",
+            "than simply holding",
+            "beat holding",
+            "beats holding",
+            "outperform",
+            "excess return"
+        ];
+
+        return benchmarkKeywords.some(keyword => content.includes(keyword)) && matchVaultName(content) !== null;
+    },
+
+    description: "Benchmark a vault's return against holding its underlying tokens (100% token0, 100% token1, 50/50) and a stablecoin over a time window",
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<void> => {
+        try {
+            elizaLogger.info("Vault Benchmark Action triggered");
+
+            const content = message.content?.text || "";
+            const vaultName = matchVaultName(content);
+
+            if (!vaultName) {
+                if (callback) {
+                    callback({
+                        text: "I couldn't identify which vault you want to benchmark. Please specify a vault name like 'Delta Neutral', 'Stable Max', 'SEI Hypergrowth', etc.",
+                        content: {
+                            text: "Vault not identified",
+                            action: "VAULT_BENCHMARK",
+                            error: "No vault name found"
+                        }
+                    });
+                }
+                return;
+            }
+
+            await vaultProvider.initialize(runtime);
+            const vaultAddress = vaultProvider.getVaultAddress(vaultName);
+
+            if (!vaultAddress) {
+                if (callback) {
+                    callback({
+                        text: `The ${getVaultDisplayName(vaultName)} address is not configured. Please check your environment configuration.`,
+                        content: {
+                            text: "Vault address not configured",
+                            action: "VAULT_BENCHMARK",
+                            error: "Vault address missing"
+                        }
+                    });
+                }
+                return;
+            }
+
+            const days = extractWindowDays(content);
+            const fromTimestamp = Math.floor(Date.now() / 1000) - days * 86400;
+
+            elizaLogger.info(`Benchmarking ${vaultName} over the last ${days} days`);
+
+            const benchmark = await vaultBenchmarkEngine.benchmarkVault(runtime, vaultAddress, fromTimestamp);
+            const response = formatBenchmarkResponse(vaultName, days, benchmark);
+
+            if (callback) {
+                callback({
+                    text: response,
+                    content: {
+                        text: response,
+                        action: "VAULT_BENCHMARK",
+                        vaultName,
+                        days,
+                        benchmark
+                    }
+                });
+            }
+
+        } catch (error) {
+            elizaLogger.error(`Error in vault benchmark action: ${error instanceof Error ? error.message : String(error)}`);
+
+            if (callback) {
+                callback({
+                    text: "I encountered an error while benchmarking the vault. Please try again in a moment.",
+                    content: {
+                        error: error instanceof Error ? error.message : "Unknown error",
+                        action: "VAULT_BENCHMARK"
+                    }
+                });
+            }
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Did Delta Neutral beat just holding SEI and USDC over the last 90 days?" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "Delta Neutral Vault vs HODL (last 90 days, Aug 20 - Nov 18):\n\n📈 Vault: +2.84% (USD)\n\n• 100% WSEI: -18.20% → vault +21.04 pts ✅\n• 100% USDC: +0.01% → vault +2.83 pts ✅\n• 50/50 WSEI/USDC: -9.10% → vault +11.94 pts ✅\n• USDC (stablecoin): +0.01% → vault +2.83 pts ✅\n\n🧭 The vault beat all 4 benchmarks over this window.",
+                    action: "VAULT_BENCHMARK"
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Benchmark SEI Hypergrowth against hodl for 30 days" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "SEI Hypergrowth Vault vs HODL (last 30 days, Oct 19 - Nov 18):\n\n📈 Vault: +14.60% (USD)\n\n• 100% WSEI: +17.30% → vault -2.70 pts ❌\n• 100% USDC: +0.00% → vault +14.60 pts ✅\n• 50/50 WSEI/USDC: +8.65% → vault +5.95 pts ✅\n• USDC (stablecoin): +0.00% → vault +14.60 pts ✅\n\n🧭 The vault beat 3 of 4 benchmarks; holding 100% WSEI did better by 2.70 pts.",
+                    action: "VAULT_BENCHMARK"
+                }
+            }
+        ]
+    ]
+};
+
+function extractWindowDays(content: string): number {
+    const lowerContent = content.toLowerCase();
+
+    const match = lowerContent.match(/(\d+)\s*(day|week|month|year)/);
+    if (match) {
+        const count = parseInt(match[1], 10);
+        const unitDays = { day: 1, week: 7, month: 30, year: 365 }[match[2] as "day" | "week" | "month" | "year"];
+        return Math.max(1, count * unitDays);
+    }
+
+    if (/\b(ytd|year to date)\b/.test(lowerContent)) {
+        const now = new Date();
+        return Math.max(1, Math.ceil((now.getTime() - Date.UTC(now.getUTCFullYear(), 0, 1)) / 86400000));
+    }
+    if (lowerContent.includes("week")) return 7;
+    if (lowerContent.includes("month")) return 30;
+    if (lowerContent.includes("year")) return 365;
+
+    return DEFAULT_WINDOW_DAYS;
+}
+
+function formatBenchmarkResponse(vaultName: VaultName, days: number, benchmark: VaultBenchmark): string {
+    const displayName = getVaultDisplayName(vaultName);
+    const percent = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+    const points = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)} pts`;
+    const date = (timestamp: number) => new Date(timestamp * 1000).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+
+    let response = `${displayName} vs HODL (last ${days} days, ${date(benchmark.fromTimestamp)} - ${date(benchmark.toTimestamp)}):\n\n`;
+
+    if (benchmark.vaultReturn === null) {
+        response += `📈 Vault: ${percent(benchmark.vaultAssetReturn)} in share price\n\n`;
+        response += "⚠️ No USD price history for the vault asset, so excess returns can't be computed for this window.";
+        return response;
+    }
+
+    response += `📈 Vault: ${percent(benchmark.vaultReturn)} (USD)\n\n`;
+
+    for (const name of BENCHMARK_ORDER) {
+        const result = benchmark.benchmarks[name];
+        if (result.return === null || result.excess === null) {
+            response += `• ${result.label}: price history unavailable\n`;
+        } else {
+            response += `• ${result.label}: ${percent(result.return)} → vault ${points(result.excess)} ${result.excess >= 0 ? "✅" : "❌"}\n`;
+        }
+    }
+
+    const scored = BENCHMARK_ORDER.map(name => benchmark.benchmarks[name]).filter(r => r.excess !== null);
+    const beaten = scored.filter(r => r.excess! >= 0);
+
+    if (scored.length > 0) {
+        if (beaten.length === scored.length) {
+            response += `\n🧭 The vault beat all ${scored.length} benchmarks over this window.`;
+        } else if (beaten.length === 0) {
+            const closest = [...scored].sort((a, b) => b.excess! - a.excess!)[0];
+            response += `\n🧭 The vault trailed every benchmark; the closest was ${closest.label} (${points(closest.excess!)}).`;
+        } else {
+            const best = [...scored].sort((a, b) => a.excess! - b.excess!)[0];
+            response += `\n🧭 The vault beat ${beaten.length} of ${scored.length} benchmarks; holding ${best.label} did better by ${Math.abs(best.excess!).toFixed(2)} pts.`;
+        }
+    }
+
+    return response;
+}
@@ -0,0 +1,503 @@
+import {
+    erc20Abi,
+    formatUnits,
+    parseEventLogs,
+    parseUnits,
+    type Address
+} from "viem";
+import {
+    Action,
+    IAgentRuntime,
+    Memory,
+    State,
+    HandlerCallback,
+    elizaLogger
+} from "@elizaos/core";
+import { vaultProvider } from "../providers/vault-provider";
+import { WalletProvider, initWalletProvider } from "../providers/wallet";
+import { SeiOracleProvider } from "../providers/sei-oracle";
+import {
+    pendingTransactions,
+    isConfirmation,
+    isCancellation
+} from "../providers/pending-transactions";
+import {
+    matchVaultName,
+    getVaultDisplayName,
+    VaultName,
+    STRATEGY_VAULT_ABI
+} from "../types/vault";
+
+const SHARE_DECIMALS = 18;
+
+// Everything needed to send the deposit after confirmation. Amounts are
+// base-unit strings so the preview survives a round trip through the cache.
+export interface VaultDepositPreview {
+    vaultName: VaultName;
+    vaultAddress: Address;
+    asset: string;
+    assetAddress: Address | null; // null for native SEI
+    decimals: number;
+    amount: string;
+    amountBaseUnits: string;
+    usdAmount: number | null; // Set when the request was in dollars
+    assetPriceUsd: number | null;
+    walletBalance: string;
+    currentAllowance: string | null;
+    needsApproval: boolean;
+    expectedShares: string;
+    sharesSource: "simulation" | "share-price";
+    fees: {
+        managementFeeRate: number;
+        performanceFeeRate: number;
+        withdrawalFeeRate: number;
+    } | null;
+    receiver: Address;
+}
+
+export interface DepositRequest {
+    vaultName: VaultName;
+    amount: string;
+    denomination: "asset" | "usd";
+}
+
+export interface VaultDepositResult {
+    hash: `0x${string}`;
+    approvalHash: `0x${string}` | null;
+    sharesMinted: string;
+    amountDeposited: string;
+}
+
+// Exported for tests
+export class VaultDepositAction {
+    constructor(
+        private runtime: IAgentRuntime,
+        private walletProvider: WalletProvider
+    ) {}
+
+    /**
+     * Check balance and allowance and simulate the deposit, without sending
+     * anything. Dollar amounts are converted to the vault asset at the oracle price.
+     */
+    async preview(vaultName: VaultName, requested: string, denomination: DepositRequest["denomination"] = "asset"): Promise<VaultDepositPreview> {
+        if (!requested || isNaN(Number(requested)) || Number(requested) <= 0) {
+            throw new Error("Invalid amount: must be a positive number");
+        }
+
+        await vaultProvider.initialize(this.runtime);
+        const vaultAddress = vaultProvider.getVaultAddress(vaultName);
+        if (!vaultAddress) {
+            throw new Error(`The ${getVaultDisplayName(vaultName)} address is not configured`);
+        }
+
+        const publicClient = this.walletProvider.getEvmPublicClient();
+        const receiver = this.walletProvider.getAddress();
+
+        // The vault's token0; refuses to preview when it can't be read
+        const { symbol: asset, address: assetAddress, decimals } = await vaultProvider.getVaultAsset(this.runtime, vaultAddress);
+
+        let amount = requested;
+        let usdAmount: number | null = null;
+        let assetPriceUsd: number | null = null;
+        if (denomination === "usd") {
+            usdAmount = Number(requested);
+            assetPriceUsd = await this.getAssetPriceUsd(asset);
+            if (assetPriceUsd === null || !(assetPriceUsd > 0)) {
+                throw new Error(`Couldn't price ${asset} in USD; give the amount in ${asset} instead, e.g. 'deposit 100 ${asset} into ${getVaultDisplayName(vaultName)}'`);
+            }
+            amount = formatUnits(parseUnits((usdAmount / assetPriceUsd).toFixed(Math.min(decimals, 18)), decimals), decimals);
+        }
+        const amountBaseUnits = parseUnits(amount, decimals);
+
+        const balance: bigint = assetAddress
+            ? await publicClient.readContract({ address: assetAddress, abi: erc20Abi, functionName: "balanceOf", args: [receiver] })
+            : await publicClient.getBalance({ address: receiver });
+
+        if (balance < amountBaseUnits) {
+            throw new Error(`Insufficient ${asset} balance: have ${formatUnits(balance, decimals)}, need ${amount}`);
+        }
+
+        let currentAllowance: bigint | null = null;
+        if (assetAddress) {
+            currentAllowance = await publicClient.readContract({
+                address: assetAddress,
+                abi: erc20Abi,
+                functionName: "allowance",
+                args: [receiver, vaultAddress]
+            }) as bigint;
+        }
+        const needsApproval = currentAllowance !== null && currentAllowance < amountBaseUnits;
+
+        const { shares, source } = await this.estimateShares(vaultAddress, amountBaseUnits, decimals, receiver, assetAddress, needsApproval);
+
+        let fees: VaultDepositPreview["fees"] = null;
+        try {
+            const metrics = await vaultProvider.getVaultMetrics(this.runtime, vaultAddress);
+            fees = {
+                managementFeeRate: metrics.managementFeeRate,
+                performanceFeeRate: metrics.performanceFeeRate,
+                withdrawalFeeRate: metrics.withdrawalFeeRate
+            };
+        } catch (error) {
+            elizaLogger.warn(`Fee rates unavailable for ${vaultAddress}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        return {
+            vaultName,
+            vaultAddress,
+            asset,
+            assetAddress,
+            decimals,
+            amount,
+            amountBaseUnits: amountBaseUnits.toString(),
+            usdAmount,
+            assetPriceUsd,
+            walletBalance: formatUnits(balance, decimals),
+            currentAllowance: currentAllowance !== null ? formatUnits(currentAllowance, decimals) : null,
+            needsApproval,
+            expectedShares: formatUnits(shares, SHARE_DECIMALS),
+            sharesSource: source,
+            fees,
+            receiver
+        };
+    }
+
+    /**
+     * Approve (if needed) and send seiOptimizedDeposit, returning the shares
+     * minted according to the SEIOptimizedDeposit event
+     */
+    async execute(preview: VaultDepositPreview): Promise<VaultDepositResult> {
+        const walletClient = this.walletProvider.getEvmWalletClient();
+        const publicClient = this.walletProvider.getEvmPublicClient();
+        if (!walletClient?.account?.address) {
+            throw new Error("Wallet client account is undefined or invalid");
+        }
+
+        const amount = BigInt(preview.amountBaseUnits);
+        let approvalHash: `0x${string}` | null = null;
+
+        if (preview.assetAddress && preview.needsApproval) {
+            elizaLogger.log(`Approving ${preview.amount} ${preview.asset} for ${preview.vaultAddress}`);
+            approvalHash = await walletClient.writeContract({
+                account: walletClient.account,
+                address: preview.assetAddress,
+                abi: erc20Abi,
+                functionName: "approve",
+                args: [preview.vaultAddress, amount]
+            });
+            const approvalReceipt = await publicClient.waitForTransactionReceipt({ hash: approvalHash });
+            if (approvalReceipt.status !== "success") {
+                throw new Error(`Approval transaction reverted: ${approvalHash}`);
+            }
+        }
+
+        elizaLogger.log(`Depositing ${preview.amount} ${preview.asset} into ${preview.vaultAddress}`);
+        const hash: `0x${string}` = await walletClient.writeContract({
+            account: walletClient.account,
+            address: preview.vaultAddress,
+            abi: STRATEGY_VAULT_ABI,
+            functionName: "seiOptimizedDeposit",
+            args: [amount, preview.receiver],
+            value: preview.assetAddress ? 0n : amount
+        });
+
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== "success") {
+            throw new Error(`Deposit transaction reverted: ${hash}`);
+        }
+
+        const [event] = parseEventLogs({
+            abi: STRATEGY_VAULT_ABI,
+            eventName: "SEIOptimizedDeposit",
+            logs: receipt.logs
+        }) as unknown as { args: { amount: bigint; shares: bigint } }[];
+
+        if (!event) {
+            throw new Error(`Deposit confirmed but no SEIOptimizedDeposit event was found in ${hash}`);
+        }
+
+        return {
+            hash,
+            approvalHash,
+            sharesMinted: formatUnits(event.args.shares, SHARE_DECIMALS),
+            amountDeposited: formatUnits(event.args.amount, preview.decimals)
+        };
+    }
+
+    private async getAssetPriceUsd(asset: string): Promise<number | null> {
+        if (asset === "USDC") return 1;
+        try {
+            const feed = await new SeiOracleProvider(this.runtime).getPrice(asset);
+            return feed ? feed.price : null;
+        } catch (error) {
+            elizaLogger.warn(`Price lookup for ${asset} failed: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
+        }
+    }
+
+    // Simulate when the call can succeed as-is; before approval the simulation
+    // would revert, so fall back to the current share price
+    private async estimateShares(
+        vaultAddress: Address,
+        amount: bigint,
+        decimals: number,
+        receiver: Address,
+        assetAddress: Address | null,
+        needsApproval: boolean
+    ): Promise<{ shares: bigint; source: VaultDepositPreview["sharesSource"] }> {
+        const publicClient = this.walletProvider.getEvmPublicClient();
+
+        if (!needsApproval) {
+            try {
+                const { result } = await publicClient.simulateContract({
+                    account: receiver,
+                    address: vaultAddress,
+                    abi: STRATEGY_VAULT_ABI,
+                    functionName: "seiOptimizedDeposit",
+                    args: [amount, receiver],
+                    value: assetAddress ? 0n : amount
+                });
+                return { shares: result as bigint, source: "simulation" };
+            } catch (error) {
+                throw new Error(`Deposit simulation failed: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        const [totalAssets, totalSupply] = await Promise.all([
+            publicClient.readContract({ address: vaultAddress, abi: STRATEGY_VAULT_ABI, functionName: "totalAssets" }),
+            publicClient.readContract({ address: vaultAddress, abi: STRATEGY_VAULT_ABI, functionName: "totalSupply" })
+        ]) as [bigint, bigint];
+
+        const scaled = amount * 10n ** BigInt(SHARE_DECIMALS) / 10n ** BigInt(decimals);
+        const shares = totalSupply === 0n || totalAssets === 0n
+            ? scaled
+            : amount * totalSupply / totalAssets;
+
+        return { shares, source: "share-price" };
+    }
+}
+
+/**
+ * Parse "deposit 100 USDC into the usdc vault" / "deposit $1,500 in delta neutral".
+ * A bare number is an amount of the vault's asset; dollar amounts need "$" or
+ * "usd" and are converted at the asset's USD price.
+ */
+export function parseDepositRequest(text: string): DepositRequest | null {
+    const vaultName = matchVaultName(text);
+    if (!vaultName) return null;
+
+    const number = "(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)";
+    const usd = text.match(new RegExp(`\\$\\s*${number}`)) ||
+        text.match(new RegExp(`${number}\\s*(?:usd|dollars?)\\b`, "i"));
+    if (usd) {
+        return { vaultName, amount: usd[1].replace(/,/g, ""), denomination: "usd" };
+    }
+
+    const amount = text.match(new RegExp(number));
+    if (!amount) return null;
+    return { vaultName, amount: amount[1].replace(/,/g, ""), denomination: "asset" };
+}
+
+export const vaultDepositAction: Action = {
+    name: "VAULT_DEPOSIT",
+    similes: [
+        "DEPOSIT_TO_VAULT",
+        "DEPOSIT_INTO_VAULT",
+        "VAULT_INVEST",
+        "ADD_TO_VAULT"
+    ],
+
+    validate: async (runtime: IAgentRuntime, message: Memory) => {
+        const privateKey = runtime.getSetting("SEI_PRIVATE_KEY");
+        if (!privateKey || !String(privateKey).startsWith("0x")) {
+            return false;
+        }
+
+        const text = message.content?.text || "";
+        const lower = text.toLowerCase();
+
+        // Second turn of a previewed deposit
+        if (isConfirmation(text) || isCancellation(text)) {
+            return !!(await pendingTransactions.get(runtime, message, "vault-deposit"));
+        }
+
+        const informational = ["optimal", "ratio", "how should", "how much", "history", "when did", "my deposits", "if i deposit", "project"];
+        if (!lower.includes("deposit") || informational.some(keyword => lower.includes(keyword))) {
+            return false;
+        }
+
+        return parseDepositRequest(text) !== null;
+    },
+
+    description: "Deposit into a Yield Delta vault via seiOptimizedDeposit after previewing shares and fees and getting explicit confirmation",
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<void> => {
+        try {
+            elizaLogger.info("Vault Deposit Action triggered");
+
+            const text = message.content?.text || "";
+            const pending = await pendingTransactions.get<VaultDepositPreview>(runtime, message, "vault-deposit");
+
+            if (pending && isCancellation(text)) {
+                await pendingTransactions.clear(runtime, message, "vault-deposit");
+                if (callback) {
+                    callback({
+                        text: `Cancelled the deposit of ${pending.params.amount} ${pending.params.asset} into ${getVaultDisplayName(pending.params.vaultName)}. Nothing was sent.`,
+                        content: { text: "Deposit cancelled", action: "VAULT_DEPOSIT", cancelled: true }
+                    });
+                }
+                return;
+            }
+
+            const walletProvider = await initWalletProvider(runtime);
+            const depositAction = new VaultDepositAction(runtime, walletProvider);
+
+            if (pending && isConfirmation(text)) {
+                // Clear first so a repeated "yes" can never send twice
+                await pendingTransactions.clear(runtime, message, "vault-deposit");
+                const preview = pending.params;
+
+                const result = await depositAction.execute(preview);
+                const response = formatDepositResult(preview, result);
+
+                if (callback) {
+                    callback({
+                        text: response,
+                        content: {
+                            text: response,
+                            action: "VAULT_DEPOSIT",
+                            success: true,
+                            vaultName: preview.vaultName,
+                            vaultAddress: preview.vaultAddress,
+                            ...result
+                        }
+                    });
+                }
+                return;
+            }
+
+            const request = parseDepositRequest(text);
+            if (!request) {
+                if (callback) {
+                    callback({
+                        text: "Please tell me how much to deposit and into which vault, e.g. 'Deposit 100 USDC into the USDC vault'.",
+                        content: { text: "Deposit request incomplete", action: "VAULT_DEPOSIT", error: "Missing amount or vault" }
+                    });
+                }
+                return;
+            }
+
+            const preview = await depositAction.preview(request.vaultName, request.amount, request.denomination);
+            await pendingTransactions.create(runtime, message, "vault-deposit", preview);
+
+            const response = formatDepositPreview(preview);
+
+            if (callback) {
+                callback({
+                    text: response,
+                    content: {
+                        text: response,
+                        action: "VAULT_DEPOSIT",
+                        awaitingConfirmation: true,
+                        preview
+                    }
+                });
+            }
+
+        } catch (error) {
+            elizaLogger.error(`Vault deposit error: ${error}`);
+
+            if (callback) {
+                callback({
+                    text: `❌ Vault deposit failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+                    content: {
+                        error: error instanceof Error ? error.message : "Unknown error",
+                        action: "VAULT_DEPOSIT"
+                    }
+                });
+            }
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Deposit 100 USDC into the USDC vault" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "Deposit Preview - USDC Vault\n\nAmount: 100 USDC\nWallet Balance: 250.5 USDC\nApproval: required (current allowance 0 USDC)\nExpected Shares: ~98.7654 (at current share price)\n\nFees: management 2.00%/yr | performance 20.00% | withdrawal 0.50%\n\nReply 'confirm' to send this deposit or 'cancel' to abort. This preview expires in 10 minutes."
+                }
+            },
+            {
+                name: "{{user1}}",
+                content: { text: "confirm" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "✅ Deposited 100 USDC into USDC Vault\n\nShares Minted: 98.7654\n📄 Transaction Hash: 0xabc...\n🔓 Approval Hash: 0xdef..."
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Deposit $1,500 in SEI Hypergrowth" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "Deposit Preview - SEI Hypergrowth Vault\n\nAmount: 3750 SEI ($1,500 at $0.4000/SEI)\nWallet Balance: 5000 SEI\nExpected Shares: 3,712.5 (simulated)\n\nFees: management 2.00%/yr | performance 20.00% | withdrawal 0.50%\n\nReply 'confirm' to send this deposit or 'cancel' to abort. This preview expires in 10 minutes."
+                }
+            }
+        ]
+    ]
+};
+
+function formatDepositPreview(preview: VaultDepositPreview): string {
+    const shares = Number(preview.expectedShares).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+    let response = `Deposit Preview - ${getVaultDisplayName(preview.vaultName)}\n\n`;
+    response += preview.usdAmount !== null && preview.assetPriceUsd !== null
+        ? `Amount: ${preview.amount} ${preview.asset} ($${preview.usdAmount.toLocaleString("en-US", { maximumFractionDigits: 2 })} at $${preview.assetPriceUsd.toFixed(4)}/${preview.asset})\n`
+        : `Amount: ${preview.amount} ${preview.asset}\n`;
+    response += `Wallet Balance: ${preview.walletBalance} ${preview.asset}\n`;
+
+    if (preview.assetAddress) {
+        response += preview.needsApproval
+            ? `Approval: required (current allowance ${preview.currentAllowance} ${preview.asset}) - an approve transaction will be sent first\n`
+            : `Approval: not needed\n`;
+    }
+
+    response += preview.sharesSource === "simulation"
+        ? `Expected Shares: ${shares} (simulated)\n`
+        : `Expected Shares: ~${shares} (at current share price)\n`;
+
+    if (preview.fees) {
+        response += `\nFees: management ${preview.fees.managementFeeRate.toFixed(2)}%/yr | performance ${preview.fees.performanceFeeRate.toFixed(2)}% | withdrawal ${preview.fees.withdrawalFeeRate.toFixed(2)}%\n`;
+    }
+
+    response += `\nReply 'confirm' to send this deposit or 'cancel' to abort. This preview expires in 10 minutes.`;
+    return response;
+}
+
+function formatDepositResult(preview: VaultDepositPreview, result: VaultDepositResult): string {
+    const shares = Number(result.sharesMinted).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+    let response = `✅ Deposited ${result.amountDeposited} ${preview.asset} into ${getVaultDisplayName(preview.vaultName)}\n\n`;
+    response += `Shares Minted: ${shares}\n`;
+    response += `📄 Transaction Hash: ${result.hash}`;
+    if (result.approvalHash) {
+        response += `\n🔓 Approval Hash: ${result.approvalHash}`;
+    }
+    return response;
+}
@@ -7,13 +7,10 @@ import {
     elizaLogger
 } from "@elizaos/core";
 import { vaultProvider } from "../providers/vault-provider";
+import { netApy } from "../providers/vault-fees";
 import {
     VaultName,
-    VaultDisplayNames,
-    VaultStrategies,
-    VaultRiskLevels,
-    RiskLevel,
-    FormattedVaultInfo
+    RiskLevel
 } from "../types/vault";
 
 export const vaultListAction: Action = {
@@ -61,8 +58,9 @@ export const vaultListAction: Action = {
         try {
             elizaLogger.info("Vault List Action triggered");
 
-            // Get all vaults
-            const vaults = await vaultProvider.getAllVaults(runtime);
+            // Get all vaults (env-configured plus any discovered through the factory)
+            const vaults = (await vaultProvider.getRegisteredVaults(runtime))
+                .filter(vault => vault.info);
 
             if (vaults.length === 0) {
                 if (callback) {
@@ -83,21 +81,16 @@ export const vaultListAction: Action = {
 
             for (const vault of vaults) {
                 try {
-                    const vaultName = getVaultNameFromInfo(vault.name);
-                    if (!vaultName) continue;
-
-                    const address = vaultProvider.getVaultAddress(vaultName);
-                    if (!address) continue;
-
-                    const metrics = await vaultProvider.getVaultMetrics(runtime, address);
+                    const metrics = await vaultProvider.getVaultMetrics(runtime, vault.address);
 
                     vaultData.push({
-                        name: vaultName,
-                        displayName: VaultDisplayNames[vaultName],
+                        name: vault.name,
+                        displayName: vault.displayName,
                         apy: metrics.apy,
+                        netApy: netApy(metrics, metrics.apy),
                         tvl: metrics.totalValueLocked,
-                        risk: VaultRiskLevels[vaultName],
-                        strategy: VaultStrategies[vaultName]
+                        risk: vault.riskLevel,
+                        strategy: vault.strategy
                     });
                 } catch (error) {
                     elizaLogger.warn(`Failed to get metrics for vault ${vault.name}: ${error}`);
@@ -147,7 +140,7 @@ export const vaultListAction: Action = {
             {
                 name: "{{agentName}}",
                 content: {
-                    text: "Available Yield Delta Vaults:\n\n🟡 SEI Hypergrowth Vault\n   APY: 24.8% | TVL: $456K | Risk: High\n   Strategy: Leveraged SEI exposure\n\n🟡 Arbitrage Vault\n   APY: 22.4% | TVL: $234K | Risk: Medium-High\n   Strategy: Cross-DEX arbitrage\n\n🟢 Yield Farming Vault\n   APY: 18.7% | TVL: $345K | Risk: Medium\n   Strategy: Optimized LP farming\n\n🔵 Concentrated Liquidity Vault\n   APY: 16.9% | TVL: $567K | Risk: Medium\n   Strategy: Active CL position management\n\n🔵 Blue Chip Vault\n   APY: 15.3% | TVL: $2.1M | Risk: Medium\n   Strategy: BTC/ETH diversified yield\n\n🔵 Delta Neutral Vault\n   APY: 12.5% | TVL: $1.23M | Risk: Low\n   Strategy: Delta-neutral yield with IL protection\n\n🟠 Hedge Vault\n   APY: 10.1% | TVL: $678K | Risk: Low\n   Strategy: Hedged positions with downside protection\n\n🟢 Stable Max Vault\n   APY: 8.2% | TVL: $890K | Risk: Very Low\n   Strategy: Stablecoin optimization\n\nUse 'vault metrics [name]' for detailed info on any vault."
+                    text: "Available Yield Delta Vaults:\n\n🟡 SEI Hypergrowth Vault\n   APY: 24.8% (net 18.0%) | TVL: $456K | Risk: High\n   Strategy: Leveraged SEI exposure\n\n🟡 Arbitrage Vault\n   APY: 22.4% (net 17.8%) | TVL: $234K | Risk: Medium-High\n   Strategy: Cross-DEX arbitrage\n\n🟢 Yield Farming Vault\n   APY: 18.7% (net 15.0%) | TVL: $345K | Risk: Medium\n   Strategy: Optimized LP farming\n\n🔵 Concentrated Liquidity Vault\n   APY: 16.9% (net 13.6%) | TVL: $567K | Risk: Medium\n   Strategy: Active CL position management\n\n🔵 Blue Chip Vault\n   APY: 15.3% (net 12.2%) | TVL: $2.1M | Risk: Medium\n   Strategy: BTC/ETH diversified yield\n\n🔵 Delta Neutral Vault\n   APY: 12.5% (net 10.6%) | TVL: $1.23M | Risk: Low\n   Strategy: Delta-neutral yield with IL protection\n\n🟠 Hedge Vault\n   APY: 10.1% (net 8.5%) | TVL: $678K | Risk: Low\n   Strategy: Hedged positions with downside protection\n\n🟢 Stable Max Vault\n   APY: 8.2% (net 7.4%) | TVL: $890K | Risk: Very Low\n   Strategy: Stablecoin optimization\n\nNet APY assumes a one-year hold after management, performance and withdrawal fees.\nUse 'vault metrics [name]' for detailed info on any vault."
                 }
             }
         ],
@@ -159,7 +152,7 @@ export const vaultListAction: Action = {
             {
                 name: "{{agentName}}",
                 content: {
-                    text: "Available Yield Delta Vaults:\n\n🟡 SEI Hypergrowth Vault\n   APY: 24.8% | TVL: $456K | Risk: High\n   Strategy: Leveraged SEI exposure\n\n🟡 Arbitrage Vault\n   APY: 22.4% | TVL: $234K | Risk: Medium-High\n   Strategy: Cross-DEX arbitrage\n\n🔵 Delta Neutral Vault\n   APY: 12.5% | TVL: $1.23M | Risk: Low\n   Strategy: Delta-neutral yield with IL protection\n\n🟢 Stable Max Vault\n   APY: 8.2% | TVL: $890K | Risk: Very Low\n   Strategy: Stablecoin optimization\n\nUse 'vault metrics [name]' for detailed info on any vault."
+                    text: "Available Yield Delta Vaults:\n\n🟡 SEI Hypergrowth Vault\n   APY: 24.8% (net 18.0%) | TVL: $456K | Risk: High\n   Strategy: Leveraged SEI exposure\n\n🟡 Arbitrage Vault\n   APY: 22.4% (net 17.8%) | TVL: $234K | Risk: Medium-High\n   Strategy: Cross-DEX arbitrage\n\n🔵 Delta Neutral Vault\n   APY: 12.5% (net 10.6%) | TVL: $1.23M | Risk: Low\n   Strategy: Delta-neutral yield with IL protection\n\n🟢 Stable Max Vault\n   APY: 8.2% (net 7.4%) | TVL: $890K | Risk: Very Low\n   Strategy: Stablecoin optimization\n\nNet APY assumes a one-year hold after management, performance and withdrawal fees.\nUse 'vault metrics [name]' for detailed info on any vault."
                 }
             }
         ],
@@ -171,7 +164,7 @@ export const vaultListAction: Action = {
             {
                 name: "{{agentName}}",
                 content: {
-                    text: "Available Yield Delta Vaults:\n\n🟡 SEI Hypergrowth Vault\n   APY: 24.8% | TVL: $456K | Risk: High\n   Strategy: Leveraged SEI exposure\n\n🔵 Blue Chip Vault\n   APY: 15.3% | TVL: $2.1M | Risk: Medium\n   Strategy: BTC/ETH diversified yield\n\n🔵 Delta Neutral Vault\n   APY: 12.5% | TVL: $1.23M | Risk: Low\n   Strategy: Delta-neutral yield with IL protection\n\nUse 'vault metrics [name]' for detailed info on any vault."
+                    text: "Available Yield Delta Vaults:\n\n🟡 SEI Hypergrowth Vault\n   APY: 24.8% (net 18.0%) | TVL: $456K | Risk: High\n   Strategy: Leveraged SEI exposure\n\n🔵 Blue Chip Vault\n   APY: 15.3% (net 12.2%) | TVL: $2.1M | Risk: Medium\n   Strategy: BTC/ETH diversified yield\n\n🔵 Delta Neutral Vault\n   APY: 12.5% (net 10.6%) | TVL: $1.23M | Risk: Low\n   Strategy: Delta-neutral yield with IL protection\n\nNet APY assumes a one-year hold after management, performance and withdrawal fees.\nUse 'vault metrics [name]' for detailed info on any vault."
                 }
             }
         ]
@@ -182,30 +175,12 @@ interface VaultListItem {
     name: VaultName;
     displayName: string;
     apy: number;
+    netApy: number; // After all fees, one-year hold
     tvl: number;
     risk: RiskLevel;
     strategy: string;
 }
 
-function getVaultNameFromInfo(infoName: string): VaultName | null {
-    const lowerName = infoName.toLowerCase();
-
-    for (const [key, value] of Object.entries(VaultDisplayNames)) {
-        if (value.toLowerCase().includes(lowerName) || lowerName.includes(value.toLowerCase())) {
-            return key as VaultName;
-        }
-    }
-
-    // Try matching by key
-    for (const vaultName of Object.values(VaultName)) {
-        if (lowerName.includes(vaultName.replace(/-/g, " "))) {
-            return vaultName;
-        }
-    }
-
-    return null;
-}
-
 function getRiskEmoji(risk: RiskLevel): string {
     switch (risk) {
         case "Very Low":
@@ -237,10 +212,11 @@ function formatVaultListResponse(vaults: VaultListItem[]): string {
             : `$${(vault.tvl / 1000).toFixed(0)}K`;
 
         response += `\n${emoji} ${vault.displayName}\n`;
-        response += `   APY: ${vault.apy.toFixed(1)}% | TVL: ${tvlFormatted} | Risk: ${vault.risk}\n`;
+        response += `   APY: ${vault.apy.toFixed(1)}% (net ${vault.netApy.toFixed(1)}%) | TVL: ${tvlFormatted} | Risk: ${vault.risk}\n`;
         response += `   Strategy: ${vault.strategy}\n`;
     }
 
+    response += "\nNet APY assumes a one-year hold after management, performance and withdrawal fees.";
     response += "\nUse 'vault metrics [name]' for detailed info on any vault.";
 
     return response;
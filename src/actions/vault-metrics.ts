@@ -7,10 +7,11 @@ import {
     elizaLogger
 } from "@elizaos/core";
 import { vaultProvider } from "../providers/vault-provider";
+import { calculateNetReturn, formatBreakEven, NetReturnBreakdown } from "../providers/vault-fees";
 import {
     matchVaultName,
-    VaultDisplayNames,
-    VaultStrategies,
+    getVaultDisplayName,
+    getVaultStrategy,
     VaultName,
     FormattedVaultMetrics
 } from "../types/vault";
@@ -104,7 +105,7 @@ export const vaultMetricsAction: Action = {
             if (!vaultAddress) {
                 if (callback) {
                     callback({
-                        text: `The ${VaultDisplayNames[vaultName]} address is not configured. Please check your environment configuration.`,
+                        text: `The ${getVaultDisplayName(vaultName)} address is not configured. Please check your environment configuration.`,
                         content: {
                             text: "Vault address not configured",
                             action: "VAULT_METRICS",
@@ -121,8 +122,11 @@ export const vaultMetricsAction: Action = {
             const metrics = await vaultProvider.getVaultMetrics(runtime, vaultAddress);
             const info = await vaultProvider.getVaultInfo(runtime, vaultAddress);
 
+            // Net of all fees for a one-year hold; proportional, so any principal works
+            const afterFees = calculateNetReturn(metrics, metrics.apy, 1, 365);
+
             // Format response
-            const response = formatVaultMetricsResponse(vaultName, metrics, info.strategy || VaultStrategies[vaultName]);
+            const response = formatVaultMetricsResponse(vaultName, metrics, afterFees, info.strategy || getVaultStrategy(vaultName));
 
             elizaLogger.info(`Vault metrics response generated for ${vaultName}`);
 
@@ -134,6 +138,8 @@ export const vaultMetricsAction: Action = {
                         action: "VAULT_METRICS",
                         vaultName,
                         metrics,
+                        netApy: afterFees.netApy,
+                        breakEvenDays: afterFees.breakEvenDays,
                         strategy: info.strategy
                     }
                 });
@@ -163,7 +169,7 @@ export const vaultMetricsAction: Action = {
             {
                 name: "{{agentName}}",
                 content: {
-                    text: "Delta Neutral Vault Metrics:\n\n📊 Performance:\n• APY: 12.5%\n• Total Yield Generated: $45,230\n\n💰 TVL & Shares:\n• Total Value Locked: $1,234,567\n• Total Shares: 50,000\n• Price per Share: $24.69\n\n💸 Fees:\n• Management: 0.5%\n• Performance: 10%\n• Withdrawal: 0.1%\n\nStrategy: Delta-neutral yield farming with IL protection"
+                    text: "Delta Neutral Vault Metrics:\n\n📊 Performance:\n• APY: 12.5%\n• Total Yield Generated: $45,230\n\n💰 TVL & Shares:\n• Total Value Locked: $1,234,567\n• Total Shares: 50,000\n• Price per Share: $24.69\n\n💸 Fees:\n• Management: 0.5%\n• Performance: 10%\n• Withdrawal: 0.1%\n\n🧾 After Fees (1-year hold):\n• Net APY: 10.6%\n• Break-even: 4 days\n\nStrategy: Delta-neutral yield farming with IL protection"
                 }
             }
         ],
@@ -175,7 +181,7 @@ export const vaultMetricsAction: Action = {
             {
                 name: "{{agentName}}",
                 content: {
-                    text: "Stable Max Vault Metrics:\n\n📊 Performance:\n• APY: 8.2%\n• Total Yield Generated: $28,450\n\n💰 TVL & Shares:\n• Total Value Locked: $890,000\n• Total Shares: 88,500\n• Price per Share: $10.06\n\n💸 Fees:\n• Management: 0.3%\n• Performance: 5%\n• Withdrawal: 0.05%\n\nStrategy: Stablecoin optimization"
+                    text: "Stable Max Vault Metrics:\n\n📊 Performance:\n• APY: 8.2%\n• Total Yield Generated: $28,450\n\n💰 TVL & Shares:\n• Total Value Locked: $890,000\n• Total Shares: 88,500\n• Price per Share: $10.06\n\n💸 Fees:\n• Management: 0.3%\n• Performance: 5%\n• Withdrawal: 0.05%\n\n🧾 After Fees (1-year hold):\n• Net APY: 7.4%\n• Break-even: 3 days\n\nStrategy: Stablecoin optimization"
                 }
             }
         ],
@@ -187,7 +193,7 @@ export const vaultMetricsAction: Action = {
             {
                 name: "{{agentName}}",
                 content: {
-                    text: "Arbitrage Vault Metrics:\n\n📊 Performance:\n• APY: 22.4%\n• Total Yield Generated: $15,600\n\n💰 TVL & Shares:\n• Total Value Locked: $234,000\n• Total Shares: 9,200\n• Price per Share: $25.43\n\n💸 Fees:\n• Management: 1%\n• Performance: 15%\n• Withdrawal: 0.2%\n\nStrategy: Cross-DEX arbitrage"
+                    text: "Arbitrage Vault Metrics:\n\n📊 Performance:\n• APY: 22.4%\n• Total Yield Generated: $15,600\n\n💰 TVL & Shares:\n• Total Value Locked: $234,000\n• Total Shares: 9,200\n• Price per Share: $25.43\n\n💸 Fees:\n• Management: 1%\n• Performance: 15%\n• Withdrawal: 0.2%\n\n🧾 After Fees (1-year hold):\n• Net APY: 17.8%\n• Break-even: 5 days\n\nStrategy: Cross-DEX arbitrage"
                 }
             }
         ],
@@ -199,7 +205,7 @@ export const vaultMetricsAction: Action = {
             {
                 name: "{{agentName}}",
                 content: {
-                    text: "SEI Hypergrowth Vault Metrics:\n\n📊 Performance:\n• APY: 24.8%\n• Total Yield Generated: $32,100\n\n💰 TVL & Shares:\n• Total Value Locked: $456,000\n• Total Shares: 18,200\n• Price per Share: $25.05\n\n💸 Fees:\n• Management: 1.5%\n• Performance: 20%\n• Withdrawal: 0.3%\n\nStrategy: Leveraged SEI exposure"
+                    text: "SEI Hypergrowth Vault Metrics:\n\n📊 Performance:\n• APY: 24.8%\n• Total Yield Generated: $32,100\n\n💰 TVL & Shares:\n• Total Value Locked: $456,000\n• Total Shares: 18,200\n• Price per Share: $25.05\n\n💸 Fees:\n• Management: 1.5%\n• Performance: 20%\n• Withdrawal: 0.3%\n\n🧾 After Fees (1-year hold):\n• Net APY: 18.0%\n• Break-even: 7 days\n\nStrategy: Leveraged SEI exposure"
                 }
             }
         ]
@@ -209,9 +215,10 @@ export const vaultMetricsAction: Action = {
 function formatVaultMetricsResponse(
     vaultName: VaultName,
     metrics: FormattedVaultMetrics,
+    afterFees: NetReturnBreakdown,
     strategy: string
 ): string {
-    const displayName = VaultDisplayNames[vaultName];
+    const displayName = getVaultDisplayName(vaultName);
 
     const tvlFormatted = metrics.totalValueLocked >= 1000000
         ? `$${(metrics.totalValueLocked / 1000000).toFixed(2)}M`
@@ -237,5 +244,9 @@ function formatVaultMetricsResponse(
 • Performance: ${metrics.performanceFeeRate.toFixed(0)}%
 • Withdrawal: ${metrics.withdrawalFeeRate.toFixed(2)}%
 
+🧾 After Fees (1-year hold):
+• Net APY: ${afterFees.netApy.toFixed(1)}%
+• Break-even: ${formatBreakEven(afterFees.breakEvenDays)}
+
 Strategy: ${strategy}`;
 }
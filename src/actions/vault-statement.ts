@@ -0,0 +1,285 @@
+import {
+    Action,
+    IAgentRuntime,
+    Memory,
+    State,
+    HandlerCallback,
+    ContentType,
+    elizaLogger
+} from "@elizaos/core";
+import {
+    generateVaultStatement,
+    formatStatementCsv,
+    formatStatementJson,
+    StatementFormat,
+    VaultStatement
+} from "../providers/vault-statement";
+import { CostBasisMethod } from "../providers/position-accounting";
+import { initWalletProvider } from "../providers/wallet";
+import { addressGroups } from "../providers/address-groups";
+import { addressResolver, addressErrorResponse, AddressResolutionError } from "../providers/address-resolver";
+
+const DEFAULT_STATEMENT_DAYS = 365;
+
+interface StatementRange {
+    fromTimestamp: number;
+    toTimestamp: number;
+    label: string;
+}
+
+function extractFormat(text: string): StatementFormat {
+    return text.toLowerCase().includes("json") ? "json" : "csv";
+}
+
+function getCostBasisMethod(runtime: IAgentRuntime, text: string): CostBasisMethod {
+    const lower = text.toLowerCase();
+    if (lower.includes("average cost") || lower.includes("avg cost")) return "average";
+    if (lower.includes("fifo")) return "fifo";
+    return runtime.getSetting("PNL_COST_BASIS_METHOD") === "average" ? "average" : "fifo";
+}
+
+/**
+ * Parse the statement period from the message:
+ * - "from 2025-01-01 to 2025-03-31"
+ * - "for 2024" / "tax year 2024"
+ * - "last 90 days"
+ * Defaults to the last 365 days.
+ */
+function extractDateRange(text: string, now: number = Date.now()): StatementRange {
+    const toSeconds = (ms: number) => Math.floor(ms / 1000);
+
+    const explicit = text.match(/from\s+(\d{4}-\d{2}-\d{2})\s+(?:to|until|-)\s+(\d{4}-\d{2}-\d{2})/i);
+    if (explicit) {
+        const from = Date.parse(`${explicit[1]}T00:00:00Z`);
+        const to = Date.parse(`${explicit[2]}T23:59:59Z`);
+        if (!isNaN(from) && !isNaN(to) && from <= to) {
+            return { fromTimestamp: toSeconds(from), toTimestamp: toSeconds(to), label: `${explicit[1]} to ${explicit[2]}` };
+        }
+    }
+
+    const days = text.match(/last\s+(\d+)\s+days?/i);
+    if (days) {
+        const count = parseInt(days[1]);
+        return { fromTimestamp: toSeconds(now) - count * 86400, toTimestamp: toSeconds(now), label: `last ${count} days` };
+    }
+
+    const year = text.match(/\b(20\d{2})\b/);
+    if (year) {
+        return {
+            fromTimestamp: toSeconds(Date.UTC(parseInt(year[1]), 0, 1)),
+            toTimestamp: toSeconds(Date.UTC(parseInt(year[1]) + 1, 0, 1)) - 1,
+            label: year[1]
+        };
+    }
+
+    return {
+        fromTimestamp: toSeconds(now) - DEFAULT_STATEMENT_DAYS * 86400,
+        toTimestamp: toSeconds(now),
+        label: `last ${DEFAULT_STATEMENT_DAYS} days`
+    };
+}
+
+export const vaultStatementAction: Action = {
+    name: "EXPORT_STATEMENT",
+    similes: [
+        "VAULT_STATEMENT",
+        "EXPORT_HISTORY",
+        "TAX_REPORT",
+        "DOWNLOAD_STATEMENT",
+        "ACCOUNTING_EXPORT"
+    ],
+
+    validate: async (runtime: IAgentRuntime, message: Memory) => {
+        const content = message.content?.text?.toLowerCase() || "";
+
+        const statementKeywords = [
+            "statement",
+            "export",
+            "tax report",
+            "tax year",
+            "csv",
+            "accounting report"
+        ];
+
+        return statementKeywords.some(keyword => content.includes(keyword));
+    },
+
+    description: "Export a CSV or JSON statement of vault deposits, withdrawals, fees and realized yield with USD values, for a wallet or a named address group",
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<void> => {
+        try {
+            elizaLogger.info("Export Statement Action triggered");
+
+            const messageText = message.content?.text || "";
+
+            const resolved = await addressResolver.resolveFromText(runtime, messageText);
+            let targetAddress: string | null = resolved?.address ?? null;
+            // A named address group exports every member's activity in one statement
+            const group = targetAddress ? null : await addressGroups.resolve(runtime, message.entityId, messageText);
+            if (group) {
+                targetAddress = group.addresses[0];
+            }
+            if (!targetAddress) {
+                const walletProvider = await initWalletProvider(runtime);
+                targetAddress = walletProvider.getAddress();
+            }
+
+            if (!targetAddress) {
+                if (callback) {
+                    callback({
+                        text: "Please provide a wallet address for the statement, e.g. 'Export statement for 0x1234... (or sei1...) for 2025'.",
+                        content: {
+                            text: "No wallet address provided",
+                            action: "EXPORT_STATEMENT",
+                            error: "No wallet address found"
+                        }
+                    });
+                }
+                return;
+            }
+
+            const format = extractFormat(messageText);
+            const range = extractDateRange(messageText);
+
+            const subject = group ? `group "${group.name}"` : resolved?.seiAddress ?? targetAddress;
+            elizaLogger.info(`Generating ${format} statement for ${subject} (${range.label})`);
+
+            const statement = await generateVaultStatement(runtime, group ? group.addresses : targetAddress as `0x${string}`, {
+                fromTimestamp: range.fromTimestamp,
+                toTimestamp: range.toTimestamp,
+                costBasisMethod: getCostBasisMethod(runtime, messageText)
+            });
+
+            if (statement.events.length === 0) {
+                if (callback) {
+                    callback({
+                        text: `No vault activity found for ${subject} (${range.label}).`,
+                        content: {
+                            text: "No activity in range",
+                            action: "EXPORT_STATEMENT",
+                            address: targetAddress,
+                            group: group?.name,
+                            range
+                        }
+                    });
+                }
+                return;
+            }
+
+            const body = format === "json" ? formatStatementJson(statement) : formatStatementCsv(statement);
+            const mimeType = format === "json" ? "application/json" : "text/csv";
+            const fileName = `vault-statement-${group ? group.name.replace(/\s+/g, "-") : targetAddress.slice(0, 8)}-${range.label.replace(/\s+/g, "-")}.${format}`;
+
+            const response = formatStatementSummary(statement, range, format);
+
+            if (callback) {
+                callback({
+                    text: response,
+                    content: {
+                        text: response,
+                        action: "EXPORT_STATEMENT",
+                        address: targetAddress,
+                        group: group?.name,
+                        format,
+                        range,
+                        statement
+                    },
+                    attachments: [
+                        {
+                            id: fileName,
+                            url: `data:${mimeType};base64,${Buffer.from(body, "utf8").toString("base64")}`,
+                            title: fileName,
+                            source: "sei-yield-delta",
+                            description: `Vault statement (${range.label})`,
+                            text: body,
+                            contentType: ContentType.DOCUMENT
+                        }
+                    ]
+                });
+            }
+
+        } catch (error) {
+            if (error instanceof AddressResolutionError) {
+                elizaLogger.warn(`Statement address not resolved: ${error.message}`);
+                if (callback) {
+                    callback(addressErrorResponse(error, "EXPORT_STATEMENT"));
+                }
+                return;
+            }
+
+            elizaLogger.error(`Export statement error: ${error}`);
+
+            if (callback) {
+                callback({
+                    text: `Failed to generate statement: ${error instanceof Error ? error.message : "Unknown error"}`,
+                    content: {
+                        error: error instanceof Error ? error.message : "Unknown error",
+                        action: "EXPORT_STATEMENT"
+                    }
+                });
+            }
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Export my vault statement for 2025 as CSV" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "Vault Statement (2025) - CSV attached\n\n12 events across 2 vaults\n\n• Delta Neutral Vault (SEI): deposited $4,200.00 | withdrawn $1,150.00 | fees $5.78 | realized yield +$62.40\n• USDC Vault (USDC): deposited $2,000.00 | withdrawn $0.00 | fees $0.00 | realized yield +$0.00\n\nTotals: deposited $6,200.00 | withdrawn $1,150.00 | fees $5.78 | realized yield +$62.40"
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Give me a JSON tax report for 0x1234567890123456789012345678901234567890 from 2025-01-01 to 2025-06-30" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "Vault Statement (2025-01-01 to 2025-06-30) - JSON attached\n\n4 events across 1 vault\n\n• SEI Vault (SEI): deposited $1,000.00 | withdrawn $0.00 | fees $0.00 | realized yield +$0.00\n\nTotals: deposited $1,000.00 | withdrawn $0.00 | fees $0.00 | realized yield +$0.00"
+                }
+            }
+        ]
+    ]
+};
+
+function formatStatementSummary(statement: VaultStatement, range: StatementRange, format: StatementFormat): string {
+    const usd = (value: number) => `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    const signed = (value: number) => `${value >= 0 ? "+" : "-"}${usd(Math.abs(value))}`;
+
+    let response = `Vault Statement (${range.label}) - ${format.toUpperCase()} attached\n\n`;
+    response += `${statement.events.length} events across ${statement.vaults.length} vault${statement.vaults.length === 1 ? "" : "s"}\n\n`;
+
+    for (const vault of statement.vaults) {
+        response += `• ${vault.vaultName} (${vault.asset}): deposited ${usd(vault.depositedUsd)} | withdrawn ${usd(vault.withdrawnUsd)} | fees ${usd(vault.feesUsd)} | realized yield ${signed(vault.realizedYieldUsd)}\n`;
+    }
+
+    // Each member's share of a group statement
+    if (statement.addresses.length > 1) {
+        response += "\nBy address:\n";
+        for (const account of statement.accounts) {
+            response += `• ${account.account.slice(0, 6)}...${account.account.slice(-4)}: ${account.events} events | deposited ${usd(account.depositedUsd)} | withdrawn ${usd(account.withdrawnUsd)} | realized yield ${signed(account.realizedYieldUsd)}\n`;
+        }
+    }
+
+    const totals = statement.totals;
+    response += `\nTotals: deposited ${usd(totals.depositedUsd)} | withdrawn ${usd(totals.withdrawnUsd)} | fees ${usd(totals.feesUsd)} | realized yield ${signed(totals.realizedYieldUsd)}`;
+
+    if (totals.unpricedEvents > 0) {
+        response += `\n\n⚠️ ${totals.unpricedEvents} event${totals.unpricedEvents === 1 ? "" : "s"} could not be priced historically and are excluded from USD totals.`;
+    }
+
+    return response;
+}
@@ -0,0 +1,551 @@
+import {
+    formatUnits,
+    parseEventLogs,
+    type Address
+} from "viem";
+import {
+    Action,
+    IAgentRuntime,
+    Memory,
+    State,
+    HandlerCallback,
+    elizaLogger
+} from "@elizaos/core";
+import { vaultProvider } from "../providers/vault-provider";
+import { SeiOracleProvider } from "../providers/sei-oracle";
+import { WalletProvider, initWalletProvider } from "../providers/wallet";
+import {
+    pendingTransactions,
+    isConfirmation,
+    isCancellation
+} from "../providers/pending-transactions";
+import {
+    matchVaultName,
+    getVaultDisplayName,
+    VaultName,
+    STRATEGY_VAULT_ABI,
+    getVaultAssetSymbol,
+    VaultAssetSymbols
+} from "../types/vault";
+
+// Fractions are applied to the raw share balance with this precision
+const FRACTION_PRECISION = 1_000_000_000n;
+const SHARE_DECIMALS = 18;
+
+export type WithdrawMode = "full" | "percent" | "shares" | "asset" | "usd";
+
+export interface WithdrawRequest {
+    vaultName: VaultName;
+    mode: WithdrawMode;
+    value: number; // percent (0-100], share count, vault asset amount or USD; ignored for "full"
+}
+
+// Everything needed to send the withdrawal after confirmation. Share amounts
+// are base-unit strings so the preview survives a round trip through the cache.
+export interface VaultWithdrawPreview {
+    vaultName: VaultName;
+    vaultAddress: Address;
+    asset: string;
+    decimals: number;
+    mode: WithdrawMode;
+    sharesToBurn: string;
+    sharesToBurnDisplay: number;
+    shareBalanceDisplay: number;
+    fraction: number;
+    grossAmount: number;
+    withdrawalFeeRate: number;
+    feeAmount: number;
+    netAmount: number;
+    assetPriceUsd: number | null;
+    netValueUsd: number | null;
+    simulatedAmount: number;
+    receiver: Address;
+}
+
+export interface VaultWithdrawResult {
+    hash: `0x${string}`;
+    amountReceived: string;
+    sharesBurned: string;
+}
+
+// Thrown when the position is still inside its lock period
+export class WithdrawalLockedError extends Error {
+    constructor(public readonly vaultName: string, public readonly lockTimeRemaining: number) {
+        super(`${vaultName} is locked for another ${formatDuration(lockTimeRemaining)}`);
+        this.name = "WithdrawalLockedError";
+    }
+}
+
+// Exported for tests
+export class VaultWithdrawAction {
+    constructor(
+        private runtime: IAgentRuntime,
+        private walletProvider: WalletProvider
+    ) {}
+
+    /**
+     * Check the lock, size the withdrawal in shares and preview the payout net
+     * of fees. Shares, lock and share price are read fresh from the vault, so
+     * amounts are in the vault's asset whatever the portfolio source reports.
+     */
+    async preview(request: WithdrawRequest): Promise<VaultWithdrawPreview> {
+        await vaultProvider.initialize(this.runtime);
+        const vaultAddress = vaultProvider.getVaultAddress(request.vaultName);
+        if (!vaultAddress) {
+            throw new Error(`The ${getVaultDisplayName(request.vaultName)} address is not configured`);
+        }
+
+        const displayName = getVaultDisplayName(request.vaultName);
+        const receiver = this.walletProvider.getAddress();
+
+        const { shares: rawShares, lockTimeRemaining } = await vaultProvider.getCustomerStats(this.runtime, vaultAddress, receiver);
+        if (rawShares === 0n) {
+            throw new Error(`You don't have a position in ${displayName}`);
+        }
+
+        if (lockTimeRemaining > 0) {
+            throw new WithdrawalLockedError(displayName, lockTimeRemaining);
+        }
+
+        const { symbol: asset, decimals } = await vaultProvider.getVaultAsset(this.runtime, vaultAddress);
+        const positionAssets = await vaultProvider.convertToAssets(this.runtime, vaultAddress, rawShares);
+        const shareBalance = Number(formatUnits(rawShares, SHARE_DECIMALS));
+        const positionValue = Number(formatUnits(positionAssets, decimals));
+
+        let withdrawalFeeRate = 0;
+        try {
+            const metrics = await vaultProvider.getVaultMetrics(this.runtime, vaultAddress);
+            withdrawalFeeRate = metrics.withdrawalFeeRate;
+        } catch (error) {
+            elizaLogger.warn(`Withdrawal fee rate unavailable for ${vaultAddress}, previewing without fees: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        const assetPriceUsd = await this.getAssetPriceUsd(asset);
+        const fraction = this.resolveFraction(request, shareBalance, positionValue, withdrawalFeeRate, assetPriceUsd);
+
+        const sharesToBurn = fraction >= 1
+            ? rawShares
+            : rawShares * BigInt(Math.round(fraction * Number(FRACTION_PRECISION))) / FRACTION_PRECISION;
+
+        if (sharesToBurn === 0n) {
+            throw new Error("Withdrawal amount is too small");
+        }
+
+        const grossAmount = Number(formatUnits(positionAssets * sharesToBurn / rawShares, decimals));
+        const feeAmount = grossAmount * withdrawalFeeRate / 100;
+        const netAmount = grossAmount - feeAmount;
+
+        return {
+            vaultName: request.vaultName,
+            vaultAddress,
+            asset,
+            decimals,
+            mode: request.mode,
+            sharesToBurn: sharesToBurn.toString(),
+            sharesToBurnDisplay: Number(formatUnits(sharesToBurn, SHARE_DECIMALS)),
+            shareBalanceDisplay: shareBalance,
+            fraction,
+            grossAmount,
+            withdrawalFeeRate,
+            feeAmount,
+            netAmount,
+            assetPriceUsd,
+            netValueUsd: assetPriceUsd !== null ? netAmount * assetPriceUsd : null,
+            simulatedAmount: await this.simulate(vaultAddress, sharesToBurn, receiver, decimals),
+            receiver
+        };
+    }
+
+    /**
+     * Send seiOptimizedWithdraw and report the payout from the SEIOptimizedWithdraw event
+     */
+    async execute(preview: VaultWithdrawPreview): Promise<VaultWithdrawResult> {
+        const walletClient = this.walletProvider.getEvmWalletClient();
+        const publicClient = this.walletProvider.getEvmPublicClient();
+        if (!walletClient?.account?.address) {
+            throw new Error("Wallet client account is undefined or invalid");
+        }
+
+        elizaLogger.log(`Withdrawing ${preview.sharesToBurn} shares from ${preview.vaultAddress}`);
+        const hash: `0x${string}` = await walletClient.writeContract({
+            account: walletClient.account,
+            address: preview.vaultAddress,
+            abi: STRATEGY_VAULT_ABI,
+            functionName: "seiOptimizedWithdraw",
+            args: [BigInt(preview.sharesToBurn), preview.receiver]
+        });
+
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== "success") {
+            throw new Error(`Withdraw transaction reverted: ${hash}`);
+        }
+
+        const [event] = parseEventLogs({
+            abi: STRATEGY_VAULT_ABI,
+            eventName: "SEIOptimizedWithdraw",
+            logs: receipt.logs
+        }) as unknown as { args: { amount: bigint; shares: bigint } }[];
+
+        if (!event) {
+            throw new Error(`Withdrawal confirmed but no SEIOptimizedWithdraw event was found in ${hash}`);
+        }
+
+        return {
+            hash,
+            amountReceived: formatUnits(event.args.amount, preview.decimals),
+            sharesBurned: formatUnits(event.args.shares, SHARE_DECIMALS)
+        };
+    }
+
+    // Portion of the position to redeem, in (0, 1]
+    private resolveFraction(
+        request: WithdrawRequest,
+        shareBalance: number,
+        positionValue: number,
+        withdrawalFeeRate: number,
+        assetPriceUsd: number | null
+    ): number {
+        let fraction: number;
+
+        switch (request.mode) {
+            case "full":
+                return 1;
+            case "percent":
+                fraction = request.value / 100;
+                break;
+            case "shares":
+                if (request.value > shareBalance) {
+                    throw new Error(`You only hold ${shareBalance.toLocaleString(undefined, { maximumFractionDigits: 4 })} shares`);
+                }
+                fraction = request.value / shareBalance;
+                break;
+            case "asset": {
+                // Like USD, the amount is what the user wants to receive
+                const grossAmount = request.value / (1 - withdrawalFeeRate / 100);
+                if (grossAmount > positionValue * (1 + 1e-9)) {
+                    throw new Error(`Your position is worth ${positionValue.toFixed(4)}, which is less than the ${request.value} requested after fees`);
+                }
+                fraction = grossAmount / positionValue;
+                break;
+            }
+            case "usd": {
+                if (assetPriceUsd === null) {
+                    throw new Error("Couldn't price the vault asset in USD; withdraw by shares or percentage instead");
+                }
+                // The USD amount is what the user wants to receive, so gross it up for the fee
+                const grossUsd = request.value / (1 - withdrawalFeeRate / 100);
+                const positionUsd = positionValue * assetPriceUsd;
+                if (grossUsd > positionUsd * (1 + 1e-9)) {
+                    throw new Error(`Your position is worth $${positionUsd.toFixed(2)}, which is less than the $${request.value.toFixed(2)} requested after fees`);
+                }
+                fraction = grossUsd / positionUsd;
+                break;
+            }
+        }
+
+        if (!(fraction > 0)) {
+            throw new Error("Withdrawal amount must be greater than zero");
+        }
+        return Math.min(fraction, 1);
+    }
+
+    private async getAssetPriceUsd(asset: string): Promise<number | null> {
+        if (asset === "USDC") return 1;
+        try {
+            const feed = await new SeiOracleProvider(this.runtime).getPrice(asset);
+            return feed ? feed.price : null;
+        } catch (error) {
+            elizaLogger.warn(`Price lookup for ${asset} failed: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
+        }
+    }
+
+    // Catch reverts before asking for confirmation
+    private async simulate(
+        vaultAddress: Address,
+        shares: bigint,
+        receiver: Address,
+        decimals: number
+    ): Promise<number> {
+        const publicClient = this.walletProvider.getEvmPublicClient();
+
+        try {
+            const { result } = await publicClient.simulateContract({
+                account: receiver,
+                address: vaultAddress,
+                abi: STRATEGY_VAULT_ABI,
+                functionName: "seiOptimizedWithdraw",
+                args: [shares, receiver]
+            });
+            return Number(formatUnits(result as bigint, decimals));
+        } catch (error) {
+            throw new Error(`Withdrawal simulation failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
+
+/**
+ * Parse "withdraw everything from delta neutral", "withdraw 25% of my SEI vault",
+ * "withdraw 100 shares from usdc vault", "withdraw 50 SEI from the SEI vault" or
+ * "withdraw $500 from stable max". A bare number is an amount of the vault's
+ * asset, as in deposits; dollar amounts need "$" or "usd". "All" only means
+ * the whole position when no amount is given ("withdraw 25% of all my ...").
+ */
+export function parseWithdrawRequest(text: string): WithdrawRequest | null {
+    const vaultName = matchVaultName(text);
+    if (!vaultName) return null;
+
+    const lower = text.toLowerCase();
+    const number = "(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)";
+    const toNumber = (value: string) => parseFloat(value.replace(/,/g, ""));
+
+    const percent = lower.match(new RegExp(`${number}\\s*(?:%|percent)`));
+    if (percent) {
+        const value = toNumber(percent[1]);
+        return value >= 100 ? { vaultName, mode: "full", value: 0 } : { vaultName, mode: "percent", value };
+    }
+
+    const shares = lower.match(new RegExp(`${number}\\s*shares?`));
+    if (shares) {
+        return { vaultName, mode: "shares", value: toNumber(shares[1]) };
+    }
+
+    const usd = lower.match(new RegExp(`\\$\\s*${number}`)) ||
+        lower.match(new RegExp(`${number}\\s*(?:usd|dollars?)\\b`));
+    if (usd) {
+        return { vaultName, mode: "usd", value: toNumber(usd[1]) };
+    }
+
+    const amount = lower.match(new RegExp(`${number}(?:\\s*([a-z]+))?`));
+    if (amount) {
+        // "50 USDC from the SEI vault" names a different asset than the vault pays out
+        const symbol = amount[2]?.toUpperCase();
+        const vaultAssets = Object.values(VaultAssetSymbols);
+        if (symbol && vaultAssets.includes(symbol) && symbol !== getVaultAssetSymbol(vaultName)) {
+            return null;
+        }
+        return { vaultName, mode: "asset", value: toNumber(amount[1]) };
+    }
+
+    if (/\b(all|everything|full|entire)\b/.test(lower)) {
+        return { vaultName, mode: "full", value: 0 };
+    }
+
+    return null;
+}
+
+export const vaultWithdrawAction: Action = {
+    name: "VAULT_WITHDRAW",
+    similes: [
+        "WITHDRAW_FROM_VAULT",
+        "EXIT_VAULT",
+        "REDEEM_SHARES",
+        "VAULT_REDEEM"
+    ],
+
+    validate: async (runtime: IAgentRuntime, message: Memory) => {
+        const privateKey = runtime.getSetting("SEI_PRIVATE_KEY");
+        if (!privateKey || !String(privateKey).startsWith("0x")) {
+            return false;
+        }
+
+        const text = message.content?.text || "";
+        const lower = text.toLowerCase();
+
+        // Second turn of a previewed withdrawal
+        if (isConfirmation(text) || isCancellation(text)) {
+            return !!(await pendingTransactions.get(runtime, message, "vault-withdraw"));
+        }
+
+        const informational = ["can i withdraw", "withdrawal status", "withdrawal history", "when did", "my withdrawals"];
+        if (!(lower.includes("withdraw") || lower.includes("redeem") || lower.includes("exit")) ||
+            informational.some(keyword => lower.includes(keyword))) {
+            return false;
+        }
+
+        return parseWithdrawRequest(text) !== null;
+    },
+
+    description: "Withdraw from a Yield Delta vault via seiOptimizedWithdraw (full, by shares, by percentage, by asset amount or by USD) after checking the lock and previewing the net payout",
+
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<void> => {
+        try {
+            elizaLogger.info("Vault Withdraw Action triggered");
+
+            const text = message.content?.text || "";
+            const pending = await pendingTransactions.get<VaultWithdrawPreview>(runtime, message, "vault-withdraw");
+
+            if (pending && isCancellation(text)) {
+                await pendingTransactions.clear(runtime, message, "vault-withdraw");
+                if (callback) {
+                    callback({
+                        text: `Cancelled the withdrawal from ${getVaultDisplayName(pending.params.vaultName)}. Nothing was sent.`,
+                        content: { text: "Withdrawal cancelled", action: "VAULT_WITHDRAW", cancelled: true }
+                    });
+                }
+                return;
+            }
+
+            const walletProvider = await initWalletProvider(runtime);
+            const withdrawAction = new VaultWithdrawAction(runtime, walletProvider);
+
+            if (pending && isConfirmation(text)) {
+                // Clear first so a repeated "yes" can never send twice
+                await pendingTransactions.clear(runtime, message, "vault-withdraw");
+                const preview = pending.params;
+
+                const result = await withdrawAction.execute(preview);
+                const response = `✅ Withdrew ${result.amountReceived} ${preview.asset} from ${getVaultDisplayName(preview.vaultName)}\n\n📄 Transaction Hash: ${result.hash}`;
+
+                if (callback) {
+                    callback({
+                        text: response,
+                        content: {
+                            text: response,
+                            action: "VAULT_WITHDRAW",
+                            success: true,
+                            vaultName: preview.vaultName,
+                            vaultAddress: preview.vaultAddress,
+                            ...result
+                        }
+                    });
+                }
+                return;
+            }
+
+            const request = parseWithdrawRequest(text);
+            if (!request) {
+                if (callback) {
+                    callback({
+                        text: "Please tell me which vault and how much to withdraw, e.g. 'Withdraw everything from Delta Neutral', 'Withdraw 25% from the SEI vault', 'Withdraw 100 shares from USDC vault', 'Withdraw 50 SEI from the SEI vault' or 'Withdraw $500 from Stable Max'.",
+                        content: { text: "Withdraw request incomplete", action: "VAULT_WITHDRAW", error: "Missing amount or vault" }
+                    });
+                }
+                return;
+            }
+
+            let preview: VaultWithdrawPreview;
+            try {
+                preview = await withdrawAction.preview(request);
+            } catch (error) {
+                if (error instanceof WithdrawalLockedError) {
+                    if (callback) {
+                        callback({
+                            text: `⏳ ${error.message}. You can withdraw once the lock period ends.`,
+                            content: {
+                                text: error.message,
+                                action: "VAULT_WITHDRAW",
+                                locked: true,
+                                lockTimeRemaining: error.lockTimeRemaining
+                            }
+                        });
+                    }
+                    return;
+                }
+                throw error;
+            }
+
+            await pendingTransactions.create(runtime, message, "vault-withdraw", preview);
+
+            const response = formatWithdrawPreview(preview);
+
+            if (callback) {
+                callback({
+                    text: response,
+                    content: {
+                        text: response,
+                        action: "VAULT_WITHDRAW",
+                        awaitingConfirmation: true,
+                        preview
+                    }
+                });
+            }
+
+        } catch (error) {
+            elizaLogger.error(`Vault withdraw error: ${error}`);
+
+            if (callback) {
+                callback({
+                    text: `❌ Vault withdrawal failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+                    content: {
+                        error: error instanceof Error ? error.message : "Unknown error",
+                        action: "VAULT_WITHDRAW"
+                    }
+                });
+            }
+        }
+    },
+
+    examples: [
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Withdraw 50% from the SEI vault" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "Withdrawal Preview - SEI Vault\n\nShares: 500 of 1,000 (50.00%)\nGross: 1,050.0000 SEI\nWithdrawal Fee (0.50%): -5.2500 SEI\nNet: 1,044.7500 SEI (~$438.80)\n\nReply 'confirm' to send this withdrawal or 'cancel' to abort. This preview expires in 10 minutes."
+                }
+            },
+            {
+                name: "{{user1}}",
+                content: { text: "confirm" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "✅ Withdrew 1044.75 SEI from SEI Vault\n\n📄 Transaction Hash: 0xabc..."
+                }
+            }
+        ],
+        [
+            {
+                name: "{{user1}}",
+                content: { text: "Withdraw everything from Stable Max" }
+            },
+            {
+                name: "{{agentName}}",
+                content: {
+                    text: "⏳ Stable Max Vault is locked for another 2 days 4 hours. You can withdraw once the lock period ends."
+                }
+            }
+        ]
+    ]
+};
+
+function formatWithdrawPreview(preview: VaultWithdrawPreview): string {
+    const fmt = (value: number) => value.toLocaleString(undefined, { minimumFractionDigits: 4, maximumFractionDigits: 4 });
+    const shares = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+    let response = `Withdrawal Preview - ${getVaultDisplayName(preview.vaultName)}\n\n`;
+    response += `Shares: ${shares(preview.sharesToBurnDisplay)} of ${shares(preview.shareBalanceDisplay)} (${(preview.fraction * 100).toFixed(2)}%)\n`;
+    response += `Gross: ${fmt(preview.grossAmount)} ${preview.asset}\n`;
+    response += `Withdrawal Fee (${preview.withdrawalFeeRate.toFixed(2)}%): -${fmt(preview.feeAmount)} ${preview.asset}\n`;
+    response += `Net: ${fmt(preview.netAmount)} ${preview.asset}`;
+    if (preview.netValueUsd !== null && preview.asset !== "USDC") {
+        response += ` (~$${preview.netValueUsd.toFixed(2)})`;
+    }
+    response += `\n`;
+
+    response += `Simulated Payout: ${fmt(preview.simulatedAmount)} ${preview.asset}\n`;
+
+    response += `\nReply 'confirm' to send this withdrawal or 'cancel' to abort. This preview expires in 10 minutes.`;
+    return response;
+}
+
+function formatDuration(seconds: number): string {
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    const minutes = Math.ceil((seconds % 3600) / 60);
+
+    if (days > 0) return `${days} day${days === 1 ? "" : "s"}${hours > 0 ? ` ${hours} hour${hours === 1 ? "" : "s"}` : ""}`;
+    if (hours > 0) return `${hours} hour${hours === 1 ? "" : "s"}`;
+    return `${Math.max(minutes, 1)} minute${minutes === 1 ? "" : "s"}`;
+}
@@ -7,9 +7,18 @@ import {
     elizaLogger
 } from "@elizaos/core";
 import { vaultProvider } from "../providers/vault-provider";
+import { vaultHistoryEngine, YieldHistorySource } from "../providers/vault-history";
+import {
+    analyzeYieldHistory,
+    defaultGranularity,
+    DEFAULT_RISK_FREE_RATE,
+    ResampleGranularity,
+    ReturnBucket,
+    YieldAnalytics
+} from "../providers/yield-analytics";
 import {
     matchVaultName,
-    VaultDisplayNames,
+    getVaultDisplayName,
     VaultName,
     FormattedYieldHistory
 } from "../types/vault";
@@ -48,7 +57,7 @@ export const yieldHistoryAction: Action = {
         return historyKeywords.some(keyword => content.includes(keyword));
     },
 
-    description: "Show historical yield performance for vaults",
+    description: "Show historical yield performance for vaults with volatility, drawdown, Sharpe/Sortino and best/worst periods",
 
     handler: async (
         runtime: IAgentRuntime,
@@ -85,7 +94,7 @@ export const yieldHistoryAction: Action = {
             if (!vaultAddress) {
                 if (callback) {
                     callback({
-                        text: `The ${VaultDisplayNames[vaultName]} address is not configured. Please check your environment configuration.`,
+                        text: `The ${getVaultDisplayName(vaultName)} address is not configured. Please check your environment configuration.`,
                         content: {
                             text: "Vault address not configured",
                             action: "YIELD_HISTORY",
@@ -102,13 +111,13 @@ export const yieldHistoryAction: Action = {
 
             elizaLogger.info(`Fetching yield history for vault: ${vaultName}, last ${days} days`);
 
-            // Get yield history
-            const history = await vaultProvider.getYieldHistory(runtime, vaultAddress, fromTimestamp);
+            // Dashboard history when available, otherwise reconstructed from archive reads
+            const { source, history } = await vaultHistoryEngine.getYieldHistory(runtime, vaultAddress, fromTimestamp);
 
             if (history.length === 0) {
                 if (callback) {
                     callback({
-                        text: `No yield history available for ${VaultDisplayNames[vaultName]} in the selected time period.`,
+                        text: `No yield history available for ${getVaultDisplayName(vaultName)} in the selected time period.`,
                         content: {
                             text: "No history available",
                             action: "YIELD_HISTORY",
@@ -125,8 +134,15 @@ export const yieldHistoryAction: Action = {
             const totalYield = history.reduce((sum, h) => sum + h.yieldGenerated, 0);
             const trend = calculateTrend(history);
 
+            // Risk and return over calendar buckets
+            const riskFreeSetting = runtime.getSetting("YIELD_RISK_FREE_RATE");
+            const analytics = analyzeYieldHistory(history, {
+                granularity: extractGranularity(content) ?? defaultGranularity(days),
+                riskFreeRate: riskFreeSetting != null && riskFreeSetting !== "" ? Number(riskFreeSetting) : DEFAULT_RISK_FREE_RATE
+            });
+
             // Format response
-            const response = formatYieldHistoryResponse(vaultName, days, history, avgApy, totalYield, trend);
+            const response = formatYieldHistoryResponse(vaultName, days, history, avgApy, totalYield, trend, analytics, source);
 
             elizaLogger.info(`Yield history response generated for ${vaultName}`);
 
@@ -138,12 +154,14 @@ export const yieldHistoryAction: Action = {
                         action: "YIELD_HISTORY",
                         vaultName,
                         days,
+                        source,
                         history,
                         summary: {
                             avgApy,
                             totalYield,
                             trend
-                        }
+                        },
+                        analytics
                     }
                 });
             }
@@ -172,7 +190,7 @@ export const yieldHistoryAction: Action = {
             {
                 name: "{{agentName}}",
                 content: {
-                    text: "Delta Neutral Vault - 30 Day Performance:\n\n📈 Summary:\n• Average APY: 11.8%\n• Total Yield: $12,450\n• Trend: ↗️ Improving\n\nRecent History:\n• Nov 22: APY 12.5%, Value $1.23M, Yield $420\n• Nov 21: APY 12.3%, Value $1.22M, Yield $415\n• Nov 20: APY 11.9%, Value $1.21M, Yield $398\n• Nov 19: APY 11.2%, Value $1.20M, Yield $372\n\nThe vault has shown consistent growth with improving yields over the past week."
+                    text: "Delta Neutral Vault - 30 Day Performance:\n\n📈 Summary:\n• Average APY: 11.8%\n• Total Yield: $12,450\n• Trend: ↗️ Improving\n\n📊 Risk & Return (daily):\n• Cumulative Return: +0.94%\n• Volatility: 1.12% annualized\n• Max Drawdown: -0.08% (recovered in 2 days)\n• Sharpe: 6.41 | Sortino: 11.87 (vs 4.0% risk-free)\n• Best day: Nov 14 (+0.09%)\n• Worst day: Nov 8 (-0.05%)\n\nRecent History:\n• Nov 22: APY 12.5%, Value $1.23M, Yield $420\n• Nov 21: APY 12.3%, Value $1.22M, Yield $415\n• Nov 20: APY 11.9%, Value $1.21M, Yield $398\n• Nov 19: APY 11.2%, Value $1.20M, Yield $372\n\nThe vault has shown consistent growth with improving yields over the past week."
                 }
             }
         ],
@@ -184,7 +202,7 @@ export const yieldHistoryAction: Action = {
             {
                 name: "{{agentName}}",
                 content: {
-                    text: "Stable Max Vault - 30 Day Performance:\n\n📈 Summary:\n• Average APY: 8.1%\n• Total Yield: $6,800\n• Trend: ➡️ Stable\n\nRecent History:\n• Nov 22: APY 8.2%, Value $890K, Yield $200\n• Nov 21: APY 8.2%, Value $888K, Yield $199\n• Nov 20: APY 8.1%, Value $885K, Yield $198\n• Nov 19: APY 8.0%, Value $882K, Yield $196\n\nThe vault has maintained steady yields with minimal volatility."
+                    text: "Stable Max Vault - 30 Day Performance:\n\n📈 Summary:\n• Average APY: 8.1%\n• Total Yield: $6,800\n• Trend: ➡️ Stable\n\n📊 Risk & Return (daily):\n• Cumulative Return: +0.65%\n• Volatility: 0.21% annualized\n• Max Drawdown: none\n• Sharpe: 19.32 | Sortino: n/a (vs 4.0% risk-free)\n• Best day: Nov 20 (+0.03%)\n• Worst day: Nov 2 (+0.02%)\n\nRecent History:\n• Nov 22: APY 8.2%, Value $890K, Yield $200\n• Nov 21: APY 8.2%, Value $888K, Yield $199\n• Nov 20: APY 8.1%, Value $885K, Yield $198\n• Nov 19: APY 8.0%, Value $882K, Yield $196\n\nThe vault has maintained steady yields with minimal volatility."
                 }
             }
         ],
@@ -196,7 +214,7 @@ export const yieldHistoryAction: Action = {
             {
                 name: "{{agentName}}",
                 content: {
-                    text: "Arbitrage Vault - 7 Day Performance:\n\n📈 Summary:\n• Average APY: 23.1%\n• Total Yield: $1,850\n• Trend: ↗️ Improving\n\nRecent History:\n• Nov 22: APY 24.5%, Value $234K, Yield $320\n• Nov 21: APY 23.8%, Value $232K, Yield $295\n• Nov 20: APY 22.9%, Value $230K, Yield $280\n• Nov 19: APY 22.1%, Value $228K, Yield $265\n\nThe vault has shown strong improvement with increasing arbitrage opportunities."
+                    text: "Arbitrage Vault - 7 Day Performance:\n\n📈 Summary:\n• Average APY: 23.1%\n• Total Yield: $1,850\n• Trend: ↗️ Improving\n\n📊 Risk & Return (daily):\n• Cumulative Return: +0.41%\n• Volatility: 2.85% annualized\n• Max Drawdown: -0.11% (recovered in 1 day)\n• Sharpe: 5.92 | Sortino: 8.04 (vs 4.0% risk-free)\n• Best day: Nov 22 (+0.12%)\n• Worst day: Nov 17 (-0.06%)\n\nRecent History:\n• Nov 22: APY 24.5%, Value $234K, Yield $320\n• Nov 21: APY 23.8%, Value $232K, Yield $295\n• Nov 20: APY 22.9%, Value $230K, Yield $280\n• Nov 19: APY 22.1%, Value $228K, Yield $265\n\nThe vault has shown strong improvement with increasing arbitrage opportunities."
                 }
             }
         ]
@@ -234,6 +252,15 @@ function extractTimeRange(content: string): number {
     return 30;
 }
 
+function extractGranularity(content: string): ResampleGranularity | null {
+    const lowerContent = content.toLowerCase();
+
+    if (/\b(daily|per day|by day|day by day)\b/.test(lowerContent)) return "daily";
+    if (/\b(weekly|per week|by week|week by week)\b/.test(lowerContent)) return "weekly";
+    if (/\b(monthly|per month|by month|month by month)\b/.test(lowerContent)) return "monthly";
+    return null;
+}
+
 function calculateTrend(history: FormattedYieldHistory[]): string {
     if (history.length < 2) return "Stable";
 
@@ -258,9 +285,11 @@ function formatYieldHistoryResponse(
     history: FormattedYieldHistory[],
     avgApy: number,
     totalYield: number,
-    trend: string
+    trend: string,
+    analytics: YieldAnalytics,
+    source: YieldHistorySource
 ): string {
-    const displayName = VaultDisplayNames[vaultName];
+    const displayName = getVaultDisplayName(vaultName);
 
     // Trend emoji
     let trendEmoji: string;
@@ -310,8 +339,65 @@ function formatYieldHistoryResponse(
 • Total Yield: $${totalYield.toLocaleString("en-US", { maximumFractionDigits: 0 })}
 • Trend: ${trendEmoji} ${trend}
 
+${formatAnalyticsSection(analytics)}
 Recent History:
 ${recentEntries.join("\n")}
 
-${summaryMessage}`;
+${summaryMessage}${formatSourceNote(source)}`;
+}
+
+function formatAnalyticsSection(analytics: YieldAnalytics): string {
+    const percent = (value: number, digits = 2) => `${value >= 0 ? "+" : ""}${value.toFixed(digits)}%`;
+    const ratio = (value: number | null) => value === null ? "n/a" : value.toFixed(2);
+    const unit = { daily: "day", weekly: "week", monthly: "month" }[analytics.granularity];
+
+    const lines = [`📊 Risk & Return (${analytics.granularity}):`];
+    lines.push(`• Cumulative Return: ${percent(analytics.cumulativeReturn)}`);
+    if (analytics.volatility !== null) {
+        lines.push(`• Volatility: ${analytics.volatility.toFixed(2)}% annualized`);
+    }
+
+    const { drawdown } = analytics;
+    if (drawdown.maxDrawdown > 0) {
+        const recovery = drawdown.recoveryDays === null
+            ? "not yet recovered"
+            : `recovered in ${formatDuration(drawdown.recoveryDays)}`;
+        lines.push(`• Max Drawdown: -${drawdown.maxDrawdown.toFixed(2)}% (${recovery})`);
+    } else {
+        lines.push("• Max Drawdown: none");
+    }
+
+    lines.push(`• Sharpe: ${ratio(analytics.sharpeRatio)} | Sortino: ${ratio(analytics.sortinoRatio)} (vs ${analytics.riskFreeRate.toFixed(1)}% risk-free)`);
+
+    if (analytics.bestPeriod && analytics.worstPeriod && analytics.periods.length >= 2) {
+        lines.push(`• Best ${unit}: ${formatBucket(analytics.bestPeriod, analytics.granularity)} (${percent(analytics.bestPeriod.return)})`);
+        lines.push(`• Worst ${unit}: ${formatBucket(analytics.worstPeriod, analytics.granularity)} (${percent(analytics.worstPeriod.return)})`);
+    }
+
+    return `${lines.join("\n")}\n`;
+}
+
+function formatBucket(bucket: ReturnBucket, granularity: ResampleGranularity): string {
+    const date = new Date(bucket.start * 1000);
+    if (granularity === "monthly") {
+        return date.toLocaleDateString("en-US", { month: "short", year: "numeric", timeZone: "UTC" });
+    }
+    const label = date.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+    return granularity === "weekly" ? `week of ${label}` : label;
+}
+
+function formatDuration(days: number): string {
+    if (days < 1) return `${Math.max(1, Math.round(days * 24))}h`;
+    return `${Math.round(days)} day${Math.round(days) === 1 ? "" : "s"}`;
+}
+
+function formatSourceNote(source: YieldHistorySource): string {
+    switch (source) {
+        case "snapshots":
+            return "\n\nBased on locally recorded vault snapshots.";
+        case "archive":
+            return "\n\nReconstructed from on-chain share price history.";
+        default:
+            return "";
+    }
 }
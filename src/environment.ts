@@ -73,6 +73,19 @@ export interface SeiConfig {
     CONCENTRATED_LIQUIDITY_VAULT_ADDRESS?: string;
     SEI_VAULT_ADDRESS?: string;
     USDC_VAULT_ADDRESS?: string;
+
+    // Multicall3 override (e.g. for a local chain with its own deployment)
+    MULTICALL3_ADDRESS?: string;
+
+    // Uniswap-V3-style pool factory used to locate vault LP pools
+    DEX_V3_FACTORY_ADDRESS?: string;
+
+    // Vault event indexer (SEIOptimizedDeposit / SEIOptimizedWithdraw backfill)
+    VAULT_INDEXER_START_BLOCK?: string;
+    VAULT_INDEXER_CHUNK_SIZE?: string;
+
+    // P&L accounting: "fifo" (default) or "average"
+    PNL_COST_BASIS_METHOD?: "fifo" | "average";
 }
 
 export const seiChains: Record<SeiNetworkName, SeiChain> = {
@@ -257,6 +270,11 @@ export async function validateSeiConfig(runtime: any): Promise<SeiConfig> {
     const concentratedLiquidityVaultAddress = runtime.getSetting("CONCENTRATED_LIQUIDITY_VAULT_ADDRESS");
     const seiVaultAddress = runtime.getSetting("SEI_VAULT_ADDRESS");
     const usdcVaultAddress = runtime.getSetting("USDC_VAULT_ADDRESS");
+    const multicall3Address = runtime.getSetting("MULTICALL3_ADDRESS");
+    const dexV3FactoryAddress = runtime.getSetting("DEX_V3_FACTORY_ADDRESS");
+    const vaultIndexerStartBlock = runtime.getSetting("VAULT_INDEXER_START_BLOCK");
+    const vaultIndexerChunkSize = runtime.getSetting("VAULT_INDEXER_CHUNK_SIZE");
+    const pnlCostBasisMethod = runtime.getSetting("PNL_COST_BASIS_METHOD");
 
     // Check for required variables
     for (const envVar of requiredEnvVars) {
@@ -317,6 +335,11 @@ export async function validateSeiConfig(runtime: any): Promise<SeiConfig> {
         CONCENTRATED_LIQUIDITY_VAULT_ADDRESS: concentratedLiquidityVaultAddress,
         SEI_VAULT_ADDRESS: seiVaultAddress,
         USDC_VAULT_ADDRESS: usdcVaultAddress,
+        MULTICALL3_ADDRESS: multicall3Address,
+        DEX_V3_FACTORY_ADDRESS: dexV3FactoryAddress,
+        VAULT_INDEXER_START_BLOCK: vaultIndexerStartBlock,
+        VAULT_INDEXER_CHUNK_SIZE: vaultIndexerChunkSize,
+        PNL_COST_BASIS_METHOD: pnlCostBasisMethod,
     };
 
     elizaLogger.log("SEI configuration validated successfully");
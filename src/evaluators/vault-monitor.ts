@@ -6,6 +6,9 @@ import {
     type Evaluator
 } from "@elizaos/core";
 import { vaultProvider } from "../providers/vault-provider";
+import { vaultMetricsStore, VaultMetricsSnapshot } from "../providers/vault-metrics-store";
+import { vaultBaselineTracker, VaultAnomaly } from "../providers/vault-anomaly";
+import { vaultThresholds, HealthThresholds } from "../providers/vault-thresholds";
 import { formatUnits } from "viem";
 import { VaultName, VaultDisplayNames } from "../types/vault";
 
@@ -16,38 +19,34 @@ import { VaultName, VaultDisplayNames } from "../types/vault";
  * - TVL changes
  * - APY performance
  * - Share price changes
- * - Alert on anomalies
+ * - Thresholds per vault and risk tier (see providers/vault-thresholds)
+ * - Alert on anomalies: fixed thresholds, plus statistical outliers against
+ *   a rolling per-vault baseline (see providers/vault-anomaly)
  *
  * This is a READ-ONLY evaluator for monitoring purposes.
  * It does NOT execute any transactions or rebalancing.
  */
 
-interface VaultHealthReport {
+export interface VaultHealthReport {
     vaultName: string;
     tvl: number;
     apy: number;
     pricePerShare: number;
     totalYield: number;
+    tvlChange24h?: number; // % vs the recorded snapshot from ~24h ago
+    pricePerShareChange24h?: number;
     status: "healthy" | "warning" | "critical";
     alerts: string[];
+    anomalies?: VaultAnomaly[];
 }
 
-interface MonitoringReport {
+export interface MonitoringReport {
     timestamp: number;
     overallStatus: "healthy" | "warning" | "critical";
     vaults: VaultHealthReport[];
     summary: string;
 }
 
-// Thresholds for health checks
-const HEALTH_THRESHOLDS = {
-    MIN_APY: 10, // Minimum expected APY (10%)
-    TARGET_APY: 15, // Target APY (15%)
-    MAX_APY_DEVIATION: 5, // Max deviation from target (5%)
-    PRICE_PER_SHARE_MIN: 0.95, // Minimum price per share (shouldn't go below initial)
-    TVL_WARNING_THRESHOLD: 1000, // Warn if TVL below this ($1000)
-};
-
 export const vaultMonitorEvaluator: Evaluator = {
     name: "VAULT_MONITOR",
     similes: ["MONITOR_VAULT", "CHECK_VAULT", "VAULT_HEALTH", "VAULT_STATUS"],
@@ -79,13 +78,9 @@ export const vaultMonitorEvaluator: Evaluator = {
         try {
             elizaLogger.info("Running vault health monitoring...");
 
-            // Initialize provider
-            await vaultProvider.initialize(runtime);
-
-            // Get all vaults
-            const allVaults = await vaultProvider.getAllVaults(runtime);
+            const report = await runVaultHealthCheck(runtime);
 
-            if (allVaults.length === 0) {
+            if (!report) {
                 return {
                     success: false,
                     data: {
@@ -94,58 +89,6 @@ export const vaultMonitorEvaluator: Evaluator = {
                 };
             }
 
-            const vaultReports: VaultHealthReport[] = [];
-            let criticalCount = 0;
-            let warningCount = 0;
-
-            // Check each vault
-            for (const vault of allVaults) {
-                try {
-                    const metrics = await vaultProvider.getVaultMetrics(
-                        runtime,
-                        vault.token0 // Using token0 as vault address for now
-                    );
-
-                    const report = evaluateVaultHealth(vault.name, metrics);
-                    vaultReports.push(report);
-
-                    if (report.status === "critical") criticalCount++;
-                    else if (report.status === "warning") warningCount++;
-
-                } catch (error) {
-                    elizaLogger.warn(`Failed to monitor vault ${vault.name}: ${error}`);
-                    vaultReports.push({
-                        vaultName: vault.name,
-                        tvl: 0,
-                        apy: 0,
-                        pricePerShare: 0,
-                        totalYield: 0,
-                        status: "critical",
-                        alerts: ["Failed to fetch vault data"]
-                    });
-                    criticalCount++;
-                }
-            }
-
-            // Determine overall status
-            const overallStatus = criticalCount > 0
-                ? "critical"
-                : warningCount > 0
-                ? "warning"
-                : "healthy";
-
-            // Generate summary
-            const summary = generateSummary(vaultReports, overallStatus);
-
-            const report: MonitoringReport = {
-                timestamp: Date.now(),
-                overallStatus,
-                vaults: vaultReports,
-                summary
-            };
-
-            elizaLogger.info(`Vault monitoring complete - Status: ${overallStatus}, Total: ${vaultReports.length}, Critical: ${criticalCount}, Warning: ${warningCount}`);
-
             return {
                 success: true,
                 data: report
@@ -207,50 +150,171 @@ export const vaultMonitorEvaluator: Evaluator = {
     alwaysRun: false // Set to true if you want this to run on every message
 };
 
+/**
+ * Check every registered vault once and build the monitoring report.
+ * Shared by the evaluator and the scheduled VaultMonitorService; only the
+ * service's evenly spaced runs pass `recordBaseline` to grow the anomaly baseline.
+ * Returns null when no vaults are registered.
+ */
+export async function runVaultHealthCheck(
+    runtime: IAgentRuntime,
+    options: { recordBaseline?: boolean } = {}
+): Promise<MonitoringReport | null> {
+    await vaultProvider.initialize(runtime);
+
+    // Get all vaults
+    const allVaults = (await vaultProvider.getRegisteredVaults(runtime))
+        .filter(vault => vault.info);
+
+    if (allVaults.length === 0) {
+        return null;
+    }
+
+    const vaultReports: VaultHealthReport[] = [];
+    let criticalCount = 0;
+    let warningCount = 0;
+
+    // Check each vault
+    for (const vault of allVaults) {
+        try {
+            const metrics = await vaultProvider.getVaultMetrics(runtime, vault.address);
+            // Only a snapshot from about a day ago counts; after downtime the
+            // newest older one could be weeks old
+            const previous = await vaultMetricsStore.getSnapshotNear(
+                runtime,
+                vault.address,
+                Math.floor(Date.now() / 1000) - 86400,
+                2 * vaultMetricsStore.getSnapshotInterval(runtime)
+            );
+
+            const anomalies = options.recordBaseline
+                ? await vaultBaselineTracker.observe(runtime, vault.address, metrics)
+                : await vaultBaselineTracker.check(runtime, vault.address, metrics);
+            const thresholds = await vaultThresholds.getThresholds(runtime, vault.name, vault.riskLevel);
+
+            const report = evaluateVaultHealth(vault.displayName, metrics, thresholds, previous, anomalies);
+            vaultReports.push(report);
+
+            if (report.status === "critical") criticalCount++;
+            else if (report.status === "warning") warningCount++;
+
+        } catch (error) {
+            elizaLogger.warn(`Failed to monitor vault ${vault.displayName}: ${error}`);
+            vaultReports.push({
+                vaultName: vault.displayName,
+                tvl: 0,
+                apy: 0,
+                pricePerShare: 0,
+                totalYield: 0,
+                status: "critical",
+                alerts: ["Failed to fetch vault data"]
+            });
+            criticalCount++;
+        }
+    }
+
+    // Determine overall status
+    const overallStatus = criticalCount > 0
+        ? "critical"
+        : warningCount > 0
+        ? "warning"
+        : "healthy";
+
+    // Generate summary
+    const summary = generateSummary(vaultReports, overallStatus);
+
+    elizaLogger.info(`Vault monitoring complete - Status: ${overallStatus}, Total: ${vaultReports.length}, Critical: ${criticalCount}, Warning: ${warningCount}`);
+
+    return {
+        timestamp: Date.now(),
+        overallStatus,
+        vaults: vaultReports,
+        summary
+    };
+}
+
 /**
  * Evaluate health of a single vault
  */
 function evaluateVaultHealth(
     vaultName: string,
-    metrics: any
+    metrics: any,
+    thresholds: HealthThresholds,
+    previous: VaultMetricsSnapshot | null = null,
+    anomalies: VaultAnomaly[] = []
 ): VaultHealthReport {
     const alerts: string[] = [];
     let status: "healthy" | "warning" | "critical" = "healthy";
 
     // Check TVL
-    if (metrics.totalValueLocked < HEALTH_THRESHOLDS.TVL_WARNING_THRESHOLD) {
+    if (metrics.totalValueLocked < thresholds.minTvl) {
         alerts.push(`Low TVL: $${metrics.totalValueLocked.toFixed(2)}`);
         status = "warning";
     }
 
     // Check APY
-    if (metrics.apy < HEALTH_THRESHOLDS.MIN_APY) {
-        alerts.push(`APY below minimum: ${metrics.apy.toFixed(2)}% (expected >${HEALTH_THRESHOLDS.MIN_APY}%)`);
+    if (metrics.apy < thresholds.minApy) {
+        alerts.push(`APY below minimum: ${metrics.apy.toFixed(2)}% (expected >${thresholds.minApy}%)`);
         status = "critical";
-    } else if (Math.abs(metrics.apy - HEALTH_THRESHOLDS.TARGET_APY) > HEALTH_THRESHOLDS.MAX_APY_DEVIATION) {
-        alerts.push(`APY deviating from target: ${metrics.apy.toFixed(2)}% (target: ${HEALTH_THRESHOLDS.TARGET_APY}%)`);
+    } else if (Math.abs(metrics.apy - thresholds.targetApy) > thresholds.maxApyDeviation) {
+        alerts.push(`APY deviating from target: ${metrics.apy.toFixed(2)}% (target: ${thresholds.targetApy}%)`);
         if (status === "healthy") status = "warning";
     }
 
     // Check price per share (shouldn't decrease significantly)
-    if (metrics.pricePerShare < HEALTH_THRESHOLDS.PRICE_PER_SHARE_MIN) {
+    if (metrics.pricePerShare < thresholds.minPricePerShare) {
         alerts.push(`Share price below minimum: ${metrics.pricePerShare.toFixed(4)}`);
         status = "critical";
     }
 
+    // Compare with the locally recorded snapshot from a day ago
+    let tvlChange24h: number | undefined;
+    let pricePerShareChange24h: number | undefined;
+    if (previous) {
+        if (previous.totalValueLocked > 0) {
+            tvlChange24h = (metrics.totalValueLocked / previous.totalValueLocked - 1) * 100;
+            if (tvlChange24h < -thresholds.maxTvlOutflow24h) {
+                alerts.push(`TVL down ${Math.abs(tvlChange24h).toFixed(1)}% in 24h (max outflow ${thresholds.maxTvlOutflow24h}%)`);
+                if (status === "healthy") status = "warning";
+            }
+        }
+        if (previous.pricePerShare > 0) {
+            pricePerShareChange24h = (metrics.pricePerShare / previous.pricePerShare - 1) * 100;
+            // A loss beyond the tier's tolerance is critical; growth below the minimum is a warning
+            if (pricePerShareChange24h < -thresholds.maxSharePriceLoss24h) {
+                alerts.push(`Share price fell ${Math.abs(pricePerShareChange24h).toFixed(2)}% in 24h (tolerance ${thresholds.maxSharePriceLoss24h}%)`);
+                status = "critical";
+            } else if (pricePerShareChange24h < thresholds.minSharePriceGrowth24h) {
+                alerts.push(pricePerShareChange24h < 0
+                    ? `Share price fell ${Math.abs(pricePerShareChange24h).toFixed(3)}% in 24h (minimum growth ${thresholds.minSharePriceGrowth24h}%)`
+                    : `Share price grew ${pricePerShareChange24h.toFixed(3)}% in 24h (minimum ${thresholds.minSharePriceGrowth24h}%)`);
+                if (status === "healthy") status = "warning";
+            }
+        }
+    }
+
     // Check fees (informational)
-    if (metrics.managementFeeRate > 2) {
+    if (metrics.managementFeeRate > thresholds.maxManagementFee) {
         alerts.push(`High management fee: ${metrics.managementFeeRate.toFixed(2)}%`);
     }
 
+    // Statistical anomalies escalate status by their severity
+    for (const anomaly of anomalies) {
+        if (anomaly.severity === "critical") status = "critical";
+        else if (anomaly.severity === "warning" && status === "healthy") status = "warning";
+    }
+
     return {
         vaultName,
         tvl: metrics.totalValueLocked,
         apy: metrics.apy,
         pricePerShare: metrics.pricePerShare,
         totalYield: metrics.totalYieldGenerated,
+        tvlChange24h,
+        pricePerShareChange24h,
         status,
-        alerts
+        alerts,
+        anomalies
     };
 }
 
@@ -286,6 +350,9 @@ function generateSummary(
         summary += `\n${getStatusEmoji(report.status)} ${report.vaultName}:\n`;
         summary += `  TVL: $${report.tvl.toLocaleString()} | APY: ${report.apy.toFixed(2)}%\n`;
         summary += `  Price/Share: ${report.pricePerShare.toFixed(4)} | Yield: $${report.totalYield.toLocaleString()}\n`;
+        if (report.tvlChange24h !== undefined && report.pricePerShareChange24h !== undefined) {
+            summary += `  24h: TVL ${formatChange(report.tvlChange24h)} | Price/Share ${formatChange(report.pricePerShareChange24h)}\n`;
+        }
 
         if (report.alerts.length > 0) {
             summary += `  ⚠️  Alerts:\n`;
@@ -293,6 +360,14 @@ function generateSummary(
                 summary += `     - ${alert}\n`;
             });
         }
+
+        if (report.anomalies && report.anomalies.length > 0) {
+            summary += `  🔎 Anomalies:\n`;
+            report.anomalies.forEach(anomaly => {
+                const z = anomaly.zScore !== null ? `, z=${anomaly.zScore.toFixed(1)}` : "";
+                summary += `     - [${anomaly.severity.toUpperCase()}] ${anomaly.message} (n=${anomaly.baseline.samples}${z})\n`;
+            });
+        }
     }
 
     // Add recommendations
@@ -309,6 +384,10 @@ function generateSummary(
     return summary;
 }
 
+function formatChange(percent: number): string {
+    return `${percent >= 0 ? "+" : ""}${percent.toFixed(2)}%`;
+}
+
 /**
  * Get emoji for status
  */
@@ -11,6 +11,16 @@ import { projectedReturnsAction } from "./actions/projected-returns";
 import { vaultListAction } from "./actions/vault-list";
 import { positionDetailsAction } from "./actions/position-details";
 import { optimalDepositAction } from "./actions/optimal-deposit";
+import { vaultStatementAction } from "./actions/vault-statement";
+import { vaultDepositAction } from "./actions/vault-deposit";
+import { vaultWithdrawAction } from "./actions/vault-withdraw";
+import { compareVaultsAction } from "./actions/compare-vaults";
+import { recommendAllocationAction } from "./actions/recommend-allocation";
+import { vaultBenchmarkAction } from "./actions/vault-benchmark";
+import { subscribeAlertAction } from "./actions/subscribe";
+import { manageSubscriptionsAction } from "./actions/manage-subscriptions";
+import { manageAddressGroupsAction } from "./actions/address-groups";
+import { manageAddressBookAction } from "./actions/address-book";
 
 // Import core actions (kept)
 import { transferAction } from "./actions/transfer";
@@ -31,6 +41,10 @@ import { ammRiskEvaluator } from './evaluators/amm-risk';
 import { vaultMonitorEvaluator } from './evaluators/vault-monitor';
 import { AMMManagerProvider_Instance } from './providers/amm-manager';
 
+// Import services
+import { VaultMonitorService } from './services/vault-monitor-service';
+import { SubscriptionService } from './services/subscription-service';
+
 // Import utilities and types from environment
 import {
   validateSeiConfig,
@@ -56,6 +70,16 @@ export const seiYieldDeltaPlugin: Plugin = {
         vaultListAction,
         positionDetailsAction,
         optimalDepositAction,
+        vaultStatementAction,
+        vaultDepositAction,
+        vaultWithdrawAction,
+        compareVaultsAction,
+        recommendAllocationAction,
+        vaultBenchmarkAction,
+        subscribeAlertAction,
+        manageSubscriptionsAction,
+        manageAddressGroupsAction,
+        manageAddressBookAction,
 
         // Core utility actions
         transferAction,
@@ -82,6 +106,10 @@ export const seiYieldDeltaPlugin: Plugin = {
         vaultProvider as any,
         AMMManagerProvider_Instance as any
     ],
+    services: [
+        VaultMonitorService,
+        SubscriptionService
+    ],
 };
 
 // Export new vault query actions
@@ -92,7 +120,17 @@ export {
     projectedReturnsAction,
     vaultListAction,
     positionDetailsAction,
-    optimalDepositAction
+    optimalDepositAction,
+    vaultStatementAction,
+    vaultDepositAction,
+    vaultWithdrawAction,
+    compareVaultsAction,
+    recommendAllocationAction,
+    vaultBenchmarkAction,
+    subscribeAlertAction,
+    manageSubscriptionsAction,
+    manageAddressGroupsAction,
+    manageAddressBookAction
 };
 
 // Export core actions
@@ -121,10 +159,194 @@ export {
     AMMManagerProvider_Instance
 };
 
+// Export services
+export {
+    VaultMonitorService,
+    diffReports,
+    toAlertNotification,
+    DEFAULT_MONITOR_INTERVAL_MINUTES,
+    DEFAULT_ALERT_THROTTLE_MINUTES,
+    type MonitorAlert,
+    type MonitorAlertKind,
+    type MonitorAlertSeverity,
+    type MonitorAlertListener
+} from "./services/vault-monitor-service";
+export {
+    AlertDispatcher,
+    WebhookAlertSink,
+    DiscordAlertSink,
+    TelegramAlertSink,
+    SmtpAlertSink,
+    createAlertDispatcher,
+    createAlertSinksFromSettings,
+    meetsSeverity,
+    parseSeverity,
+    DEFAULT_RETRY_OPTIONS,
+    type AlertSink,
+    type AlertSeverity,
+    type AlertNotification,
+    type AlertDeliveryResult,
+    type RetryOptions,
+    type SmtpOptions
+} from "./services/alert-sinks";
+export { LocalAlertReceiver, type ReceivedAlertRequest } from "./services/local-alert-receiver";
+export { SubscriptionService, DEFAULT_SUBSCRIPTION_INTERVAL_MINUTES } from "./services/subscription-service";
+export {
+    runVaultHealthCheck,
+    type MonitoringReport,
+    type VaultHealthReport
+} from "./evaluators/vault-monitor";
+
 // Export provider classes
 export { WalletProvider } from "./providers/wallet";
 export { SeiOracleProvider } from "./providers/sei-oracle";
-export { VaultProvider } from "./providers/vault-provider";
+export { VaultProvider, type RegisteredVault } from "./providers/vault-provider";
+export { VaultEventIndexer, vaultEventIndexer } from "./providers/vault-event-indexer";
+export {
+    VaultHistoryEngine,
+    vaultHistoryEngine,
+    type VaultYieldHistory,
+    type YieldHistorySource
+} from "./providers/vault-history";
+export {
+    VaultMetricsStore,
+    vaultMetricsStore,
+    MemorySnapshotBackend,
+    JsonFileSnapshotBackend,
+    realizedApy,
+    type MetricsSnapshotBackend,
+    type VaultMetricsSnapshot,
+    type SnapshotRangeQuery
+} from "./providers/vault-metrics-store";
+export {
+    calculateNetReturn,
+    netApy,
+    breakEvenDays,
+    formatBreakEven,
+    type VaultFeeRates,
+    type NetReturnBreakdown
+} from "./providers/vault-fees";
+export {
+    simulateProjection,
+    type MonteCarloOptions,
+    type MonteCarloProjection
+} from "./providers/vault-projections";
+export {
+    PositionAnalyticsEngine,
+    positionAnalytics,
+    analyzePosition,
+    tickToPrice,
+    sqrtPriceX96ToPrice,
+    getAmountsForLiquidity,
+    getFeeGrowthInside,
+    getUncollectedFees,
+    toOracleSymbol,
+    type PositionAnalytics,
+    type PoolSnapshot,
+    type PoolTokenInfo
+} from "./providers/position-analytics";
+export {
+    analyzeYieldHistory,
+    resampleHistory,
+    maxDrawdown,
+    growthIndex,
+    defaultGranularity,
+    type YieldAnalytics,
+    type YieldAnalyticsOptions,
+    type ReturnBucket,
+    type DrawdownInfo,
+    type ResampleGranularity
+} from "./providers/yield-analytics";
+export {
+    VaultBenchmarkEngine,
+    vaultBenchmarkEngine,
+    compareToBenchmarks,
+    type VaultBenchmark,
+    type BenchmarkResult,
+    type BenchmarkName,
+    type BenchmarkOptions
+} from "./providers/vault-benchmark";
+export {
+    VaultBaselineTracker,
+    vaultBaselineTracker,
+    detectAnomalies,
+    computeBaseline,
+    ANOMALY_THRESHOLDS,
+    type VaultAnomaly,
+    type VaultObservation,
+    type AnomalyBaseline,
+    type AnomalySeverity,
+    type AnomalyMetric
+} from "./providers/vault-anomaly";
+export {
+    VaultThresholdRegistry,
+    vaultThresholds,
+    resolveThresholds,
+    parseThresholdsConfig,
+    DEFAULT_HEALTH_THRESHOLDS,
+    type HealthThresholds,
+    type HealthThresholdsConfig
+} from "./providers/vault-thresholds";
+export {
+    SubscriptionEngine,
+    subscriptionEngine,
+    parseSubscriptionRule,
+    parseCondition,
+    describeRule,
+    type SubscriptionRule,
+    type SubscriptionDraft,
+    type SubscriptionMetric,
+    type SubscriptionOperator,
+    type SubscriptionNotification
+} from "./providers/subscriptions";
+export {
+    AddressGroupStore,
+    addressGroups,
+    aggregatePortfolios,
+    toCombinedPositions,
+    MAX_GROUP_ADDRESSES,
+    type AddressGroup
+} from "./providers/address-groups";
+export {
+    AddressBookStore,
+    addressBook,
+    findContactInText,
+    findContactAtStart,
+    normalizeContactName,
+    type AddressBookContact,
+    type ContactAddress
+} from "./providers/address-book";
+export {
+    AddressResolver,
+    addressResolver,
+    AddressResolutionError,
+    addressErrorResponse,
+    findAddressInputs,
+    stripAddresses,
+    isSeiAddress,
+    type ResolvedAddress,
+    type AddressResolutionErrorCode
+} from "./providers/address-resolver";
+
+// Export analytics
+export {
+    calculatePositionPnL,
+    calculatePortfolioPnL,
+    calculateTimeWeightedReturn,
+    calculateMoneyWeightedReturn,
+    type CostBasisMethod,
+    type CostBasisLot,
+    type PositionPnL
+} from "./providers/position-accounting";
+export {
+    generateVaultStatement,
+    formatStatementCsv,
+    formatStatementJson,
+    type StatementEvent,
+    type StatementFormat,
+    type StatementAccountSummary,
+    type VaultStatement
+} from "./providers/vault-statement";
 
 // Export evaluators
 export { ammRiskEvaluator } from './evaluators/amm-risk';
@@ -147,7 +369,13 @@ export {
     VaultDisplayNames,
     VaultStrategies,
     VaultRiskLevels,
+    RiskScores,
     matchVaultName,
+    matchVaultNames,
+    getVaultDisplayName,
+    getVaultStrategy,
+    getVaultRiskLevel,
+    deriveRiskLevel,
     isVaultName,
     isVaultInfo,
     isCustomerPortfolio,
@@ -168,13 +396,20 @@ export type {
     FormattedVaultInfo,
     FormattedPosition,
     FormattedCustomerPortfolio,
+    AddressPortfolio,
+    AggregatedVaultPosition,
+    AggregatedPortfolio,
     FormattedVaultMetrics,
     FormattedYieldHistory,
     FormattedProjectedReturns,
     FormattedDepositRatio,
     VaultAddressMap,
     AIRebalanceParams,
-    RiskLevel
+    RiskLevel,
+    VaultMetadata,
+    VaultActivityType,
+    VaultLedgerEntry,
+    SharePricePoint
 } from "./types/vault";
 
 // Export other types
@@ -0,0 +1,138 @@
+import { getAddress, type Address } from "viem";
+import { type IAgentRuntime, type UUID } from "@elizaos/core";
+
+import { RuntimeStore } from "./runtime-store";
+import { addressResolver, findAddressInputs, type ResolvedAddress } from "./address-resolver";
+
+/**
+ * Per-user address book: named contacts ("alice", "treasury") that can be
+ * used wherever an address is expected, e.g. "send 5 SEI to alice" or
+ * "show portfolio of treasury". A contact always has an EVM address; contacts
+ * saved from a sei1 address keep it alongside for display.
+ */
+
+export interface AddressBookContact {
+    name: string; // Normalized: lowercase, single spaces
+    address: Address; // Checksummed EVM address, used for every lookup
+    seiAddress?: string; // Native sei1 address of the same account, when known
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface ContactAddress extends ResolvedAddress {
+    contact?: string; // Set when the address came from the address book
+}
+
+const CONTACT_NAME_PATTERN = /^[a-z][a-z0-9 _-]{0,31}$/;
+
+// Words that read as part of the request rather than a contact name
+const RESERVED_CONTACT_NAMES = new Set([
+    "me", "my", "i", "you", "self", "all", "the", "a", "an", "it", "them",
+    "address", "addresses", "wallet", "wallets", "contact", "contacts", "book", "sei", "token", "tokens"
+]);
+
+const storeKey = (entityId: UUID) => `address-book:${entityId}`;
+
+export function normalizeContactName(name: string): string | null {
+    const normalized = name.toLowerCase().trim().replace(/\s+/g, " ");
+    if (!CONTACT_NAME_PATTERN.test(normalized) || RESERVED_CONTACT_NAMES.has(normalized)) return null;
+    return normalized;
+}
+
+/**
+ * The contact a message names as a whole word ("show portfolio of alice")
+ */
+export function findContactInText(text: string, contacts: AddressBookContact[]): AddressBookContact | null {
+    const lower = text.toLowerCase().replace(/\s+/g, " ");
+    // Longest names first so "alice work" wins over "alice"
+    const candidates = [...contacts].sort((a, b) => b.name.length - a.name.length);
+    for (const contact of candidates) {
+        const escaped = contact.name.replace(/[.*+?^${}()|[\]\\-]/g, "\\$&");
+        if (new RegExp(`(^|[^a-z0-9_-])${escaped}($|[^a-z0-9_-])`).test(lower)) return contact;
+    }
+    return null;
+}
+
+/**
+ * The contact whose name opens the text as whole words ("alice work now" →
+ * "alice work"). For slots where only one position may name a contact, such
+ * as a transfer recipient.
+ */
+export function findContactAtStart(text: string, contacts: AddressBookContact[]): AddressBookContact | null {
+    const lower = text.toLowerCase().trim().replace(/\s+/g, " ");
+    const candidates = [...contacts].sort((a, b) => b.name.length - a.name.length);
+    return candidates.find(contact => lower === contact.name || lower.startsWith(`${contact.name} `)) || null;
+}
+
+export class AddressBookStore {
+    private store = new RuntimeStore();
+
+    async list(runtime: IAgentRuntime, entityId: UUID): Promise<AddressBookContact[]> {
+        return (await this.store.get<AddressBookContact[]>(runtime, storeKey(entityId))) || [];
+    }
+
+    async get(runtime: IAgentRuntime, entityId: UUID, name: string): Promise<AddressBookContact | null> {
+        const normalized = normalizeContactName(name);
+        if (!normalized) return null;
+        return (await this.list(runtime, entityId)).find(contact => contact.name === normalized) || null;
+    }
+
+    /**
+     * The contact named in a message, if any
+     */
+    async resolve(runtime: IAgentRuntime, entityId: UUID, text: string): Promise<AddressBookContact | null> {
+        return findContactInText(text, await this.list(runtime, entityId));
+    }
+
+    /**
+     * The address a message refers to: the first 0x or sei1 address written in
+     * it, otherwise a saved contact it names. Null when it has neither.
+     */
+    async resolveAddress(runtime: IAgentRuntime, entityId: UUID, text: string): Promise<ContactAddress | null> {
+        if (findAddressInputs(text).length > 0) {
+            return addressResolver.resolveFromText(runtime, text);
+        }
+        const contact = await this.resolve(runtime, entityId, text);
+        if (!contact) return null;
+        return { input: contact.name, address: contact.address, seiAddress: contact.seiAddress, contact: contact.name };
+    }
+
+    /**
+     * Create or replace a contact. Returns null when the name is invalid.
+     */
+    async save(
+        runtime: IAgentRuntime,
+        entityId: UUID,
+        name: string,
+        entry: { address: Address; seiAddress?: string }
+    ): Promise<AddressBookContact | null> {
+        const normalized = normalizeContactName(name);
+        if (!normalized) return null;
+
+        const contacts = await this.list(runtime, entityId);
+        const now = Date.now();
+        const existing = contacts.find(c => c.name === normalized);
+        const contact: AddressBookContact = {
+            name: normalized,
+            address: getAddress(entry.address),
+            seiAddress: entry.seiAddress?.toLowerCase(),
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now
+        };
+
+        await this.store.set(runtime, storeKey(entityId), [...contacts.filter(c => c !== existing), contact]
+            .sort((a, b) => a.name.localeCompare(b.name)));
+        return contact;
+    }
+
+    async remove(runtime: IAgentRuntime, entityId: UUID, name: string): Promise<AddressBookContact | null> {
+        const contacts = await this.list(runtime, entityId);
+        const contact = contacts.find(c => c.name === normalizeContactName(name));
+        if (!contact) return null;
+
+        await this.store.set(runtime, storeKey(entityId), contacts.filter(c => c !== contact));
+        return contact;
+    }
+}
+
+export const addressBook = new AddressBookStore();
@@ -0,0 +1,212 @@
+import { getAddress, type Address } from "viem";
+import { type IAgentRuntime, type UUID } from "@elizaos/core";
+
+import { RuntimeStore } from "./runtime-store";
+import {
+    FormattedCustomerPortfolio,
+    AddressPortfolio,
+    AggregatedPortfolio,
+    AggregatedVaultPosition
+} from "../types/vault";
+
+/**
+ * Named address groups ("treasury", "household"): several wallets a user
+ * wants to see as one portfolio. Groups are stored per user in the runtime
+ * cache and resolved by name in the portfolio, history and export actions.
+ */
+
+export interface AddressGroup {
+    name: string; // Normalized: lowercase, single spaces
+    addresses: Address[]; // Checksummed, unique
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Every address is one portfolio read, so keep groups small
+export const MAX_GROUP_ADDRESSES = 20;
+
+const GROUP_NAME_PATTERN = /^[a-z0-9][a-z0-9 _-]{0,31}$/;
+
+// Words that read as part of the request rather than a group name
+const RESERVED_GROUP_NAMES = new Set(["my", "all", "the", "a", "an", "group", "groups", "address", "addresses", "wallet", "wallets"]);
+
+const storeKey = (entityId: UUID) => `address-groups:${entityId}`;
+
+export function normalizeGroupName(name: string): string | null {
+    const normalized = name.toLowerCase().trim().replace(/\s+/g, " ");
+    if (!GROUP_NAME_PATTERN.test(normalized) || RESERVED_GROUP_NAMES.has(normalized)) return null;
+    return normalized;
+}
+
+/**
+ * The group a message names as a whole word ("portfolio for treasury",
+ * "export the family trust group")
+ */
+export function findGroupInText(text: string, groups: AddressGroup[]): AddressGroup | null {
+    const lower = text.toLowerCase().replace(/\s+/g, " ");
+    // Longest names first so "family trust" wins over "family"
+    const candidates = [...groups].sort((a, b) => b.name.length - a.name.length);
+    for (const group of candidates) {
+        const escaped = group.name.replace(/[.*+?^${}()|[\]\\-]/g, "\\$&");
+        if (new RegExp(`(^|[^a-z0-9_-])${escaped}($|[^a-z0-9_-])`).test(lower)) return group;
+    }
+    return null;
+}
+
+/**
+ * Sum per-address portfolios into household totals, a per-vault breakdown
+ * and each address's contribution. Addresses that failed to load are kept
+ * in byAddress with their error and contribute nothing to the totals.
+ */
+export function aggregatePortfolios(
+    byAddress: Pick<AddressPortfolio, "address" | "positions" | "error">[]
+): AggregatedPortfolio {
+    const vaults = new Map<string, AggregatedVaultPosition>();
+
+    for (const { address, positions } of byAddress) {
+        for (const position of positions) {
+            const key = position.vaultAddress.toLowerCase();
+            let vault = vaults.get(key);
+            if (!vault) {
+                vault = {
+                    vaultAddress: position.vaultAddress,
+                    vaultName: position.vaultName,
+                    shareBalance: 0,
+                    shareValue: 0,
+                    totalDeposited: 0,
+                    totalWithdrawn: 0,
+                    unrealizedGains: 0,
+                    withdrawableValue: 0,
+                    holders: []
+                };
+                vaults.set(key, vault);
+            }
+
+            vault.shareBalance += position.shareBalance;
+            vault.shareValue += position.shareValue;
+            vault.totalDeposited += position.totalDeposited;
+            vault.totalWithdrawn += position.totalWithdrawn;
+            vault.unrealizedGains += position.unrealizedGains;
+            if (position.canWithdraw) vault.withdrawableValue += position.shareValue;
+            if (!vault.holders.includes(address)) vault.holders.push(address);
+        }
+    }
+
+    const byVault = Array.from(vaults.values()).sort((a, b) => b.shareValue - a.shareValue);
+    const positions = byAddress.flatMap(entry => entry.positions);
+
+    return {
+        addresses: byAddress.map(entry => entry.address),
+        totalValue: byVault.reduce((sum, v) => sum + v.shareValue, 0),
+        totalGains: byVault.reduce((sum, v) => sum + v.unrealizedGains, 0),
+        totalDeposited: byVault.reduce((sum, v) => sum + v.totalDeposited, 0),
+        totalWithdrawn: byVault.reduce((sum, v) => sum + v.totalWithdrawn, 0),
+        positionCount: positions.length,
+        byVault,
+        byAddress: byAddress.map(entry => ({
+            ...entry,
+            totalValue: entry.positions.reduce((sum, p) => sum + p.shareValue, 0),
+            totalGains: entry.positions.reduce((sum, p) => sum + p.unrealizedGains, 0)
+        }))
+    };
+}
+
+/**
+ * Positions of an aggregated portfolio, one per vault, shaped like a single
+ * address's portfolio. A vault is withdrawable only if every holder can withdraw.
+ */
+export function toCombinedPositions(portfolio: AggregatedPortfolio): FormattedCustomerPortfolio[] {
+    return portfolio.byVault.map(vault => {
+        const held = portfolio.byAddress.flatMap(entry => entry.positions)
+            .filter(p => p.vaultAddress.toLowerCase() === vault.vaultAddress.toLowerCase());
+        return {
+            vaultAddress: vault.vaultAddress,
+            vaultName: vault.vaultName,
+            shareBalance: vault.shareBalance,
+            shareValue: vault.shareValue,
+            totalDeposited: vault.totalDeposited,
+            totalWithdrawn: vault.totalWithdrawn,
+            unrealizedGains: vault.unrealizedGains,
+            depositTimestamp: Math.min(...held.map(p => p.depositTimestamp)),
+            lockTimeRemaining: Math.max(...held.map(p => p.lockTimeRemaining)),
+            canWithdraw: held.every(p => p.canWithdraw),
+            valueUnit: held[0].valueUnit
+        };
+    });
+}
+
+export class AddressGroupStore {
+    private store = new RuntimeStore();
+
+    async list(runtime: IAgentRuntime, entityId: UUID): Promise<AddressGroup[]> {
+        return (await this.store.get<AddressGroup[]>(runtime, storeKey(entityId))) || [];
+    }
+
+    async get(runtime: IAgentRuntime, entityId: UUID, name: string): Promise<AddressGroup | null> {
+        const normalized = normalizeGroupName(name);
+        if (!normalized) return null;
+        return (await this.list(runtime, entityId)).find(group => group.name === normalized) || null;
+    }
+
+    /**
+     * The group named in a message, if any
+     */
+    async resolve(runtime: IAgentRuntime, entityId: UUID, text: string): Promise<AddressGroup | null> {
+        return findGroupInText(text, await this.list(runtime, entityId));
+    }
+
+    /**
+     * Create the group, or add addresses to it if it exists. Returns null when
+     * the name is invalid; addresses past MAX_GROUP_ADDRESSES are dropped.
+     */
+    async addAddresses(runtime: IAgentRuntime, entityId: UUID, name: string, addresses: Address[]): Promise<AddressGroup | null> {
+        const normalized = normalizeGroupName(name);
+        if (!normalized) return null;
+
+        const groups = await this.list(runtime, entityId);
+        const now = Date.now();
+        let group = groups.find(g => g.name === normalized);
+        if (!group) {
+            group = { name: normalized, addresses: [], createdAt: now, updatedAt: now };
+            groups.push(group);
+        }
+
+        for (const address of addresses) {
+            if (group.addresses.length >= MAX_GROUP_ADDRESSES) break;
+            if (!group.addresses.some(a => a.toLowerCase() === address.toLowerCase())) {
+                group.addresses.push(getAddress(address));
+            }
+        }
+        group.updatedAt = now;
+
+        await this.store.set(runtime, storeKey(entityId), groups);
+        return group;
+    }
+
+    /**
+     * Remove addresses from a group. A group left empty is deleted.
+     */
+    async removeAddresses(runtime: IAgentRuntime, entityId: UUID, name: string, addresses: Address[]): Promise<AddressGroup | null> {
+        const groups = await this.list(runtime, entityId);
+        const group = groups.find(g => g.name === normalizeGroupName(name));
+        if (!group) return null;
+
+        const removing = addresses.map(a => a.toLowerCase());
+        group.addresses = group.addresses.filter(a => !removing.includes(a.toLowerCase()));
+        group.updatedAt = Date.now();
+
+        await this.store.set(runtime, storeKey(entityId), groups.filter(g => g.addresses.length > 0));
+        return group;
+    }
+
+    async delete(runtime: IAgentRuntime, entityId: UUID, name: string): Promise<AddressGroup | null> {
+        const groups = await this.list(runtime, entityId);
+        const group = groups.find(g => g.name === normalizeGroupName(name));
+        if (!group) return null;
+
+        await this.store.set(runtime, storeKey(entityId), groups.filter(g => g !== group));
+        return group;
+    }
+}
+
+export const addressGroups = new AddressGroupStore();
@@ -0,0 +1,226 @@
+import {
+    BaseError,
+    ContractFunctionRevertedError,
+    getAddress,
+    isAddress,
+    zeroAddress,
+    type Address,
+    type PublicClient
+} from "viem";
+import { type IAgentRuntime, elizaLogger } from "@elizaos/core";
+
+import { vaultProvider } from "./vault-provider";
+import { ADDRESS_PRECOMPILE_ABI, ADDRESS_PRECOMPILE_ADDRESS } from "../types/precompiles";
+
+/**
+ * Resolves user-supplied addresses in either format to a checksummed 0x address.
+ *
+ * sei1 (bech32) accounts are looked up through the address precompile's
+ * getEvmAddr. An account only has an EVM address once it is associated (it has
+ * sent an EVM transaction or registered its public key), so unassociated
+ * accounts get a dedicated error instead of a generic RPC failure.
+ * Associations never change, so successful lookups are cached for the process,
+ * per chain: the vault chain and the wallet's chain can differ.
+ */
+
+export type AddressResolutionErrorCode = "invalid" | "unassociated" | "lookup_failed";
+
+export class AddressResolutionError extends Error {
+    constructor(
+        public readonly code: AddressResolutionErrorCode,
+        public readonly input: string,
+        message: string
+    ) {
+        super(message);
+        this.name = "AddressResolutionError";
+    }
+}
+
+export interface ResolvedAddress {
+    input: string; // As written by the user
+    address: Address;
+    seiAddress?: string; // Set when the input was a sei1 address
+}
+
+const BECH32_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+
+// 20-byte accounts are 38 data characters; 32-byte (contract) addresses are 58
+const SEI_ADDRESS_PATTERN = /^sei1[qpzry9x8gf2tvdw0s3jn54khce6mua7l]{38}([qpzry9x8gf2tvdw0s3jn54khce6mua7l]{20})?$/;
+const ADDRESS_IN_TEXT = /\b(0x[a-fA-F0-9]{40}|sei1[02-9ac-hj-np-z]{38}(?:[02-9ac-hj-np-z]{20})?)\b/gi;
+
+export function isSeiAddress(value: string): boolean {
+    return SEI_ADDRESS_PATTERN.test(value) && hasValidBech32Checksum(value);
+}
+
+/**
+ * Every 0x or sei1 address written in the text, in order, without duplicates
+ */
+export function findAddressInputs(text: string): string[] {
+    const inputs: string[] = [];
+    for (const match of text.matchAll(ADDRESS_IN_TEXT)) {
+        // bech32 is case-insensitive; 0x case carries the EIP-55 checksum
+        const input = match[1].toLowerCase().startsWith("sei1") ? match[1].toLowerCase() : match[1];
+        if (!inputs.some(existing => existing.toLowerCase() === input.toLowerCase())) inputs.push(input);
+    }
+    return inputs;
+}
+
+/**
+ * The text with every 0x and sei1 address blanked out
+ */
+export function stripAddresses(text: string): string {
+    return text.replace(ADDRESS_IN_TEXT, " ");
+}
+
+type PrecompileReader = Pick<PublicClient, "readContract" | "chain">;
+
+export class AddressResolver {
+    private cache = new Map<string, Address>(); // Keyed by `${chainId}:${seiAddress}`
+
+    /**
+     * Resolve one address, reading the precompile through the vault provider's
+     * client. Throws AddressResolutionError with a user-facing message.
+     */
+    async resolve(runtime: IAgentRuntime, input: string): Promise<ResolvedAddress> {
+        return this.resolveInput(input, async () => {
+            await vaultProvider.initialize(runtime);
+            return vaultProvider.getPublicClient();
+        });
+    }
+
+    /**
+     * Resolve one address with a specific client (e.g. the wallet's, so the
+     * lookup happens on the chain the transaction goes to)
+     */
+    async resolveWithClient(client: PrecompileReader, input: string): Promise<ResolvedAddress> {
+        return this.resolveInput(input, async () => client);
+    }
+
+    /**
+     * The first address in a message, resolved. Null when the message has none.
+     */
+    async resolveFromText(runtime: IAgentRuntime, text: string): Promise<ResolvedAddress | null> {
+        const [first] = findAddressInputs(text);
+        return first ? this.resolve(runtime, first) : null;
+    }
+
+    /**
+     * Every address in a message, resolved in order
+     */
+    async resolveAllFromText(runtime: IAgentRuntime, text: string): Promise<ResolvedAddress[]> {
+        const resolved: ResolvedAddress[] = [];
+        for (const input of findAddressInputs(text)) {
+            resolved.push(await this.resolve(runtime, input));
+        }
+        return resolved;
+    }
+
+    clearCache(): void {
+        this.cache.clear();
+    }
+
+    private async resolveInput(input: string, getClient: () => Promise<PrecompileReader>): Promise<ResolvedAddress> {
+        const trimmed = input.trim();
+
+        if (trimmed.startsWith("0x")) {
+            if (!isAddress(trimmed, { strict: false })) {
+                throw new AddressResolutionError("invalid", trimmed, `${trimmed} is not a valid 0x address.`);
+            }
+            // Mixed case is an EIP-55 checksum and has to match
+            if (trimmed !== trimmed.toLowerCase() && trimmed.slice(2) !== trimmed.slice(2).toUpperCase() && !isAddress(trimmed, { strict: true })) {
+                throw new AddressResolutionError("invalid", trimmed, `${trimmed} has an invalid checksum. Check the address for typos.`);
+            }
+            return { input: trimmed, address: getAddress(trimmed) };
+        }
+
+        const seiAddress = trimmed.toLowerCase();
+        if (!isSeiAddress(seiAddress)) {
+            throw new AddressResolutionError("invalid", trimmed, `${trimmed} is not a valid address. Use a 0x address or a sei1 address.`);
+        }
+
+        const client = await getClient();
+        const cacheKey = `${client.chain?.id}:${seiAddress}`;
+        const cached = this.cache.get(cacheKey);
+        if (cached) return { input: trimmed, address: cached, seiAddress };
+
+        const address = await this.lookup(client, seiAddress);
+        this.cache.set(cacheKey, address);
+        elizaLogger.info(`Resolved ${seiAddress} to ${address}`);
+        return { input: trimmed, address, seiAddress };
+    }
+
+    private async lookup(client: PrecompileReader, seiAddress: string): Promise<Address> {
+        let evmAddress: unknown;
+        try {
+            evmAddress = await client.readContract({
+                address: ADDRESS_PRECOMPILE_ADDRESS,
+                abi: ADDRESS_PRECOMPILE_ABI,
+                functionName: "getEvmAddr",
+                args: [seiAddress]
+            });
+        } catch (error) {
+            // The precompile reverts for accounts without an association
+            const reverted = error instanceof BaseError && error.walk(e => e instanceof ContractFunctionRevertedError);
+            if (reverted) throw unassociated(seiAddress);
+
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new AddressResolutionError("lookup_failed", seiAddress, `Couldn't look up the EVM address for ${seiAddress}: ${reason}`);
+        }
+
+        if (typeof evmAddress !== "string" || !isAddress(evmAddress, { strict: false }) || evmAddress.toLowerCase() === zeroAddress) {
+            throw unassociated(seiAddress);
+        }
+        return getAddress(evmAddress);
+    }
+}
+
+function unassociated(seiAddress: string): AddressResolutionError {
+    return new AddressResolutionError(
+        "unassociated",
+        seiAddress,
+        `${seiAddress} isn't linked to an EVM address yet. The account holder needs to send one EVM transaction (or associate their public key) first, or you can use their 0x address instead.`
+    );
+}
+
+// BIP-173 checksum over the human-readable part and data
+function hasValidBech32Checksum(value: string): boolean {
+    const separator = value.lastIndexOf("1");
+    const prefix = value.slice(0, separator);
+    const data = value.slice(separator + 1).split("").map(char => BECH32_CHARSET.indexOf(char));
+    if (data.some(index => index < 0)) return false;
+
+    const expanded = [
+        ...prefix.split("").map(char => char.charCodeAt(0) >> 5),
+        0,
+        ...prefix.split("").map(char => char.charCodeAt(0) & 31)
+    ];
+
+    const generators = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+    let checksum = 1;
+    for (const digit of [...expanded, ...data]) {
+        const top = checksum >> 25;
+        checksum = ((checksum & 0x1ffffff) << 5) ^ digit;
+        for (let i = 0; i < 5; i++) {
+            if ((top >> i) & 1) checksum ^= generators[i];
+        }
+    }
+    return checksum === 1;
+}
+
+/**
+ * Callback payload for an action that couldn't resolve the address it was given
+ */
+export function addressErrorResponse(error: AddressResolutionError, action: string) {
+    return {
+        text: error.message,
+        content: {
+            text: error.message,
+            action,
+            error: error.message,
+            errorCode: error.code,
+            address: error.input
+        }
+    };
+}
+
+export const addressResolver = new AddressResolver();
@@ -1,4 +1,12 @@
 import { Provider, IAgentRuntime, elizaLogger } from "@elizaos/core";
+import { AlertDispatcher, AlertThrottle, createAlertDispatcher } from "../services/alert-sinks";
+
+// Spreads above this (per funding period) are reported to the alert sinks
+const ALERT_SPREAD = 0.001; // 10bps
+const DEFAULT_ALERT_THROTTLE_MINUTES = 60;
+
+// Shared by every provider instance so repeated queries don't repeat alerts
+const alertThrottle = new AlertThrottle("funding-rates:alert-history", "FUNDING_ALERT_THROTTLE_MINUTES", DEFAULT_ALERT_THROTTLE_MINUTES);
 
 export interface FundingRateData {
   exchange: string;
@@ -25,7 +33,11 @@ export interface ArbitrageOpportunity {
 }
 
 export class FundingRateProvider {
-  constructor(private runtime: IAgentRuntime) {}
+  private alerts: AlertDispatcher;
+
+  constructor(private runtime: IAgentRuntime, alerts?: AlertDispatcher) {
+    this.alerts = alerts ?? createAlertDispatcher(runtime);
+  }
 
   async get(symbol: string = "SEI-USDT"): Promise<FundingRateData[]> {
     const now = new Date();
@@ -110,7 +122,25 @@ export class FundingRateProvider {
       }
     }
 
-    return opportunities.sort((a, b) => b.profitPotential - a.profitPotential);
+    opportunities.sort((a, b) => b.profitPotential - a.profitPotential);
+    await this.reportOpportunities(opportunities.filter(o => o.spread > ALERT_SPREAD));
+    return opportunities;
+  }
+
+  // One alert per symbol and exchange pair per throttle window. Delivery
+  // retries run in the background so they never hold up the query
+  private async reportOpportunities(opportunities: ArbitrageOpportunity[]): Promise<void> {
+    const fresh = await alertThrottle.filter(this.runtime, opportunities, o => `${o.symbol}:${o.exchange1}:${o.exchange2}`);
+    if (fresh.length === 0) return;
+
+    void this.alerts.dispatch(fresh.map(o => ({
+      source: 'funding-rates',
+      severity: 'warning' as const,
+      title: `Funding rate spread on ${o.symbol}: ${o.exchange1} vs ${o.exchange2}`,
+      message: `${o.exchange1} ${(o.rate1 * 100).toFixed(4)}% vs ${o.exchange2} ${(o.rate2 * 100).toFixed(4)}% per period, a ${(o.spread * 10000).toFixed(1)}bps spread (~$${o.profitPotential.toFixed(0)}/yr on $10k)`,
+      timestamp: Date.now(),
+      fields: { symbol: o.symbol, spreadBps: Number((o.spread * 10000).toFixed(1)), confidence: o.confidence }
+    })));
   }
 
   private async getBinanceFunding(symbol: string): Promise<FundingRateData | null> {
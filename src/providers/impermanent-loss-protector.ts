@@ -3,6 +3,7 @@ import {
 } from "@elizaos/core";
 import { GeographicTradingRouter, GeographicConfig, HedgeResult, ProtectionStrategy } from './geographic-routing';
 import { LiquidityPosition, HedgeStrategy } from './coinbase-advanced';
+import { AlertDispatcher, AlertSeverity } from '../services/alert-sinks';
 
 export interface ILRiskMetrics {
   volatility: number;
@@ -23,7 +24,8 @@ export class ImpermanentLossProtector {
   private geographicRouter: GeographicTradingRouter;
   private riskCalculator: ILRiskCalculator;
 
-  constructor(config: GeographicConfig) {
+  // HIGH and CRITICAL risk assessments are also sent to these sinks
+  constructor(config: GeographicConfig, private alerts?: AlertDispatcher) {
     this.geographicRouter = new GeographicTradingRouter(config);
     this.riskCalculator = new BasicILRiskCalculator();
   }
@@ -38,6 +40,7 @@ export class ImpermanentLossProtector {
       // 1. Calculate IL risk
       const ilRisk = await this.riskCalculator.calculateRisk(position);
       elizaLogger.log(`IL Risk Assessment: ${ilRisk.riskLevel}, Current IL: ${ilRisk.currentIL.toFixed(2)}%`);
+      this.reportRisk(position, ilRisk);
 
       // 2. Determine best protection approach
       const protectionType = this.determineProtectionStrategy(ilRisk, strategy);
@@ -56,6 +59,22 @@ export class ImpermanentLossProtector {
     }
   }
 
+  // Delivery retries run in the background so they never hold up protection
+  private reportRisk(position: LiquidityPosition, ilRisk: ILRiskMetrics): void {
+    if (!this.alerts || (ilRisk.riskLevel !== 'HIGH' && ilRisk.riskLevel !== 'CRITICAL')) return;
+
+    const severity: AlertSeverity = ilRisk.riskLevel === 'CRITICAL' ? 'critical' : 'warning';
+    const pair = `${position.baseToken}/${position.quoteToken}`;
+    void this.alerts.dispatch([{
+      source: 'impermanent-loss',
+      severity,
+      title: `${ilRisk.riskLevel} impermanent loss risk: ${pair}`,
+      message: `Current IL ${ilRisk.currentIL.toFixed(2)}%, projected ${ilRisk.projectedIL.toFixed(2)}% on a $${position.value.toLocaleString()} position`,
+      timestamp: Date.now(),
+      fields: { pair, protocol: position.protocol, value: position.value }
+    }]);
+  }
+
   private determineProtectionStrategy(
     ilRisk: ILRiskMetrics,
     userStrategy?: 'AUTO' | 'CONSERVATIVE' | 'AGGRESSIVE'
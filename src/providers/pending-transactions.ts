@@ -0,0 +1,86 @@
+import type { IAgentRuntime, Memory } from "@elizaos/core";
+import { RuntimeStore } from "./runtime-store";
+
+/**
+ * Transactions the agent has previewed but not yet sent.
+ *
+ * Write actions run in two turns: the first builds a preview and parks it here,
+ * the second ("confirm" / "cancel") picks it up for the same user in the same room.
+ * There is at most one pending write per user and room, whatever its kind: a
+ * new preview replaces the previous one, so a single "yes" can only ever send
+ * the transaction previewed last.
+ */
+
+export type PendingTransactionKind = "vault-deposit" | "vault-withdraw";
+
+export interface PendingTransaction<T> {
+    kind: PendingTransactionKind;
+    createdAt: number;
+    expiresAt: number;
+    params: T;
+}
+
+const DEFAULT_TTL_MS = 10 * 60 * 1000;
+const KEY_PREFIX = "pending-tx:";
+
+const CONFIRM_PATTERN = /^\s*(yes|y|confirm|confirmed|proceed|go ahead|do it|approve)\b/i;
+const CANCEL_PATTERN = /^\s*(no|n|cancel|abort|stop|never ?mind)\b/i;
+
+export function isConfirmation(text: string): boolean {
+    return CONFIRM_PATTERN.test(text);
+}
+
+export function isCancellation(text: string): boolean {
+    return CANCEL_PATTERN.test(text);
+}
+
+export class PendingTransactionStore {
+    private store = new RuntimeStore();
+
+    async create<T>(
+        runtime: IAgentRuntime,
+        message: Memory,
+        kind: PendingTransactionKind,
+        params: T,
+        ttlMs: number = DEFAULT_TTL_MS
+    ): Promise<PendingTransaction<T>> {
+        const now = Date.now();
+        const pending: PendingTransaction<T> = { kind, createdAt: now, expiresAt: now + ttlMs, params };
+        await this.store.set(runtime, this.key(message), pending);
+        return pending;
+    }
+
+    /**
+     * Get the pending transaction of this kind for this user and room, or
+     * undefined if none, expired or replaced by a preview of another kind
+     */
+    async get<T>(
+        runtime: IAgentRuntime,
+        message: Memory,
+        kind: PendingTransactionKind
+    ): Promise<PendingTransaction<T> | undefined> {
+        const pending = await this.store.get<PendingTransaction<T>>(runtime, this.key(message));
+        if (!pending || pending.kind !== kind) return undefined;
+
+        if (pending.expiresAt < Date.now()) {
+            await this.clear(runtime, message, kind);
+            return undefined;
+        }
+        return pending;
+    }
+
+    // Only clears a pending transaction of this kind
+    async clear(runtime: IAgentRuntime, message: Memory, kind: PendingTransactionKind): Promise<void> {
+        const pending = await this.store.get<PendingTransaction<unknown>>(runtime, this.key(message));
+        if (pending?.kind === kind) {
+            await this.store.delete(runtime, this.key(message));
+        }
+    }
+
+    private key(message: Memory): string {
+        return `${KEY_PREFIX}${message.roomId}:${message.entityId}`;
+    }
+}
+
+// Export singleton instance
+export const pendingTransactions = new PendingTransactionStore();
@@ -0,0 +1,265 @@
+import type { Address } from "viem";
+import type { VaultLedgerEntry } from "../types/vault";
+
+/**
+ * Lot-based P&L accounting for vault positions.
+ *
+ * Works from the deposit/withdraw ledger built by the event indexer:
+ * - every deposit opens a lot (shares + cost)
+ * - every withdrawal closes shares against open lots (FIFO or average cost)
+ *   and realizes proceeds minus the cost of the closed shares
+ */
+
+export type CostBasisMethod = "fifo" | "average";
+
+export interface CostBasisLot {
+    openedAt: number;
+    shares: number;
+    cost: number;
+}
+
+export interface CurrentPositionValue {
+    shareBalance: number;
+    shareValue: number;
+}
+
+export interface PositionPnL {
+    vaultAddress: Address;
+    vaultName: string;
+    method: CostBasisMethod;
+    sharesHeld: number;
+    costBasis: number;
+    currentValue: number;
+    totalDeposited: number;
+    totalWithdrawn: number;
+    realizedPnL: number;
+    unrealizedPnL: number;
+    totalPnL: number;
+    timeWeightedReturn: number; // %, cumulative
+    moneyWeightedReturn: number | null; // %, annualized (null if it cannot be solved)
+    openLots: CostBasisLot[];
+}
+
+const SECONDS_PER_YEAR = 365 * 86400;
+const SHARE_EPSILON = 1e-12;
+
+export interface RealizedWithdrawal {
+    entry: VaultLedgerEntry;
+    closedCost: number;
+    realizedPnL: number;
+}
+
+export interface LedgerReplay {
+    lots: CostBasisLot[];
+    realized: RealizedWithdrawal[];
+    totalDeposited: number;
+    totalWithdrawn: number;
+}
+
+/**
+ * Replay a ledger through the lot book, recording the cost closed and the
+ * P&L realized by every withdrawal. Entries must be sorted oldest first.
+ */
+export function replayLedger(
+    entries: VaultLedgerEntry[],
+    method: CostBasisMethod = "fifo"
+): LedgerReplay {
+    let lots: CostBasisLot[] = [];
+    const realized: RealizedWithdrawal[] = [];
+    let totalDeposited = 0;
+    let totalWithdrawn = 0;
+
+    for (const entry of entries) {
+        if (entry.type === "deposit") {
+            lots.push({ openedAt: entry.timestamp, shares: entry.shares, cost: entry.amount });
+            totalDeposited += entry.amount;
+            if (method === "average") {
+                lots = mergeLots(lots);
+            }
+            continue;
+        }
+
+        totalWithdrawn += entry.amount;
+        const closedCost = closeShares(lots, entry.shares);
+        realized.push({ entry, closedCost, realizedPnL: entry.amount - closedCost });
+        lots = lots.filter(lot => lot.shares > SHARE_EPSILON);
+    }
+
+    return { lots, realized, totalDeposited, totalWithdrawn };
+}
+
+export function sortLedger(entries: VaultLedgerEntry[]): VaultLedgerEntry[] {
+    return [...entries].sort((a, b) =>
+        a.timestamp - b.timestamp || a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+    );
+}
+
+/**
+ * Calculate realized/unrealized P&L and returns for a single vault position
+ */
+export function calculatePositionPnL(
+    entries: VaultLedgerEntry[],
+    current: CurrentPositionValue,
+    method: CostBasisMethod = "fifo",
+    now: number = Math.floor(Date.now() / 1000)
+): PositionPnL {
+    if (entries.length === 0) {
+        throw new Error("No ledger entries to account for");
+    }
+
+    const sorted = sortLedger(entries);
+    const { lots, realized, totalDeposited, totalWithdrawn } = replayLedger(sorted, method);
+    const realizedPnL = realized.reduce((sum, r) => sum + r.realizedPnL, 0);
+
+    const sharesHeld = lots.reduce((sum, lot) => sum + lot.shares, 0);
+    const costBasis = lots.reduce((sum, lot) => sum + lot.cost, 0);
+
+    // Value the shares we can account for at the current on-chain share price
+    const pricePerShare = current.shareBalance > 0 ? current.shareValue / current.shareBalance : 0;
+    const currentValue = sharesHeld * pricePerShare;
+    const unrealizedPnL = currentValue - costBasis;
+
+    return {
+        vaultAddress: sorted[0].vaultAddress,
+        vaultName: sorted[0].vaultName,
+        method,
+        sharesHeld,
+        costBasis,
+        currentValue,
+        totalDeposited,
+        totalWithdrawn,
+        realizedPnL,
+        unrealizedPnL,
+        totalPnL: realizedPnL + unrealizedPnL,
+        timeWeightedReturn: calculateTimeWeightedReturn(sorted, pricePerShare),
+        moneyWeightedReturn: calculateMoneyWeightedReturn(sorted, currentValue, now),
+        openLots: lots
+    };
+}
+
+/**
+ * Group ledger entries by vault and account for each position
+ */
+export function calculatePortfolioPnL(
+    entries: VaultLedgerEntry[],
+    currentByVault: Record<string, CurrentPositionValue>,
+    method: CostBasisMethod = "fifo",
+    now: number = Math.floor(Date.now() / 1000)
+): PositionPnL[] {
+    const byVault = new Map<string, VaultLedgerEntry[]>();
+    for (const entry of entries) {
+        const key = entry.vaultAddress.toLowerCase();
+        byVault.set(key, [...(byVault.get(key) || []), entry]);
+    }
+
+    return Array.from(byVault.entries()).map(([vaultKey, vaultEntries]) =>
+        calculatePositionPnL(
+            vaultEntries,
+            currentByVault[vaultKey] || { shareBalance: 0, shareValue: 0 },
+            method,
+            now
+        )
+    );
+}
+
+/**
+ * Time-weighted return (%): chains the share-price return between cash flows,
+ * so it measures the vault's performance independent of deposit timing.
+ * Share price at each event is amount / shares.
+ */
+export function calculateTimeWeightedReturn(
+    entries: VaultLedgerEntry[],
+    currentPricePerShare: number
+): number {
+    const prices = entries
+        .filter(e => e.shares > 0)
+        .map(e => e.amount / e.shares);
+
+    if (prices.length === 0 || currentPricePerShare <= 0) return 0;
+
+    prices.push(currentPricePerShare);
+
+    let growth = 1;
+    for (let i = 1; i < prices.length; i++) {
+        growth *= prices[i] / prices[i - 1];
+    }
+
+    return (growth - 1) * 100;
+}
+
+/**
+ * Money-weighted return (%, annualized): the IRR of the position's cash flows,
+ * treating the current value as a final withdrawal. Solved by bisection.
+ */
+export function calculateMoneyWeightedReturn(
+    entries: VaultLedgerEntry[],
+    currentValue: number,
+    now: number
+): number | null {
+    if (entries.length === 0) return null;
+
+    const start = Math.min(...entries.map(e => e.timestamp));
+    const flows = entries.map(e => ({
+        years: (e.timestamp - start) / SECONDS_PER_YEAR,
+        amount: e.type === "deposit" ? -e.amount : e.amount
+    }));
+    flows.push({ years: (now - start) / SECONDS_PER_YEAR, amount: currentValue });
+
+    // Too short a window to annualize meaningfully
+    if (flows[flows.length - 1].years <= 0) return null;
+
+    const npv = (rate: number) =>
+        flows.reduce((sum, f) => sum + f.amount / Math.pow(1 + rate, f.years), 0);
+
+    let low = -0.9999;
+    let high = 10;
+    let npvLow = npv(low);
+    const npvHigh = npv(high);
+
+    if (!isFinite(npvLow) || !isFinite(npvHigh) || npvLow * npvHigh > 0) return null;
+
+    for (let i = 0; i < 200; i++) {
+        const mid = (low + high) / 2;
+        const npvMid = npv(mid);
+        if (Math.abs(npvMid) < 1e-9) return mid * 100;
+        if (npvLow * npvMid < 0) {
+            high = mid;
+        } else {
+            low = mid;
+            npvLow = npvMid;
+        }
+    }
+
+    return ((low + high) / 2) * 100;
+}
+
+// Close shares against open lots in order, returning the cost removed
+function closeShares(lots: CostBasisLot[], shares: number): number {
+    let remaining = shares;
+    let closedCost = 0;
+
+    for (const lot of lots) {
+        if (remaining <= SHARE_EPSILON) break;
+        if (lot.shares <= SHARE_EPSILON) continue;
+
+        const closed = Math.min(lot.shares, remaining);
+        const cost = lot.cost * (closed / lot.shares);
+
+        lot.shares -= closed;
+        lot.cost -= cost;
+        closedCost += cost;
+        remaining -= closed;
+    }
+
+    return closedCost;
+}
+
+// Average cost keeps a single pooled lot dated at the first deposit
+function mergeLots(lots: CostBasisLot[]): CostBasisLot[] {
+    if (lots.length <= 1) return lots;
+    return [{
+        openedAt: Math.min(...lots.map(l => l.openedAt)),
+        shares: lots.reduce((sum, l) => sum + l.shares, 0),
+        cost: lots.reduce((sum, l) => sum + l.cost, 0)
+    }];
+}
@@ -0,0 +1,365 @@
+import { erc20Abi, zeroAddress, type Address } from "viem";
+import { type IAgentRuntime, elizaLogger } from "@elizaos/core";
+import NodeCache from "node-cache";
+
+import { vaultProvider, BatchReadResult } from "./vault-provider";
+import { SeiOracleProvider } from "./sei-oracle";
+import {
+    Position,
+    VaultInfo,
+    STRATEGY_VAULT_ABI,
+    CL_POOL_ABI,
+    CL_POOL_FACTORY_ABI
+} from "../types/vault";
+
+/**
+ * Concentrated-liquidity analytics for vault LP positions.
+ *
+ * Uniswap-V3 math over the vault's position (ticks, liquidity, fee growth
+ * checkpoints) and the pool's slot0, global fee growth and the fee growth
+ * recorded outside each range edge. Prices are token1 per token0, adjusted
+ * for token decimals.
+ */
+
+export interface PoolTokenInfo {
+    address: Address;
+    symbol: string;
+    decimals: number;
+}
+
+// Pool state needed to value a position
+export interface PoolSnapshot {
+    address: Address;
+    sqrtPriceX96: bigint;
+    tick: number;
+    feeGrowthGlobal0X128: bigint;
+    feeGrowthGlobal1X128: bigint;
+    lowerFeeGrowthOutside0X128: bigint;
+    lowerFeeGrowthOutside1X128: bigint;
+    upperFeeGrowthOutside0X128: bigint;
+    upperFeeGrowthOutside1X128: bigint;
+}
+
+export interface PositionAnalytics {
+    pool: Address;
+    token0: PoolTokenInfo;
+    token1: PoolTokenInfo;
+    tickLower: number;
+    tickUpper: number;
+    currentTick: number;
+    liquidity: number;
+    priceLower: number;
+    priceUpper: number;
+    currentPrice: number;
+    inRange: boolean;
+    distanceToLower: number; // %, price move down to the lower edge (negative when above it)
+    distanceToUpper: number; // %, price move up to the upper edge (negative when below it)
+    amount0: number;
+    amount1: number;
+    fees0: number;
+    fees1: number;
+    token0PriceUsd: number | null;
+    token1PriceUsd: number | null;
+    valueUsd: number | null;
+    feesUsd: number | null;
+}
+
+const Q96 = 2 ** 96;
+const Q128 = 1n << 128n;
+const UINT256 = 1n << 256n;
+const POOL_CACHE_TTL = 60;
+
+const USD_PEGGED_ASSETS = ["USDC", "USDT", "DAI"];
+
+// Wrapped tokens are priced as their native asset
+const ORACLE_SYMBOLS: Record<string, string> = { WSEI: "SEI", WETH: "ETH", WBTC: "BTC" };
+
+export function toOracleSymbol(symbol: string): string {
+    return ORACLE_SYMBOLS[symbol] || symbol;
+}
+
+/**
+ * Price of token0 in token1 at a tick
+ */
+export function tickToPrice(tick: number, decimals0: number, decimals1: number): number {
+    return Math.pow(1.0001, tick) * Math.pow(10, decimals0 - decimals1);
+}
+
+export function sqrtPriceX96ToPrice(sqrtPriceX96: bigint, decimals0: number, decimals1: number): number {
+    const sqrtPrice = Number(sqrtPriceX96) / Q96;
+    return sqrtPrice * sqrtPrice * Math.pow(10, decimals0 - decimals1);
+}
+
+/**
+ * Token amounts (raw units) held by `liquidity` between two ticks at the
+ * current pool price
+ */
+export function getAmountsForLiquidity(
+    sqrtPriceX96: bigint,
+    tickLower: number,
+    tickUpper: number,
+    liquidity: bigint
+): { amount0: number; amount1: number } {
+    const sqrtPrice = Number(sqrtPriceX96) / Q96;
+    const sqrtLower = Math.pow(1.0001, tickLower / 2);
+    const sqrtUpper = Math.pow(1.0001, tickUpper / 2);
+    const L = Number(liquidity);
+
+    if (sqrtPrice <= sqrtLower) {
+        return { amount0: L * (sqrtUpper - sqrtLower) / (sqrtLower * sqrtUpper), amount1: 0 };
+    }
+    if (sqrtPrice >= sqrtUpper) {
+        return { amount0: 0, amount1: L * (sqrtUpper - sqrtLower) };
+    }
+    return {
+        amount0: L * (sqrtUpper - sqrtPrice) / (sqrtPrice * sqrtUpper),
+        amount1: L * (sqrtPrice - sqrtLower)
+    };
+}
+
+/**
+ * Fee growth per unit of liquidity inside a range, as the pool computes it
+ * (all arithmetic wraps at 2^256)
+ */
+export function getFeeGrowthInside(
+    tickCurrent: number,
+    tickLower: number,
+    tickUpper: number,
+    feeGrowthGlobalX128: bigint,
+    lowerFeeGrowthOutsideX128: bigint,
+    upperFeeGrowthOutsideX128: bigint
+): bigint {
+    const below = tickCurrent >= tickLower
+        ? lowerFeeGrowthOutsideX128
+        : wrap(feeGrowthGlobalX128 - lowerFeeGrowthOutsideX128);
+    const above = tickCurrent < tickUpper
+        ? upperFeeGrowthOutsideX128
+        : wrap(feeGrowthGlobalX128 - upperFeeGrowthOutsideX128);
+
+    return wrap(feeGrowthGlobalX128 - below - above);
+}
+
+/**
+ * Fees owed (raw units): already credited plus those accrued since the
+ * position's last checkpoint
+ */
+export function getUncollectedFees(
+    liquidity: bigint,
+    feeGrowthInsideX128: bigint,
+    feeGrowthInsideLastX128: bigint,
+    tokensOwed: bigint
+): bigint {
+    return tokensOwed + liquidity * wrap(feeGrowthInsideX128 - feeGrowthInsideLastX128) / Q128;
+}
+
+/**
+ * Range, holdings, edge distances and uncollected fees for a position.
+ * USD figures are null unless both token prices are known.
+ */
+export function analyzePosition(
+    position: Position,
+    pool: PoolSnapshot,
+    token0: PoolTokenInfo,
+    token1: PoolTokenInfo,
+    prices: { token0PriceUsd: number | null; token1PriceUsd: number | null } = { token0PriceUsd: null, token1PriceUsd: null }
+): PositionAnalytics {
+    const { tickLower, tickUpper, liquidity } = position;
+
+    const priceLower = tickToPrice(tickLower, token0.decimals, token1.decimals);
+    const priceUpper = tickToPrice(tickUpper, token0.decimals, token1.decimals);
+    const currentPrice = sqrtPriceX96ToPrice(pool.sqrtPriceX96, token0.decimals, token1.decimals);
+
+    const amounts = getAmountsForLiquidity(pool.sqrtPriceX96, tickLower, tickUpper, liquidity);
+    const amount0 = amounts.amount0 / Math.pow(10, token0.decimals);
+    const amount1 = amounts.amount1 / Math.pow(10, token1.decimals);
+
+    const inside0 = getFeeGrowthInside(pool.tick, tickLower, tickUpper, pool.feeGrowthGlobal0X128, pool.lowerFeeGrowthOutside0X128, pool.upperFeeGrowthOutside0X128);
+    const inside1 = getFeeGrowthInside(pool.tick, tickLower, tickUpper, pool.feeGrowthGlobal1X128, pool.lowerFeeGrowthOutside1X128, pool.upperFeeGrowthOutside1X128);
+    const fees0 = Number(getUncollectedFees(liquidity, inside0, position.feeGrowthInside0LastX128, position.tokensOwed0)) / Math.pow(10, token0.decimals);
+    const fees1 = Number(getUncollectedFees(liquidity, inside1, position.feeGrowthInside1LastX128, position.tokensOwed1)) / Math.pow(10, token1.decimals);
+
+    const { token0PriceUsd, token1PriceUsd } = prices;
+    const priced = token0PriceUsd !== null && token1PriceUsd !== null;
+
+    return {
+        pool: pool.address,
+        token0,
+        token1,
+        tickLower,
+        tickUpper,
+        currentTick: pool.tick,
+        liquidity: Number(liquidity),
+        priceLower,
+        priceUpper,
+        currentPrice,
+        inRange: pool.tick >= tickLower && pool.tick < tickUpper,
+        distanceToLower: (1 - priceLower / currentPrice) * 100,
+        distanceToUpper: (priceUpper / currentPrice - 1) * 100,
+        amount0,
+        amount1,
+        fees0,
+        fees1,
+        token0PriceUsd,
+        token1PriceUsd,
+        valueUsd: priced ? amount0 * token0PriceUsd! + amount1 * token1PriceUsd! : null,
+        feesUsd: priced ? fees0 * token0PriceUsd! + fees1 * token1PriceUsd! : null
+    };
+}
+
+/**
+ * Reads the vault position and its pool, then runs analyzePosition.
+ * Pools are found through the DEX_V3_FACTORY_ADDRESS factory.
+ */
+export class PositionAnalyticsEngine {
+    private cache = new NodeCache({ stdTTL: POOL_CACHE_TTL });
+    private pools = new Map<Address, Address>();
+    private tokens = new Map<Address, PoolTokenInfo>();
+
+    async getPositionAnalytics(runtime: IAgentRuntime, vaultAddress: Address): Promise<PositionAnalytics> {
+        await vaultProvider.initialize(runtime);
+
+        const cacheKey = `analytics:${vaultAddress}`;
+        const cached = this.cache.get<PositionAnalytics>(cacheKey);
+        if (cached) return cached;
+
+        const [positionResult, infoResult] = await vaultProvider.batchRead([
+            { address: vaultAddress, abi: STRATEGY_VAULT_ABI, functionName: "getCurrentPosition" },
+            { address: vaultAddress, abi: STRATEGY_VAULT_ABI, functionName: "getVaultInfo" }
+        ]);
+        const position = unwrap(positionResult, "getCurrentPosition") as Position;
+        const info = unwrap(infoResult, "getVaultInfo") as VaultInfo;
+
+        const poolAddress = await this.getPoolAddress(runtime, vaultAddress, info);
+        const [token0, token1] = await Promise.all([this.getTokenInfo(info.token0), this.getTokenInfo(info.token1)]);
+        const pool = await this.getPoolSnapshot(poolAddress, position);
+        const prices = await this.getPricesUsd(runtime, token0, token1, sqrtPriceX96ToPrice(pool.sqrtPriceX96, token0.decimals, token1.decimals));
+
+        const analytics = analyzePosition(position, pool, token0, token1, prices);
+        this.cache.set(cacheKey, analytics);
+        return analytics;
+    }
+
+    clearCache(): void {
+        this.cache.flushAll();
+        this.pools.clear();
+        this.tokens.clear();
+    }
+
+    private async getPoolAddress(runtime: IAgentRuntime, vaultAddress: Address, info: VaultInfo): Promise<Address> {
+        const known = this.pools.get(vaultAddress);
+        if (known) return known;
+
+        const factory = runtime.getSetting("DEX_V3_FACTORY_ADDRESS") as Address | undefined;
+        if (!factory) {
+            throw new Error("DEX_V3_FACTORY_ADDRESS is not configured; cannot locate the vault's pool");
+        }
+
+        const pool = await vaultProvider.getPublicClient().readContract({
+            address: factory,
+            abi: CL_POOL_FACTORY_ABI,
+            functionName: "getPool",
+            args: [info.token0, info.token1, info.poolFee]
+        }) as Address;
+
+        if (!pool || pool === zeroAddress) {
+            throw new Error(`No pool for ${info.token0}/${info.token1} at fee tier ${info.poolFee}`);
+        }
+
+        this.pools.set(vaultAddress, pool);
+        return pool;
+    }
+
+    // ERC20 symbol and decimals, cached per token
+    async getTokenInfo(address: Address): Promise<PoolTokenInfo> {
+        const known = this.tokens.get(address);
+        if (known) return known;
+
+        const [decimals, symbol] = await vaultProvider.batchRead([
+            { address, abi: erc20Abi, functionName: "decimals" },
+            { address, abi: erc20Abi, functionName: "symbol" }
+        ]);
+
+        const token: PoolTokenInfo = {
+            address,
+            decimals: Number(unwrap(decimals, "decimals")),
+            symbol: symbol.status === "success" ? String(symbol.result) : `${address.slice(0, 6)}…`
+        };
+        this.tokens.set(address, token);
+        return token;
+    }
+
+    private async getPoolSnapshot(address: Address, position: Position): Promise<PoolSnapshot> {
+        const results = await vaultProvider.batchRead([
+            { address, abi: CL_POOL_ABI, functionName: "slot0" },
+            { address, abi: CL_POOL_ABI, functionName: "feeGrowthGlobal0X128" },
+            { address, abi: CL_POOL_ABI, functionName: "feeGrowthGlobal1X128" },
+            { address, abi: CL_POOL_ABI, functionName: "ticks", args: [position.tickLower] },
+            { address, abi: CL_POOL_ABI, functionName: "ticks", args: [position.tickUpper] }
+        ]);
+
+        const slot0 = unwrap(results[0], "slot0") as readonly [bigint, number, ...unknown[]];
+        const lower = unwrap(results[3], "ticks") as readonly [bigint, bigint, bigint, bigint, ...unknown[]];
+        const upper = unwrap(results[4], "ticks") as readonly [bigint, bigint, bigint, bigint, ...unknown[]];
+
+        return {
+            address,
+            sqrtPriceX96: slot0[0],
+            tick: Number(slot0[1]),
+            feeGrowthGlobal0X128: unwrap(results[1], "feeGrowthGlobal0X128") as bigint,
+            feeGrowthGlobal1X128: unwrap(results[2], "feeGrowthGlobal1X128") as bigint,
+            lowerFeeGrowthOutside0X128: lower[2],
+            lowerFeeGrowthOutside1X128: lower[3],
+            upperFeeGrowthOutside0X128: upper[2],
+            upperFeeGrowthOutside1X128: upper[3]
+        };
+    }
+
+    // A stablecoin side prices the other through the pool; otherwise the oracle prices both
+    private async getPricesUsd(
+        runtime: IAgentRuntime,
+        token0: PoolTokenInfo,
+        token1: PoolTokenInfo,
+        currentPrice: number
+    ): Promise<{ token0PriceUsd: number | null; token1PriceUsd: number | null }> {
+        if (USD_PEGGED_ASSETS.includes(token1.symbol)) {
+            return { token0PriceUsd: currentPrice, token1PriceUsd: 1 };
+        }
+        if (USD_PEGGED_ASSETS.includes(token0.symbol)) {
+            return { token0PriceUsd: 1, token1PriceUsd: currentPrice > 0 ? 1 / currentPrice : null };
+        }
+
+        const oracle = new SeiOracleProvider(runtime);
+        const lookup = async (symbol: string): Promise<number | null> => {
+            try {
+                const feed = await oracle.getPrice(toOracleSymbol(symbol));
+                return feed ? feed.price : null;
+            } catch (error) {
+                elizaLogger.warn(`Price lookup for ${symbol} failed: ${error instanceof Error ? error.message : String(error)}`);
+                return null;
+            }
+        };
+
+        const token1PriceUsd = await lookup(token1.symbol);
+        if (token1PriceUsd !== null) {
+            return { token0PriceUsd: currentPrice * token1PriceUsd, token1PriceUsd };
+        }
+        const token0PriceUsd = await lookup(token0.symbol);
+        return {
+            token0PriceUsd,
+            token1PriceUsd: token0PriceUsd !== null && currentPrice > 0 ? token0PriceUsd / currentPrice : null
+        };
+    }
+}
+
+function wrap(value: bigint): bigint {
+    return ((value % UINT256) + UINT256) % UINT256;
+}
+
+function unwrap<T>(result: BatchReadResult<T>, label: string): T {
+    if (result.status === "failure") {
+        throw new Error(`${label} read failed: ${result.error.message}`);
+    }
+    return result.result;
+}
+
+export const positionAnalytics = new PositionAnalyticsEngine();
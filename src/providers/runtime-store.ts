@@ -0,0 +1,44 @@
+import { type IAgentRuntime, elizaLogger } from "@elizaos/core";
+
+/**
+ * Key/value persistence backed by the runtime cache when the agent has a
+ * database adapter, with an in-memory copy so reads still work without one
+ * (tests, adapters that drop writes).
+ */
+export class RuntimeStore {
+    private memory = new Map<string, unknown>();
+
+    async get<T>(runtime: IAgentRuntime, key: string): Promise<T | undefined> {
+        if (typeof runtime.getCache === "function") {
+            try {
+                const value = await runtime.getCache<T>(key);
+                if (value !== undefined) return value;
+            } catch (error) {
+                elizaLogger.warn(`Runtime cache read failed for ${key}: ${error}`);
+            }
+        }
+        return this.memory.get(key) as T | undefined;
+    }
+
+    async set<T>(runtime: IAgentRuntime, key: string, value: T): Promise<void> {
+        this.memory.set(key, value);
+        if (typeof runtime.setCache === "function") {
+            try {
+                await runtime.setCache<T>(key, value);
+            } catch (error) {
+                elizaLogger.warn(`Runtime cache write failed for ${key}: ${error}`);
+            }
+        }
+    }
+
+    async delete(runtime: IAgentRuntime, key: string): Promise<void> {
+        this.memory.delete(key);
+        if (typeof runtime.deleteCache === "function") {
+            try {
+                await runtime.deleteCache(key);
+            } catch (error) {
+                elizaLogger.warn(`Runtime cache delete failed for ${key}: ${error}`);
+            }
+        }
+    }
+}
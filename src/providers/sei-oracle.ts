@@ -35,6 +35,22 @@ export interface OracleConfig {
   updateInterval: number; // seconds
 }
 
+// Symbol -> CoinGecko coin id
+const COINGECKO_IDS: Record<string, string> = {
+  'BTC': 'bitcoin',
+  'ETH': 'ethereum',
+  'SEI': 'sei-network',
+  'USDC': 'usd-coin',
+  'USDT': 'tether',
+  'SOL': 'solana',
+  'AVAX': 'avalanche-2',
+  'ATOM': 'cosmos',
+  'DAI': 'dai'
+};
+
+// Stablecoins fall back to their peg when no historical quote is available
+const USD_PEGGED_SYMBOLS = ['USDC', 'USDT', 'DAI'];
+
 interface YeiOracleConfig {
   api3ContractAddress: string;
   pythContractAddress: string;
@@ -54,6 +70,7 @@ export class SeiOracleProvider {
   private config: OracleConfig;
   private priceCache: Map<string, PriceFeed> = new Map();
   private fundingRateCache: Map<string, FundingRate[]> = new Map();
+  private historicalPriceCache: Map<string, PriceFeed> = new Map();
   private updateInterval: NodeJS.Timeout | null = null;
 
   private yeiConfig: YeiOracleConfig;
@@ -410,20 +427,7 @@ export class SeiOracleProvider {
 
   private async getCoinGeckoPrice(symbol: string): Promise<PriceFeed | null> {
     try {
-      // Map symbols to CoinGecko IDs
-      const coinGeckoIds: Record<string, string> = {
-        'BTC': 'bitcoin',
-        'ETH': 'ethereum',
-        'SEI': 'sei-network',
-        'USDC': 'usd-coin',
-        'USDT': 'tether',
-        'SOL': 'solana',
-        'AVAX': 'avalanche-2',
-        'ATOM': 'cosmos',
-        'DAI': 'dai'
-      };
-
-      const coinId = coinGeckoIds[symbol.toUpperCase()];
+      const coinId = COINGECKO_IDS[symbol.toUpperCase()];
       if (!coinId) {
         return null;
       }
@@ -457,6 +461,65 @@ export class SeiOracleProvider {
     }
   }
 
+  /**
+   * Get the daily USD price for a symbol at a past unix timestamp (seconds).
+   * Uses CoinGecko's daily history; stablecoins fall back to their peg.
+   */
+  async getHistoricalPrice(symbol: string, timestamp: number): Promise<PriceFeed | null> {
+    const upper = symbol.toUpperCase();
+    const date = new Date(timestamp * 1000);
+    const dd = String(date.getUTCDate()).padStart(2, '0');
+    const mm = String(date.getUTCMonth() + 1).padStart(2, '0');
+    const day = `${dd}-${mm}-${date.getUTCFullYear()}`;
+
+    const cacheKey = `${upper}:${day}`;
+    const cached = this.historicalPriceCache.get(cacheKey);
+    if (cached) return cached;
+
+    let price: PriceFeed | null = null;
+
+    const coinId = COINGECKO_IDS[upper];
+    if (coinId) {
+      try {
+        const response = await fetch(
+          `https://api.coingecko.com/api/v3/coins/${coinId}/history?date=${day}&localization=false`
+        );
+
+        if (response.ok) {
+          const data = await response.json() as { market_data?: { current_price?: { usd?: number } } };
+          const usd = data.market_data?.current_price?.usd;
+
+          if (usd && !isNaN(usd) && usd > 0) {
+            price = {
+              symbol: upper,
+              price: usd,
+              timestamp: timestamp * 1000,
+              source: 'CoinGecko (daily)',
+              confidence: 0.9
+            };
+          }
+        }
+      } catch (error) {
+        elizaLogger.warn(`CoinGecko historical price fetch error for ${upper} on ${day}: ${error}`);
+      }
+    }
+
+    if (!price && USD_PEGGED_SYMBOLS.includes(upper)) {
+      price = {
+        symbol: upper,
+        price: 1,
+        timestamp: timestamp * 1000,
+        source: 'stablecoin-peg',
+        confidence: 0.8
+      };
+    }
+
+    if (price) {
+      this.historicalPriceCache.set(cacheKey, price);
+    }
+    return price;
+  }
+
   private async getCexPrice(symbol: string): Promise<PriceFeed | null> {
     try {
       // Only try for supported symbols
@@ -0,0 +1,386 @@
+import type { Address } from "viem";
+import { type IAgentRuntime, type Memory, type UUID, elizaLogger } from "@elizaos/core";
+
+import { RuntimeStore } from "./runtime-store";
+import { vaultProvider } from "./vault-provider";
+import { SeiOracleProvider } from "./sei-oracle";
+import {
+    matchVaultName,
+    getVaultDisplayName,
+    getVaultAssetSymbol,
+    VaultName,
+    FormattedCustomerPortfolio,
+    FormattedVaultMetrics
+} from "../types/vault";
+
+/**
+ * User alert subscriptions ("alert me if my Delta Neutral position drops
+ * below $900", "tell me when my lock expires").
+ *
+ * Rules are stored per user with the room they were created in, evaluated
+ * periodically by the SubscriptionService, and answered back in that room.
+ * Threshold rules are edge-triggered: they notify when the condition starts
+ * holding and re-arm once it stops. Lock-expiry rules fire once and are removed.
+ * Position value and gains thresholds are in USD; positions are read in the
+ * vault's asset and converted at the oracle price.
+ */
+
+export type PositionMetric = "positionValue" | "unrealizedGains" | "shareBalance";
+export type VaultMetric = "apy" | "tvl" | "pricePerShare";
+export type SubscriptionMetric = PositionMetric | VaultMetric | "lockExpiry";
+export type SubscriptionOperator = "below" | "above";
+
+export interface SubscriptionRule {
+    id: number; // Per-agent sequence, what users refer to ("delete alert 3")
+    entityId: UUID;
+    roomId: UUID;
+    source: string; // Client the rule was created from, for routing notifications
+    vaultName: VaultName;
+    metric: SubscriptionMetric;
+    operator?: SubscriptionOperator; // Unused for lockExpiry
+    threshold?: number;
+    ownerAddress?: Address; // Wallet for position and lock rules
+    createdAt: number;
+    updatedAt?: number; // Last edit; an evaluation that started before it is discarded
+    conditionMet: boolean; // Last evaluated state, for edge triggering
+    lastTriggeredAt?: number;
+}
+
+export type SubscriptionDraft = Pick<SubscriptionRule, "metric" | "operator" | "threshold"> & {
+    vaultName: VaultName | null;
+};
+
+export interface SubscriptionNotification {
+    rule: SubscriptionRule;
+    value: number | null;
+    text: string;
+}
+
+interface SubscriptionIndex {
+    nextId: number;
+    rules: SubscriptionRule[];
+}
+
+const STORE_KEY = "subscriptions:rules";
+
+export const POSITION_METRICS: PositionMetric[] = ["positionValue", "unrealizedGains", "shareBalance"];
+export const VAULT_METRICS: VaultMetric[] = ["apy", "tvl", "pricePerShare"];
+
+const METRIC_LABELS: Record<SubscriptionMetric, string> = {
+    positionValue: "position value",
+    unrealizedGains: "unrealized gains",
+    shareBalance: "share balance",
+    apy: "APY",
+    tvl: "TVL",
+    pricePerShare: "share price",
+    lockExpiry: "lock expiry"
+};
+
+/**
+ * Parse a rule from chat text. Returns null when no metric/threshold is found.
+ */
+export function parseSubscriptionRule(text: string): SubscriptionDraft | null {
+    const lower = text.toLowerCase();
+    const vaultName = matchVaultName(text);
+
+    if (/\block\b|\bunlock/.test(lower) && /(expire|unlock|ends|end\b|over|lift|can withdraw)/.test(lower)) {
+        return { vaultName, metric: "lockExpiry" };
+    }
+
+    const metric = parseMetric(lower);
+    const condition = parseCondition(lower);
+    if (!metric || !condition?.operator) return null;
+
+    return { vaultName, metric, operator: condition.operator, threshold: condition.threshold };
+}
+
+/**
+ * The comparison and number in "drops below $900" / "above 12%" / "to $1.5k".
+ * A bare "to <number>" has no operator (edits keep the rule's existing one).
+ */
+export function parseCondition(text: string): { operator?: SubscriptionOperator; threshold: number } | null {
+    const match = text.toLowerCase().match(
+        /\b(below|under|less than|lower than|drops? (?:below|under|to)|falls? (?:below|under|to)|above|over|more than|greater than|higher than|exceeds?|rises? (?:above|over|to)|goes (?:above|over|below|under)|to)\s*\$?\s*(-?[\d,]*\.?\d+)\s*([km])?\b/
+    );
+    if (!match) return null;
+
+    const phrase = match[1];
+    const multiplier = match[3] === "k" ? 1e3 : match[3] === "m" ? 1e6 : 1;
+    const threshold = parseFloat(match[2].replace(/,/g, "")) * multiplier;
+    if (!Number.isFinite(threshold)) return null;
+
+    if (phrase === "to") return { threshold };
+    return { operator: /(below|under|less|lower|drop|fall)/.test(phrase) ? "below" : "above", threshold };
+}
+
+function parseMetric(lower: string): Exclude<SubscriptionMetric, "lockExpiry"> | null {
+    if (/\bapy\b|\byield rate\b/.test(lower)) return "apy";
+    if (/\btvl\b|total value locked/.test(lower)) return "tvl";
+    if (/share price|price per share/.test(lower)) return "pricePerShare";
+    if (/\bgains?\b|\bprofit\b|p&l|\bpnl\b/.test(lower)) return "unrealizedGains";
+    if (/\bshares\b|share balance/.test(lower)) return "shareBalance";
+    if (/position|balance|\bworth\b|\bvalue\b|holdings?|\$/.test(lower)) return "positionValue";
+    return null;
+}
+
+export function formatMetricValue(metric: SubscriptionMetric, value: number): string {
+    switch (metric) {
+        case "apy":
+            return `${value.toFixed(2)}%`;
+        case "pricePerShare":
+            return value.toFixed(4);
+        case "shareBalance":
+            return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+        default:
+            return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    }
+}
+
+export function describeRule(rule: SubscriptionRule): string {
+    const vault = getVaultDisplayName(rule.vaultName);
+    if (rule.metric === "lockExpiry") {
+        return `#${rule.id} ${vault}: notify when the lock expires`;
+    }
+    const owner = rule.ownerAddress ? ` (${rule.ownerAddress.slice(0, 6)}…${rule.ownerAddress.slice(-4)})` : "";
+    return `#${rule.id} ${vault} ${METRIC_LABELS[rule.metric]} ${rule.operator} ${formatMetricValue(rule.metric, rule.threshold!)}${owner}`;
+}
+
+export function isPositionRule(metric: SubscriptionMetric): boolean {
+    return metric === "lockExpiry" || POSITION_METRICS.includes(metric as PositionMetric);
+}
+
+export class SubscriptionEngine {
+    private store = new RuntimeStore();
+
+    async create(
+        runtime: IAgentRuntime,
+        message: Memory,
+        rule: Omit<SubscriptionRule, "id" | "entityId" | "roomId" | "source" | "createdAt" | "updatedAt" | "conditionMet">
+    ): Promise<SubscriptionRule> {
+        const index = await this.load(runtime);
+        const created: SubscriptionRule = {
+            ...rule,
+            id: index.nextId,
+            entityId: message.entityId,
+            roomId: message.roomId,
+            source: String(message.content?.source || "direct"),
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+            conditionMet: false
+        };
+
+        await this.save(runtime, { nextId: index.nextId + 1, rules: [...index.rules, created] });
+        return created;
+    }
+
+    async list(runtime: IAgentRuntime, entityId: UUID): Promise<SubscriptionRule[]> {
+        return (await this.load(runtime)).rules.filter(rule => rule.entityId === entityId);
+    }
+
+    /**
+     * Change a user's rule. Edits re-arm it so the new condition is checked fresh.
+     */
+    async update(
+        runtime: IAgentRuntime,
+        entityId: UUID,
+        id: number,
+        changes: Partial<Pick<SubscriptionRule, "vaultName" | "metric" | "operator" | "threshold">>
+    ): Promise<SubscriptionRule | null> {
+        const index = await this.load(runtime);
+        const rule = index.rules.find(r => r.id === id && r.entityId === entityId);
+        if (!rule) return null;
+
+        Object.assign(rule, changes, { conditionMet: false, updatedAt: Date.now() });
+        await this.save(runtime, index);
+        return rule;
+    }
+
+    async remove(runtime: IAgentRuntime, entityId: UUID, ids?: number[]): Promise<SubscriptionRule[]> {
+        const index = await this.load(runtime);
+        const removed = index.rules.filter(r => r.entityId === entityId && (!ids || ids.includes(r.id)));
+        if (removed.length === 0) return [];
+
+        await this.save(runtime, { ...index, rules: index.rules.filter(r => !removed.includes(r)) });
+        return removed;
+    }
+
+    /**
+     * Check every rule and notify the rooms whose rules just triggered
+     */
+    async evaluate(runtime: IAgentRuntime): Promise<SubscriptionNotification[]> {
+        const index = await this.load(runtime);
+        if (index.rules.length === 0) return [];
+
+        await vaultProvider.initialize(runtime);
+
+        const portfolios = new Map<string, Promise<FormattedCustomerPortfolio[] | null>>();
+        const metrics = new Map<string, Promise<FormattedVaultMetrics | null>>();
+        const portfolioFor = (address: Address) => {
+            const key = address.toLowerCase();
+            if (!portfolios.has(key)) {
+                portfolios.set(key, vaultProvider.getCustomerPortfolio(runtime, address).catch(error => {
+                    elizaLogger.warn(`Subscriptions: could not load portfolio for ${address}: ${error}`);
+                    return null;
+                }));
+            }
+            return portfolios.get(key)!;
+        };
+        const metricsFor = (vaultAddress: Address) => {
+            if (!metrics.has(vaultAddress)) {
+                metrics.set(vaultAddress, vaultProvider.getVaultMetrics(runtime, vaultAddress).catch(error => {
+                    elizaLogger.warn(`Subscriptions: could not load metrics for ${vaultAddress}: ${error}`);
+                    return null;
+                }));
+            }
+            return metrics.get(vaultAddress)!;
+        };
+        const prices = new Map<string, Promise<number | null>>();
+        const priceFor = (vaultName: VaultName) => {
+            const asset = getVaultAssetSymbol(vaultName);
+            if (!prices.has(asset)) {
+                prices.set(asset, this.getAssetPriceUsd(runtime, asset));
+            }
+            return prices.get(asset)!;
+        };
+
+        const notifications: SubscriptionNotification[] = [];
+        const expired: SubscriptionRule[] = [];
+
+        for (const rule of index.rules) {
+            const vaultAddress = vaultProvider.getVaultAddress(rule.vaultName);
+            if (!vaultAddress) continue;
+
+            let value: number | null = null;
+            let met = false;
+
+            if (isPositionRule(rule.metric)) {
+                if (!rule.ownerAddress) continue;
+                const portfolio = await portfolioFor(rule.ownerAddress);
+                if (!portfolio) continue;
+                const position = portfolio.find(p => p.vaultAddress.toLowerCase() === vaultAddress.toLowerCase());
+
+                if (rule.metric === "lockExpiry") {
+                    // A withdrawn position has nothing left to unlock
+                    if (!position) {
+                        expired.push(rule);
+                        continue;
+                    }
+                    met = position.canWithdraw || position.lockTimeRemaining <= 0;
+                } else {
+                    // No position means no reading, not a value of zero
+                    if (!position) continue;
+                    if (rule.metric === "shareBalance") {
+                        value = position.shareBalance;
+                    } else {
+                        const amount = rule.metric === "positionValue" ? position.shareValue : position.unrealizedGains;
+                        if (position.valueUnit === "usd") {
+                            value = amount;
+                        } else {
+                            const price = await priceFor(rule.vaultName);
+                            if (price === null) continue;
+                            value = amount * price;
+                        }
+                    }
+                    met = compare(value, rule);
+                }
+            } else {
+                const vaultMetrics = await metricsFor(vaultAddress);
+                if (!vaultMetrics) continue;
+                value = rule.metric === "tvl"
+                    ? vaultMetrics.totalValueLocked
+                    : vaultMetrics[rule.metric as "apy" | "pricePerShare"];
+                met = compare(value, rule);
+            }
+
+            if (met && !rule.conditionMet) {
+                rule.lastTriggeredAt = Date.now();
+                notifications.push({ rule, value, text: formatNotification(rule, value) });
+                if (rule.metric === "lockExpiry") expired.push(rule);
+            }
+            rule.conditionMet = met;
+        }
+
+        // Rules may have been added, edited or removed while we were reading the
+        // chain. An edit re-armed its rule for the new condition, so results for
+        // the old one are dropped rather than written over it.
+        const latest = await this.load(runtime);
+        const evaluated = new Map(index.rules.map(rule => [rule.id, rule]));
+        const unchanged = (rule: SubscriptionRule) => {
+            const current = evaluated.get(rule.id);
+            const same = current
+                && current.updatedAt === rule.updatedAt
+                && current.threshold === rule.threshold
+                && current.operator === rule.operator
+                && current.metric === rule.metric
+                && current.vaultName === rule.vaultName;
+            return same ? current : null;
+        };
+
+        await this.save(runtime, {
+            nextId: latest.nextId,
+            rules: latest.rules
+                .filter(rule => !(unchanged(rule) && expired.some(e => e.id === rule.id)))
+                .map(rule => {
+                    const current = unchanged(rule);
+                    return current
+                        ? { ...rule, conditionMet: current.conditionMet, lastTriggeredAt: current.lastTriggeredAt }
+                        : rule;
+                })
+        });
+
+        const delivered = notifications.filter(({ rule }) => latest.rules.some(r => r.id === rule.id && unchanged(r)));
+        for (const notification of delivered) {
+            await this.notify(runtime, notification);
+        }
+
+        return delivered;
+    }
+
+    private async getAssetPriceUsd(runtime: IAgentRuntime, asset: string): Promise<number | null> {
+        if (asset === "USDC") return 1;
+        try {
+            const feed = await new SeiOracleProvider(runtime).getPrice(asset);
+            return feed ? feed.price : null;
+        } catch (error) {
+            elizaLogger.warn(`Subscriptions: could not price ${asset} in USD: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
+        }
+    }
+
+    private async notify(runtime: IAgentRuntime, { rule, text }: SubscriptionNotification): Promise<void> {
+        try {
+            await runtime.sendMessageToTarget(
+                { source: rule.source, roomId: rule.roomId, entityId: rule.entityId },
+                { text, action: "SUBSCRIPTION_ALERT", source: rule.source }
+            );
+        } catch (error) {
+            elizaLogger.warn(`Could not deliver subscription alert #${rule.id} to room ${rule.roomId}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private async load(runtime: IAgentRuntime): Promise<SubscriptionIndex> {
+        return (await this.store.get<SubscriptionIndex>(runtime, STORE_KEY)) || { nextId: 1, rules: [] };
+    }
+
+    private async save(runtime: IAgentRuntime, index: SubscriptionIndex): Promise<void> {
+        await this.store.set(runtime, STORE_KEY, index);
+    }
+}
+
+function compare(value: number, rule: SubscriptionRule): boolean {
+    return rule.operator === "below" ? value < rule.threshold! : value > rule.threshold!;
+}
+
+function formatNotification(rule: SubscriptionRule, value: number | null): string {
+    const vault = getVaultDisplayName(rule.vaultName);
+    if (rule.metric === "lockExpiry") {
+        return `🔓 Alert #${rule.id}: your ${vault} lock has expired. The position can be withdrawn now.`;
+    }
+
+    const subject = isPositionRule(rule.metric)
+        ? `your ${vault} ${METRIC_LABELS[rule.metric]}`
+        : `${vault} ${METRIC_LABELS[rule.metric]}`;
+    return `🔔 Alert #${rule.id}: ${subject} is ${formatMetricValue(rule.metric, value!)}, ${rule.operator} your ${formatMetricValue(rule.metric, rule.threshold!)} threshold.`;
+}
+
+export const subscriptionEngine = new SubscriptionEngine();
@@ -0,0 +1,261 @@
+import type { Address } from "viem";
+import type { IAgentRuntime } from "@elizaos/core";
+
+import { RuntimeStore } from "./runtime-store";
+import type { FormattedVaultMetrics } from "../types/vault";
+
+/**
+ * Statistical anomaly detection for vault metrics.
+ *
+ * Every monitor run appends an observation to a rolling window per vault.
+ * A new reading is judged against the window:
+ * - share price and TVL by their step-to-step % change (z-score of the new
+ *   change against past changes), flagging drops and outflows
+ * - APY by its level (z-score against past readings), flagging spikes and
+ *   collapses
+ * - fee rates by any change from the previous reading
+ *
+ * Standard deviations have a floor per metric so a perfectly steady history
+ * doesn't turn rounding noise into an alert.
+ */
+
+export type AnomalySeverity = "info" | "warning" | "critical";
+
+export type AnomalyMetric =
+    | "pricePerShare"
+    | "totalValueLocked"
+    | "apy"
+    | "managementFeeRate"
+    | "performanceFeeRate"
+    | "withdrawalFeeRate";
+
+export interface AnomalyBaseline {
+    mean: number;
+    stdDev: number;
+    samples: number;
+}
+
+export interface VaultAnomaly {
+    metric: AnomalyMetric;
+    severity: AnomalySeverity;
+    message: string;
+    value: number; // The change (%) or level being judged
+    baseline: AnomalyBaseline;
+    zScore: number | null; // null for rule-based checks (fee changes)
+}
+
+export interface VaultObservation {
+    timestamp: number;
+    totalValueLocked: number;
+    pricePerShare: number;
+    apy: number;
+    managementFeeRate: number;
+    performanceFeeRate: number;
+    withdrawalFeeRate: number;
+}
+
+export const ANOMALY_THRESHOLDS = {
+    WARNING_Z: 3,
+    CRITICAL_Z: 5,
+    MIN_SAMPLES: 5, // Observations needed before statistical checks run
+    WINDOW: 48, // Observations kept per vault
+    // Standard deviation floors, in the unit of each series
+    MIN_STD_PRICE_CHANGE: 0.05, // % per step
+    MIN_STD_TVL_CHANGE: 2, // % per step
+    MIN_STD_APY: 1 // APY points
+};
+
+const FEE_METRICS: { metric: AnomalyMetric; label: string }[] = [
+    { metric: "managementFeeRate", label: "Management fee" },
+    { metric: "performanceFeeRate", label: "Performance fee" },
+    { metric: "withdrawalFeeRate", label: "Withdrawal fee" }
+];
+
+export function computeBaseline(values: number[], minStdDev = 0): AnomalyBaseline {
+    const samples = values.length;
+    if (samples === 0) return { mean: 0, stdDev: minStdDev, samples };
+
+    const mean = values.reduce((sum, v) => sum + v, 0) / samples;
+    const variance = samples > 1
+        ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (samples - 1)
+        : 0;
+
+    return { mean, stdDev: Math.max(Math.sqrt(variance), minStdDev), samples };
+}
+
+/**
+ * Anomalies in `current` given the earlier observations (oldest first)
+ */
+export function detectAnomalies(history: VaultObservation[], current: VaultObservation): VaultAnomaly[] {
+    const anomalies: VaultAnomaly[] = [];
+    const previous = history[history.length - 1];
+    if (!previous) return anomalies;
+
+    // Fee rates are set by governance, so any change is worth surfacing
+    for (const { metric, label } of FEE_METRICS) {
+        const before = previous[metric as keyof VaultObservation];
+        const after = current[metric as keyof VaultObservation];
+        if (Math.abs(after - before) > 1e-9) {
+            anomalies.push({
+                metric,
+                severity: after > before ? "warning" : "info",
+                message: `${label} changed from ${before.toFixed(2)}% to ${after.toFixed(2)}%`,
+                value: after,
+                baseline: { mean: before, stdDev: 0, samples: 1 },
+                zScore: null
+            });
+        }
+    }
+
+    if (history.length < ANOMALY_THRESHOLDS.MIN_SAMPLES) return anomalies;
+
+    // Share price: drops relative to the usual step
+    const priceChanges = stepChanges(history, "pricePerShare");
+    const priceChange = percentChange(previous.pricePerShare, current.pricePerShare);
+    if (priceChange !== null && priceChange < 0) {
+        const baseline = computeBaseline(priceChanges, ANOMALY_THRESHOLDS.MIN_STD_PRICE_CHANGE);
+        const z = zScore(priceChange, baseline);
+        const severity = severityFor(-z);
+        if (severity) {
+            anomalies.push({
+                metric: "pricePerShare",
+                severity,
+                message: `Share price fell ${Math.abs(priceChange).toFixed(2)}% (usual step ${formatSigned(baseline.mean)}% ± ${baseline.stdDev.toFixed(2)}%)`,
+                value: priceChange,
+                baseline,
+                zScore: z
+            });
+        }
+    }
+
+    // TVL: outflows relative to the usual step
+    const tvlChanges = stepChanges(history, "totalValueLocked");
+    const tvlChange = percentChange(previous.totalValueLocked, current.totalValueLocked);
+    if (tvlChange !== null && tvlChange < 0) {
+        const baseline = computeBaseline(tvlChanges, ANOMALY_THRESHOLDS.MIN_STD_TVL_CHANGE);
+        const z = zScore(tvlChange, baseline);
+        const severity = severityFor(-z);
+        if (severity) {
+            anomalies.push({
+                metric: "totalValueLocked",
+                severity,
+                message: `Sudden TVL outflow of ${Math.abs(tvlChange).toFixed(1)}% (usual step ${formatSigned(baseline.mean)}% ± ${baseline.stdDev.toFixed(1)}%)`,
+                value: tvlChange,
+                baseline,
+                zScore: z
+            });
+        }
+    }
+
+    // APY: spikes are as suspicious as collapses (mispriced oracle, one-off gains)
+    const apyBaseline = computeBaseline(history.map(o => o.apy), ANOMALY_THRESHOLDS.MIN_STD_APY);
+    const apyZ = zScore(current.apy, apyBaseline);
+    const apySeverity = severityFor(Math.abs(apyZ));
+    if (apySeverity) {
+        anomalies.push({
+            metric: "apy",
+            severity: apySeverity,
+            message: `APY ${apyZ > 0 ? "spiked" : "collapsed"} to ${current.apy.toFixed(2)}% (baseline ${apyBaseline.mean.toFixed(2)}% ± ${apyBaseline.stdDev.toFixed(2)})`,
+            value: current.apy,
+            baseline: apyBaseline,
+            zScore: apyZ
+        });
+    }
+
+    return anomalies;
+}
+
+/**
+ * Rolling observation windows, persisted through the runtime cache so the
+ * baseline survives restarts when the agent has a database adapter
+ */
+export class VaultBaselineTracker {
+    private store = new RuntimeStore();
+
+    async getHistory(runtime: IAgentRuntime, vaultAddress: Address): Promise<VaultObservation[]> {
+        return (await this.store.get<VaultObservation[]>(runtime, this.key(vaultAddress))) || [];
+    }
+
+    /**
+     * Judge the latest metrics against the baseline without adding them to it.
+     * For on-demand checks, whose irregular timing would skew the step changes
+     */
+    async check(
+        runtime: IAgentRuntime,
+        vaultAddress: Address,
+        metrics: FormattedVaultMetrics,
+        timestamp = Math.floor(Date.now() / 1000)
+    ): Promise<VaultAnomaly[]> {
+        const history = await this.getHistory(runtime, vaultAddress);
+        return detectAnomalies(history, toObservation(metrics, timestamp));
+    }
+
+    /**
+     * Judge the latest metrics against the baseline, then add them to it
+     */
+    async observe(
+        runtime: IAgentRuntime,
+        vaultAddress: Address,
+        metrics: FormattedVaultMetrics,
+        timestamp = Math.floor(Date.now() / 1000)
+    ): Promise<VaultAnomaly[]> {
+        const history = await this.getHistory(runtime, vaultAddress);
+        const observation = toObservation(metrics, timestamp);
+
+        const anomalies = detectAnomalies(history, observation);
+
+        const window = Number(runtime.getSetting("VAULT_MONITOR_BASELINE_WINDOW")) || ANOMALY_THRESHOLDS.WINDOW;
+        await this.store.set(runtime, this.key(vaultAddress), [...history, observation].slice(-window));
+
+        return anomalies;
+    }
+
+    async reset(runtime: IAgentRuntime, vaultAddress: Address): Promise<void> {
+        await this.store.delete(runtime, this.key(vaultAddress));
+    }
+
+    private key(vaultAddress: Address): string {
+        return `vault-monitor-baseline:${vaultAddress.toLowerCase()}`;
+    }
+}
+
+function toObservation(metrics: FormattedVaultMetrics, timestamp: number): VaultObservation {
+    return {
+        timestamp,
+        totalValueLocked: metrics.totalValueLocked,
+        pricePerShare: metrics.pricePerShare,
+        apy: metrics.apy,
+        managementFeeRate: metrics.managementFeeRate,
+        performanceFeeRate: metrics.performanceFeeRate,
+        withdrawalFeeRate: metrics.withdrawalFeeRate
+    };
+}
+
+function stepChanges(history: VaultObservation[], field: "pricePerShare" | "totalValueLocked"): number[] {
+    const changes: number[] = [];
+    for (let i = 1; i < history.length; i++) {
+        const change = percentChange(history[i - 1][field], history[i][field]);
+        if (change !== null) changes.push(change);
+    }
+    return changes;
+}
+
+function percentChange(before: number, after: number): number | null {
+    return before > 0 ? (after / before - 1) * 100 : null;
+}
+
+function zScore(value: number, baseline: AnomalyBaseline): number {
+    return baseline.stdDev > 0 ? (value - baseline.mean) / baseline.stdDev : 0;
+}
+
+function severityFor(z: number): AnomalySeverity | null {
+    if (z >= ANOMALY_THRESHOLDS.CRITICAL_Z) return "critical";
+    if (z >= ANOMALY_THRESHOLDS.WARNING_Z) return "warning";
+    return null;
+}
+
+function formatSigned(value: number): string {
+    return `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+}
+
+export const vaultBaselineTracker = new VaultBaselineTracker();
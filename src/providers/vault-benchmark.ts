@@ -0,0 +1,161 @@
+import type { Address } from "viem";
+import { type IAgentRuntime, elizaLogger } from "@elizaos/core";
+
+import { vaultProvider } from "./vault-provider";
+import { vaultHistoryEngine } from "./vault-history";
+import { growthIndex } from "./yield-analytics";
+import { positionAnalytics, toOracleSymbol } from "./position-analytics";
+import { SeiOracleProvider } from "./sei-oracle";
+import type { HistoricalPriceLookup } from "./vault-statement";
+
+/**
+ * Vault performance against passive alternatives over a window.
+ *
+ * The vault's return is its share-price growth, converted to USD with the
+ * vault asset's price at each end of the window. Benchmarks are buy-and-hold
+ * positions opened at the start of the window: all token0, all token1, half
+ * of each, and a stablecoin. Excess return is the vault's USD return minus
+ * the benchmark's, in percentage points.
+ */
+
+export type BenchmarkName = "token0" | "token1" | "fiftyFifty" | "stablecoin";
+
+export interface BenchmarkResult {
+    label: string;
+    return: number | null; // %, null when a price is missing
+    excess: number | null; // Percentage points, vault minus benchmark
+}
+
+export interface PricePair {
+    start: number | null;
+    end: number | null;
+}
+
+export interface VaultBenchmark {
+    vaultAddress: Address;
+    fromTimestamp: number; // First and last share-price samples used
+    toTimestamp: number;
+    vaultAssetReturn: number; // %, in the vault asset
+    vaultReturn: number | null; // %, in USD
+    benchmarks: Record<BenchmarkName, BenchmarkResult>;
+}
+
+export interface BenchmarkOptions {
+    priceLookup?: HistoricalPriceLookup;
+}
+
+export const BENCHMARK_STABLECOIN = "USDC";
+
+/**
+ * Benchmark returns and the vault's excess over each, from start/end USD prices
+ */
+export function compareToBenchmarks(
+    vaultReturn: number | null,
+    symbols: { token0: string; token1: string },
+    prices: { token0: PricePair; token1: PricePair; stablecoin: PricePair }
+): Record<BenchmarkName, BenchmarkResult> {
+    const growth = ({ start, end }: PricePair): number | null =>
+        start !== null && end !== null && start > 0 ? end / start : null;
+
+    const token0 = growth(prices.token0);
+    const token1 = growth(prices.token1);
+    const stablecoin = growth(prices.stablecoin);
+    const fiftyFifty = token0 !== null && token1 !== null ? (token0 + token1) / 2 : null;
+
+    const result = (label: string, benchmarkGrowth: number | null): BenchmarkResult => {
+        const benchmarkReturn = benchmarkGrowth === null ? null : (benchmarkGrowth - 1) * 100;
+        return {
+            label,
+            return: benchmarkReturn,
+            excess: benchmarkReturn === null || vaultReturn === null ? null : vaultReturn - benchmarkReturn
+        };
+    };
+
+    return {
+        token0: result(`100% ${symbols.token0}`, token0),
+        token1: result(`100% ${symbols.token1}`, token1),
+        fiftyFifty: result(`50/50 ${symbols.token0}/${symbols.token1}`, fiftyFifty),
+        stablecoin: result(`${BENCHMARK_STABLECOIN} (stablecoin)`, stablecoin)
+    };
+}
+
+export class VaultBenchmarkEngine {
+    /**
+     * Benchmark a vault over [fromTimestamp, toTimestamp] using its yield
+     * history and historical oracle prices for the vault asset and pool tokens
+     */
+    async benchmarkVault(
+        runtime: IAgentRuntime,
+        vaultAddress: Address,
+        fromTimestamp: number,
+        toTimestamp = Math.floor(Date.now() / 1000),
+        options: BenchmarkOptions = {}
+    ): Promise<VaultBenchmark> {
+        await vaultProvider.initialize(runtime);
+
+        const { history } = await vaultHistoryEngine.getYieldHistory(runtime, vaultAddress, fromTimestamp, toTimestamp);
+        const index = growthIndex(history);
+        if (index.length < 2) {
+            throw new Error("Not enough share price history in this window to benchmark the vault");
+        }
+
+        const first = index[0];
+        const last = index[index.length - 1];
+        const vaultAssetReturn = (last.value / first.value - 1) * 100;
+
+        const info = await vaultProvider.getVaultInfo(runtime, vaultAddress);
+        const [token0, token1] = await Promise.all([
+            positionAnalytics.getTokenInfo(info.token0),
+            positionAnalytics.getTokenInfo(info.token1)
+        ]);
+
+        const lookup = options.priceLookup || createOraclePriceLookup(runtime);
+        const pricesAt = async (symbol: string): Promise<PricePair> => {
+            const oracleSymbol = toOracleSymbol(symbol);
+            const [start, end] = await Promise.all([
+                lookup(oracleSymbol, first.timestamp).catch(() => null),
+                lookup(oracleSymbol, last.timestamp).catch(() => null)
+            ]);
+            if (start === null || end === null) {
+                elizaLogger.warn(`No ${oracleSymbol} price history for the benchmark window`);
+            }
+            return { start, end };
+        };
+
+        // Shares are denominated in the vault's token0
+        const assetSymbol = token0.symbol;
+        const [asset, token0Prices, token1Prices, stablecoin] = await Promise.all([
+            pricesAt(assetSymbol),
+            pricesAt(token0.symbol),
+            pricesAt(token1.symbol),
+            pricesAt(BENCHMARK_STABLECOIN)
+        ]);
+
+        const vaultReturn = asset.start !== null && asset.end !== null && asset.start > 0
+            ? ((last.value / first.value) * (asset.end / asset.start) - 1) * 100
+            : null;
+
+        return {
+            vaultAddress,
+            fromTimestamp: first.timestamp,
+            toTimestamp: last.timestamp,
+            vaultAssetReturn,
+            vaultReturn,
+            benchmarks: compareToBenchmarks(
+                vaultReturn,
+                { token0: token0.symbol, token1: token1.symbol },
+                { token0: token0Prices, token1: token1Prices, stablecoin }
+            )
+        };
+    }
+}
+
+function createOraclePriceLookup(runtime: IAgentRuntime): HistoricalPriceLookup {
+    const oracle = new SeiOracleProvider(runtime);
+    return async (symbol, timestamp) => {
+        const feed = await oracle.getHistoricalPrice(symbol, timestamp);
+        return feed ? feed.price : null;
+    };
+}
+
+export const vaultBenchmarkEngine = new VaultBenchmarkEngine();
@@ -0,0 +1,303 @@
+import { formatUnits, getAbiItem, type Address, type GetLogsReturnType } from "viem";
+import { type IAgentRuntime, elizaLogger } from "@elizaos/core";
+
+import { vaultProvider } from "./vault-provider";
+import { RuntimeStore } from "./runtime-store";
+import { sortLedger } from "./position-accounting";
+import {
+    getVaultDisplayName,
+    VaultLedgerEntry,
+    STRATEGY_VAULT_ABI,
+    getVaultAssetDecimals,
+    VaultName
+} from "../types/vault";
+
+// Default block range per eth_getLogs request (SEI RPCs reject very wide ranges)
+const DEFAULT_CHUNK_SIZE = 2000n;
+const MIN_CHUNK_SIZE = 10n;
+
+const STATE_CACHE_KEY = "vault-indexer:state";
+const LEDGER_CACHE_PREFIX = "vault-indexer:ledger:";
+
+const VAULT_EVENTS = [
+    getAbiItem({ abi: STRATEGY_VAULT_ABI, name: "SEIOptimizedDeposit" }),
+    getAbiItem({ abi: STRATEGY_VAULT_ABI, name: "SEIOptimizedWithdraw" })
+] as const;
+
+type VaultEventLog = GetLogsReturnType<undefined, typeof VAULT_EVENTS, true>[number];
+
+// Persisted indexer progress: last indexed block per vault (as decimal string),
+// advanced after every chunk so a failed chunk only loses its own range
+
+interface IndexerState {
+    lastIndexedBlock: Record<string, string>;
+}
+
+export interface IndexerSyncResult {
+    vaultsIndexed: number;
+    newEntries: number;
+    toBlock: bigint;
+}
+
+export interface LedgerQuery {
+    vaultAddress?: Address;
+    fromTimestamp?: number;
+    toTimestamp?: number;
+}
+
+/**
+ * Backfills SEIOptimizedDeposit / SEIOptimizedWithdraw events for every configured
+ * vault and keeps a per-user ledger in the runtime cache, so deposit/withdraw
+ * history is available without the dashboard contract.
+ */
+export class VaultEventIndexer {
+    private store = new RuntimeStore();
+    private syncInFlight: Promise<IndexerSyncResult> | null = null;
+
+    /**
+     * Index all configured vaults up to the latest block.
+     * Concurrent callers share the same in-flight sync.
+     */
+    async sync(runtime: IAgentRuntime): Promise<IndexerSyncResult> {
+        if (!this.syncInFlight) {
+            this.syncInFlight = this.runSync(runtime).finally(() => {
+                this.syncInFlight = null;
+            });
+        }
+        return this.syncInFlight;
+    }
+
+    /**
+     * Get a user's deposit/withdraw ledger, oldest first
+     */
+    async getLedger(
+        runtime: IAgentRuntime,
+        user: Address,
+        query: LedgerQuery = {},
+        syncFirst = true
+    ): Promise<VaultLedgerEntry[]> {
+        if (syncFirst) {
+            await this.sync(runtime);
+        }
+
+        const entries = await this.store.get<VaultLedgerEntry[]>(runtime, this.ledgerKey(user)) || [];
+
+        return entries.filter(e =>
+            (!query.vaultAddress || e.vaultAddress.toLowerCase() === query.vaultAddress.toLowerCase()) &&
+            (query.fromTimestamp === undefined || e.timestamp >= query.fromTimestamp) &&
+            (query.toTimestamp === undefined || e.timestamp <= query.toTimestamp)
+        );
+    }
+
+    /**
+     * Combined ledger of several users (an address group), oldest first
+     */
+    async getGroupLedger(
+        runtime: IAgentRuntime,
+        users: Address[],
+        query: LedgerQuery = {}
+    ): Promise<VaultLedgerEntry[]> {
+        await this.sync(runtime);
+
+        const ledgers = await Promise.all(users.map(user => this.getLedger(runtime, user, query, false)));
+        return sortLedger(ledgers.flat());
+    }
+
+    private async runSync(runtime: IAgentRuntime): Promise<IndexerSyncResult> {
+        await vaultProvider.initialize(runtime);
+        const client = vaultProvider.getPublicClient();
+        const vaults = vaultProvider.getConfiguredVaults();
+
+        // Without a configured start block each vault starts at its deployment block
+        const startBlock = parseBlockSetting(runtime, "VAULT_INDEXER_START_BLOCK");
+        const chunkSize = parseBlockSetting(runtime, "VAULT_INDEXER_CHUNK_SIZE") || DEFAULT_CHUNK_SIZE;
+
+        const latestBlock = await client.getBlockNumber();
+        const state = await this.store.get<IndexerState>(runtime, STATE_CACHE_KEY) || { lastIndexedBlock: {} };
+
+        let newEntries = 0;
+
+        for (const vault of vaults) {
+            const key = vault.address.toLowerCase();
+
+            try {
+                const last = state.lastIndexedBlock[key];
+                let fromBlock: bigint;
+                if (last !== undefined) {
+                    fromBlock = BigInt(last) + 1n;
+                } else if (startBlock !== null) {
+                    fromBlock = startBlock;
+                } else {
+                    fromBlock = await this.findDeploymentBlock(vault.address, latestBlock);
+                    // Remember the deployment block so it is only searched for once
+                    state.lastIndexedBlock[key] = (fromBlock - 1n).toString();
+                    await this.store.set(runtime, STATE_CACHE_KEY, state);
+                }
+
+                if (fromBlock > latestBlock) continue;
+
+                elizaLogger.info(`Indexing ${vault.name} events from block ${fromBlock} to ${latestBlock}`);
+
+                await this.fetchLogsChunked(vault.address, fromBlock, latestBlock, chunkSize, async (logs, chunkEnd) => {
+                    newEntries += await this.recordLogs(runtime, vault, logs);
+                    state.lastIndexedBlock[key] = chunkEnd.toString();
+                    await this.store.set(runtime, STATE_CACHE_KEY, state);
+                });
+            } catch (error) {
+                // The cursor stays at the last completed chunk so the next sync resumes there
+                elizaLogger.error(`Failed to index events for ${vault.name} at ${vault.address}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        elizaLogger.info(`Vault event indexing complete: ${newEntries} new entries across ${vaults.length} vaults`);
+
+        return { vaultsIndexed: vaults.length, newEntries, toBlock: latestBlock };
+    }
+
+    /**
+     * First block with contract code at the vault address, by binary search over
+     * historical getCode. Needs an archive node; set VAULT_INDEXER_START_BLOCK otherwise.
+     */
+    private async findDeploymentBlock(address: Address, latestBlock: bigint): Promise<bigint> {
+        const client = vaultProvider.getPublicClient();
+        const hasCode = async (blockNumber: bigint) => {
+            const code = await client.getCode({ address, blockNumber });
+            return !!code && code !== "0x";
+        };
+
+        try {
+            if (!(await hasCode(latestBlock))) {
+                throw new Error(`no contract code at ${address}`);
+            }
+
+            let low = 0n;
+            let high = latestBlock;
+            while (low < high) {
+                const mid = (low + high) / 2n;
+                if (await hasCode(mid)) {
+                    high = mid;
+                } else {
+                    low = mid + 1n;
+                }
+            }
+
+            elizaLogger.info(`Found deployment block ${low} for ${address}`);
+            return low;
+        } catch (error) {
+            throw new Error(`Couldn't find the deployment block (${error instanceof Error ? error.message : String(error)}). Set VAULT_INDEXER_START_BLOCK to the vaults' deployment block`);
+        }
+    }
+
+    /**
+     * Walk [fromBlock, toBlock] in chunks, handing each chunk's logs to onChunk
+     * before fetching the next, and halving the chunk size when the RPC rejects
+     * a range (e.g. too many results)
+     */
+    private async fetchLogsChunked(
+        address: Address,
+        fromBlock: bigint,
+        toBlock: bigint,
+        chunkSize: bigint,
+        onChunk: (logs: VaultEventLog[], chunkEnd: bigint) => Promise<void>
+    ): Promise<void> {
+        const client = vaultProvider.getPublicClient();
+        let size = chunkSize;
+        let cursor = fromBlock;
+
+        while (cursor <= toBlock) {
+            const end = cursor + size - 1n < toBlock ? cursor + size - 1n : toBlock;
+
+            let chunk: VaultEventLog[];
+            try {
+                chunk = await client.getLogs({
+                    address,
+                    events: VAULT_EVENTS,
+                    fromBlock: cursor,
+                    toBlock: end,
+                    strict: true
+                });
+            } catch (error) {
+                if (size <= MIN_CHUNK_SIZE) throw error;
+                size = size / 2n;
+                elizaLogger.warn(`getLogs failed for blocks ${cursor}-${end}, retrying with chunk size ${size}`);
+                continue;
+            }
+
+            await onChunk(chunk, end);
+            cursor = end + 1n;
+        }
+    }
+
+    // Turn one chunk of a vault's logs into ledger entries; returns how many were new
+    private async recordLogs(
+        runtime: IAgentRuntime,
+        vault: { name: VaultName; address: Address },
+        logs: VaultEventLog[]
+    ): Promise<number> {
+        const decimals = getVaultAssetDecimals(vault.name);
+        const byUser = new Map<string, VaultLedgerEntry[]>();
+
+        for (const log of logs) {
+            const entry: VaultLedgerEntry = {
+                type: log.eventName === "SEIOptimizedDeposit" ? "deposit" : "withdraw",
+                vaultAddress: vault.address,
+                vaultName: getVaultDisplayName(vault.name),
+                user: log.args.user,
+                amount: Number(formatUnits(log.args.amount, decimals)),
+                shares: Number(formatUnits(log.args.shares, 18)),
+                timestamp: Number(log.args.blockTime),
+                blockNumber: Number(log.blockNumber),
+                transactionHash: log.transactionHash,
+                logIndex: log.logIndex
+            };
+            const userKey = entry.user.toLowerCase();
+            byUser.set(userKey, [...(byUser.get(userKey) || []), entry]);
+        }
+
+        let newEntries = 0;
+        for (const [user, entries] of byUser) {
+            newEntries += await this.appendToLedger(runtime, user as Address, entries);
+        }
+        return newEntries;
+    }
+
+    // Merge new entries into the user's ledger, skipping logs already recorded
+    private async appendToLedger(
+        runtime: IAgentRuntime,
+        user: Address,
+        entries: VaultLedgerEntry[]
+    ): Promise<number> {
+        const key = this.ledgerKey(user);
+        const existing = await this.store.get<VaultLedgerEntry[]>(runtime, key) || [];
+        const seen = new Set(existing.map(e => `${e.transactionHash}:${e.logIndex}`));
+
+        const fresh = entries.filter(e => !seen.has(`${e.transactionHash}:${e.logIndex}`));
+        if (fresh.length === 0) return 0;
+
+        const merged = [...existing, ...fresh].sort((a, b) =>
+            a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+        );
+        await this.store.set(runtime, key, merged);
+        return fresh.length;
+    }
+
+    private ledgerKey(user: Address): string {
+        return `${LEDGER_CACHE_PREFIX}${user.toLowerCase()}`;
+    }
+}
+
+// Non-negative integer setting; null when unset, or malformed (with a warning)
+function parseBlockSetting(runtime: IAgentRuntime, key: string): bigint | null {
+    const raw = runtime.getSetting(key);
+    if (raw === undefined || raw === null || String(raw).trim() === "") return null;
+
+    const value = String(raw).trim();
+    if (!/^\d+$/.test(value)) {
+        elizaLogger.warn(`Ignoring ${key}=${value}: expected a non-negative integer`);
+        return null;
+    }
+    return BigInt(value);
+}
+
+// Export singleton instance
+export const vaultEventIndexer = new VaultEventIndexer();
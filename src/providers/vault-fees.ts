@@ -0,0 +1,109 @@
+import type { FormattedVaultMetrics } from "../types/vault";
+
+/**
+ * Fee-aware return calculator for vault deposits.
+ *
+ * Turns a gross APY into what a depositor actually takes home:
+ * - the gross APY is the effective annual growth, applied as (1 + APY)^(days / 365)
+ * - the management fee accrues continuously on assets under management
+ * - the performance fee is charged on the gain above the deposit at exit
+ * - the withdrawal fee is charged once on the amount withdrawn
+ *
+ * All rates are percentages, as in FormattedVaultMetrics.
+ */
+
+export type VaultFeeRates = Pick<FormattedVaultMetrics, "managementFeeRate" | "performanceFeeRate" | "withdrawalFeeRate">;
+
+export interface NetReturnBreakdown {
+    principal: number;
+    days: number;
+    grossApy: number;
+    grossValue: number;
+    grossYield: number;
+    managementFees: number;
+    performanceFees: number;
+    withdrawalFee: number;
+    totalFees: number;
+    netValue: number;
+    netReturn: number;
+    netReturnPct: number; // %, over the holding period
+    netApy: number; // %, annualized
+    breakEvenDays: number | null; // null if fees are never recovered
+}
+
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Net realized return for `principal` held `days` at `grossApy`
+ */
+export function calculateNetReturn(
+    fees: VaultFeeRates,
+    grossApy: number,
+    principal: number,
+    days: number
+): NetReturnBreakdown {
+    const years = Math.max(0, days) / DAYS_PER_YEAR;
+
+    const grossValue = principal * Math.pow(1 + grossApy / 100, years);
+    const afterManagement = grossValue * Math.pow(1 - fees.managementFeeRate / 100, years);
+    const managementFees = grossValue - afterManagement;
+
+    const performanceFees = Math.max(0, afterManagement - principal) * fees.performanceFeeRate / 100;
+    const beforeWithdrawal = afterManagement - performanceFees;
+
+    const withdrawalFee = beforeWithdrawal * fees.withdrawalFeeRate / 100;
+    const netValue = beforeWithdrawal - withdrawalFee;
+    const netReturn = netValue - principal;
+    const growth = principal > 0 ? netValue / principal : 1;
+
+    return {
+        principal,
+        days,
+        grossApy,
+        grossValue,
+        grossYield: grossValue - principal,
+        managementFees,
+        performanceFees,
+        withdrawalFee,
+        totalFees: managementFees + performanceFees + withdrawalFee,
+        netValue,
+        netReturn,
+        netReturnPct: (growth - 1) * 100,
+        netApy: years > 0 && growth > 0 ? (Math.pow(growth, 1 / years) - 1) * 100 : 0,
+        breakEvenDays: breakEvenDays(fees, grossApy)
+    };
+}
+
+/**
+ * Annualized APY after all fees for a holding period (one year by default)
+ */
+export function netApy(fees: VaultFeeRates, grossApy: number, days = DAYS_PER_YEAR): number {
+    return calculateNetReturn(fees, grossApy, 1, days).netApy;
+}
+
+/**
+ * Days until the gain after management and performance fees covers the
+ * withdrawal fee, i.e. the shortest hold that gets the deposit back in full.
+ * Independent of deposit size since every fee is proportional.
+ */
+export function breakEvenDays(fees: VaultFeeRates, grossApy: number): number | null {
+    const yearlyGrowth = (1 + grossApy / 100) * (1 - fees.managementFeeRate / 100);
+    const performanceShare = fees.performanceFeeRate / 100;
+    const keepOnExit = 1 - fees.withdrawalFeeRate / 100;
+
+    if (yearlyGrowth <= 1 || performanceShare >= 1 || keepOnExit <= 0) {
+        return fees.withdrawalFeeRate <= 0 && yearlyGrowth >= 1 ? 0 : null;
+    }
+
+    // Growth needed so that (V - perf * (V - 1)) * keepOnExit = 1
+    const requiredGrowth = (1 / keepOnExit - performanceShare) / (1 - performanceShare);
+    if (requiredGrowth <= 1) return 0;
+
+    return Math.ceil(DAYS_PER_YEAR * Math.log(requiredGrowth) / Math.log(yearlyGrowth));
+}
+
+export function formatBreakEven(days: number | null): string {
+    if (days === null) return "never (fees exceed yield)";
+    if (days === 0) return "immediately";
+    return `${days} day${days === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,318 @@
+import { formatUnits, type Address } from "viem";
+import { type IAgentRuntime, elizaLogger } from "@elizaos/core";
+import NodeCache from "node-cache";
+
+import { vaultProvider } from "./vault-provider";
+import { SeiOracleProvider } from "./sei-oracle";
+import { vaultMetricsStore, VaultMetricsSnapshot } from "./vault-metrics-store";
+import {
+    FormattedYieldHistory,
+    SharePricePoint,
+    STRATEGY_VAULT_ABI,
+    getVaultAssetDecimals,
+    getVaultAssetSymbol
+} from "../types/vault";
+
+const SECONDS_PER_YEAR = 365 * 86400;
+const SERIES_CACHE_TTL = 300;
+
+// Sample timestamps are aligned to this so repeated queries hit the cache
+const TIMESTAMP_ALIGNMENT = 300;
+const MIN_SAMPLE_INTERVAL = 3600;
+const DEFAULT_MAX_SAMPLES = 30;
+
+const USD_PEGGED_ASSETS = ["USDC", "USDT", "DAI"];
+
+export type YieldHistorySource = "dashboard" | "snapshots" | "archive";
+
+export interface VaultYieldHistory {
+    source: YieldHistorySource;
+    history: FormattedYieldHistory[];
+}
+
+export interface SharePriceQuery {
+    fromTimestamp: number;
+    toTimestamp?: number;
+    maxSamples?: number;
+}
+
+/**
+ * Reconstructs share price, TVL and realized APY for any vault by reading
+ * totalAssets/totalSupply at historical blocks (requires an archive RPC).
+ * Block heights are found by binary-searching block timestamps.
+ */
+export class VaultHistoryEngine {
+    private cache = new NodeCache({ stdTTL: SERIES_CACHE_TTL });
+    private blockTimestamps = new Map<bigint, number>();
+    private blocksByTimestamp = new Map<number, bigint>();
+
+    /**
+     * Yield history from the dashboard contract when one is configured, then
+     * locally recorded metric snapshots if they cover the range, otherwise
+     * archive share-price reads
+     */
+    async getYieldHistory(
+        runtime: IAgentRuntime,
+        vaultAddress: Address,
+        fromTimestamp: number,
+        toTimestamp?: number
+    ): Promise<VaultYieldHistory> {
+        await vaultProvider.initialize(runtime);
+
+        if (vaultProvider.hasCustomerDashboard()) {
+            try {
+                const history = await vaultProvider.getYieldHistory(runtime, vaultAddress, fromTimestamp);
+                if (history.length > 0) {
+                    return { source: "dashboard", history };
+                }
+            } catch (error) {
+                elizaLogger.warn(`Dashboard yield history unavailable for ${vaultAddress}, using local history: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        const snapshots = await vaultMetricsStore.getSnapshots(runtime, vaultAddress, { fromTimestamp, toTimestamp });
+        if (coversRange(snapshots, fromTimestamp, vaultMetricsStore.getSnapshotInterval(runtime))) {
+            return { source: "snapshots", history: snapshotsToYieldHistory(snapshots) };
+        }
+
+        const series = await this.getSharePriceSeries(runtime, vaultAddress, { fromTimestamp, toTimestamp });
+        const priceUsd = await this.getAssetPriceUsd(runtime, vaultAddress);
+
+        return { source: "archive", history: toYieldHistory(series, priceUsd) };
+    }
+
+    /**
+     * Sample vault state between two timestamps, oldest first. Samples where the
+     * vault had no supply (or the node has no state) are skipped.
+     */
+    async getSharePriceSeries(
+        runtime: IAgentRuntime,
+        vaultAddress: Address,
+        query: SharePriceQuery
+    ): Promise<SharePricePoint[]> {
+        await vaultProvider.initialize(runtime);
+
+        const maxSamples = query.maxSamples
+            || Number(runtime.getSetting("VAULT_HISTORY_MAX_SAMPLES") || DEFAULT_MAX_SAMPLES);
+        const timestamps = sampleTimestamps(query.fromTimestamp, query.toTimestamp ?? Math.floor(Date.now() / 1000), maxSamples);
+
+        const cacheKey = `series:${vaultAddress.toLowerCase()}:${timestamps[0]}:${timestamps[timestamps.length - 1]}:${timestamps.length}`;
+        const cached = this.cache.get<SharePricePoint[]>(cacheKey);
+        if (cached) return cached;
+
+        const client = vaultProvider.getPublicClient();
+        const decimals = getVaultAssetDecimals(vaultProvider.getVaultNameByAddress(vaultAddress));
+
+        const points: SharePricePoint[] = [];
+        let lowerBound = 0n;
+        let failures = 0;
+
+        for (const timestamp of timestamps) {
+            const blockNumber = await this.findBlockByTimestamp(runtime, timestamp, lowerBound);
+            lowerBound = blockNumber;
+
+            if (points.length > 0 && BigInt(points[points.length - 1].blockNumber) === blockNumber) continue;
+
+            try {
+                const [totalAssets, totalSupply] = await Promise.all([
+                    client.readContract({ address: vaultAddress, abi: STRATEGY_VAULT_ABI, functionName: "totalAssets", blockNumber }),
+                    client.readContract({ address: vaultAddress, abi: STRATEGY_VAULT_ABI, functionName: "totalSupply", blockNumber })
+                ]) as [bigint, bigint];
+
+                if (totalSupply === 0n) continue;
+
+                const assets = Number(formatUnits(totalAssets, decimals));
+                const supply = Number(formatUnits(totalSupply, 18));
+                points.push({
+                    timestamp: Number(await this.getBlockTimestamp(blockNumber)),
+                    blockNumber: Number(blockNumber),
+                    totalAssets: assets,
+                    totalSupply: supply,
+                    sharePrice: assets / supply
+                });
+            } catch (error) {
+                // Before the vault was deployed, or the node has pruned this state
+                failures++;
+                elizaLogger.debug(`No vault state for ${vaultAddress} at block ${blockNumber}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        if (points.length === 0 && failures > 0) {
+            throw new Error(`Could not read historical state for ${vaultAddress}. SEI_RPC_URL must point to an archive node for yield history without a dashboard contract.`);
+        }
+
+        this.cache.set(cacheKey, points);
+        return points;
+    }
+
+    /**
+     * Latest block with a timestamp at or before `timestamp` (binary search).
+     * `lowerBound` narrows the search when walking forward through time.
+     */
+    async findBlockByTimestamp(
+        runtime: IAgentRuntime,
+        timestamp: number,
+        lowerBound = 0n
+    ): Promise<bigint> {
+        await vaultProvider.initialize(runtime);
+
+        const known = this.blocksByTimestamp.get(timestamp);
+        if (known !== undefined) return known;
+
+        const latest = await vaultProvider.getPublicClient().getBlock({ blockTag: "latest" });
+        this.blockTimestamps.set(latest.number, Number(latest.timestamp));
+
+        let lo = lowerBound;
+        let hi = latest.number;
+
+        if (timestamp >= Number(latest.timestamp)) return hi;
+        if (timestamp <= await this.getBlockTimestamp(lo)) return lo;
+
+        // Invariant: timestamp(lo) <= target < timestamp(hi)
+        while (hi - lo > 1n) {
+            const mid = (lo + hi) / 2n;
+            if (await this.getBlockTimestamp(mid) <= timestamp) {
+                lo = mid;
+            } else {
+                hi = mid;
+            }
+        }
+
+        this.blocksByTimestamp.set(timestamp, lo);
+        return lo;
+    }
+
+    private async getBlockTimestamp(blockNumber: bigint): Promise<number> {
+        const cached = this.blockTimestamps.get(blockNumber);
+        if (cached !== undefined) return cached;
+
+        const block = await vaultProvider.getPublicClient().getBlock({ blockNumber });
+        const timestamp = Number(block.timestamp);
+        this.blockTimestamps.set(blockNumber, timestamp);
+        return timestamp;
+    }
+
+    // Current USD price of the vault asset; values stay in asset units if unavailable
+    private async getAssetPriceUsd(runtime: IAgentRuntime, vaultAddress: Address): Promise<number> {
+        const symbol = getVaultAssetSymbol(vaultProvider.getVaultNameByAddress(vaultAddress));
+        if (USD_PEGGED_ASSETS.includes(symbol)) return 1;
+
+        try {
+            const feed = await new SeiOracleProvider(runtime).getPrice(symbol);
+            if (feed) return feed.price;
+        } catch (error) {
+            elizaLogger.warn(`Price lookup for ${symbol} failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        elizaLogger.warn(`No ${symbol} price, yield history values are in ${symbol}`);
+        return 1;
+    }
+}
+
+/**
+ * Evenly spaced sample times from `from` to `to` (inclusive), at most
+ * `maxSamples` and no closer than an hour apart
+ */
+export function sampleTimestamps(from: number, to: number, maxSamples: number): number[] {
+    const start = Math.floor(from / TIMESTAMP_ALIGNMENT) * TIMESTAMP_ALIGNMENT;
+    const end = Math.floor(to / TIMESTAMP_ALIGNMENT) * TIMESTAMP_ALIGNMENT;
+    if (end <= start) return [end];
+
+    const step = Math.max(MIN_SAMPLE_INTERVAL, Math.ceil((end - start) / Math.max(1, maxSamples - 1)));
+    const timestamps: number[] = [];
+    for (let t = start; t < end; t += step) {
+        timestamps.push(t);
+    }
+    timestamps.push(end);
+    return timestamps;
+}
+
+/**
+ * One entry per interval between consecutive samples: realized APY is the
+ * share-price growth compounded to a year, yield is that growth on the
+ * supply at the start of the interval
+ */
+export function toYieldHistory(series: SharePricePoint[], priceUsd = 1): FormattedYieldHistory[] {
+    const history: FormattedYieldHistory[] = [];
+
+    for (let i = 1; i < series.length; i++) {
+        const prev = series[i - 1];
+        const point = series[i];
+        const elapsed = point.timestamp - prev.timestamp;
+        if (elapsed <= 0 || prev.sharePrice <= 0) continue;
+
+        const growth = point.sharePrice / prev.sharePrice;
+
+        history.push({
+            timestamp: point.timestamp,
+            totalValue: point.totalAssets * priceUsd,
+            yieldGenerated: (point.sharePrice - prev.sharePrice) * prev.totalSupply * priceUsd,
+            apy: (Math.pow(growth, SECONDS_PER_YEAR / elapsed) - 1) * 100,
+            sharePrice: point.sharePrice
+        });
+    }
+
+    return history;
+}
+
+/**
+ * Share-price return of each history interval. Entries without a share price
+ * (dashboard history) are converted back from their APY and elapsed time.
+ */
+export function periodReturns(history: FormattedYieldHistory[]): { elapsed: number; value: number }[] {
+    const sorted = [...history].sort((a, b) => a.timestamp - b.timestamp);
+    const returns: { elapsed: number; value: number }[] = [];
+
+    for (let i = 1; i < sorted.length; i++) {
+        const prev = sorted[i - 1];
+        const point = sorted[i];
+        const elapsed = point.timestamp - prev.timestamp;
+        if (elapsed <= 0) continue;
+
+        const value = prev.sharePrice && point.sharePrice
+            ? point.sharePrice / prev.sharePrice - 1
+            : Math.pow(1 + point.apy / 100, elapsed / SECONDS_PER_YEAR) - 1;
+        returns.push({ elapsed, value });
+    }
+
+    return returns;
+}
+
+/**
+ * Annualized standard deviation of share-price returns (%), or null with
+ * fewer than two intervals
+ */
+export function sharePriceVolatility(history: FormattedYieldHistory[]): number | null {
+    const returns = periodReturns(history);
+    if (returns.length < 2) return null;
+
+    const mean = returns.reduce((sum, r) => sum + r.value, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + (r.value - mean) ** 2, 0) / (returns.length - 1);
+    const avgElapsed = returns.reduce((sum, r) => sum + r.elapsed, 0) / returns.length;
+
+    return Math.sqrt(variance) * Math.sqrt(SECONDS_PER_YEAR / avgElapsed) * 100;
+}
+
+/**
+ * Yield history between consecutive metric snapshots, same shape as the dashboard's
+ */
+export function snapshotsToYieldHistory(snapshots: VaultMetricsSnapshot[]): FormattedYieldHistory[] {
+    return toYieldHistory(snapshots
+        .filter(s => s.pricePerShare > 0)
+        .map(s => ({
+            timestamp: s.timestamp,
+            blockNumber: 0,
+            totalAssets: s.totalValueLocked,
+            totalSupply: s.totalValueLocked / s.pricePerShare,
+            sharePrice: s.pricePerShare
+        })));
+}
+
+// Recorded snapshots are only used when they start near the beginning of the range
+function coversRange(snapshots: VaultMetricsSnapshot[], fromTimestamp: number, intervalSeconds: number): boolean {
+    if (snapshots.length < 2) return false;
+    return snapshots[0].timestamp - fromTimestamp <= Math.max(2 * intervalSeconds, 86400);
+}
+
+// Export singleton instance
+export const vaultHistoryEngine = new VaultHistoryEngine();
@@ -0,0 +1,306 @@
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import type { Address } from "viem";
+import { type IAgentRuntime, elizaLogger } from "@elizaos/core";
+
+import { FormattedVaultMetrics } from "../types/vault";
+
+const DEFAULT_STORE_PATH = "./data/vault-metrics.json";
+const DEFAULT_SNAPSHOT_INTERVAL = 3600; // seconds between recorded snapshots per vault
+const DEFAULT_RETENTION_DAYS = 365;
+const SECONDS_PER_YEAR = 365 * 86400;
+
+// A VaultMetrics read as recorded at `timestamp` (unix seconds)
+export interface VaultMetricsSnapshot extends FormattedVaultMetrics {
+    vaultAddress: Address;
+    timestamp: number;
+}
+
+export interface SnapshotRangeQuery {
+    fromTimestamp?: number;
+    toTimestamp?: number;
+    limit?: number; // Most recent N within the range
+}
+
+/**
+ * Storage for metric snapshots. Implementations keep snapshots per vault in
+ * timestamp order; the store handles cadence and retention.
+ */
+export interface MetricsSnapshotBackend {
+    append(snapshot: VaultMetricsSnapshot): Promise<void>;
+    query(vaultAddress: Address, query: SnapshotRangeQuery): Promise<VaultMetricsSnapshot[]>;
+    latest(vaultAddress: Address): Promise<VaultMetricsSnapshot | null>;
+    prune(beforeTimestamp: number): Promise<number>;
+}
+
+function selectRange(snapshots: VaultMetricsSnapshot[], query: SnapshotRangeQuery): VaultMetricsSnapshot[] {
+    const inRange = snapshots.filter(s =>
+        (query.fromTimestamp === undefined || s.timestamp >= query.fromTimestamp) &&
+        (query.toTimestamp === undefined || s.timestamp <= query.toTimestamp)
+    );
+    return query.limit !== undefined ? inRange.slice(-query.limit) : inRange;
+}
+
+/**
+ * Process-local backend (tests, or agents without a writable disk)
+ */
+export class MemorySnapshotBackend implements MetricsSnapshotBackend {
+    protected series = new Map<string, VaultMetricsSnapshot[]>();
+
+    async append(snapshot: VaultMetricsSnapshot): Promise<void> {
+        const key = snapshot.vaultAddress.toLowerCase();
+        const list = this.series.get(key) || [];
+        list.push(snapshot);
+        list.sort((a, b) => a.timestamp - b.timestamp);
+        this.series.set(key, list);
+    }
+
+    async query(vaultAddress: Address, query: SnapshotRangeQuery): Promise<VaultMetricsSnapshot[]> {
+        return selectRange(this.series.get(vaultAddress.toLowerCase()) || [], query);
+    }
+
+    async latest(vaultAddress: Address): Promise<VaultMetricsSnapshot | null> {
+        const list = this.series.get(vaultAddress.toLowerCase()) || [];
+        return list[list.length - 1] || null;
+    }
+
+    async prune(beforeTimestamp: number): Promise<number> {
+        let removed = 0;
+        for (const [key, list] of this.series) {
+            const kept = list.filter(s => s.timestamp >= beforeTimestamp);
+            removed += list.length - kept.length;
+            this.series.set(key, kept);
+        }
+        return removed;
+    }
+}
+
+/**
+ * Embedded file backend: line-delimited JSON, one snapshot per line. Appends
+ * add a line; pruning compacts the file by rewriting the kept series
+ * atomically (temp file + rename). The series is also held in memory for
+ * queries. Files in the older single-object format are read and rewritten.
+ */
+export class JsonFileSnapshotBackend extends MemorySnapshotBackend {
+    private loaded: Promise<void> | null = null;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(private readonly filePath: string) {
+        super();
+    }
+
+    async append(snapshot: VaultMetricsSnapshot): Promise<void> {
+        await this.load();
+        await super.append(snapshot);
+        await this.enqueue(async () => {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.appendFile(this.filePath, JSON.stringify(snapshot) + "\n");
+        });
+    }
+
+    async query(vaultAddress: Address, query: SnapshotRangeQuery): Promise<VaultMetricsSnapshot[]> {
+        await this.load();
+        return super.query(vaultAddress, query);
+    }
+
+    async latest(vaultAddress: Address): Promise<VaultMetricsSnapshot | null> {
+        await this.load();
+        return super.latest(vaultAddress);
+    }
+
+    async prune(beforeTimestamp: number): Promise<number> {
+        await this.load();
+        const removed = await super.prune(beforeTimestamp);
+        if (removed > 0) await this.compact();
+        return removed;
+    }
+
+    private load(): Promise<void> {
+        if (!this.loaded) {
+            this.loaded = (async () => {
+                let raw: string;
+                try {
+                    raw = await fs.readFile(this.filePath, "utf8");
+                } catch (error) {
+                    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+                        elizaLogger.warn(`Could not read metrics store ${this.filePath}, starting empty: ${error}`);
+                    }
+                    return;
+                }
+
+                const add = (snapshot: VaultMetricsSnapshot) => {
+                    const key = snapshot.vaultAddress.toLowerCase();
+                    const list = this.series.get(key);
+                    if (list) list.push(snapshot);
+                    else this.series.set(key, [snapshot]);
+                };
+                let legacy = false;
+                for (const line of raw.split("\n")) {
+                    if (!line.trim()) continue;
+                    try {
+                        const parsed = JSON.parse(line);
+                        if (typeof parsed.timestamp === "number" && parsed.vaultAddress) {
+                            add(parsed as VaultMetricsSnapshot);
+                        } else {
+                            // Older format: one object of series keyed by vault
+                            legacy = true;
+                            Object.values(parsed as Record<string, VaultMetricsSnapshot[]>).flat().forEach(add);
+                        }
+                    } catch {
+                        // A crash mid-append can leave a partial last line
+                        elizaLogger.warn(`Skipping unreadable line in metrics store ${this.filePath}`);
+                    }
+                }
+                for (const list of this.series.values()) list.sort((a, b) => a.timestamp - b.timestamp);
+                if (legacy) await this.compact();
+            })();
+        }
+        return this.loaded;
+    }
+
+    private compact(): Promise<void> {
+        return this.enqueue(async () => {
+            const tmpPath = `${this.filePath}.tmp`;
+            const lines = Array.from(this.series.values()).flat().map(snapshot => JSON.stringify(snapshot) + "\n");
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.writeFile(tmpPath, lines.join(""));
+            await fs.rename(tmpPath, this.filePath);
+        });
+    }
+
+    // Writes are serialized so an append can't land mid-compaction
+    private enqueue(write: () => Promise<void>): Promise<void> {
+        this.writeQueue = this.writeQueue.catch(() => undefined).then(write);
+        return this.writeQueue;
+    }
+}
+
+/**
+ * Time series of vault metrics recorded locally. VaultMonitorService records
+ * every registered vault on a timer; at most one snapshot per vault is kept
+ * per VAULT_METRICS_SNAPSHOT_INTERVAL seconds.
+ */
+export class VaultMetricsStore {
+    private backend: MetricsSnapshotBackend | null = null;
+    private intervalSeconds = DEFAULT_SNAPSHOT_INTERVAL;
+    private retentionDays = DEFAULT_RETENTION_DAYS;
+    private lastPrune = 0;
+
+    // Plug in a custom backend (e.g. SQLite or Postgres); skips settings-based selection
+    setBackend(backend: MetricsSnapshotBackend): void {
+        this.backend = backend;
+    }
+
+    /**
+     * Record a snapshot unless the vault already has one within the cadence.
+     * Returns whether a snapshot was written.
+     */
+    async record(
+        runtime: IAgentRuntime,
+        vaultAddress: Address,
+        metrics: FormattedVaultMetrics,
+        timestamp = Math.floor(Date.now() / 1000)
+    ): Promise<boolean> {
+        const backend = this.getBackend(runtime);
+
+        const latest = await backend.latest(vaultAddress);
+        if (latest && timestamp - latest.timestamp < this.intervalSeconds) {
+            return false;
+        }
+
+        await backend.append({ ...metrics, vaultAddress, timestamp });
+
+        // Retention runs at most once a day
+        if (timestamp - this.lastPrune > 86400) {
+            this.lastPrune = timestamp;
+            const removed = await backend.prune(timestamp - this.retentionDays * 86400);
+            if (removed > 0) {
+                elizaLogger.info(`Pruned ${removed} vault metric snapshots older than ${this.retentionDays} days`);
+            }
+        }
+
+        return true;
+    }
+
+    async getSnapshots(
+        runtime: IAgentRuntime,
+        vaultAddress: Address,
+        query: SnapshotRangeQuery = {}
+    ): Promise<VaultMetricsSnapshot[]> {
+        return this.getBackend(runtime).query(vaultAddress, query);
+    }
+
+    async getLatest(runtime: IAgentRuntime, vaultAddress: Address): Promise<VaultMetricsSnapshot | null> {
+        return this.getBackend(runtime).latest(vaultAddress);
+    }
+
+    // Most recent snapshot at or before `timestamp`
+    async getSnapshotAt(
+        runtime: IAgentRuntime,
+        vaultAddress: Address,
+        timestamp: number
+    ): Promise<VaultMetricsSnapshot | null> {
+        const [snapshot] = await this.getBackend(runtime).query(vaultAddress, { toTimestamp: timestamp, limit: 1 });
+        return snapshot || null;
+    }
+
+    // Snapshot closest to `timestamp`, or null when none lies within ±toleranceSeconds
+    async getSnapshotNear(
+        runtime: IAgentRuntime,
+        vaultAddress: Address,
+        timestamp: number,
+        toleranceSeconds: number
+    ): Promise<VaultMetricsSnapshot | null> {
+        const candidates = await this.getBackend(runtime).query(vaultAddress, {
+            fromTimestamp: timestamp - toleranceSeconds,
+            toTimestamp: timestamp + toleranceSeconds
+        });
+        return candidates.reduce<VaultMetricsSnapshot | null>((closest, snapshot) =>
+            !closest || Math.abs(snapshot.timestamp - timestamp) < Math.abs(closest.timestamp - timestamp) ? snapshot : closest,
+        null);
+    }
+
+    getSnapshotInterval(runtime: IAgentRuntime): number {
+        this.getBackend(runtime);
+        return this.intervalSeconds;
+    }
+
+    private getBackend(runtime: IAgentRuntime): MetricsSnapshotBackend {
+        if (this.backend) return this.backend;
+
+        const interval = Number(runtime.getSetting("VAULT_METRICS_SNAPSHOT_INTERVAL"));
+        if (interval > 0) this.intervalSeconds = interval;
+
+        const retention = Number(runtime.getSetting("VAULT_METRICS_RETENTION_DAYS"));
+        if (retention > 0) this.retentionDays = retention;
+
+        const kind = String(runtime.getSetting("VAULT_METRICS_STORE") || "file").toLowerCase();
+        if (kind === "memory") {
+            this.backend = new MemorySnapshotBackend();
+        } else {
+            const filePath = String(runtime.getSetting("VAULT_METRICS_STORE_PATH") || DEFAULT_STORE_PATH);
+            this.backend = new JsonFileSnapshotBackend(filePath);
+            elizaLogger.info(`Vault metrics snapshots stored in ${filePath}`);
+        }
+
+        return this.backend;
+    }
+}
+
+/**
+ * Share-price growth from the first to the last snapshot, compounded to a
+ * year (%). Null when the snapshots span less than a day.
+ */
+export function realizedApy(snapshots: VaultMetricsSnapshot[]): number | null {
+    if (snapshots.length < 2) return null;
+
+    const first = snapshots[0];
+    const last = snapshots[snapshots.length - 1];
+    const elapsed = last.timestamp - first.timestamp;
+    if (elapsed < 86400 || first.pricePerShare <= 0) return null;
+
+    return (Math.pow(last.pricePerShare / first.pricePerShare, SECONDS_PER_YEAR / elapsed) - 1) * 100;
+}
+
+// Export singleton instance
+export const vaultMetricsStore = new VaultMetricsStore();
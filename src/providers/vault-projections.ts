@@ -0,0 +1,124 @@
+import type { FormattedYieldHistory } from "../types/vault";
+import { periodReturns } from "./vault-history";
+import { calculateNetReturn, VaultFeeRates } from "./vault-fees";
+
+/**
+ * Monte Carlo projections for vault deposits.
+ *
+ * Each run rebuilds a holding period by drawing share-price intervals from
+ * the vault's yield history with replacement (bootstrap), so the spread of
+ * outcomes follows what the vault actually did rather than a single APY.
+ * The last draw is pro-rated to end exactly at the holding period. Fees are
+ * applied to each run's realized growth with the same model as
+ * calculateNetReturn.
+ */
+
+export interface MonteCarloOptions {
+    simulations?: number;
+    seed?: number;
+}
+
+export interface MonteCarloProjection {
+    simulations: number;
+    sampleIntervals: number; // Historical intervals drawn from
+    p5: number; // Net final value at each percentile
+    p50: number;
+    p95: number;
+    probabilityOfLoss: number; // %, net final value below the deposit
+    expectedDrawdown: number; // %, mean of each run's max peak-to-trough drop
+}
+
+export const DEFAULT_SIMULATIONS = 2000;
+export const MIN_SAMPLE_INTERVALS = 5;
+
+const DEFAULT_SEED = 0x5e1;
+const SECONDS_PER_DAY = 86400;
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Simulate `principal` held `days` in a vault with the given fees. Returns
+ * null when the history has fewer than MIN_SAMPLE_INTERVALS intervals.
+ */
+export function simulateProjection(
+    history: FormattedYieldHistory[],
+    fees: VaultFeeRates,
+    principal: number,
+    days: number,
+    options: MonteCarloOptions = {}
+): MonteCarloProjection | null {
+    const intervals = periodReturns(history)
+        .filter(r => r.value > -1)
+        .map(r => ({ days: r.elapsed / SECONDS_PER_DAY, logReturn: Math.log(1 + r.value) }));
+
+    if (intervals.length < MIN_SAMPLE_INTERVALS || days <= 0) return null;
+
+    const simulations = Math.max(1, Math.floor(options.simulations ?? DEFAULT_SIMULATIONS));
+    const random = mulberry32(options.seed ?? DEFAULT_SEED);
+    const managementDecay = Math.log(1 - Math.min(fees.managementFeeRate, 99.99) / 100) / DAYS_PER_YEAR;
+
+    const finals: number[] = [];
+    let drawdownSum = 0;
+    let losses = 0;
+
+    for (let run = 0; run < simulations; run++) {
+        let elapsed = 0;
+        let logValue = 0;
+        let peak = 0;
+        let maxDrawdown = 0;
+
+        while (elapsed < days) {
+            const draw = intervals[Math.floor(random() * intervals.length)];
+            const step = Math.min(draw.days, days - elapsed);
+
+            logValue += draw.logReturn * (step / draw.days) + managementDecay * step;
+            elapsed += step;
+
+            peak = Math.max(peak, logValue);
+            maxDrawdown = Math.max(maxDrawdown, 1 - Math.exp(logValue - peak));
+        }
+
+        // Realized gross growth, restated as an APY so the fee model applies as-is
+        const grossGrowth = Math.exp(logValue - managementDecay * days);
+        const grossApy = (Math.pow(grossGrowth, DAYS_PER_YEAR / days) - 1) * 100;
+        const { netValue } = calculateNetReturn(fees, grossApy, principal, days);
+
+        finals.push(netValue);
+        drawdownSum += maxDrawdown * 100;
+        if (netValue < principal) losses++;
+    }
+
+    finals.sort((a, b) => a - b);
+
+    return {
+        simulations,
+        sampleIntervals: intervals.length,
+        p5: percentile(finals, 5),
+        p50: percentile(finals, 50),
+        p95: percentile(finals, 95),
+        probabilityOfLoss: losses / simulations * 100,
+        expectedDrawdown: drawdownSum / simulations
+    };
+}
+
+/**
+ * Linear-interpolated percentile of an ascending array
+ */
+export function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return NaN;
+    const rank = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+// Small seeded PRNG so identical inputs give identical ranges
+function mulberry32(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
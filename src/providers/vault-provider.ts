@@ -1,8 +1,11 @@
 import {
     createPublicClient,
     http,
+    erc20Abi,
     formatUnits,
+    zeroAddress,
     type Address,
+    type ContractFunctionParameters,
     type PublicClient
 } from "viem";
 import {
@@ -15,6 +18,8 @@ import {
 import NodeCache from "node-cache";
 import * as viemChains from "viem/chains";
 
+import { aggregatePortfolios } from "./address-groups";
+
 import {
     VaultInfo,
     Position,
@@ -26,23 +31,78 @@ import {
     FormattedVaultInfo,
     FormattedPosition,
     FormattedCustomerPortfolio,
+    AggregatedPortfolio,
     FormattedVaultMetrics,
     FormattedYieldHistory,
     FormattedProjectedReturns,
     FormattedDepositRatio,
+    VaultAsset,
     VaultName,
     VaultDisplayNames,
     VaultAddressMap,
     STRATEGY_VAULT_ABI,
     CUSTOMER_DASHBOARD_ABI,
     VAULT_FACTORY_ABI,
-    matchVaultName
+    RiskLevel,
+    matchVaultName,
+    getVaultAssetDecimals,
+    getVaultDisplayName,
+    getVaultStrategy,
+    getVaultRiskLevel,
+    registerDiscoveredVault,
+    clearDiscoveredVaults,
+    resolveBuiltInVault,
+    deriveRiskLevel,
+    slugifyVaultName
 } from "../types/vault";
 
 // Cache TTL in seconds
 const DEFAULT_CACHE_TTL = 30;
 const LONG_CACHE_TTL = 300; // 5 minutes for less volatile data
 
+const NATIVE_SEI_DECIMALS = 18;
+// Placeholder some vaults report as token0 for the chain's native coin
+const NATIVE_TOKEN_ADDRESS = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+
+// Canonical Multicall3 deployment (same address on most EVM chains)
+const DEFAULT_MULTICALL3_ADDRESS: Address = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+// ABI for the per-vault getCustomerStats function (not part of STRATEGY_VAULT_ABI)
+const GET_CUSTOMER_STATS_ABI = [{
+    name: 'getCustomerStats',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'customer', type: 'address' }],
+    outputs: [
+        { name: 'shares', type: 'uint256' },
+        { name: 'shareValue', type: 'uint256' },
+        { name: 'totalDeposited', type: 'uint256' },
+        { name: 'totalWithdrawn', type: 'uint256' },
+        { name: 'depositTime', type: 'uint256' },
+        { name: 'lockTimeRemaining', type: 'uint256' }
+    ]
+}] as const;
+
+// A single contract read to be batched through Multicall3
+export type BatchReadCall = ContractFunctionParameters;
+
+// Per-call outcome of a batched read; failures never fail the whole batch
+export type BatchReadResult<T = unknown> =
+    | { status: "success"; result: T }
+    | { status: "failure"; error: Error };
+
+// A vault known to the registry, from env configuration and/or the factory
+export interface RegisteredVault {
+    name: VaultName;
+    address: Address;
+    displayName: string;
+    strategy: string;
+    riskLevel: RiskLevel;
+    isActive: boolean;
+    source: "env" | "factory";
+    info: FormattedVaultInfo | null;
+}
+
 export class VaultProvider {
     name = "VAULT_PROVIDER";
     description = "Provides access to Yield Delta vault data including portfolio, metrics, and projections";
@@ -51,7 +111,12 @@ export class VaultProvider {
     private publicClient: PublicClient | null = null;
     private vaultFactoryAddress: Address | null = null;
     private customerDashboardAddress: Address | null = null;
+    private multicallAddress: Address | null = null;
     private vaultAddresses: VaultAddressMap = {};
+    private envVaultAddresses: VaultAddressMap = {};
+    private registry: RegisteredVault[] = [];
+    private registryLoadedAt = 0;
+    private registryRefresh: Promise<void> | null = null;
     private initialized = false;
 
     constructor() {
@@ -95,8 +160,15 @@ export class VaultProvider {
             this.vaultFactoryAddress = factoryAddress as Address;
             this.customerDashboardAddress = dashboardAddress as Address;
 
-            // Load individual vault addresses
-            this.vaultAddresses = {
+            // Multicall3 address: explicit override (e.g. local chain) > chain definition > canonical
+            const multicallOverride = runtime.getSetting("MULTICALL3_ADDRESS");
+            this.multicallAddress = (multicallOverride as Address)
+                || (chain.contracts?.multicall3?.address as Address | undefined)
+                || DEFAULT_MULTICALL3_ADDRESS;
+            elizaLogger.info(`Multicall3 Address: ${this.multicallAddress}${multicallOverride ? " (override)" : ""}`);
+
+            // Load individual vault addresses (these override anything the factory reports)
+            this.envVaultAddresses = {
                 [VaultName.DELTA_NEUTRAL]: runtime.getSetting("DELTA_NEUTRAL_VAULT_ADDRESS") as Address,
                 [VaultName.STABLE_MAX]: runtime.getSetting("STABLE_MAX_VAULT_ADDRESS") as Address,
                 [VaultName.SEI_HYPERGROWTH]: runtime.getSetting("SEI_HYPERGROWTH_VAULT_ADDRESS") as Address,
@@ -108,6 +180,7 @@ export class VaultProvider {
                 [VaultName.SEI]: runtime.getSetting("SEI_VAULT_ADDRESS") as Address,
                 [VaultName.USDC]: runtime.getSetting("USDC_VAULT_ADDRESS") as Address
             };
+            this.vaultAddresses = { ...this.envVaultAddresses };
 
             // Log which vaults are configured
             const configuredVaults = Object.entries(this.vaultAddresses)
@@ -120,6 +193,7 @@ export class VaultProvider {
             elizaLogger.info(`   Network: ${network}`);
             elizaLogger.info(`   Factory: ${this.vaultFactoryAddress || "NOT SET"}`);
             elizaLogger.info(`   Dashboard: ${this.customerDashboardAddress}`);
+            elizaLogger.info(`   Multicall3: ${this.multicallAddress}`);
             elizaLogger.info("===========================================");
         } catch (error) {
             elizaLogger.error("=== VaultProvider Initialization FAILED ===");
@@ -164,7 +238,39 @@ export class VaultProvider {
         _state?: State
     ): Promise<string> {
         await this.initialize(runtime);
-        return `Vault provider ready. Available vaults: ${Object.values(VaultDisplayNames).join(", ")}`;
+
+        // Load the registry up front so discovered vault names resolve in actions
+        let names = Object.values(VaultDisplayNames);
+        try {
+            const registered = await this.getRegisteredVaults(runtime);
+            if (registered.length > 0) {
+                names = registered.map(v => v.displayName);
+            }
+        } catch (error) {
+            elizaLogger.warn(`Vault registry refresh failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        return `Vault provider ready. Available vaults: ${names.join(", ")}`;
+    }
+
+    // Shared read-only client for other modules (indexer, history engines)
+    getPublicClient(): PublicClient {
+        if (!this.publicClient) {
+            throw new Error("VaultProvider not properly initialized");
+        }
+        return this.publicClient;
+    }
+
+    // Whether getYieldHistory/calculateProjectedReturns can use the dashboard contract
+    hasCustomerDashboard(): boolean {
+        return !!this.customerDashboardAddress;
+    }
+
+    // All vaults that have an address configured
+    getConfiguredVaults(): { name: VaultName; address: Address }[] {
+        return Object.entries(this.vaultAddresses)
+            .filter(([_, address]) => address)
+            .map(([name, address]) => ({ name: name as VaultName, address: address as Address }));
     }
 
     // Get vault address by name
@@ -177,6 +283,139 @@ export class VaultProvider {
         return this.vaultAddresses[vaultName] || null;
     }
 
+    /**
+     * Batch contract reads through Multicall3 with per-call failure isolation.
+     * Results are returned in the same order as the calls. If the aggregate call
+     * itself fails (e.g. no Multicall3 deployed), falls back to individual reads.
+     */
+    async batchRead<T = unknown>(calls: BatchReadCall[]): Promise<BatchReadResult<T>[]> {
+        if (!this.publicClient) {
+            throw new Error("VaultProvider not properly initialized");
+        }
+        if (calls.length === 0) return [];
+
+        try {
+            const results = await this.publicClient.multicall({
+                contracts: calls,
+                allowFailure: true,
+                multicallAddress: this.multicallAddress || DEFAULT_MULTICALL3_ADDRESS
+            });
+
+            elizaLogger.debug(`Multicall batch of ${calls.length} reads completed`);
+
+            return results.map((r, i) => {
+                if (r.status === "success") {
+                    return { status: "success", result: r.result as T };
+                }
+                const error = r.error ?? new Error("Call failed");
+                elizaLogger.warn(`Batched read ${calls[i].functionName} on ${calls[i].address} failed: ${error.message}`);
+                return { status: "failure", error };
+            });
+        } catch (error) {
+            elizaLogger.warn(`Multicall batch failed, falling back to individual reads: ${error instanceof Error ? error.message : String(error)}`);
+            return this.readIndividually<T>(calls);
+        }
+    }
+
+    // Fallback for chains without Multicall3: sequential reads, still isolated per call
+    private async readIndividually<T>(calls: BatchReadCall[]): Promise<BatchReadResult<T>[]> {
+        const results: BatchReadResult<T>[] = [];
+
+        for (const call of calls) {
+            try {
+                const result = await this.publicClient!.readContract(call) as T;
+                results.push({ status: "success", result });
+            } catch (error) {
+                const err = error instanceof Error ? error : new Error(String(error));
+                elizaLogger.warn(`Read ${call.functionName} on ${call.address} failed: ${err.message}`);
+                results.push({ status: "failure", error: err });
+            }
+        }
+
+        return results;
+    }
+
+    // Raw share balance and lock in a single vault (uncached; used to size withdrawals exactly)
+    async getCustomerStats(
+        runtime: IAgentRuntime,
+        vaultAddress: Address,
+        customerAddress: Address
+    ): Promise<{ shares: bigint; lockTimeRemaining: number }> {
+        await this.initialize(runtime);
+
+        if (!this.publicClient) {
+            throw new Error("VaultProvider not properly initialized");
+        }
+
+        const [shares, , , , , lockTimeRemaining] = await this.publicClient.readContract({
+            address: vaultAddress,
+            abi: GET_CUSTOMER_STATS_ABI,
+            functionName: 'getCustomerStats',
+            args: [customerAddress]
+        });
+
+        return { shares, lockTimeRemaining: Number(lockTimeRemaining) };
+    }
+
+    // Asset base units the shares redeem for at the current share price (uncached)
+    async convertToAssets(
+        runtime: IAgentRuntime,
+        vaultAddress: Address,
+        shares: bigint
+    ): Promise<bigint> {
+        await this.initialize(runtime);
+
+        if (!this.publicClient) {
+            throw new Error("VaultProvider not properly initialized");
+        }
+
+        const [totalAssets, totalSupply] = await Promise.all([
+            this.publicClient.readContract({ address: vaultAddress, abi: STRATEGY_VAULT_ABI, functionName: "totalAssets" }),
+            this.publicClient.readContract({ address: vaultAddress, abi: STRATEGY_VAULT_ABI, functionName: "totalSupply" })
+        ]) as [bigint, bigint];
+
+        return totalSupply === 0n ? 0n : shares * totalAssets / totalSupply;
+    }
+
+    /**
+     * The vault's token0 with its on-chain symbol and decimals. A zero (or
+     * 0xEeee…) token0 means the vault takes native SEI. Throws when the asset
+     * can't be read, so callers never fall back to a guessed token.
+     */
+    async getVaultAsset(runtime: IAgentRuntime, vaultAddress: Address): Promise<VaultAsset> {
+        const cacheKey = `asset:${vaultAddress}`;
+        const cached = this.cache.get<VaultAsset>(cacheKey);
+        if (cached) return cached;
+
+        let token0: Address | undefined;
+        try {
+            token0 = (await this.getVaultInfo(runtime, vaultAddress)).token0;
+        } catch (error) {
+            throw new Error(`Couldn't determine the asset of vault ${vaultAddress}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if (!token0) {
+            throw new Error(`Couldn't determine the asset of vault ${vaultAddress}: the vault reports no token0`);
+        }
+
+        let asset: VaultAsset;
+        if (token0.toLowerCase() === zeroAddress || token0.toLowerCase() === NATIVE_TOKEN_ADDRESS) {
+            asset = { symbol: "SEI", address: null, decimals: NATIVE_SEI_DECIMALS };
+        } else {
+            try {
+                const [decimals, symbol] = await Promise.all([
+                    this.publicClient!.readContract({ address: token0, abi: erc20Abi, functionName: "decimals" }),
+                    this.publicClient!.readContract({ address: token0, abi: erc20Abi, functionName: "symbol" })
+                ]);
+                asset = { symbol: String(symbol), address: token0, decimals: Number(decimals) };
+            } catch (error) {
+                throw new Error(`Couldn't read the asset token ${token0} of vault ${vaultAddress}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        this.cache.set(cacheKey, asset, LONG_CACHE_TTL);
+        return asset;
+    }
+
     // Get customer portfolio from dashboard contract (or query vaults directly if no dashboard)
     async getCustomerPortfolio(
         runtime: IAgentRuntime,
@@ -216,7 +455,8 @@ export class VaultProvider {
                 unrealizedGains: Number(formatUnits(p.unrealizedGains, 6)),
                 depositTimestamp: Number(p.depositTimestamp),
                 lockTimeRemaining: Number(p.lockTimeRemaining),
-                canWithdraw: p.canWithdraw
+                canWithdraw: p.canWithdraw,
+                valueUnit: "usd"
             }));
 
             this.cache.set(cacheKey, formatted);
@@ -227,7 +467,26 @@ export class VaultProvider {
         }
     }
 
-    // Fallback: Query each vault directly (slower but works without dashboard contract)
+    // Portfolio across several addresses (an address group): totals, per-vault
+    // breakdown and per-address contribution. One unreadable address doesn't
+    // fail the rest; it is reported in byAddress with its error.
+    async getAggregatedPortfolio(
+        runtime: IAgentRuntime,
+        addresses: Address[]
+    ): Promise<AggregatedPortfolio> {
+        const results = await Promise.all(addresses.map(async address => {
+            try {
+                return { address, positions: await this.getCustomerPortfolio(runtime, address) };
+            } catch (error) {
+                elizaLogger.warn(`Skipping ${address} in aggregated portfolio: ${error instanceof Error ? error.message : String(error)}`);
+                return { address, positions: [], error: error instanceof Error ? error.message : String(error) };
+            }
+        }));
+
+        return aggregatePortfolios(results);
+    }
+
+    // Fallback: Query each vault directly (batched through Multicall3)
     private async getCustomerPortfolioDirectly(
         customerAddress: Address
     ): Promise<FormattedCustomerPortfolio[]> {
@@ -238,89 +497,66 @@ export class VaultProvider {
         elizaLogger.info(`Querying vaults directly for ${customerAddress}...`);
         const portfolios: FormattedCustomerPortfolio[] = [];
 
-        // Define vault configurations with correct decimals
-        const vaultConfigs: Record<string, { decimals: number }> = {
-            [VaultName.SEI]: { decimals: 18 },
-            [VaultName.USDC]: { decimals: 6 },
-            // Add other vaults with their respective decimals as needed
-            // Default to 18 for other vaults
-        };
+        // Skip unconfigured vaults
+        const configured = Object.entries(this.vaultAddresses)
+            .filter(([_, address]) => address) as [string, Address][];
 
-        // ABI for getCustomerStats function
-        const GET_CUSTOMER_STATS_ABI = [{
-            name: 'getCustomerStats',
-            type: 'function',
-            stateMutability: 'view',
-            inputs: [{ name: 'customer', type: 'address' }],
-            outputs: [
-                { name: 'shares', type: 'uint256' },
-                { name: 'shareValue', type: 'uint256' },
-                { name: 'totalDeposited', type: 'uint256' },
-                { name: 'totalWithdrawn', type: 'uint256' },
-                { name: 'depositTime', type: 'uint256' },
-                { name: 'lockTimeRemaining', type: 'uint256' }
-            ]
-        }] as const;
-
-        // Query each configured vault
-        for (const [vaultName, vaultAddress] of Object.entries(this.vaultAddresses)) {
-            if (!vaultAddress) continue; // Skip unconfigured vaults
+        // One batched round trip for every vault's getCustomerStats
+        const results = await this.batchRead<readonly [bigint, bigint, bigint, bigint, bigint, bigint]>(
+            configured.map(([_, vaultAddress]) => ({
+                address: vaultAddress,
+                abi: GET_CUSTOMER_STATS_ABI,
+                functionName: 'getCustomerStats',
+                args: [customerAddress]
+            }))
+        );
+
+        configured.forEach(([vaultName, vaultAddress], i) => {
+            const outcome = results[i];
+            if (outcome.status === "failure") {
+                elizaLogger.error(`Failed to query ${vaultName} at ${vaultAddress}: ${outcome.error.message}`);
+                return; // Continue to next vault
+            }
 
-            try {
-                elizaLogger.info(`Checking ${vaultName} at ${vaultAddress}...`);
-
-                // Get vault-specific decimals (default to 18 if not specified)
-                const decimals = vaultConfigs[vaultName]?.decimals || 18;
-                elizaLogger.info(`Using ${decimals} decimals for ${vaultName}`);
-
-                // Get customer stats from vault
-                const stats = await this.publicClient.readContract({
-                    address: vaultAddress,
-                    abi: GET_CUSTOMER_STATS_ABI,
-                    functionName: 'getCustomerStats',
-                    args: [customerAddress]
-                }) as readonly [bigint, bigint, bigint, bigint, bigint, bigint];
-
-                const [shares, shareValue, totalDeposited, totalWithdrawn, depositTime, lockTimeRemaining] = stats;
-
-                // Skip if no position
-                if (shares === 0n && totalDeposited === 0n) {
-                    elizaLogger.info(`No position in ${vaultName}`);
-                    continue;
-                }
+            // Get vault-specific decimals (default to 18 if not specified)
+            const decimals = getVaultAssetDecimals(vaultName as VaultName);
 
-                // Format values with correct decimals
-                const shareBalance = parseFloat(formatUnits(shares, decimals));
-                const currentValue = parseFloat(formatUnits(shareValue, decimals));
-                const deposited = parseFloat(formatUnits(totalDeposited, decimals));
-                const withdrawn = parseFloat(formatUnits(totalWithdrawn, decimals));
-
-                // Calculate P&L correctly (including withdrawals)
-                const totalValue = currentValue + withdrawn;
-                const unrealizedGains = totalValue - deposited;
-
-                const displayName = VaultDisplayNames[vaultName as VaultName];
-
-                portfolios.push({
-                    vaultAddress,
-                    vaultName: displayName,
-                    shareBalance,
-                    shareValue: currentValue,
-                    totalDeposited: deposited,
-                    totalWithdrawn: withdrawn,
-                    unrealizedGains,
-                    depositTimestamp: Number(depositTime),
-                    lockTimeRemaining: Number(lockTimeRemaining),
-                    canWithdraw: Number(lockTimeRemaining) === 0
-                });
+            const [shares, shareValue, totalDeposited, totalWithdrawn, depositTime, lockTimeRemaining] = outcome.result;
 
-                elizaLogger.info(`Found position in ${displayName}: ${shareBalance} shares, value: ${currentValue}, P&L: ${unrealizedGains > 0 ? '+' : ''}${unrealizedGains}`);
-            } catch (error) {
-                const errorMessage = error instanceof Error ? error.message : String(error);
-                elizaLogger.error(`Failed to query ${vaultName} at ${vaultAddress}: ${errorMessage}`);
-                // Continue to next vault
+            // Skip if no position
+            if (shares === 0n && totalDeposited === 0n) {
+                elizaLogger.info(`No position in ${vaultName}`);
+                return;
             }
-        }
+
+            // Format values with correct decimals
+            const shareBalance = parseFloat(formatUnits(shares, decimals));
+            const currentValue = parseFloat(formatUnits(shareValue, decimals));
+            const deposited = parseFloat(formatUnits(totalDeposited, decimals));
+            const withdrawn = parseFloat(formatUnits(totalWithdrawn, decimals));
+
+            // Calculate P&L correctly (including withdrawals)
+            const totalValue = currentValue + withdrawn;
+            const unrealizedGains = totalValue - deposited;
+
+            const displayName = getVaultDisplayName(vaultName as VaultName);
+
+            portfolios.push({
+                vaultAddress,
+                vaultName: displayName,
+                shareBalance,
+                shareValue: currentValue,
+                totalDeposited: deposited,
+                totalWithdrawn: withdrawn,
+                unrealizedGains,
+                depositTimestamp: Number(depositTime),
+                lockTimeRemaining: Number(lockTimeRemaining),
+                canWithdraw: Number(lockTimeRemaining) === 0,
+                valueUnit: "asset"
+            });
+
+            elizaLogger.info(`Found position in ${displayName}: ${shareBalance} shares, value: ${currentValue}, P&L: ${unrealizedGains > 0 ? '+' : ''}${unrealizedGains}`);
+        });
 
         elizaLogger.info(`Direct query complete: found ${portfolios.length} positions`);
         return portfolios;
@@ -361,6 +597,7 @@ export class VaultProvider {
             };
 
             this.cache.set(cacheKey, formatted);
+
             return formatted;
         } catch (error) {
             elizaLogger.error(`Failed to get vault metrics for ${vaultAddress}: ${error}`);
@@ -390,20 +627,7 @@ export class VaultProvider {
                 functionName: "getVaultInfo"
             }) as VaultInfo;
 
-            // Find the vault name from address to use proper display name
-            const vaultName = this.getVaultNameByAddress(vaultAddress);
-            const displayName = vaultName ? VaultDisplayNames[vaultName] : info.name;
-
-            const formatted: FormattedVaultInfo = {
-                name: displayName,
-                strategy: info.strategy,
-                token0: info.token0,
-                token1: info.token1,
-                poolFee: info.poolFee,
-                totalSupply: Number(formatUnits(info.totalSupply, 18)),
-                totalValueLocked: Number(formatUnits(info.totalValueLocked, 6)),
-                isActive: info.isActive
-            };
+            const formatted = this.formatVaultInfo(vaultAddress, info);
 
             this.cache.set(cacheKey, formatted, LONG_CACHE_TTL);
             return formatted;
@@ -413,8 +637,25 @@ export class VaultProvider {
         }
     }
 
+    private formatVaultInfo(vaultAddress: Address, info: VaultInfo): FormattedVaultInfo {
+        // Find the vault name from address to use proper display name
+        const vaultName = this.getVaultNameByAddress(vaultAddress);
+        const displayName = vaultName ? getVaultDisplayName(vaultName) : info.name;
+
+        return {
+            name: displayName,
+            strategy: info.strategy,
+            token0: info.token0,
+            token1: info.token1,
+            poolFee: info.poolFee,
+            totalSupply: Number(formatUnits(info.totalSupply, 18)),
+            totalValueLocked: Number(formatUnits(info.totalValueLocked, 6)),
+            isActive: info.isActive
+        };
+    }
+
     // Helper method to get vault name from address
-    private getVaultNameByAddress(address: Address): VaultName | null {
+    getVaultNameByAddress(address: Address): VaultName | null {
         if (!this.vaultAddresses) return null;
 
         for (const [name, vaultAddr] of Object.entries(this.vaultAddresses)) {
@@ -594,57 +835,146 @@ export class VaultProvider {
 
     // Get all vaults from factory or config
     async getAllVaults(runtime: IAgentRuntime): Promise<FormattedVaultInfo[]> {
+        const registered = await this.getRegisteredVaults(runtime);
+        return registered
+            .map(vault => vault.info)
+            .filter((info): info is FormattedVaultInfo => !!info);
+    }
+
+    /**
+     * Every known vault: env-configured vaults plus whatever the factory reports.
+     * Refreshed at most every LONG_CACHE_TTL seconds.
+     */
+    async getRegisteredVaults(runtime: IAgentRuntime, forceRefresh = false): Promise<RegisteredVault[]> {
         await this.initialize(runtime);
 
-        const cacheKey = "allVaults";
-        const cached = this.cache.get<FormattedVaultInfo[]>(cacheKey);
-        if (cached) return cached;
+        const stale = Date.now() - this.registryLoadedAt > LONG_CACHE_TTL * 1000;
+        if (forceRefresh || stale) {
+            if (!this.registryRefresh) {
+                this.registryRefresh = this.refreshRegistry().finally(() => {
+                    this.registryRefresh = null;
+                });
+            }
+            await this.registryRefresh;
+        }
 
-        const vaults: FormattedVaultInfo[] = [];
+        return this.registry;
+    }
 
-        // Get vaults from configured addresses
-        for (const [name, address] of Object.entries(this.vaultAddresses)) {
-            if (address) {
-                try {
-                    const info = await this.getVaultInfo(runtime, address);
-                    vaults.push(info);
-                } catch (error) {
-                    elizaLogger.warn(`Failed to get info for vault ${name}: ${error}`);
-                }
-            }
+    /**
+     * Rebuild the registry: read the factory's vault list, batch getVaultInfo for
+     * every address and merge with env configuration. An env *_VAULT_ADDRESS always
+     * wins for its vault; factory vaults that map to a built-in vault fill in the
+     * ones not configured, and anything else is registered as a discovered vault
+     * with metadata taken from getVaultInfo.
+     */
+    private async refreshRegistry(): Promise<void> {
+        if (!this.publicClient) {
+            throw new Error("VaultProvider not properly initialized");
         }
 
-        // If we have a factory, also try to get vaults from there
-        if (this.vaultFactoryAddress && this.publicClient) {
+        const envEntries = Object.entries(this.envVaultAddresses)
+            .filter(([_, address]) => address) as [VaultName, Address][];
+        const envByAddress = new Map(envEntries.map(([name, address]) => [address.toLowerCase(), name]));
+
+        let factoryVaults: Address[] = [];
+        if (this.vaultFactoryAddress) {
             try {
-                const factoryVaults = await this.publicClient.readContract({
+                factoryVaults = [...await this.publicClient.readContract({
                     address: this.vaultFactoryAddress,
                     abi: VAULT_FACTORY_ABI,
                     functionName: "getAllVaults"
-                }) as Address[];
-
-                for (const vaultAddress of factoryVaults) {
-                    // Check if we already have this vault
-                    const exists = vaults.some(v =>
-                        Object.values(this.vaultAddresses).includes(vaultAddress as Address)
-                    );
-
-                    if (!exists) {
-                        try {
-                            const info = await this.getVaultInfo(runtime, vaultAddress);
-                            vaults.push(info);
-                        } catch (error) {
-                            elizaLogger.warn(`Failed to get info for vault ${vaultAddress}: ${error}`);
-                        }
-                    }
-                }
+                }) as Address[]];
             } catch (error) {
                 elizaLogger.warn(`Failed to get vaults from factory: ${error}`);
             }
         }
 
-        this.cache.set(cacheKey, vaults, LONG_CACHE_TTL);
-        return vaults;
+        // Configured addresses first, then any extra vaults from the factory
+        const addresses: Address[] = envEntries.map(([_, address]) => address);
+        const known = new Set(addresses.map(a => a.toLowerCase()));
+        for (const vaultAddress of factoryVaults) {
+            if (!known.has(vaultAddress.toLowerCase())) {
+                known.add(vaultAddress.toLowerCase());
+                addresses.push(vaultAddress);
+            }
+        }
+
+        const results = await this.batchRead<VaultInfo>(
+            addresses.map(address => ({
+                address,
+                abi: STRATEGY_VAULT_ABI,
+                functionName: "getVaultInfo"
+            }))
+        );
+
+        clearDiscoveredVaults();
+        const vaultAddresses: VaultAddressMap = { ...this.envVaultAddresses };
+        const pending: { name: VaultName; address: Address; raw: VaultInfo | null; source: RegisteredVault["source"] }[] = [];
+
+        addresses.forEach((address, i) => {
+            const outcome = results[i];
+            const raw = outcome.status === "success" ? outcome.result : null;
+            if (!raw) {
+                elizaLogger.warn(`Failed to get info for vault ${address}: ${outcome.status === "failure" ? outcome.error.message : "empty result"}`);
+            }
+
+            const envName = envByAddress.get(address.toLowerCase());
+            if (envName) {
+                pending.push({ name: envName, address, raw, source: "env" });
+                return;
+            }
+
+            // Factory-only vaults need getVaultInfo to be identified
+            if (!raw) return;
+
+            const builtIn = resolveBuiltInVault(raw.name);
+            if (builtIn) {
+                if (vaultAddresses[builtIn]) {
+                    elizaLogger.debug(`Factory vault ${address} (${raw.name}) shadowed by configured ${builtIn} address`);
+                    return;
+                }
+                vaultAddresses[builtIn] = address;
+                pending.push({ name: builtIn, address, raw, source: "factory" });
+                return;
+            }
+
+            let id = slugifyVaultName(raw.name) || address.toLowerCase();
+            if (vaultAddresses[id as VaultName]) {
+                id = `${id}-${address.slice(2, 8).toLowerCase()}`;
+            }
+
+            const name = registerDiscoveredVault(id, {
+                displayName: raw.name,
+                strategy: raw.strategy,
+                riskLevel: deriveRiskLevel(`${raw.strategy} ${raw.name}`)
+            });
+            vaultAddresses[name] = address;
+            pending.push({ name, address, raw, source: "factory" });
+        });
+
+        // Names must be registered before formatting so display names resolve
+        this.vaultAddresses = vaultAddresses;
+        this.registry = pending.map(({ name, address, raw, source }) => {
+            const info = raw ? this.formatVaultInfo(address, raw) : null;
+            if (info) {
+                this.cache.set(`info:${address}`, info, LONG_CACHE_TTL);
+            }
+            return {
+                name,
+                address,
+                displayName: getVaultDisplayName(name),
+                strategy: getVaultStrategy(name) || info?.strategy || "",
+                riskLevel: getVaultRiskLevel(name),
+                isActive: info?.isActive ?? true,
+                source,
+                info
+            };
+        });
+        this.registryLoadedAt = Date.now();
+
+        const discovered = this.registry.filter(v => v.source === "factory").length;
+        elizaLogger.info(`Vault registry loaded: ${this.registry.length} vaults (${discovered} from factory)`);
     }
 
     // Helper to get vault metrics by name
@@ -676,6 +1006,7 @@ export class VaultProvider {
     // Clear cache
     clearCache(): void {
         this.cache.flushAll();
+        this.registryLoadedAt = 0;
     }
 }
 
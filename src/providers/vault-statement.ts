@@ -0,0 +1,356 @@
+import type { Address } from "viem";
+import { type IAgentRuntime, elizaLogger } from "@elizaos/core";
+
+import { vaultProvider } from "./vault-provider";
+import { vaultEventIndexer } from "./vault-event-indexer";
+import { SeiOracleProvider } from "./sei-oracle";
+import { replayLedger, sortLedger, type CostBasisMethod } from "./position-accounting";
+import { VaultLedgerEntry, getVaultAssetSymbol } from "../types/vault";
+
+/**
+ * Accounting statements for a wallet's vault activity.
+ *
+ * Built from the indexer ledger: deposits and withdrawals as recorded on-chain,
+ * estimated withdrawal fees, and the yield realized by each withdrawal
+ * (proceeds minus the cost basis of the closed shares). Every row is valued in
+ * USD at the asset's daily price on the day it happened.
+ *
+ * A statement can cover an address group; cost basis is still tracked per
+ * address, and each row records the account it belongs to.
+ */
+
+export type StatementEventType = "deposit" | "withdraw" | "fee" | "yield";
+
+export type StatementFormat = "csv" | "json";
+
+export interface StatementEvent {
+    type: StatementEventType;
+    timestamp: number;
+    date: string; // ISO 8601
+    vaultName: string;
+    vaultAddress: Address;
+    account: Address;
+    asset: string;
+    amount: number;
+    shares: number;
+    priceUsd: number | null;
+    valueUsd: number | null;
+    transactionHash: string;
+    note: string;
+}
+
+export interface StatementVaultSummary {
+    vaultName: string;
+    vaultAddress: Address;
+    asset: string;
+    deposited: number;
+    withdrawn: number;
+    fees: number;
+    realizedYield: number;
+    depositedUsd: number;
+    withdrawnUsd: number;
+    feesUsd: number;
+    realizedYieldUsd: number;
+}
+
+// Per-address contribution to a group statement
+export interface StatementAccountSummary {
+    account: Address;
+    events: number;
+    depositedUsd: number;
+    withdrawnUsd: number;
+    feesUsd: number;
+    realizedYieldUsd: number;
+}
+
+export interface VaultStatement {
+    address: Address; // First address of a group statement
+    addresses: Address[];
+    fromTimestamp: number;
+    toTimestamp: number;
+    generatedAt: number;
+    costBasisMethod: CostBasisMethod;
+    events: StatementEvent[];
+    vaults: StatementVaultSummary[];
+    accounts: StatementAccountSummary[];
+    totals: {
+        depositedUsd: number;
+        withdrawnUsd: number;
+        feesUsd: number;
+        realizedYieldUsd: number;
+        unpricedEvents: number;
+    };
+}
+
+export type HistoricalPriceLookup = (symbol: string, timestamp: number) => Promise<number | null>;
+
+export interface StatementOptions {
+    fromTimestamp: number;
+    toTimestamp: number;
+    costBasisMethod?: CostBasisMethod;
+    priceLookup?: HistoricalPriceLookup;
+}
+
+const CSV_COLUMNS: (keyof StatementEvent)[] = [
+    "date",
+    "type",
+    "vaultName",
+    "vaultAddress",
+    "asset",
+    "amount",
+    "shares",
+    "priceUsd",
+    "valueUsd",
+    "transactionHash",
+    "note"
+];
+
+// Group statements need to say which wallet each row belongs to
+const GROUP_CSV_COLUMNS: (keyof StatementEvent)[] = [...CSV_COLUMNS.slice(0, 4), "account", ...CSV_COLUMNS.slice(4)];
+
+const SUMMARY_CSV_COLUMNS: (keyof StatementVaultSummary)[] = [
+    "vaultName",
+    "vaultAddress",
+    "asset",
+    "deposited",
+    "withdrawn",
+    "fees",
+    "realizedYield",
+    "depositedUsd",
+    "withdrawnUsd",
+    "feesUsd",
+    "realizedYieldUsd"
+];
+
+/**
+ * Build a statement for every vault the address (or each address of a group)
+ * interacted with in [from, to]. The whole ledger is replayed so cost basis
+ * carries over from before the range.
+ */
+export async function generateVaultStatement(
+    runtime: IAgentRuntime,
+    address: Address | Address[],
+    options: StatementOptions
+): Promise<VaultStatement> {
+    const method = options.costBasisMethod || "fifo";
+    const priceLookup = options.priceLookup || createOraclePriceLookup(runtime);
+    const addresses = Array.isArray(address) ? address : [address];
+
+    const ledger = addresses.length === 1
+        ? await vaultEventIndexer.getLedger(runtime, addresses[0])
+        : await vaultEventIndexer.getGroupLedger(runtime, addresses);
+
+    // Lots belong to one holder, so replay each address's position separately
+    const byVault = new Map<string, VaultLedgerEntry[]>();
+    for (const entry of ledger) {
+        const key = `${entry.user.toLowerCase()}:${entry.vaultAddress.toLowerCase()}`;
+        byVault.set(key, [...(byVault.get(key) || []), entry]);
+    }
+
+    const inRange = (timestamp: number) =>
+        timestamp >= options.fromTimestamp && timestamp <= options.toTimestamp;
+
+    const events: StatementEvent[] = [];
+
+    for (const entries of byVault.values()) {
+        const sorted = sortLedger(entries);
+        const vaultAddress = sorted[0].vaultAddress;
+        const asset = getVaultAssetSymbol(vaultProvider.getVaultNameByAddress(vaultAddress));
+        const feeRate = await getWithdrawalFeeRate(runtime, vaultAddress);
+        const { realized } = replayLedger(sorted, method);
+
+        for (const entry of sorted) {
+            if (!inRange(entry.timestamp)) continue;
+            events.push(toEvent(entry, entry.type, asset, entry.amount, entry.shares, ""));
+        }
+
+        for (const { entry, realizedPnL } of realized) {
+            if (!inRange(entry.timestamp)) continue;
+
+            if (feeRate > 0) {
+                // Withdraw events report net proceeds, so gross the fee back up
+                const fee = entry.amount * feeRate / (100 - feeRate);
+                events.push(toEvent(entry, "fee", asset, fee, 0, `Estimated at current ${feeRate}% withdrawal fee`));
+            }
+
+            events.push(toEvent(entry, "yield", asset, realizedPnL, 0, `Realized on withdrawal (${method === "average" ? "average cost" : "FIFO"})`));
+        }
+    }
+
+    events.sort((a, b) => a.timestamp - b.timestamp || typeOrder(a.type) - typeOrder(b.type));
+
+    for (const event of events) {
+        const price = await priceLookup(event.asset, event.timestamp);
+        event.priceUsd = price;
+        event.valueUsd = price !== null ? event.amount * price : null;
+    }
+
+    const vaults = summarizeByVault(events);
+
+    return {
+        address: addresses[0],
+        addresses,
+        fromTimestamp: options.fromTimestamp,
+        toTimestamp: options.toTimestamp,
+        generatedAt: Math.floor(Date.now() / 1000),
+        costBasisMethod: method,
+        events,
+        vaults,
+        accounts: summarizeByAccount(events, addresses),
+        totals: {
+            depositedUsd: vaults.reduce((sum, v) => sum + v.depositedUsd, 0),
+            withdrawnUsd: vaults.reduce((sum, v) => sum + v.withdrawnUsd, 0),
+            feesUsd: vaults.reduce((sum, v) => sum + v.feesUsd, 0),
+            realizedYieldUsd: vaults.reduce((sum, v) => sum + v.realizedYieldUsd, 0),
+            unpricedEvents: events.filter(e => e.priceUsd === null).length
+        }
+    };
+}
+
+/**
+ * One row per event, then a per-vault summary block after a blank line.
+ * RFC 4180 quoting
+ */
+export function formatStatementCsv(statement: VaultStatement): string {
+    const columns = statement.addresses.length > 1 ? GROUP_CSV_COLUMNS : CSV_COLUMNS;
+    const rows = statement.events.map(event =>
+        columns.map(column => csvCell(event[column])).join(",")
+    );
+    const summaryRows = statement.vaults.map(vault =>
+        SUMMARY_CSV_COLUMNS.map(column => csvCell(vault[column])).join(",")
+    );
+    return [
+        columns.join(","),
+        ...rows,
+        "",
+        SUMMARY_CSV_COLUMNS.join(","),
+        ...summaryRows
+    ].join("\n") + "\n";
+}
+
+export function formatStatementJson(statement: VaultStatement): string {
+    return JSON.stringify(statement, null, 2);
+}
+
+function createOraclePriceLookup(runtime: IAgentRuntime): HistoricalPriceLookup {
+    const oracle = new SeiOracleProvider(runtime);
+    return async (symbol, timestamp) => {
+        const feed = await oracle.getHistoricalPrice(symbol, timestamp);
+        return feed ? feed.price : null;
+    };
+}
+
+// Current withdrawal fee rate (%); historical rates are not recorded on-chain
+async function getWithdrawalFeeRate(runtime: IAgentRuntime, vaultAddress: Address): Promise<number> {
+    try {
+        const metrics = await vaultProvider.getVaultMetrics(runtime, vaultAddress);
+        return metrics.withdrawalFeeRate;
+    } catch (error) {
+        elizaLogger.warn(`No withdrawal fee rate for ${vaultAddress}, fees omitted from statement: ${error instanceof Error ? error.message : String(error)}`);
+        return 0;
+    }
+}
+
+function toEvent(
+    entry: VaultLedgerEntry,
+    type: StatementEventType,
+    asset: string,
+    amount: number,
+    shares: number,
+    note: string
+): StatementEvent {
+    return {
+        type,
+        timestamp: entry.timestamp,
+        date: new Date(entry.timestamp * 1000).toISOString(),
+        vaultName: entry.vaultName,
+        vaultAddress: entry.vaultAddress,
+        account: entry.user,
+        asset,
+        amount,
+        shares,
+        priceUsd: null,
+        valueUsd: null,
+        transactionHash: entry.transactionHash,
+        note
+    };
+}
+
+function summarizeByVault(events: StatementEvent[]): StatementVaultSummary[] {
+    const summaries = new Map<string, StatementVaultSummary>();
+
+    for (const event of events) {
+        const key = event.vaultAddress.toLowerCase();
+        let summary = summaries.get(key);
+        if (!summary) {
+            summary = {
+                vaultName: event.vaultName,
+                vaultAddress: event.vaultAddress,
+                asset: event.asset,
+                deposited: 0,
+                withdrawn: 0,
+                fees: 0,
+                realizedYield: 0,
+                depositedUsd: 0,
+                withdrawnUsd: 0,
+                feesUsd: 0,
+                realizedYieldUsd: 0
+            };
+            summaries.set(key, summary);
+        }
+
+        const usd = event.valueUsd || 0;
+        switch (event.type) {
+            case "deposit":
+                summary.deposited += event.amount;
+                summary.depositedUsd += usd;
+                break;
+            case "withdraw":
+                summary.withdrawn += event.amount;
+                summary.withdrawnUsd += usd;
+                break;
+            case "fee":
+                summary.fees += event.amount;
+                summary.feesUsd += usd;
+                break;
+            case "yield":
+                summary.realizedYield += event.amount;
+                summary.realizedYieldUsd += usd;
+                break;
+        }
+    }
+
+    return Array.from(summaries.values());
+}
+
+function summarizeByAccount(events: StatementEvent[], addresses: Address[]): StatementAccountSummary[] {
+    return addresses.map(account => {
+        const own = events.filter(e => e.account.toLowerCase() === account.toLowerCase());
+        const totalUsd = (type: StatementEventType) =>
+            own.filter(e => e.type === type).reduce((sum, e) => sum + (e.valueUsd || 0), 0);
+
+        return {
+            account,
+            events: own.length,
+            depositedUsd: totalUsd("deposit"),
+            withdrawnUsd: totalUsd("withdraw"),
+            feesUsd: totalUsd("fee"),
+            realizedYieldUsd: totalUsd("yield")
+        };
+    });
+}
+
+// Keep a withdrawal's fee and yield rows right after the withdrawal itself
+function typeOrder(type: StatementEventType): number {
+    return ["deposit", "withdraw", "fee", "yield"].indexOf(type);
+}
+
+function csvCell(value: unknown): string {
+    if (value === null || value === undefined) return "";
+    let text = String(value);
+    // Spreadsheets run text starting with these as a formula; numbers stay as-is
+    if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,212 @@
+import { promises as fs } from "fs";
+import { type IAgentRuntime, elizaLogger } from "@elizaos/core";
+
+import type { RiskLevel } from "../types/vault";
+
+/**
+ * Health thresholds for the vault monitor, resolved per vault.
+ *
+ * Each risk tier has built-in defaults (a stablecoin vault isn't held to a
+ * hypergrowth vault's APY, and a leveraged vault may dip without it being an
+ * emergency). Operators can override them through VAULT_HEALTH_THRESHOLDS
+ * (inline JSON) or VAULT_HEALTH_THRESHOLDS_PATH (a JSON file):
+ *
+ *   {
+ *     "default":    { "minTvl": 5000 },
+ *     "riskLevels": { "High": { "minApy": 20 } },
+ *     "vaults":     { "stable-max": { "targetApy": 8 } }
+ *   }
+ *
+ * Later layers win: tier defaults, then "default", then the vault's tier in
+ * "riskLevels", then the vault itself in "vaults".
+ */
+
+export interface HealthThresholds {
+    minApy: number; // Critical below this APY (%)
+    targetApy: number; // Expected APY (%)
+    maxApyDeviation: number; // Warn when APY is further than this from target (pts)
+    minPricePerShare: number; // Critical below this share price
+    minTvl: number; // Warn below this TVL ($)
+    maxTvlOutflow24h: number; // Warn when TVL fell more than this (%) in a day
+    minSharePriceGrowth24h: number; // Warn when daily share-price growth is below this (%); negative allows a dip
+    maxSharePriceLoss24h: number; // Critical when the share price fell more than this (%) in a day
+    maxManagementFee: number; // Note management fees above this (%)
+}
+
+export interface HealthThresholdsConfig {
+    default?: Partial<HealthThresholds>;
+    riskLevels?: Partial<Record<RiskLevel, Partial<HealthThresholds>>>;
+    vaults?: Record<string, Partial<HealthThresholds>>;
+}
+
+// "Medium" matches the monitor's original global thresholds
+export const DEFAULT_HEALTH_THRESHOLDS: Record<RiskLevel, HealthThresholds> = {
+    "Very Low": {
+        minApy: 3,
+        targetApy: 6,
+        maxApyDeviation: 3,
+        minPricePerShare: 0.99,
+        minTvl: 1000,
+        maxTvlOutflow24h: 15,
+        minSharePriceGrowth24h: 0,
+        maxSharePriceLoss24h: 0.1,
+        maxManagementFee: 1
+    },
+    "Low": {
+        minApy: 6,
+        targetApy: 12,
+        maxApyDeviation: 5,
+        minPricePerShare: 0.97,
+        minTvl: 1000,
+        maxTvlOutflow24h: 20,
+        minSharePriceGrowth24h: 0,
+        maxSharePriceLoss24h: 0.25,
+        maxManagementFee: 2
+    },
+    "Medium": {
+        minApy: 10,
+        targetApy: 15,
+        maxApyDeviation: 5,
+        minPricePerShare: 0.95,
+        minTvl: 1000,
+        maxTvlOutflow24h: 20,
+        minSharePriceGrowth24h: 0,
+        maxSharePriceLoss24h: 0.5,
+        maxManagementFee: 2
+    },
+    "Medium-High": {
+        minApy: 12,
+        targetApy: 20,
+        maxApyDeviation: 8,
+        minPricePerShare: 0.92,
+        minTvl: 1000,
+        maxTvlOutflow24h: 25,
+        minSharePriceGrowth24h: -1,
+        maxSharePriceLoss24h: 2,
+        maxManagementFee: 2.5
+    },
+    "High": {
+        minApy: 15,
+        targetApy: 30,
+        maxApyDeviation: 15,
+        minPricePerShare: 0.85,
+        minTvl: 1000,
+        maxTvlOutflow24h: 30,
+        minSharePriceGrowth24h: -3,
+        maxSharePriceLoss24h: 5,
+        maxManagementFee: 3
+    }
+};
+
+const THRESHOLD_KEYS = Object.keys(DEFAULT_HEALTH_THRESHOLDS.Medium) as (keyof HealthThresholds)[];
+
+/**
+ * Thresholds for one vault from a parsed config (no I/O)
+ */
+export function resolveThresholds(
+    config: HealthThresholdsConfig,
+    vaultName: string,
+    riskLevel: RiskLevel
+): HealthThresholds {
+    return {
+        ...(DEFAULT_HEALTH_THRESHOLDS[riskLevel] || DEFAULT_HEALTH_THRESHOLDS.Medium),
+        ...config.default,
+        ...config.riskLevels?.[riskLevel],
+        ...config.vaults?.[vaultName]
+    };
+}
+
+/**
+ * Validate a raw config object, dropping (and logging) anything that isn't a
+ * known threshold with a numeric value
+ */
+export function parseThresholdsConfig(raw: unknown): HealthThresholdsConfig {
+    if (!isRecord(raw)) {
+        throw new Error("Health thresholds config must be a JSON object");
+    }
+
+    const config: HealthThresholdsConfig = {};
+    if (raw.default !== undefined) {
+        config.default = parseOverrides(raw.default, "default");
+    }
+    if (raw.riskLevels !== undefined) {
+        config.riskLevels = {};
+        for (const [level, overrides] of Object.entries(asRecord(raw.riskLevels, "riskLevels"))) {
+            if (!(level in DEFAULT_HEALTH_THRESHOLDS)) {
+                elizaLogger.warn(`Ignoring health thresholds for unknown risk level "${level}"`);
+                continue;
+            }
+            config.riskLevels[level as RiskLevel] = parseOverrides(overrides, `riskLevels.${level}`);
+        }
+    }
+    if (raw.vaults !== undefined) {
+        config.vaults = {};
+        for (const [name, overrides] of Object.entries(asRecord(raw.vaults, "vaults"))) {
+            config.vaults[name] = parseOverrides(overrides, `vaults.${name}`);
+        }
+    }
+
+    return config;
+}
+
+export class VaultThresholdRegistry {
+    private config: Promise<HealthThresholdsConfig> | null = null;
+
+    async getThresholds(runtime: IAgentRuntime, vaultName: string, riskLevel: RiskLevel): Promise<HealthThresholds> {
+        return resolveThresholds(await this.load(runtime), vaultName, riskLevel);
+    }
+
+    /**
+     * Re-read the settings/file on next use
+     */
+    reload(): void {
+        this.config = null;
+    }
+
+    private load(runtime: IAgentRuntime): Promise<HealthThresholdsConfig> {
+        if (!this.config) {
+            this.config = (async () => {
+                const inline = runtime.getSetting("VAULT_HEALTH_THRESHOLDS");
+                const filePath = runtime.getSetting("VAULT_HEALTH_THRESHOLDS_PATH");
+                const source = inline ? "VAULT_HEALTH_THRESHOLDS" : String(filePath || "");
+                if (!source) return {};
+
+                try {
+                    const raw = inline ? String(inline) : await fs.readFile(String(filePath), "utf8");
+                    return parseThresholdsConfig(JSON.parse(raw));
+                } catch (error) {
+                    elizaLogger.warn(`Could not load health thresholds from ${source}, using tier defaults: ${error instanceof Error ? error.message : String(error)}`);
+                    return {};
+                }
+            })();
+        }
+        return this.config;
+    }
+}
+
+function parseOverrides(raw: unknown, path: string): Partial<HealthThresholds> {
+    const overrides: Partial<HealthThresholds> = {};
+    for (const [key, value] of Object.entries(asRecord(raw, path))) {
+        if (!THRESHOLD_KEYS.includes(key as keyof HealthThresholds)) {
+            elizaLogger.warn(`Ignoring unknown health threshold ${path}.${key}`);
+        } else if (typeof value !== "number" || !Number.isFinite(value)) {
+            elizaLogger.warn(`Ignoring non-numeric health threshold ${path}.${key}`);
+        } else {
+            overrides[key as keyof HealthThresholds] = value;
+        }
+    }
+    return overrides;
+}
+
+function asRecord(value: unknown, path: string): Record<string, unknown> {
+    if (!isRecord(value)) {
+        throw new Error(`Health thresholds "${path}" must be an object`);
+    }
+    return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export const vaultThresholds = new VaultThresholdRegistry();
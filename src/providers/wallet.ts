@@ -9,6 +9,7 @@ import {
     createWalletClient,
     http,
     formatUnits,
+    Hash,
     PrivateKeyAccount
 } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts'; // Fix: Import from viem/accounts
@@ -122,6 +123,7 @@ export class WalletProvider {
                 getBalance: async () => BigInt('1000000000000000000'), // 1 ETH/SEI
                 getBlockNumber: async () => BigInt(1000),
                 estimateGas: async () => BigInt(21000),
+                waitForTransactionReceipt: async ({ hash }: { hash: Hash }) => ({ transactionHash: hash, status: 'success', logs: [] }),
                 chain: this.currentChain.chain
             };
         }
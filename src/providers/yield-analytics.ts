@@ -0,0 +1,236 @@
+import type { FormattedYieldHistory } from "../types/vault";
+import { periodReturns } from "./vault-history";
+
+/**
+ * Risk and return statistics over a vault's yield history.
+ *
+ * The history is first chained into a growth index (share-price returns
+ * between samples, compounded), then resampled into calendar buckets (UTC
+ * days, weeks starting Monday, or months). Volatility, Sharpe and Sortino are
+ * computed from bucket returns and annualized by the bucket frequency;
+ * drawdown and recovery are measured on the unbucketed index.
+ */
+
+export type ResampleGranularity = "daily" | "weekly" | "monthly";
+
+export interface ReturnBucket {
+    start: number; // Bucket start (UTC seconds)
+    end: number; // Timestamp of the last sample in the bucket
+    return: number; // %, growth since the previous bucket's last sample
+}
+
+export interface DrawdownInfo {
+    maxDrawdown: number; // %, positive
+    peakTimestamp: number;
+    troughTimestamp: number;
+    recoveryTimestamp: number | null; // First sample back at the peak, null if not yet
+    recoveryDays: number | null; // Trough to recovery
+}
+
+export interface YieldAnalytics {
+    granularity: ResampleGranularity;
+    periods: ReturnBucket[];
+    cumulativeReturn: number; // %
+    annualizedReturn: number | null; // %
+    volatility: number | null; // %, annualized
+    drawdown: DrawdownInfo;
+    riskFreeRate: number; // %, annual
+    sharpeRatio: number | null;
+    sortinoRatio: number | null;
+    bestPeriod: ReturnBucket | null;
+    worstPeriod: ReturnBucket | null;
+}
+
+export interface YieldAnalyticsOptions {
+    granularity?: ResampleGranularity;
+    riskFreeRate?: number; // %, annual
+}
+
+export const DEFAULT_RISK_FREE_RATE = 4;
+
+const SECONDS_PER_DAY = 86400;
+const SECONDS_PER_YEAR = 365 * SECONDS_PER_DAY;
+
+const PERIODS_PER_YEAR: Record<ResampleGranularity, number> = {
+    daily: 365,
+    weekly: 52,
+    monthly: 12
+};
+
+interface IndexPoint {
+    timestamp: number;
+    value: number;
+}
+
+/**
+ * Bucket length matching a lookback: daily up to a month, weekly up to six
+ * months, monthly beyond
+ */
+export function defaultGranularity(days: number): ResampleGranularity {
+    if (days <= 31) return "daily";
+    if (days <= 180) return "weekly";
+    return "monthly";
+}
+
+/**
+ * Compounded growth index starting at 1 on the earliest sample
+ */
+export function growthIndex(history: FormattedYieldHistory[]): IndexPoint[] {
+    if (history.length === 0) return [];
+
+    const sorted = [...history].sort((a, b) => a.timestamp - b.timestamp);
+    const points: IndexPoint[] = [{ timestamp: sorted[0].timestamp, value: 1 }];
+
+    let timestamp = sorted[0].timestamp;
+    let value = 1;
+    for (const { elapsed, value: periodReturn } of periodReturns(sorted)) {
+        timestamp += elapsed;
+        value *= 1 + periodReturn;
+        points.push({ timestamp, value });
+    }
+
+    return points;
+}
+
+/**
+ * Returns per calendar bucket. Each bucket runs from the previous bucket's
+ * last sample (or the first sample) to its own last sample.
+ */
+export function resampleHistory(history: FormattedYieldHistory[], granularity: ResampleGranularity): ReturnBucket[] {
+    const index = growthIndex(history);
+    if (index.length < 2) return [];
+
+    const buckets: ReturnBucket[] = [];
+    let base = index[0];
+
+    for (let i = 1; i < index.length; i++) {
+        const point = index[i];
+        const start = bucketStart(point.timestamp, granularity);
+        const next = index[i + 1];
+
+        // Close the bucket at its last sample
+        if (!next || bucketStart(next.timestamp, granularity) !== start) {
+            buckets.push({ start, end: point.timestamp, return: (point.value / base.value - 1) * 100 });
+            base = point;
+        }
+    }
+
+    return buckets;
+}
+
+/**
+ * Largest peak-to-trough fall of the growth index and how long it took to
+ * climb back to the peak
+ */
+export function maxDrawdown(history: FormattedYieldHistory[]): DrawdownInfo {
+    const index = growthIndex(history);
+    const result: DrawdownInfo = {
+        maxDrawdown: 0,
+        peakTimestamp: index[0]?.timestamp ?? 0,
+        troughTimestamp: index[0]?.timestamp ?? 0,
+        recoveryTimestamp: null,
+        recoveryDays: null
+    };
+
+    let peak = index[0];
+    let peakOfWorst: IndexPoint | null = null;
+
+    for (const point of index) {
+        if (point.value > peak.value) peak = point;
+
+        const drawdown = (1 - point.value / peak.value) * 100;
+        if (drawdown > result.maxDrawdown) {
+            result.maxDrawdown = drawdown;
+            result.peakTimestamp = peak.timestamp;
+            result.troughTimestamp = point.timestamp;
+            peakOfWorst = peak;
+        }
+    }
+
+    if (peakOfWorst) {
+        const recovery = index.find(p => p.timestamp > result.troughTimestamp && p.value >= peakOfWorst!.value);
+        if (recovery) {
+            result.recoveryTimestamp = recovery.timestamp;
+            result.recoveryDays = (recovery.timestamp - result.troughTimestamp) / SECONDS_PER_DAY;
+        }
+    }
+
+    return result;
+}
+
+export function analyzeYieldHistory(
+    history: FormattedYieldHistory[],
+    options: YieldAnalyticsOptions = {}
+): YieldAnalytics {
+    const granularity = options.granularity ?? "daily";
+    const riskFreeRate = options.riskFreeRate ?? DEFAULT_RISK_FREE_RATE;
+    const periodsPerYear = PERIODS_PER_YEAR[granularity];
+
+    const index = growthIndex(history);
+    const periods = resampleHistory(history, granularity);
+
+    const first = index[0];
+    const last = index[index.length - 1];
+    const cumulative = last ? last.value - 1 : 0;
+    const elapsed = last ? last.timestamp - first.timestamp : 0;
+
+    const returns = periods.map(p => p.return / 100);
+    const riskFreePerPeriod = Math.pow(1 + riskFreeRate / 100, 1 / periodsPerYear) - 1;
+    const excess = returns.map(r => r - riskFreePerPeriod);
+
+    let volatility: number | null = null;
+    let sharpeRatio: number | null = null;
+    let sortinoRatio: number | null = null;
+
+    if (returns.length >= 2) {
+        const deviation = standardDeviation(returns);
+        volatility = deviation * Math.sqrt(periodsPerYear) * 100;
+
+        const meanExcess = excess.reduce((sum, r) => sum + r, 0) / excess.length;
+        const excessDeviation = standardDeviation(excess);
+        if (excessDeviation > 0) {
+            sharpeRatio = meanExcess / excessDeviation * Math.sqrt(periodsPerYear);
+        }
+
+        const downside = Math.sqrt(excess.reduce((sum, r) => sum + Math.min(0, r) ** 2, 0) / excess.length);
+        if (downside > 0) {
+            sortinoRatio = meanExcess / downside * Math.sqrt(periodsPerYear);
+        }
+    }
+
+    const byReturn = [...periods].sort((a, b) => b.return - a.return);
+
+    return {
+        granularity,
+        periods,
+        cumulativeReturn: cumulative * 100,
+        annualizedReturn: elapsed > 0 ? (Math.pow(1 + cumulative, SECONDS_PER_YEAR / elapsed) - 1) * 100 : null,
+        volatility,
+        drawdown: maxDrawdown(history),
+        riskFreeRate,
+        sharpeRatio,
+        sortinoRatio,
+        bestPeriod: byReturn[0] ?? null,
+        worstPeriod: byReturn[byReturn.length - 1] ?? null
+    };
+}
+
+function bucketStart(timestamp: number, granularity: ResampleGranularity): number {
+    const date = new Date(timestamp * 1000);
+    const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) / 1000;
+
+    switch (granularity) {
+        case "daily":
+            return day;
+        case "weekly":
+            // Monday-based weeks
+            return day - ((date.getUTCDay() + 6) % 7) * SECONDS_PER_DAY;
+        case "monthly":
+            return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / 1000;
+    }
+}
+
+function standardDeviation(values: number[]): number {
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1));
+}
@@ -0,0 +1,519 @@
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+import * as tls from "tls";
+import * as os from "os";
+import { type IAgentRuntime, elizaLogger } from "@elizaos/core";
+import { RuntimeStore } from "../providers/runtime-store";
+
+/**
+ * Alert delivery.
+ *
+ * An AlertSink delivers one notification to one destination (a webhook, a
+ * Discord channel, a Telegram chat, a mailbox). Each sink has its own minimum
+ * severity, so an ops channel can take only critical alerts while a logging
+ * webhook takes everything. The AlertDispatcher fans notifications out to its
+ * sinks and retries failed deliveries with exponential backoff. An
+ * AlertThrottle keeps periodic emitters from repeating the same alert.
+ */
+
+export type AlertSeverity = "info" | "warning" | "critical";
+
+export interface AlertNotification {
+    source: string; // Emitting module, e.g. "vault-monitor"
+    severity: AlertSeverity;
+    title: string;
+    message: string;
+    timestamp: number; // ms
+    fields?: Record<string, string | number>;
+}
+
+export interface AlertSink {
+    name: string;
+    minSeverity: AlertSeverity;
+    send(alert: AlertNotification): Promise<void>;
+}
+
+export interface RetryOptions {
+    retries: number; // Attempts after the first
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export interface AlertDeliveryResult {
+    sink: string;
+    alert: AlertNotification;
+    delivered: boolean;
+    attempts: number;
+    error?: string;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    retries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000
+};
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 };
+const SEVERITY_EMOJI: Record<AlertSeverity, string> = { info: "ℹ️", warning: "⚠️", critical: "🚨" };
+const DISCORD_COLORS: Record<AlertSeverity, number> = { info: 0x3498db, warning: 0xf1c40f, critical: 0xe74c3c };
+const HTTP_TIMEOUT_MS = 10000;
+
+export function meetsSeverity(severity: AlertSeverity, minSeverity: AlertSeverity): boolean {
+    return SEVERITY_RANK[severity] >= SEVERITY_RANK[minSeverity];
+}
+
+export function parseSeverity(value: unknown, fallback: AlertSeverity): AlertSeverity {
+    const normalized = String(value ?? "").toLowerCase();
+    return normalized in SEVERITY_RANK ? normalized as AlertSeverity : fallback;
+}
+
+/**
+ * Generic JSON webhook: POSTs the notification as-is
+ */
+export class WebhookAlertSink implements AlertSink {
+    name = "webhook";
+
+    constructor(
+        private url: string,
+        public minSeverity: AlertSeverity = "info",
+        private headers: Record<string, string> = {}
+    ) {}
+
+    async send(alert: AlertNotification): Promise<void> {
+        await postJson(this.url, alert, this.headers);
+    }
+}
+
+/**
+ * Discord incoming webhook, one embed per alert coloured by severity
+ */
+export class DiscordAlertSink implements AlertSink {
+    name = "discord";
+
+    constructor(private webhookUrl: string, public minSeverity: AlertSeverity = "warning") {}
+
+    async send(alert: AlertNotification): Promise<void> {
+        await postJson(this.webhookUrl, {
+            embeds: [{
+                title: `${SEVERITY_EMOJI[alert.severity]} ${alert.title}`,
+                description: alert.message,
+                color: DISCORD_COLORS[alert.severity],
+                timestamp: new Date(alert.timestamp).toISOString(),
+                fields: Object.entries(alert.fields || {}).map(([name, value]) => ({
+                    name,
+                    value: String(value),
+                    inline: true
+                })),
+                footer: { text: `${alert.source} • ${alert.severity}` }
+            }]
+        });
+    }
+}
+
+/**
+ * Telegram Bot API sendMessage with MarkdownV2 formatting
+ */
+export class TelegramAlertSink implements AlertSink {
+    name = "telegram";
+
+    constructor(
+        private botToken: string,
+        private chatId: string,
+        public minSeverity: AlertSeverity = "warning",
+        private apiBaseUrl = "https://api.telegram.org"
+    ) {}
+
+    async send(alert: AlertNotification): Promise<void> {
+        let text = `${SEVERITY_EMOJI[alert.severity]} *${escapeMarkdownV2(alert.title)}*\n\n${escapeMarkdownV2(alert.message)}`;
+        for (const [name, value] of Object.entries(alert.fields || {})) {
+            text += `\n• _${escapeMarkdownV2(name)}_: ${escapeMarkdownV2(String(value))}`;
+        }
+        text += `\n\n\`${escapeMarkdownV2(alert.source)}\``;
+
+        await postJson(`${this.apiBaseUrl}/bot${this.botToken}/sendMessage`, {
+            chat_id: this.chatId,
+            text,
+            parse_mode: "MarkdownV2",
+            disable_web_page_preview: true
+        });
+    }
+}
+
+export interface SmtpOptions {
+    host: string;
+    port: number;
+    secure: boolean; // Implicit TLS (port 465); otherwise STARTTLS when offered
+    user?: string;
+    pass?: string;
+    from: string;
+    to: string[];
+    timeoutMs?: number;
+}
+
+/**
+ * Plain-text email over SMTP
+ */
+export class SmtpAlertSink implements AlertSink {
+    name = "smtp";
+
+    constructor(private options: SmtpOptions, public minSeverity: AlertSeverity = "critical") {}
+
+    async send(alert: AlertNotification): Promise<void> {
+        let body = `${alert.message}\n`;
+        for (const [name, value] of Object.entries(alert.fields || {})) {
+            body += `\n${name}: ${value}`;
+        }
+        body += `\n\nSeverity: ${alert.severity}\nSource: ${alert.source}\nTime: ${new Date(alert.timestamp).toISOString()}\n`;
+
+        await sendMail(this.options, `[${alert.severity.toUpperCase()}] ${alert.title}`, body);
+    }
+}
+
+export class AlertDispatcher {
+    private sinks: AlertSink[];
+
+    constructor(
+        sinks: AlertSink[] = [],
+        private retry: RetryOptions = DEFAULT_RETRY_OPTIONS,
+        private sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
+    ) {
+        this.sinks = [...sinks];
+    }
+
+    addSink(sink: AlertSink): void {
+        this.sinks.push(sink);
+    }
+
+    removeSink(name: string): void {
+        this.sinks = this.sinks.filter(sink => sink.name !== name);
+    }
+
+    getSinks(): AlertSink[] {
+        return [...this.sinks];
+    }
+
+    /**
+     * Deliver each alert to every sink whose severity filter it passes.
+     * Sinks run in parallel; alerts keep their order within a sink.
+     */
+    async dispatch(alerts: AlertNotification[]): Promise<AlertDeliveryResult[]> {
+        const perSink = await Promise.all(this.sinks.map(async sink => {
+            const results: AlertDeliveryResult[] = [];
+            for (const alert of alerts) {
+                if (!meetsSeverity(alert.severity, sink.minSeverity)) continue;
+                results.push(await this.deliver(sink, alert));
+            }
+            return results;
+        }));
+
+        return perSink.flat();
+    }
+
+    private async deliver(sink: AlertSink, alert: AlertNotification): Promise<AlertDeliveryResult> {
+        let lastError = "";
+
+        for (let attempt = 1; attempt <= this.retry.retries + 1; attempt++) {
+            try {
+                await sink.send(alert);
+                return { sink: sink.name, alert, delivered: true, attempts: attempt };
+            } catch (error) {
+                lastError = error instanceof Error ? error.message : String(error);
+                if (attempt <= this.retry.retries) {
+                    const delay = Math.min(this.retry.baseDelayMs * 2 ** (attempt - 1), this.retry.maxDelayMs);
+                    elizaLogger.warn(`Alert delivery to ${sink.name} failed (attempt ${attempt}), retrying in ${delay}ms: ${lastError}`);
+                    await this.sleep(delay);
+                }
+            }
+        }
+
+        elizaLogger.error(`Giving up on alert delivery to ${sink.name}: ${lastError}`);
+        return { sink: sink.name, alert, delivered: false, attempts: this.retry.retries + 1, error: lastError };
+    }
+}
+
+/**
+ * Drops alerts whose key was already emitted within the window. Send times
+ * are kept in the runtime cache under `historyKey`; the window (minutes) comes
+ * from the `windowSetting` setting, where 0 turns throttling off
+ */
+export class AlertThrottle {
+    private store = new RuntimeStore();
+
+    constructor(
+        private historyKey: string,
+        private windowSetting: string,
+        private defaultMinutes: number
+    ) {}
+
+    async filter<T>(runtime: IAgentRuntime, alerts: T[], keyOf: (alert: T) => string, now = Date.now()): Promise<T[]> {
+        const setting = runtime.getSetting(this.windowSetting);
+        // 0 is a valid setting (no throttling), so don't fall back on falsy
+        const minutes = setting !== undefined && setting !== null && setting !== "" && Number(setting) >= 0
+            ? Number(setting)
+            : this.defaultMinutes;
+        const windowMs = minutes * 60 * 1000;
+
+        const sentAt = (await this.store.get<Record<string, number>>(runtime, this.historyKey)) || {};
+        const emitted = alerts.filter(alert => {
+            const key = keyOf(alert);
+            return sentAt[key] === undefined || now - sentAt[key] >= windowMs;
+        });
+
+        for (const alert of emitted) sentAt[keyOf(alert)] = now;
+        for (const [key, timestamp] of Object.entries(sentAt)) {
+            if (now - timestamp >= windowMs) delete sentAt[key];
+        }
+        await this.store.set(runtime, this.historyKey, sentAt);
+
+        return emitted;
+    }
+}
+
+/**
+ * Sinks configured through ALERT_* settings; a sink is enabled when its
+ * destination is set
+ */
+export function createAlertSinksFromSettings(runtime: IAgentRuntime): AlertSink[] {
+    const setting = (key: string): string | undefined => {
+        const value = runtime.getSetting(key);
+        return value === undefined || value === null || value === "" ? undefined : String(value);
+    };
+    const sinks: AlertSink[] = [];
+
+    const webhookUrl = setting("ALERT_WEBHOOK_URL");
+    if (webhookUrl) {
+        sinks.push(new WebhookAlertSink(webhookUrl, parseSeverity(setting("ALERT_WEBHOOK_MIN_SEVERITY"), "info")));
+    }
+
+    const discordUrl = setting("ALERT_DISCORD_WEBHOOK_URL");
+    if (discordUrl) {
+        sinks.push(new DiscordAlertSink(discordUrl, parseSeverity(setting("ALERT_DISCORD_MIN_SEVERITY"), "warning")));
+    }
+
+    const botToken = setting("ALERT_TELEGRAM_BOT_TOKEN");
+    const chatId = setting("ALERT_TELEGRAM_CHAT_ID");
+    if (botToken && chatId) {
+        sinks.push(new TelegramAlertSink(botToken, chatId, parseSeverity(setting("ALERT_TELEGRAM_MIN_SEVERITY"), "warning")));
+    }
+
+    const smtpHost = setting("ALERT_SMTP_HOST");
+    const smtpTo = setting("ALERT_SMTP_TO");
+    if (smtpHost && smtpTo) {
+        const secure = setting("ALERT_SMTP_SECURE") === "true";
+        sinks.push(new SmtpAlertSink({
+            host: smtpHost,
+            port: Number(setting("ALERT_SMTP_PORT")) || (secure ? 465 : 587),
+            secure,
+            user: setting("ALERT_SMTP_USER"),
+            pass: setting("ALERT_SMTP_PASS"),
+            from: setting("ALERT_SMTP_FROM") || setting("ALERT_SMTP_USER") || `yield-delta@${os.hostname()}`,
+            to: smtpTo.split(",").map(address => address.trim()).filter(Boolean)
+        }, parseSeverity(setting("ALERT_SMTP_MIN_SEVERITY"), "critical")));
+    }
+
+    return sinks;
+}
+
+export function createAlertDispatcher(runtime: IAgentRuntime): AlertDispatcher {
+    return new AlertDispatcher(createAlertSinksFromSettings(runtime), {
+        retries: Number(runtime.getSetting("ALERT_RETRIES") ?? DEFAULT_RETRY_OPTIONS.retries) || 0,
+        baseDelayMs: Number(runtime.getSetting("ALERT_RETRY_BASE_DELAY_MS")) || DEFAULT_RETRY_OPTIONS.baseDelayMs,
+        maxDelayMs: DEFAULT_RETRY_OPTIONS.maxDelayMs
+    });
+}
+
+function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+    const payload = JSON.stringify(body);
+    const target = new URL(url);
+    const transport = target.protocol === "https:" ? https : http;
+
+    return new Promise((resolve, reject) => {
+        const request = transport.request(target, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                "Content-Length": Buffer.byteLength(payload),
+                ...headers
+            },
+            timeout: HTTP_TIMEOUT_MS
+        }, response => {
+            let detail = "";
+            response.setEncoding("utf8");
+            response.on("data", chunk => { detail += chunk; });
+            response.on("end", () => {
+                const status = response.statusCode || 0;
+                if (status >= 200 && status < 300) resolve();
+                else reject(new Error(`HTTP ${status}${detail ? `: ${detail.slice(0, 200)}` : ""}`));
+            });
+        });
+
+        request.on("timeout", () => request.destroy(new Error(`Request timed out after ${HTTP_TIMEOUT_MS}ms`)));
+        request.on("error", reject);
+        request.end(payload);
+    });
+}
+
+function escapeMarkdownV2(text: string): string {
+    return text.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, "\\$&");
+}
+
+// ---------------------------------------------------------------------------
+// Minimal SMTP client (EHLO, STARTTLS, AUTH PLAIN, one plain-text message)
+// ---------------------------------------------------------------------------
+
+interface SmtpReply {
+    code: number;
+    lines: string[];
+}
+
+class SmtpConnection {
+    private buffer = "";
+    private lines: string[] = [];
+    private waiter: (() => void) | null = null;
+    private error: Error | null = null;
+
+    constructor(private socket: net.Socket, private timeoutMs: number) {
+        this.attach(socket);
+    }
+
+    async command(line: string | null, expected: number[], label = line?.split(" ")[0] || "greeting"): Promise<SmtpReply> {
+        if (line !== null) this.socket.write(`${line}\r\n`);
+        const reply = await this.reply();
+        if (!expected.includes(reply.code)) {
+            // Label only, so credentials in AUTH never reach the logs
+            throw new Error(`SMTP ${label} rejected: ${reply.code} ${reply.lines.join(" ")}`);
+        }
+        return reply;
+    }
+
+    async upgrade(host: string): Promise<void> {
+        this.detach(this.socket);
+        const secured = tls.connect({ socket: this.socket, servername: host });
+        await new Promise<void>((resolve, reject) => {
+            secured.once("secureConnect", resolve);
+            secured.once("error", reject);
+        });
+        this.socket = secured;
+        this.attach(secured);
+    }
+
+    close(): void {
+        this.socket.end();
+    }
+
+    private async reply(): Promise<SmtpReply> {
+        const lines: string[] = [];
+        for (;;) {
+            while (this.lines.length === 0) {
+                if (this.error) throw this.error;
+                await new Promise<void>(resolve => { this.waiter = resolve; });
+            }
+            const line = this.lines.shift()!;
+            lines.push(line.slice(4));
+            if (line[3] !== "-") return { code: parseInt(line.slice(0, 3), 10), lines };
+        }
+    }
+
+    private attach(socket: net.Socket): void {
+        socket.setEncoding("utf8");
+        socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error("SMTP connection timed out")));
+        socket.on("data", this.onData);
+        socket.on("error", this.onError);
+        socket.on("close", this.onClose);
+    }
+
+    private detach(socket: net.Socket): void {
+        socket.setTimeout(0);
+        socket.off("data", this.onData);
+        socket.off("error", this.onError);
+        socket.off("close", this.onClose);
+    }
+
+    private onData = (chunk: string): void => {
+        this.buffer += chunk;
+        let index: number;
+        while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+            this.lines.push(this.buffer.slice(0, index));
+            this.buffer = this.buffer.slice(index + 2);
+        }
+        this.notify();
+    };
+
+    private onError = (error: Error): void => {
+        this.error = error;
+        this.notify();
+    };
+
+    private onClose = (): void => {
+        this.error = this.error || new Error("SMTP connection closed");
+        this.notify();
+    };
+
+    private notify(): void {
+        const waiter = this.waiter;
+        this.waiter = null;
+        waiter?.();
+    }
+}
+
+async function sendMail(options: SmtpOptions, subject: string, text: string): Promise<void> {
+    const timeoutMs = options.timeoutMs || HTTP_TIMEOUT_MS * 3;
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+        const onConnect = () => {
+            connection.setTimeout(0);
+            resolve(connection);
+        };
+        const connection: net.Socket = options.secure
+            ? tls.connect({ host: options.host, port: options.port, servername: options.host }, onConnect)
+            : net.connect({ host: options.host, port: options.port }, onConnect);
+        connection.setTimeout(timeoutMs, () => connection.destroy(new Error(`SMTP connection to ${options.host}:${options.port} timed out after ${timeoutMs}ms`)));
+        connection.once("error", reject);
+    });
+
+    const smtp = new SmtpConnection(socket, timeoutMs);
+    try {
+        await smtp.command(null, [220]);
+        let ehlo = await smtp.command(`EHLO ${os.hostname()}`, [250]);
+        let encrypted = options.secure;
+
+        if (!options.secure && ehlo.lines.some(line => line.toUpperCase().startsWith("STARTTLS"))) {
+            await smtp.command("STARTTLS", [220]);
+            await smtp.upgrade(options.host);
+            ehlo = await smtp.command(`EHLO ${os.hostname()}`, [250]);
+            encrypted = true;
+        }
+
+        if (options.user) {
+            // AUTH PLAIN is only base64, so never send it over a cleartext connection
+            if (!encrypted) {
+                throw new Error(`SMTP server ${options.host} doesn't offer STARTTLS; refusing to send credentials without TLS (set ALERT_SMTP_SECURE=true for implicit TLS)`);
+            }
+            const credentials = Buffer.from(`\0${options.user}\0${options.pass || ""}`).toString("base64");
+            await smtp.command(`AUTH PLAIN ${credentials}`, [235], "AUTH");
+        }
+
+        await smtp.command(`MAIL FROM:<${options.from}>`, [250]);
+        for (const recipient of options.to) {
+            await smtp.command(`RCPT TO:<${recipient}>`, [250, 251]);
+        }
+        await smtp.command("DATA", [354]);
+
+        const headers = [
+            `From: ${options.from}`,
+            `To: ${options.to.join(", ")}`,
+            `Subject: =?UTF-8?B?${Buffer.from(subject).toString("base64")}?=`,
+            `Date: ${new Date().toUTCString()}`,
+            "MIME-Version: 1.0",
+            "Content-Type: text/plain; charset=utf-8",
+            "Content-Transfer-Encoding: 8bit"
+        ];
+        // Dot-stuff lines that start with "." so they aren't read as the terminator
+        const body = text.split(/\r?\n/).map(line => (line.startsWith(".") ? `.${line}` : line));
+        await smtp.command(`${[...headers, "", ...body].join("\r\n")}\r\n.`, [250], "message");
+
+        await smtp.command("QUIT", [221]).catch(() => undefined);
+    } finally {
+        smtp.close();
+    }
+}
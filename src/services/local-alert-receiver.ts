@@ -0,0 +1,75 @@
+import * as http from "http";
+import type { AddressInfo } from "net";
+
+/**
+ * Local HTTP stand-in for alert destinations.
+ *
+ * Records every request it receives so tests (or a developer running the
+ * agent locally) can point webhook, Discord and Telegram sinks at it instead
+ * of the real services. Queued status codes simulate failures for retry
+ * testing; once the queue is empty every request gets a 200.
+ */
+
+export interface ReceivedAlertRequest {
+    method: string;
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body: unknown; // Parsed JSON, or the raw text when it isn't JSON
+}
+
+export class LocalAlertReceiver {
+    readonly requests: ReceivedAlertRequest[] = [];
+    private server: http.Server | null = null;
+    private statuses: number[] = [];
+
+    /**
+     * Start listening on 127.0.0.1 and return the base URL
+     */
+    async start(port = 0): Promise<string> {
+        this.server = http.createServer((req, res) => {
+            let raw = "";
+            req.setEncoding("utf8");
+            req.on("data", chunk => { raw += chunk; });
+            req.on("end", () => {
+                let body: unknown = raw;
+                try {
+                    body = raw ? JSON.parse(raw) : null;
+                } catch {
+                    // Keep the raw text
+                }
+                this.requests.push({ method: req.method || "GET", path: req.url || "/", headers: req.headers, body });
+
+                const status = this.statuses.shift() ?? 200;
+                res.writeHead(status, { "Content-Type": "application/json" });
+                res.end(JSON.stringify({ ok: status < 400 }));
+            });
+        });
+
+        await new Promise<void>(resolve => this.server!.listen(port, "127.0.0.1", resolve));
+        return this.url;
+    }
+
+    get url(): string {
+        if (!this.server) throw new Error("LocalAlertReceiver is not running");
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    /**
+     * Answer the next requests with these status codes, in order
+     */
+    respondWith(...statuses: number[]): void {
+        this.statuses.push(...statuses);
+    }
+
+    clear(): void {
+        this.requests.length = 0;
+        this.statuses = [];
+    }
+
+    async stop(): Promise<void> {
+        if (!this.server) return;
+        const server = this.server;
+        this.server = null;
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+}
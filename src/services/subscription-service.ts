@@ -0,0 +1,72 @@
+import { type IAgentRuntime, Service, elizaLogger } from "@elizaos/core";
+
+import { subscriptionEngine, type SubscriptionNotification } from "../providers/subscriptions";
+
+/**
+ * Evaluates user alert subscriptions on a fixed interval. Notifications are
+ * sent by the SubscriptionEngine to the room each rule was created in.
+ */
+
+export const DEFAULT_SUBSCRIPTION_INTERVAL_MINUTES = 5;
+
+export class SubscriptionService extends Service {
+    static serviceType = "vault-subscriptions";
+    capabilityDescription = "Checks user alert subscriptions periodically and notifies users in the originating room";
+
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private running = false;
+
+    constructor(runtime?: IAgentRuntime) {
+        super(runtime);
+    }
+
+    static async start(runtime: IAgentRuntime): Promise<SubscriptionService> {
+        const service = new SubscriptionService(runtime);
+        service.schedule();
+        return service;
+    }
+
+    static async stop(runtime: IAgentRuntime): Promise<void> {
+        const service = runtime.getService<SubscriptionService>(SubscriptionService.serviceType);
+        if (service) await service.stop();
+    }
+
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Evaluate all rules once. Overlapping runs are skipped.
+     */
+    async runOnce(): Promise<SubscriptionNotification[]> {
+        if (this.running) return [];
+        this.running = true;
+
+        try {
+            const notifications = await subscriptionEngine.evaluate(this.runtime);
+            if (notifications.length > 0) {
+                elizaLogger.info(`Sent ${notifications.length} subscription alert(s)`);
+            }
+            return notifications;
+        } catch (error) {
+            elizaLogger.error(`Subscription evaluation failed: ${error instanceof Error ? error.message : String(error)}`);
+            return [];
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private schedule(): void {
+        const minutes = Number(this.runtime.getSetting("SUBSCRIPTION_CHECK_INTERVAL_MINUTES")) || DEFAULT_SUBSCRIPTION_INTERVAL_MINUTES;
+        elizaLogger.info(`Checking alert subscriptions every ${minutes} minute(s)`);
+
+        this.timer = setInterval(() => {
+            void this.runOnce();
+        }, minutes * 60 * 1000);
+        // Don't keep the process alive just for subscriptions
+        this.timer.unref?.();
+    }
+}
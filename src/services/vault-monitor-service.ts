@@ -0,0 +1,277 @@
+import { type IAgentRuntime, Service, elizaLogger } from "@elizaos/core";
+
+import { RuntimeStore } from "../providers/runtime-store";
+import { vaultProvider } from "../providers/vault-provider";
+import { vaultMetricsStore } from "../providers/vault-metrics-store";
+import { runVaultHealthCheck, type MonitoringReport } from "../evaluators/vault-monitor";
+import { AlertThrottle, createAlertDispatcher, type AlertNotification, type AlertSeverity } from "./alert-sinks";
+
+/**
+ * Scheduled vault health monitoring.
+ *
+ * Runs the same checks as the VAULT_MONITOR evaluator on a fixed interval,
+ * persists the last report, and diffs each new report against it. Alerts are
+ * only emitted when a vault's status changes or a new alert/anomaly appears,
+ * and the same alert is not repeated within the throttle window. Emitted
+ * alerts go to the ALERT_* sinks configured in settings (see alert-sinks).
+ *
+ * It also records a metrics snapshot for every registered vault each
+ * VAULT_METRICS_SNAPSHOT_INTERVAL, so the snapshot store fills up whether or
+ * not anything reads the vaults. That runs even with health checks disabled.
+ */
+
+export type MonitorAlertKind = "status_change" | "new_alert" | "new_anomaly";
+export type MonitorAlertSeverity = AlertSeverity;
+
+export interface MonitorAlert {
+    key: string; // Stable identity used for throttling
+    vaultName: string;
+    kind: MonitorAlertKind;
+    severity: MonitorAlertSeverity;
+    message: string;
+    timestamp: number; // ms
+}
+
+export type MonitorAlertListener = (alerts: MonitorAlert[], report: MonitoringReport) => void | Promise<void>;
+
+export const DEFAULT_MONITOR_INTERVAL_MINUTES = 15;
+export const DEFAULT_ALERT_THROTTLE_MINUTES = 60;
+
+const LAST_REPORT_KEY = "vault-monitor:last-report";
+const ALERT_HISTORY_KEY = "vault-monitor:alert-history";
+
+/**
+ * Alerts for everything in `current` that wasn't in `previous`
+ */
+export function diffReports(previous: MonitoringReport | null, current: MonitoringReport): MonitorAlert[] {
+    const alerts: MonitorAlert[] = [];
+    const previousVaults = new Map((previous?.vaults || []).map(v => [v.vaultName, v]));
+
+    for (const vault of current.vaults) {
+        const before = previousVaults.get(vault.vaultName);
+
+        // A vault seen for the first time only alerts if it isn't healthy
+        const statusBefore = before ? before.status : "healthy";
+        if (vault.status !== statusBefore) {
+            alerts.push({
+                key: `${vault.vaultName}|status|${vault.status}`,
+                vaultName: vault.vaultName,
+                kind: "status_change",
+                severity: vault.status === "healthy" ? "info" : vault.status,
+                message: vault.status === "healthy"
+                    ? `${vault.vaultName} recovered (was ${statusBefore})`
+                    : `${vault.vaultName} is now ${vault.status.toUpperCase()} (was ${statusBefore})`,
+                timestamp: current.timestamp
+            });
+        }
+
+        const alertsBefore = new Set((before?.alerts || []).map(alertKey));
+        for (const alert of vault.alerts) {
+            const key = alertKey(alert);
+            if (alertsBefore.has(key)) continue;
+            alerts.push({
+                key: `${vault.vaultName}|alert|${key}`,
+                vaultName: vault.vaultName,
+                kind: "new_alert",
+                severity: vault.status === "healthy" ? "info" : vault.status,
+                message: `${vault.vaultName}: ${alert}`,
+                timestamp: current.timestamp
+            });
+        }
+
+        const anomaliesBefore = new Set((before?.anomalies || []).map(a => `${a.metric}|${a.severity}`));
+        for (const anomaly of vault.anomalies || []) {
+            const key = `${anomaly.metric}|${anomaly.severity}`;
+            if (anomaliesBefore.has(key)) continue;
+            alerts.push({
+                key: `${vault.vaultName}|anomaly|${key}`,
+                vaultName: vault.vaultName,
+                kind: "new_anomaly",
+                severity: anomaly.severity,
+                message: `${vault.vaultName}: ${anomaly.message}`,
+                timestamp: current.timestamp
+            });
+        }
+    }
+
+    return alerts;
+}
+
+export function toAlertNotification(alert: MonitorAlert): AlertNotification {
+    const titles: Record<MonitorAlertKind, string> = {
+        status_change: "Vault status changed",
+        new_alert: "Vault health alert",
+        new_anomaly: "Vault anomaly detected"
+    };
+
+    return {
+        source: "vault-monitor",
+        severity: alert.severity,
+        title: `${titles[alert.kind]}: ${alert.vaultName}`,
+        message: alert.message,
+        timestamp: alert.timestamp,
+        fields: { vault: alert.vaultName }
+    };
+}
+
+/**
+ * Alerts carry live numbers ("Low TVL: $812.40"), so they are compared with
+ * the numbers masked out
+ */
+function alertKey(alert: string): string {
+    return alert.replace(/[-+]?\$?\d[\d,]*(\.\d+)?%?/g, "#");
+}
+
+export class VaultMonitorService extends Service {
+    static serviceType = "vault-monitor";
+    capabilityDescription = "Runs scheduled vault health checks and emits alerts when vault status changes";
+
+    private store = new RuntimeStore();
+    private alertThrottle = new AlertThrottle(ALERT_HISTORY_KEY, "VAULT_MONITOR_ALERT_THROTTLE_MINUTES", DEFAULT_ALERT_THROTTLE_MINUTES);
+    private listeners: MonitorAlertListener[] = [];
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private snapshotTimer: ReturnType<typeof setInterval> | null = null;
+    private running = false;
+
+    constructor(runtime?: IAgentRuntime) {
+        super(runtime);
+    }
+
+    static async start(runtime: IAgentRuntime): Promise<VaultMonitorService> {
+        const service = new VaultMonitorService(runtime);
+        service.scheduleSnapshots();
+
+        if (runtime.getSetting("VAULT_MONITOR_ENABLED") === "false") {
+            elizaLogger.info("Scheduled vault monitoring disabled (VAULT_MONITOR_ENABLED=false)");
+            return service;
+        }
+
+        const dispatcher = createAlertDispatcher(runtime);
+        if (dispatcher.getSinks().length > 0) {
+            elizaLogger.info(`Vault monitor alerts will be sent to: ${dispatcher.getSinks().map(sink => sink.name).join(", ")}`);
+            service.onAlert(async alerts => {
+                await dispatcher.dispatch(alerts.map(toAlertNotification));
+            });
+        }
+
+        service.schedule();
+        return service;
+    }
+
+    static async stop(runtime: IAgentRuntime): Promise<void> {
+        const service = runtime.getService<VaultMonitorService>(VaultMonitorService.serviceType);
+        if (service) await service.stop();
+    }
+
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        if (this.snapshotTimer) {
+            clearInterval(this.snapshotTimer);
+            this.snapshotTimer = null;
+        }
+    }
+
+    /**
+     * Subscribe to emitted alerts; returns an unsubscribe function
+     */
+    onAlert(listener: MonitorAlertListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    async getLastReport(): Promise<MonitoringReport | null> {
+        return (await this.store.get<MonitoringReport>(this.runtime, LAST_REPORT_KEY)) || null;
+    }
+
+    /**
+     * Run one health check, persist it and emit the alerts that survive the
+     * throttle. Overlapping runs are skipped.
+     */
+    async runOnce(): Promise<MonitorAlert[]> {
+        if (this.running) {
+            elizaLogger.warn("Previous vault health check still running, skipping this tick");
+            return [];
+        }
+        this.running = true;
+
+        try {
+            const report = await runVaultHealthCheck(this.runtime, { recordBaseline: true });
+            if (!report) return [];
+
+            const previous = await this.getLastReport();
+            const alerts = await this.alertThrottle.filter(this.runtime, diffReports(previous, report), alert => alert.key, report.timestamp);
+            await this.store.set(this.runtime, LAST_REPORT_KEY, report);
+
+            if (alerts.length > 0) {
+                elizaLogger.info(`Vault monitor emitting ${alerts.length} alert(s)`);
+                for (const listener of this.listeners) {
+                    try {
+                        await listener(alerts, report);
+                    } catch (error) {
+                        elizaLogger.error(`Vault monitor alert listener failed: ${error instanceof Error ? error.message : String(error)}`);
+                    }
+                }
+            }
+
+            return alerts;
+        } catch (error) {
+            elizaLogger.error(`Scheduled vault health check failed: ${error instanceof Error ? error.message : String(error)}`);
+            return [];
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Record a metrics snapshot for every registered vault. Vaults that fail
+     * to read are skipped. Returns the number of snapshots written.
+     */
+    async recordSnapshots(): Promise<number> {
+        let recorded = 0;
+        try {
+            const vaults = (await vaultProvider.getRegisteredVaults(this.runtime)).filter(vault => vault.info);
+            for (const vault of vaults) {
+                try {
+                    const metrics = await vaultProvider.getVaultMetrics(this.runtime, vault.address);
+                    if (await vaultMetricsStore.record(this.runtime, vault.address, metrics)) recorded++;
+                } catch (error) {
+                    elizaLogger.warn(`Failed to record metrics snapshot for ${vault.name}: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
+        } catch (error) {
+            elizaLogger.error(`Vault metrics snapshot run failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        return recorded;
+    }
+
+    private scheduleSnapshots(): void {
+        const seconds = vaultMetricsStore.getSnapshotInterval(this.runtime);
+        elizaLogger.info(`Recording vault metric snapshots every ${seconds} second(s)`);
+
+        this.snapshotTimer = setInterval(() => {
+            void this.recordSnapshots();
+        }, seconds * 1000);
+        this.snapshotTimer.unref?.();
+
+        void this.recordSnapshots();
+    }
+
+    private schedule(): void {
+        const minutes = Number(this.runtime.getSetting("VAULT_MONITOR_INTERVAL_MINUTES")) || DEFAULT_MONITOR_INTERVAL_MINUTES;
+        elizaLogger.info(`Scheduling vault health checks every ${minutes} minute(s)`);
+
+        this.timer = setInterval(() => {
+            void this.runOnce();
+        }, minutes * 60 * 1000);
+        // Don't keep the process alive just for monitoring
+        this.timer.unref?.();
+
+        void this.runOnce();
+    }
+
+}
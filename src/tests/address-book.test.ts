@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getAddress } from 'viem';
+import { createMockRuntime, createMockMemory } from './test-helpers';
+
+// Valid bech32 encodings of 0x1111… and 0x2222…
+const SEI_ALICE = 'sei1zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3v3x55w';
+const SEI_BOB = 'sei1yg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zrvrjue';
+const ALICE = getAddress('0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa');
+const BOB = getAddress('0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb');
+
+const mockReadContract = vi.fn();
+const mockPortfolio = vi.fn();
+vi.mock('../providers/vault-provider', () => ({
+  vaultProvider: {
+    initialize: vi.fn().mockResolvedValue(undefined),
+    getPublicClient: () => ({ readContract: (...args: unknown[]) => mockReadContract(...args) }),
+    getCustomerPortfolio: (...args: unknown[]) => mockPortfolio(...args)
+  }
+}));
+
+import { AddressBookStore, addressBook } from '../providers/address-book';
+import { addressResolver } from '../providers/address-resolver';
+import { manageAddressBookAction } from '../actions/address-book';
+import { portfolioQueryAction } from '../actions/portfolio-query';
+import { transferAction } from '../actions/transfer';
+
+describe('Address book', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    addressResolver.clearCache();
+  });
+
+  it('stores contacts per user and resolves names or written addresses', async () => {
+    const runtime = createMockRuntime() as any;
+    const store = new AddressBookStore();
+
+    await store.save(runtime, 'user-1' as any, 'Alice', { address: ALICE.toLowerCase() as any });
+    await store.save(runtime, 'user-1' as any, 'alice work', { address: BOB, seiAddress: SEI_BOB.toUpperCase() });
+    expect(await store.save(runtime, 'user-1' as any, 'my', { address: ALICE })).toBeNull();
+    expect(await store.list(runtime, 'user-2' as any)).toEqual([]);
+
+    expect(await store.resolveAddress(runtime, 'user-1' as any, 'portfolio of alice work')).toMatchObject({ address: BOB, seiAddress: SEI_BOB, contact: 'alice work' });
+    expect(await store.resolveAddress(runtime, 'user-1' as any, `send 1 SEI from alice to ${BOB}`)).toEqual({ input: BOB, address: BOB });
+    expect(await store.resolveAddress(runtime, 'user-1' as any, 'send 1 SEI to malice')).toBeNull();
+
+    await store.save(runtime, 'user-1' as any, 'alice', { address: BOB });
+    expect((await store.get(runtime, 'user-1' as any, 'ALICE'))!.address).toBe(BOB);
+    await store.remove(runtime, 'user-1' as any, 'alice');
+    expect((await store.list(runtime, 'user-1' as any)).map(c => c.name)).toEqual(['alice work']);
+  });
+
+  it('saves dual sei1/0x contacts from chat and rejects mismatched or bad addresses', async () => {
+    const runtime = createMockRuntime() as any;
+    const callback = vi.fn();
+    const user = createMockMemory('setup') as any;
+    const say = async (text: string) => {
+      const message = createMockMemory(text, user.entityId) as any;
+      expect(await manageAddressBookAction.validate(runtime, message)).toBe(true);
+      await manageAddressBookAction.handler(runtime, message, undefined, {}, callback);
+      return callback.mock.calls[callback.mock.calls.length - 1][0];
+    };
+    mockReadContract.mockImplementation(async ({ args }: { args: string[] }) => args[0] === SEI_ALICE ? ALICE : BOB);
+
+    expect((await say(`Add treasury ${SEI_ALICE} ${ALICE.toLowerCase()} to my address book`)).content.contact)
+      .toMatchObject({ name: 'treasury', address: ALICE, seiAddress: SEI_ALICE });
+    expect((await say(`Save ${BOB} as bob`)).text).toContain('✅ Saved 📇 bob');
+
+    const mismatch = await say(`Add carol ${SEI_BOB} ${ALICE} to contacts`);
+    expect(mismatch.text).toContain(`${SEI_BOB} is linked to ${BOB}, not ${ALICE}`);
+
+    const badChecksum = ALICE.slice(0, -1) + (ALICE.endsWith('A') ? 'a' : 'A');
+    expect((await say(`Save ${badChecksum} as carol`)).content.errorCode).toBe('invalid');
+
+    expect((await say('list my contacts')).text).toContain(`• bob: ${BOB.slice(0, 6)}...${BOB.slice(-4)}`);
+    expect((await say('remove bob from my address book')).text).toBe('🗑️ Removed bob from your address book.');
+    expect((await addressBook.list(runtime, user.entityId)).map(c => c.name)).toEqual(['treasury']);
+
+    // Using a contact belongs to the transfer and portfolio actions
+    expect(await manageAddressBookAction.validate(runtime, createMockMemory('send 5 SEI to my contact treasury', user.entityId) as any)).toBe(false);
+    await addressBook.remove(runtime, user.entityId, 'treasury');
+  });
+
+  it('uses contacts for portfolio queries and transfers', async () => {
+    const runtime = createMockRuntime() as any;
+    const callback = vi.fn();
+    const user = createMockMemory('setup') as any;
+    await addressBook.save(runtime, user.entityId, 'alice', { address: ALICE, seiAddress: SEI_ALICE });
+    mockPortfolio.mockResolvedValue([]);
+
+    const query = createMockMemory('show portfolio of alice', user.entityId) as any;
+    expect(await portfolioQueryAction.validate(runtime, query)).toBe(true);
+    await portfolioQueryAction.handler(runtime, query, undefined, {}, callback);
+
+    expect(mockPortfolio).toHaveBeenCalledWith(runtime, ALICE);
+    expect(callback.mock.calls[0][0].text).toBe(`Address alice (${SEI_ALICE}) doesn't have any positions in Yield Delta vaults.`);
+    expect(callback.mock.calls[0][0].content.contact).toBe('alice');
+
+    expect(await transferAction.validate(runtime, createMockMemory('send 5 SEI to alice', user.entityId) as any)).toBe(true);
+    expect(await transferAction.validate(runtime, createMockMemory('send 5 SEI to bob', user.entityId) as any)).toBe(false);
+    // The recipient is the "to" after the amount, not an earlier "want to"
+    expect(await transferAction.validate(runtime, createMockMemory('I want to send 5 SEI to alice', user.entityId) as any)).toBe(true);
+    expect(await transferAction.validate(runtime, createMockMemory('I want to send 5 SEI to bob', user.entityId) as any)).toBe(false);
+
+    // Only the recipient slot may name a contact: alice is mentioned, but carol is the recipient
+    const misdirected = createMockMemory("Send 5 SEI to carol, alice's friend", user.entityId) as any;
+    expect(await transferAction.validate(runtime, misdirected)).toBe(false);
+    const transferCallback = vi.fn();
+    await transferAction.handler(runtime, misdirected, undefined, {}, transferCallback);
+    expect(transferCallback.mock.calls[0][0].text).toContain(`"carol" isn't in your address book`);
+    expect(await manageAddressBookAction.validate(runtime, createMockMemory('send 5 SEI to alice', user.entityId) as any)).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getAddress } from 'viem';
+import { createMockRuntime, createMockMemory } from './test-helpers';
+
+const VAULT_A = '0x1111111111111111111111111111111111111111' as const;
+const VAULT_B = '0x2222222222222222222222222222222222222222' as const;
+const ALICE = getAddress('0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa');
+const BOB = getAddress('0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb');
+const CAROL = getAddress('0xcccccccccccccccccccccccccccccccccccccccc');
+
+const mockPortfolio = vi.fn();
+vi.mock('../providers/vault-provider', async () => {
+  const { aggregatePortfolios } = await vi.importActual<typeof import('../providers/address-groups')>('../providers/address-groups');
+  return {
+    vaultProvider: {
+      getCustomerPortfolio: (...args: unknown[]) => mockPortfolio(...args),
+      getAggregatedPortfolio: async (_runtime: unknown, addresses: any[]) =>
+        aggregatePortfolios(await Promise.all(addresses.map(async address => {
+          try {
+            return { address, positions: await mockPortfolio(_runtime, address) };
+          } catch (error) {
+            return { address, positions: [], error: String(error) };
+          }
+        })))
+    }
+  };
+});
+
+vi.mock('../providers/vault-event-indexer', () => ({
+  vaultEventIndexer: { getLedger: vi.fn(), getGroupLedger: vi.fn().mockResolvedValue([]) }
+}));
+
+import { aggregatePortfolios, toCombinedPositions, AddressGroupStore, addressGroups } from '../providers/address-groups';
+import { manageAddressGroupsAction } from '../actions/address-groups';
+import { portfolioQueryAction } from '../actions/portfolio-query';
+
+function position(vaultAddress: `0x${string}`, shareValue: number, gains: number, canWithdraw = true) {
+  return {
+    vaultAddress,
+    vaultName: vaultAddress === VAULT_A ? 'USDC Vault' : 'Delta Neutral Vault',
+    shareBalance: shareValue,
+    shareValue,
+    totalDeposited: shareValue - gains,
+    totalWithdrawn: 0,
+    unrealizedGains: gains,
+    depositTimestamp: 1000,
+    lockTimeRemaining: canWithdraw ? 0 : 86400,
+    canWithdraw,
+    valueUnit: 'asset' as const
+  };
+}
+
+describe('Address groups', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('aggregates totals, per-vault breakdown and per-address contribution', () => {
+    const aggregated = aggregatePortfolios([
+      { address: ALICE as any, positions: [position(VAULT_A, 5000, 80), position(VAULT_B, 4600, 230, false)] },
+      { address: BOB as any, positions: [position(VAULT_A, 3000, 80)] },
+      { address: CAROL as any, positions: [], error: 'RPC down' }
+    ]);
+
+    expect(aggregated.totalValue).toBe(12600);
+    expect(aggregated.totalGains).toBe(390);
+    expect(aggregated.positionCount).toBe(3);
+    expect(aggregated.byVault.map(v => [v.vaultAddress, v.shareValue, v.holders.length, v.withdrawableValue])).toEqual([
+      [VAULT_A, 8000, 2, 8000],
+      [VAULT_B, 4600, 1, 0]
+    ]);
+    expect(aggregated.byAddress.map(a => [a.totalValue, a.error])).toEqual([[9600, undefined], [3000, undefined], [0, 'RPC down']]);
+
+    const combined = toCombinedPositions(aggregated);
+    expect(combined.find(p => p.vaultAddress === VAULT_B)).toMatchObject({ canWithdraw: false, lockTimeRemaining: 86400 });
+  });
+
+  it('stores groups per user and deletes groups left empty', async () => {
+    const runtime = createMockRuntime() as any;
+    const store = new AddressGroupStore();
+
+    await store.addAddresses(runtime, 'user-1' as any, 'Treasury', [ALICE, BOB, BOB.toLowerCase() as any]);
+    expect((await store.get(runtime, 'user-1' as any, 'treasury'))!.addresses).toEqual([ALICE, BOB]);
+    expect(await store.list(runtime, 'user-2' as any)).toEqual([]);
+    expect(await store.resolve(runtime, 'user-1' as any, 'show the treasury portfolio')).toMatchObject({ name: 'treasury' });
+    expect(await store.resolve(runtime, 'user-1' as any, 'show the treasury-2 portfolio')).toBeNull();
+    expect(await store.addAddresses(runtime, 'user-1' as any, 'my', [ALICE])).toBeNull();
+
+    await store.removeAddresses(runtime, 'user-1' as any, 'treasury', [ALICE, BOB]);
+    expect(await store.list(runtime, 'user-1' as any)).toEqual([]);
+  });
+
+  it('creates, extends and lists groups from chat', async () => {
+    const runtime = createMockRuntime() as any;
+    const callback = vi.fn();
+    const user = createMockMemory('setup') as any;
+    const say = async (text: string) => {
+      const message = createMockMemory(text, user.entityId) as any;
+      expect(await manageAddressGroupsAction.validate(runtime, message)).toBe(true);
+      await manageAddressGroupsAction.handler(runtime, message, undefined, {}, callback);
+      return callback.mock.calls[callback.mock.calls.length - 1][0];
+    };
+
+    expect((await say(`Create group treasury with ${ALICE} and ${BOB}`)).content.group.addresses).toEqual([ALICE, BOB]);
+    expect((await say(`add ${CAROL} to the treasury group`)).text).toContain('Added 1 address to "treasury"');
+    expect((await say(`remove ${BOB} from treasury`)).content.group.addresses).toEqual([ALICE, CAROL]);
+    expect((await say('list my address groups')).text).toContain('• treasury (2 addresses)');
+
+    expect(await manageAddressGroupsAction.validate(runtime, createMockMemory('show portfolio for my treasury group') as any)).toBe(false);
+    await addressGroups.delete(runtime, user.entityId, 'treasury');
+  });
+
+  it('answers portfolio queries for a group with a per-address breakdown', async () => {
+    const runtime = createMockRuntime() as any;
+    const callback = vi.fn();
+    const message = createMockMemory('Show portfolio for household') as any;
+    await addressGroups.addAddresses(runtime, message.entityId, 'household', [ALICE as any, BOB as any]);
+
+    mockPortfolio.mockImplementation(async (_runtime: unknown, address: string) =>
+      address === ALICE ? [position(VAULT_A, 5000, 80), position(VAULT_B, 4600, 230, false)] : [position(VAULT_A, 3000, 80)]
+    );
+
+    expect(await portfolioQueryAction.validate(runtime, createMockMemory('household holdings', message.entityId) as any)).toBe(true);
+    await portfolioQueryAction.handler(runtime, message, undefined, {}, callback);
+
+    const { text, content } = callback.mock.calls[0][0];
+    expect(content.group).toBe('household');
+    expect(content.summary).toEqual({ totalValue: 12600, totalGains: 390, positionCount: 3 });
+    expect(content.portfolios).toHaveLength(2);
+    expect(text).toContain('Total Value: $12,600.00');
+    expect(text).toContain('$9,600.00 (76.2%)');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ContractFunctionRevertedError, getAddress } from 'viem';
+import { createMockRuntime, createMockMemory } from './test-helpers';
+import { ADDRESS_PRECOMPILE_ABI } from '../types/precompiles';
+
+// Valid bech32 encodings of 0x1111… and 0x2222…
+const SEI_ALICE = 'sei1zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3v3x55w';
+const SEI_BOB = 'sei1yg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zrvrjue';
+const EVM_ALICE = getAddress('0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa');
+
+const mockReadContract = vi.fn();
+const mockPortfolio = vi.fn();
+vi.mock('../providers/vault-provider', () => ({
+  vaultProvider: {
+    initialize: vi.fn().mockResolvedValue(undefined),
+    getPublicClient: () => ({ readContract: (...args: unknown[]) => mockReadContract(...args) }),
+    getCustomerPortfolio: (...args: unknown[]) => mockPortfolio(...args)
+  }
+}));
+
+import {
+  AddressResolver,
+  AddressResolutionError,
+  addressResolver,
+  findAddressInputs,
+  isSeiAddress
+} from '../providers/address-resolver';
+import { portfolioQueryAction } from '../actions/portfolio-query';
+
+describe('Address resolver', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    addressResolver.clearCache();
+  });
+
+  it('finds 0x and sei1 addresses and validates bech32 checksums', () => {
+    expect(isSeiAddress(SEI_ALICE)).toBe(true);
+    expect(isSeiAddress(SEI_ALICE.slice(0, -1) + 'q')).toBe(false);
+    expect(findAddressInputs(`send to ${SEI_ALICE.toUpperCase()} or ${EVM_ALICE}, then ${SEI_ALICE}`)).toEqual([SEI_ALICE, EVM_ALICE]);
+  });
+
+  it('checksums 0x addresses and rejects a bad checksum', async () => {
+    const resolver = new AddressResolver();
+    const runtime = createMockRuntime() as any;
+
+    expect(await resolver.resolve(runtime, EVM_ALICE.toLowerCase())).toEqual({ input: EVM_ALICE.toLowerCase(), address: EVM_ALICE });
+    const badChecksum = EVM_ALICE.slice(0, 2) + EVM_ALICE[2].toLowerCase() + EVM_ALICE.slice(3, -1) + 'A';
+    await expect(resolver.resolve(runtime, badChecksum)).rejects.toMatchObject({ code: 'invalid' });
+    expect(mockReadContract).not.toHaveBeenCalled();
+  });
+
+  it('resolves sei1 addresses through the precompile and caches the result', async () => {
+    const resolver = new AddressResolver();
+    const runtime = createMockRuntime() as any;
+    mockReadContract.mockResolvedValue(EVM_ALICE.toLowerCase());
+
+    expect(await resolver.resolve(runtime, SEI_ALICE)).toEqual({ input: SEI_ALICE, address: EVM_ALICE, seiAddress: SEI_ALICE });
+    await resolver.resolve(runtime, SEI_ALICE.toUpperCase());
+
+    expect(mockReadContract).toHaveBeenCalledTimes(1);
+    expect(mockReadContract.mock.calls[0][0]).toMatchObject({ functionName: 'getEvmAddr', args: [SEI_ALICE] });
+  });
+
+  it('caches lookups per chain', async () => {
+    const resolver = new AddressResolver();
+    const EVM_TESTNET_ALICE = getAddress('0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb');
+    const mainnet = { chain: { id: 1329 }, readContract: vi.fn().mockResolvedValue(EVM_ALICE) } as any;
+    const testnet = { chain: { id: 1328 }, readContract: vi.fn().mockResolvedValue(EVM_TESTNET_ALICE) } as any;
+
+    expect((await resolver.resolveWithClient(mainnet, SEI_ALICE)).address).toBe(EVM_ALICE);
+    expect((await resolver.resolveWithClient(testnet, SEI_ALICE)).address).toBe(EVM_TESTNET_ALICE);
+    await resolver.resolveWithClient(mainnet, SEI_ALICE);
+
+    expect(mainnet.readContract).toHaveBeenCalledTimes(1);
+    expect(testnet.readContract).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports unassociated accounts separately from lookup failures', async () => {
+    const resolver = new AddressResolver();
+    const runtime = createMockRuntime() as any;
+
+    mockReadContract.mockRejectedValueOnce(new ContractFunctionRevertedError({ abi: ADDRESS_PRECOMPILE_ABI as any, functionName: 'getEvmAddr', message: 'not associated' }));
+    await expect(resolver.resolve(runtime, SEI_ALICE)).rejects.toMatchObject({ code: 'unassociated' });
+
+    mockReadContract.mockResolvedValueOnce('0x0000000000000000000000000000000000000000');
+    await expect(resolver.resolve(runtime, SEI_ALICE)).rejects.toMatchObject({ code: 'unassociated' });
+
+    mockReadContract.mockRejectedValueOnce(new Error('fetch failed'));
+    const error = await resolver.resolve(runtime, SEI_BOB).catch(e => e);
+    expect(error).toBeInstanceOf(AddressResolutionError);
+    expect(error.code).toBe('lookup_failed');
+  });
+
+  it('queries a portfolio by sei1 address and explains unassociated accounts', async () => {
+    const runtime = createMockRuntime() as any;
+    const callback = vi.fn();
+    mockPortfolio.mockResolvedValue([]);
+    mockReadContract.mockResolvedValueOnce(EVM_ALICE);
+
+    const message = createMockMemory(`Check holdings for ${SEI_ALICE}`) as any;
+    expect(await portfolioQueryAction.validate(runtime, message)).toBe(true);
+    await portfolioQueryAction.handler(runtime, message, undefined, {}, callback);
+
+    expect(mockPortfolio).toHaveBeenCalledWith(runtime, EVM_ALICE);
+    expect(callback.mock.calls[0][0].text).toBe(`Address ${SEI_ALICE} doesn't have any positions in Yield Delta vaults.`);
+
+    mockReadContract.mockResolvedValueOnce('0x0000000000000000000000000000000000000000');
+    await portfolioQueryAction.handler(runtime, createMockMemory(`Check holdings for ${SEI_BOB}`) as any, undefined, {}, callback);
+    expect(callback.mock.calls[1][0].content).toMatchObject({ action: 'PORTFOLIO_QUERY', errorCode: 'unassociated' });
+    expect(callback.mock.calls[1][0].text).toContain("isn't linked to an EVM address yet");
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import * as net from 'net';
+import type { AddressInfo } from 'net';
+import { createMockRuntime, runtimeWith } from './test-helpers';
+import {
+  AlertDispatcher,
+  WebhookAlertSink,
+  DiscordAlertSink,
+  TelegramAlertSink,
+  SmtpAlertSink,
+  createAlertSinksFromSettings,
+  type AlertNotification
+} from '../services/alert-sinks';
+import { LocalAlertReceiver } from '../services/local-alert-receiver';
+import { FundingRateProvider, type FundingRateData } from '../providers/funding-rates';
+
+const FAST_RETRY = { retries: 2, baseDelayMs: 1, maxDelayMs: 5 };
+
+function alert(severity: AlertNotification['severity'], message = 'Share price fell 1.20% in 24h'): AlertNotification {
+  return {
+    source: 'vault-monitor',
+    severity,
+    title: 'Vault status changed: Delta Neutral Vault',
+    message,
+    timestamp: Date.UTC(2025, 0, 1),
+    fields: { vault: 'Delta Neutral Vault' }
+  };
+}
+
+describe('Alert sinks', () => {
+  const receiver = new LocalAlertReceiver();
+  let url: string;
+
+  beforeAll(async () => {
+    url = await receiver.start();
+  });
+
+  afterAll(async () => {
+    await receiver.stop();
+  });
+
+  beforeEach(() => {
+    receiver.clear();
+  });
+
+  it('filters alerts by each sink\'s minimum severity', async () => {
+    const dispatcher = new AlertDispatcher([
+      new WebhookAlertSink(`${url}/all`, 'info'),
+      new WebhookAlertSink(`${url}/critical`, 'critical')
+    ], FAST_RETRY);
+
+    const results = await dispatcher.dispatch([alert('info'), alert('warning'), alert('critical')]);
+
+    expect(results.every(r => r.delivered)).toBe(true);
+    expect(receiver.requests.filter(r => r.path === '/all')).toHaveLength(3);
+    expect(receiver.requests.filter(r => r.path === '/critical').map(r => (r.body as AlertNotification).severity)).toEqual(['critical']);
+  });
+
+  it('retries with backoff and gives up after the configured retries', async () => {
+    const delays: number[] = [];
+    const dispatcher = new AlertDispatcher(
+      [new WebhookAlertSink(url)],
+      { retries: 2, baseDelayMs: 100, maxDelayMs: 150 },
+      async ms => { delays.push(ms); }
+    );
+
+    receiver.respondWith(500, 503);
+    const [recovered] = await dispatcher.dispatch([alert('critical')]);
+    expect(recovered).toMatchObject({ delivered: true, attempts: 3 });
+    expect(delays).toEqual([100, 150]);
+
+    receiver.respondWith(500, 500, 500);
+    const [failed] = await dispatcher.dispatch([alert('critical')]);
+    expect(failed.delivered).toBe(false);
+    expect(failed.error).toContain('HTTP 500');
+  });
+
+  it('formats Discord embeds and Telegram MarkdownV2 messages', async () => {
+    const dispatcher = new AlertDispatcher([
+      new DiscordAlertSink(`${url}/discord`),
+      new TelegramAlertSink('TOKEN', '-100123', 'warning', url)
+    ], FAST_RETRY);
+
+    await dispatcher.dispatch([alert('critical')]);
+
+    const discord = receiver.requests.find(r => r.path === '/discord')!.body as { embeds: { color: number; fields: unknown[] }[] };
+    expect(discord.embeds[0].color).toBe(0xe74c3c);
+    expect(discord.embeds[0].fields).toEqual([{ name: 'vault', value: 'Delta Neutral Vault', inline: true }]);
+
+    const telegram = receiver.requests.find(r => r.path === '/botTOKEN/sendMessage')!.body as Record<string, string>;
+    expect(telegram.chat_id).toBe('-100123');
+    expect(telegram.parse_mode).toBe('MarkdownV2');
+    expect(telegram.text).toContain('fell 1\\.20% in 24h');
+  });
+
+  it('sends email over SMTP and refuses AUTH without TLS', async () => {
+    const received: string[] = [];
+    const server = net.createServer(socket => {
+      let inData = false;
+      let buffer = '';
+      socket.write('220 localhost ESMTP\r\n');
+      socket.on('data', chunk => {
+        buffer += chunk.toString();
+        let index: number;
+        while ((index = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          received.push(line);
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write('250 queued\r\n');
+            }
+          } else if (line.startsWith('EHLO')) {
+            socket.write('250-localhost\r\n250 AUTH PLAIN\r\n');
+          } else if (line.startsWith('AUTH')) {
+            socket.write('235 ok\r\n');
+          } else if (line === 'DATA') {
+            inData = true;
+            socket.write('354 go ahead\r\n');
+          } else if (line === 'QUIT') {
+            socket.end('221 bye\r\n');
+          } else {
+            socket.write('250 ok\r\n');
+          }
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const options = {
+        host: '127.0.0.1',
+        port: (server.address() as AddressInfo).port,
+        secure: false,
+        from: 'alerts@example.com',
+        to: ['ops@example.com']
+      };
+
+      await new SmtpAlertSink(options).send(alert('critical', '.leading dot'));
+
+      expect(received).toContain('MAIL FROM:<alerts@example.com>');
+      expect(received).toContain('RCPT TO:<ops@example.com>');
+      expect(received).toContain('..leading dot');
+      expect(received.some(line => line.startsWith('Subject: =?UTF-8?B?'))).toBe(true);
+
+      // The server offers no STARTTLS, so credentials would go out in cleartext
+      const authenticated = new SmtpAlertSink({ ...options, user: 'ops', pass: 'secret' });
+      await expect(authenticated.send(alert('critical'))).rejects.toThrow('refusing to send credentials without TLS');
+      expect(received.some(line => line.startsWith('AUTH'))).toBe(false);
+    } finally {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+
+  it('reports wide funding rate spreads to the sinks once per throttle window', async () => {
+    const dispatcher = new AlertDispatcher([new WebhookAlertSink(url, 'warning')], FAST_RETRY);
+    const provider = new FundingRateProvider(createMockRuntime() as any, dispatcher);
+    const rate = (exchange: string, fundingRate: number) => ({ exchange, symbol: 'SEI-USDT', fundingRate, confidence: 0.9, riskLevel: 'LOW' }) as FundingRateData;
+    vi.spyOn(provider, 'get').mockResolvedValue([rate('Binance', 0.0015), rate('Bybit', 0.0001), rate('Kraken', 0.0012)]);
+
+    const opportunities = await provider.findArbitrageOpportunities();
+
+    expect(opportunities).toHaveLength(3);
+    await vi.waitFor(() => expect(receiver.requests).toHaveLength(2));
+    expect(receiver.requests.map(r => (r.body as AlertNotification).source)).toEqual(['funding-rates', 'funding-rates']);
+
+    // Asking again within the window doesn't repeat the alerts
+    await provider.findArbitrageOpportunities();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(receiver.requests).toHaveLength(2);
+  });
+
+  it('builds sinks from settings', () => {
+    const settings: Record<string, string> = {
+      ALERT_DISCORD_WEBHOOK_URL: 'https://discord.example/webhook',
+      ALERT_DISCORD_MIN_SEVERITY: 'critical',
+      ALERT_TELEGRAM_BOT_TOKEN: 'TOKEN',
+      ALERT_SMTP_HOST: 'smtp.example.com',
+      ALERT_SMTP_TO: 'a@example.com, b@example.com'
+    };
+    const sinks = createAlertSinksFromSettings(runtimeWith(settings));
+
+    // Telegram needs a chat id as well
+    expect(sinks.map(s => [s.name, s.minSeverity])).toEqual([
+      ['discord', 'critical'],
+      ['smtp', 'critical']
+    ]);
+  });
+});
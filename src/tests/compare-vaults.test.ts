@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockRuntime, createMockMemory } from './test-helpers';
+
+const ADDRESSES: Record<string, string> = {
+  'delta-neutral': '0x1111111111111111111111111111111111111111',
+  'stable-max': '0x2222222222222222222222222222222222222222',
+  'blue-chip': '0x3333333333333333333333333333333333333333'
+};
+
+const METRICS: Record<string, { apy: number; totalValueLocked: number }> = {
+  [ADDRESSES['delta-neutral']]: { apy: 12.5, totalValueLocked: 1_230_000 },
+  [ADDRESSES['stable-max']]: { apy: 8.2, totalValueLocked: 890_000 },
+  [ADDRESSES['blue-chip']]: { apy: 15.3, totalValueLocked: 2_100_000 }
+};
+
+vi.mock('../providers/vault-provider', () => ({
+  vaultProvider: {
+    initialize: vi.fn().mockResolvedValue(undefined),
+    getVaultAddress: (name: string) => ADDRESSES[name] || null,
+    getVaultMetrics: vi.fn((_runtime: unknown, address: string) => Promise.resolve({
+      ...METRICS[address],
+      totalShares: 1,
+      pricePerShare: 1,
+      totalYieldGenerated: 0,
+      managementFeeRate: 2,
+      performanceFeeRate: 20,
+      withdrawalFeeRate: 0.5
+    }))
+  }
+}));
+
+const mockHistory = vi.fn();
+vi.mock('../providers/vault-history', async () => {
+  const actual = await vi.importActual<typeof import('../providers/vault-history')>('../providers/vault-history');
+  return {
+    ...actual,
+    vaultHistoryEngine: { getYieldHistory: (...args: unknown[]) => mockHistory(...args) }
+  };
+});
+
+import { compareVaultsAction, compareVaults, buildVerdict } from '../actions/compare-vaults';
+import { matchVaultNames, VaultName } from '../types/vault';
+
+const DAY = 86400;
+
+// Daily share prices alternating by +/- `swing` around a steady climb
+function history(swing: number) {
+  return {
+    source: 'snapshots',
+    history: Array.from({ length: 10 }, (_, i) => ({
+      timestamp: 1_700_000_000 + (i + 1) * DAY,
+      totalValue: 1,
+      yieldGenerated: 0,
+      apy: 10,
+      sharePrice: 1 + i * 0.0003 + (i % 2 ? swing : -swing)
+    }))
+  };
+}
+
+describe('Compare vaults', () => {
+  const runtime = createMockRuntime() as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockHistory.mockImplementation((_runtime: unknown, address: string) =>
+      Promise.resolve(history(address === ADDRESSES['blue-chip'] ? 0.01 : 0.0005))
+    );
+  });
+
+  it('extracts every vault named in the request', () => {
+    expect(matchVaultNames('Delta Neutral vs Stable Max vs Blue Chip?')).toEqual([
+      VaultName.DELTA_NEUTRAL, VaultName.STABLE_MAX, VaultName.BLUE_CHIP
+    ]);
+    expect(matchVaultNames('compare the sei and usdc vaults')).toEqual([VaultName.SEI, VaultName.USDC]);
+    expect(matchVaultNames('compare vaults')).toEqual([]);
+  });
+
+  it('computes net APY, fee drag, risk and volatility per vault', async () => {
+    const rows = await compareVaults(runtime, [VaultName.DELTA_NEUTRAL, VaultName.BLUE_CHIP]);
+
+    // 12.5% gross, 2% management, 20% of the remaining gain, then 0.5% on exit
+    const net = (1.125 * 0.98 - 0.2 * (1.125 * 0.98 - 1)) * 0.995;
+    expect(rows[0].netApy).toBeCloseTo((net - 1) * 100, 9);
+    expect(rows[0].feeDrag).toBeCloseTo(12.5 - (net - 1) * 100, 9);
+    expect(rows[0].riskLevel).toBe('Low');
+    expect(rows[1].riskLevel).toBe('Medium');
+    expect(rows[1].volatility!).toBeGreaterThan(rows[0].volatility!);
+  });
+
+  it('gives a verdict covering return, risk and volatility', async () => {
+    const rows = await compareVaults(runtime, [VaultName.DELTA_NEUTRAL, VaultName.STABLE_MAX, VaultName.BLUE_CHIP]);
+    const verdict = buildVerdict(rows);
+
+    expect(verdict).toContain('Blue Chip Vault has the highest net APY');
+    expect(verdict).toContain('Stable Max Vault is the lowest-risk option');
+    expect(verdict).toContain("Blue Chip Vault's share price has been the most volatile");
+  });
+
+  it('renders a table and keeps going when history is unavailable', async () => {
+    mockHistory.mockRejectedValue(new Error('no archive node'));
+    const callback = vi.fn();
+    const message = createMockMemory('Delta Neutral vs Stable Max') as any;
+
+    expect(await compareVaultsAction.validate(runtime, message)).toBe(true);
+    await compareVaultsAction.handler(runtime, message, undefined, {}, callback);
+
+    const { text, content } = callback.mock.calls[0][0];
+    expect(text).toContain('Vault               | APY');
+    expect(text).toContain('n/a');
+    expect(content.vaults).toHaveLength(2);
+  });
+});
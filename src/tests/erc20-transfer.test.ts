@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getAddress, parseUnits } from 'viem';
+import { createMockRuntime, createMockMemory } from './test-helpers';
+import { WalletProvider } from '../providers/wallet';
+import { addressBook } from '../providers/address-book';
+import { transferAction } from '../actions/transfer';
+import { TOKEN_ADDRESSES } from '../environment';
+
+const ALICE = getAddress('0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa');
+const CUSTOM_TOKEN = getAddress('0xcccccccccccccccccccccccccccccccccccccccc');
+const USDC = TOKEN_ADDRESSES['sei-testnet'].USDC;
+
+describe('ERC20 transfers', () => {
+  const readContract = vi.fn();
+  const writeContract = vi.fn();
+  const sendTransaction = vi.fn();
+  const waitForTransactionReceipt = vi.fn();
+  let runtime: any;
+
+  beforeEach(() => {
+    runtime = createMockRuntime();
+    const getSetting = runtime.getSetting;
+    runtime.getSetting = vi.fn((key: string) => key === 'SEI_NETWORK' ? 'testnet' : getSetting(key));
+
+    readContract.mockReset().mockImplementation(async ({ functionName }: { functionName: string }) => {
+      switch (functionName) {
+        case 'decimals': return 6;
+        case 'symbol': return 'CUST';
+        case 'balanceOf': return parseUnits('100', 6);
+        default: throw new Error(`unexpected ${functionName}`);
+      }
+    });
+    writeContract.mockReset().mockResolvedValue('0x' + 'ab'.repeat(32));
+    sendTransaction.mockReset().mockResolvedValue('0x' + 'cd'.repeat(32));
+    waitForTransactionReceipt.mockReset().mockResolvedValue({ status: 'success', logs: [] });
+
+    vi.spyOn(WalletProvider.prototype, 'getEvmPublicClient').mockReturnValue({ readContract, waitForTransactionReceipt });
+    vi.spyOn(WalletProvider.prototype, 'getEvmWalletClient').mockReturnValue({
+      account: { address: '0xBFC122e34B01a0875301814958D0f47cA4153d7c' },
+      writeContract,
+      sendTransaction
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function send(text: string, entityId?: string) {
+    const callback = vi.fn();
+    const message = createMockMemory(text, entityId as any) as any;
+    expect(await transferAction.validate(runtime, message)).toBe(true);
+    await transferAction.handler(runtime, message, undefined, {}, callback);
+    return callback.mock.calls[0][0];
+  }
+
+  it('sends configured tokens by symbol using on-chain decimals', async () => {
+    const response = await send(`Send 12.5 USDC to ${ALICE}`);
+
+    expect(response.content).toMatchObject({ success: true, token: USDC, symbol: 'USDC', amount: '12.5' });
+    expect(response.text).toContain(`transferred 12.5 USDC to ${ALICE}`);
+    expect(writeContract).toHaveBeenCalledWith(expect.objectContaining({
+      address: USDC,
+      functionName: 'transfer',
+      args: [ALICE, 12_500_000n]
+    }));
+    expect(sendTransaction).not.toHaveBeenCalled();
+    expect(waitForTransactionReceipt).toHaveBeenCalledWith({ hash: '0x' + 'ab'.repeat(32) });
+  });
+
+  it('sends any ERC20 by address to a contact and reads its symbol', async () => {
+    const user = createMockMemory('setup') as any;
+    await addressBook.save(runtime, user.entityId, 'alice', { address: ALICE });
+
+    const response = await send(`send 3 of token ${CUSTOM_TOKEN.toLowerCase()} to alice`, user.entityId);
+
+    expect(response.text).toContain('transferred 3 CUST to alice');
+    expect(writeContract).toHaveBeenCalledWith(expect.objectContaining({ address: CUSTOM_TOKEN, args: [ALICE, 3_000_000n] }));
+    await addressBook.remove(runtime, user.entityId, 'alice');
+  });
+
+  it('checks the token balance before sending and keeps native SEI transfers', async () => {
+    const short = await send(`Send 250 USDC to ${ALICE}`);
+    expect(short.text).toContain('Insufficient USDC balance: have 100, need 250');
+    expect(writeContract).not.toHaveBeenCalled();
+
+    const native = await send(`Send 1 SEI to ${ALICE}`);
+    expect(native.content).toMatchObject({ success: true, symbol: 'SEI', token: undefined });
+    expect(sendTransaction).toHaveBeenCalledWith(expect.objectContaining({ to: ALICE, value: 10n ** 18n }));
+  });
+
+  it('reports a reverted transfer as a failure', async () => {
+    waitForTransactionReceipt.mockResolvedValue({ status: 'reverted', logs: [] });
+
+    const token = await send(`Send 12.5 USDC to ${ALICE}`);
+    expect(token.content.error).toBe(true);
+    expect(token.text).toContain(`Transaction reverted: 0x${'ab'.repeat(32)}`);
+    expect(token.text).not.toContain('Successfully transferred');
+
+    const native = await send(`Send 1 SEI to ${ALICE}`);
+    expect(native.text).toContain(`Transaction reverted: 0x${'cd'.repeat(32)}`);
+  });
+});
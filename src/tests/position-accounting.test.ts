@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createMockRuntime, createMockMemory } from './test-helpers';
+
+const mockLedger = vi.fn();
+vi.mock('../providers/vault-provider', () => ({
+  vaultProvider: {
+    initialize: vi.fn().mockResolvedValue(undefined),
+    getCustomerPortfolio: vi.fn().mockResolvedValue([])
+  }
+}));
+vi.mock('../providers/vault-event-indexer', () => ({
+  vaultEventIndexer: { getLedger: (...args: unknown[]) => mockLedger(...args) }
+}));
+
+import { portfolioQueryAction } from '../actions/portfolio-query';
+import {
+  calculatePositionPnL,
+  calculatePortfolioPnL,
+  calculateMoneyWeightedReturn
+} from '../providers/position-accounting';
+import type { VaultLedgerEntry } from '../types/vault';
+
+const VAULT = '0x1111111111111111111111111111111111111111';
+const USER = '0x2222222222222222222222222222222222222222';
+const DAY = 86400;
+const T0 = 1_700_000_000;
+
+let logIndex = 0;
+function entry(type: 'deposit' | 'withdraw', day: number, amount: number, shares: number): VaultLedgerEntry {
+  return {
+    type,
+    vaultAddress: VAULT,
+    vaultName: 'Delta Neutral Vault',
+    user: USER,
+    amount,
+    shares,
+    timestamp: T0 + day * DAY,
+    blockNumber: day,
+    transactionHash: `0x${(logIndex + 1).toString(16).padStart(64, '0')}`,
+    logIndex: logIndex++
+  };
+}
+
+describe('Position accounting', () => {
+  // Deposit 100 shares @ $1, then 100 shares @ $2, then withdraw 100 shares @ $3
+  const ledger = [
+    entry('deposit', 0, 100, 100),
+    entry('deposit', 30, 200, 100),
+    entry('withdraw', 60, 300, 100)
+  ];
+  const current = { shareBalance: 100, shareValue: 300 };
+
+  it('realizes against the oldest lot with FIFO', () => {
+    const pnl = calculatePositionPnL(ledger, current, 'fifo', T0 + 90 * DAY);
+
+    expect(pnl.realizedPnL).toBeCloseTo(200);
+    expect(pnl.costBasis).toBeCloseTo(200);
+    expect(pnl.unrealizedPnL).toBeCloseTo(100);
+    expect(pnl.totalPnL).toBeCloseTo(300);
+    expect(pnl.openLots).toHaveLength(1);
+  });
+
+  it('realizes against the pooled cost with average cost', () => {
+    const pnl = calculatePositionPnL(ledger, current, 'average', T0 + 90 * DAY);
+
+    expect(pnl.realizedPnL).toBeCloseTo(150);
+    expect(pnl.costBasis).toBeCloseTo(150);
+    expect(pnl.unrealizedPnL).toBeCloseTo(150);
+    // Total P&L is method-independent
+    expect(pnl.totalPnL).toBeCloseTo(300);
+  });
+
+  it('chains share-price growth for the time-weighted return', () => {
+    const pnl = calculatePositionPnL(ledger, current, 'fifo', T0 + 90 * DAY);
+    // $1 -> $3 per share
+    expect(pnl.timeWeightedReturn).toBeCloseTo(200);
+  });
+
+  it('solves the money-weighted return as an annualized IRR', () => {
+    const oneYear = [entry('deposit', 0, 1000, 1000)];
+    const mwr = calculateMoneyWeightedReturn(oneYear, 1100, T0 + 365 * DAY);
+    expect(mwr).toBeCloseTo(10, 4);
+  });
+
+  it('groups the ledger by vault for portfolio P&L', () => {
+    const pnl = calculatePortfolioPnL(ledger, { [VAULT]: current }, 'fifo', T0 + 90 * DAY);
+    expect(pnl).toHaveLength(1);
+    expect(pnl[0].vaultName).toBe('Delta Neutral Vault');
+  });
+
+  it('reports realized P&L for fully exited positions', async () => {
+    const exited = [entry('deposit', 0, 100, 100), entry('withdraw', 30, 150, 100)];
+    mockLedger.mockResolvedValue(exited);
+    const callback = vi.fn();
+
+    await portfolioQueryAction.handler(createMockRuntime() as any, createMockMemory(`Show realized P&L for ${USER}`) as any, undefined, {}, callback);
+
+    const response = callback.mock.calls[0][0];
+    expect(response.text).toContain("doesn't have any positions");
+    expect(response.text).toContain('Realized +$50.00');
+    expect(response.content.pnl[0]).toMatchObject({ realizedPnL: 50, unrealizedPnL: 0 });
+  });
+
+  it('only treats whole P&L keywords as a P&L request', async () => {
+    mockLedger.mockReset().mockResolvedValue([]);
+    const callback = vi.fn();
+    const runtime = createMockRuntime() as any;
+
+    await portfolioQueryAction.handler(runtime, createMockMemory(`Show unrealized gains in the portfolio of ${USER}`) as any, undefined, {}, callback);
+    await portfolioQueryAction.handler(runtime, createMockMemory(`Check irregular holdings for ${USER}`) as any, undefined, {}, callback);
+
+    expect(mockLedger).not.toHaveBeenCalled();
+    expect(callback.mock.calls.every(([response]) => response.content.pnl === undefined)).toBe(true);
+  });
+});
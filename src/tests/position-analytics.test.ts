@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockRuntime } from './test-helpers';
+
+const VAULT = '0x1111111111111111111111111111111111111111';
+const POOL = '0x2222222222222222222222222222222222222222';
+const WSEI = '0x3333333333333333333333333333333333333333';
+const USDC = '0x4444444444444444444444444444444444444444';
+const Q96 = 2n ** 96n;
+const Q128 = 2n ** 128n;
+
+const mockBatchRead = vi.fn();
+const mockReadContract = vi.fn();
+
+vi.mock('../providers/vault-provider', () => ({
+  vaultProvider: {
+    initialize: vi.fn().mockResolvedValue(undefined),
+    batchRead: (...args: unknown[]) => mockBatchRead(...args),
+    getPublicClient: () => ({ readContract: (...args: unknown[]) => mockReadContract(...args) })
+  }
+}));
+
+import {
+  PositionAnalyticsEngine,
+  analyzePosition,
+  getAmountsForLiquidity,
+  getFeeGrowthInside,
+  getUncollectedFees,
+  tickToPrice,
+  sqrtPriceX96ToPrice
+} from '../providers/position-analytics';
+
+const POSITION = {
+  tickLower: -600,
+  tickUpper: 600,
+  liquidity: 10n ** 18n,
+  tokensOwed0: 5n * 10n ** 17n,
+  tokensOwed1: 0n,
+  feeGrowthInside0LastX128: 0n,
+  feeGrowthInside1LastX128: 0n
+};
+
+const POOL_STATE = {
+  address: POOL,
+  sqrtPriceX96: Q96,
+  tick: 0,
+  feeGrowthGlobal0X128: 3n * Q128,
+  feeGrowthGlobal1X128: 2n * Q128,
+  lowerFeeGrowthOutside0X128: Q128,
+  lowerFeeGrowthOutside1X128: 0n,
+  upperFeeGrowthOutside0X128: 0n,
+  upperFeeGrowthOutside1X128: 0n
+} as const;
+
+const TOKEN0 = { address: WSEI, symbol: 'WSEI', decimals: 18 } as const;
+const TOKEN1 = { address: USDC, symbol: 'USDC', decimals: 18 } as const;
+
+describe('Position analytics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('converts ticks and sqrt prices with decimal adjustment', () => {
+    expect(tickToPrice(0, 18, 6)).toBeCloseTo(1e12, 0);
+    expect(tickToPrice(-276324, 18, 6)).toBeCloseTo(1, 3);
+    expect(sqrtPriceX96ToPrice(Q96, 18, 18)).toBe(1);
+    expect(sqrtPriceX96ToPrice(2n * Q96, 6, 6)).toBe(4);
+  });
+
+  it('splits liquidity into token amounts by where the price sits', () => {
+    const L = 10n ** 18n;
+    const sqrtLower = Math.pow(1.0001, -300);
+    const sqrtUpper = Math.pow(1.0001, 300);
+
+    const inRange = getAmountsForLiquidity(Q96, -600, 600, L);
+    expect(inRange.amount0).toBeCloseTo(1e18 * (sqrtUpper - 1) / sqrtUpper, -6);
+    expect(inRange.amount1).toBeCloseTo(1e18 * (1 - sqrtLower), -6);
+
+    const below = getAmountsForLiquidity(Q96, 600, 1200, L);
+    expect(below.amount1).toBe(0);
+    expect(below.amount0).toBeGreaterThan(0);
+
+    const above = getAmountsForLiquidity(Q96, -1200, -600, L);
+    expect(above.amount0).toBe(0);
+    expect(above.amount1).toBeGreaterThan(0);
+  });
+
+  it('computes fee growth inside the range with 256-bit wrapping', () => {
+    // In range: global minus growth outside both edges
+    expect(getFeeGrowthInside(0, -600, 600, 10n, 3n, 2n)).toBe(5n);
+    // Below the range: lower outside minus upper outside
+    expect(getFeeGrowthInside(-700, -600, 600, 10n, 3n, 2n)).toBe(1n);
+
+    // Checkpoint ahead of the current value after wrap-around still accrues the difference
+    const max = 2n ** 256n;
+    expect(getUncollectedFees(Q128, 5n, max - 5n, 7n)).toBe(7n + 10n);
+  });
+
+  it('reports range, edge distances, holdings and uncollected fees in USD', () => {
+    const result = analyzePosition(POSITION, POOL_STATE, TOKEN0, TOKEN1, { token0PriceUsd: 0.5, token1PriceUsd: 1 });
+
+    expect(result.inRange).toBe(true);
+    expect(result.currentPrice).toBe(1);
+    expect(result.priceLower).toBeCloseTo(Math.pow(1.0001, -600), 12);
+    expect(result.distanceToLower).toBeCloseTo((1 - Math.pow(1.0001, -600)) * 100, 9);
+    expect(result.distanceToUpper).toBeCloseTo((Math.pow(1.0001, 600) - 1) * 100, 9);
+
+    // token0: 0.5 owed + (3 - 1 - 0) per unit liquidity; token1: 2 per unit
+    expect(result.fees0).toBeCloseTo(2.5, 9);
+    expect(result.fees1).toBeCloseTo(2, 9);
+    expect(result.feesUsd).toBeCloseTo(2.5 * 0.5 + 2, 9);
+    expect(result.valueUsd).toBeCloseTo(result.amount0 * 0.5 + result.amount1, 9);
+
+    const outOfRange = analyzePosition({ ...POSITION, tickLower: 60, tickUpper: 600 }, POOL_STATE, TOKEN0, TOKEN1);
+    expect(outOfRange.inRange).toBe(false);
+    expect(outOfRange.amount1).toBe(0);
+    expect(outOfRange.feesUsd).toBeNull();
+  });
+
+  it('reads the position, pool and tokens and prices through the stable side', async () => {
+    const runtime = createMockRuntime() as any;
+    runtime.getSetting = vi.fn((key: string) => (key === 'DEX_V3_FACTORY_ADDRESS' ? '0x5555555555555555555555555555555555555555' : null));
+    const ok = (result: unknown) => ({ status: 'success', result });
+
+    mockReadContract.mockResolvedValue(POOL);
+    mockBatchRead.mockImplementation((calls: { address: string; functionName: string; args?: unknown[] }[]) =>
+      Promise.resolve(calls.map(call => {
+        switch (call.functionName) {
+          case 'getCurrentPosition': return ok(POSITION);
+          case 'getVaultInfo': return ok({ token0: WSEI, token1: USDC, poolFee: 3000 });
+          case 'decimals': return ok(18);
+          case 'symbol': return ok(call.address === WSEI ? 'WSEI' : 'USDC');
+          case 'slot0': return ok([2n * Q96, 13863, 0, 0, 0, 0, true]);
+          case 'feeGrowthGlobal0X128': return ok(0n);
+          case 'feeGrowthGlobal1X128': return ok(0n);
+          case 'ticks': return ok([0n, 0n, 0n, 0n, 0n, 0n, 0, true]);
+          default: throw new Error(`unexpected ${call.functionName}`);
+        }
+      }))
+    );
+
+    const engine = new PositionAnalyticsEngine();
+    const result = await engine.getPositionAnalytics(runtime, VAULT);
+
+    expect(mockReadContract).toHaveBeenCalledWith(expect.objectContaining({ functionName: 'getPool', args: [WSEI, USDC, 3000] }));
+    expect(result.pool).toBe(POOL);
+    expect(result.currentPrice).toBe(4);
+    expect(result.inRange).toBe(false);
+    expect(result.token0PriceUsd).toBe(4);
+    expect(result.token1PriceUsd).toBe(1);
+    expect(result.fees0).toBeCloseTo(0.5, 9);
+  });
+
+  it('explains when no pool factory is configured', async () => {
+    const runtime = createMockRuntime() as any;
+    runtime.getSetting = vi.fn(() => null);
+    mockBatchRead.mockResolvedValue([
+      { status: 'success', result: POSITION },
+      { status: 'success', result: { token0: WSEI, token1: USDC, poolFee: 3000 } }
+    ]);
+
+    await expect(new PositionAnalyticsEngine().getPositionAnalytics(runtime, VAULT)).rejects.toThrow('DEX_V3_FACTORY_ADDRESS');
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockRuntime, createMockMemory } from './test-helpers';
+
+const VAULTS = [
+  { name: 'delta-neutral', displayName: 'Delta Neutral Vault', riskLevel: 'Low', apy: 12.5, withdrawalFeeRate: 0.5 },
+  { name: 'stable-max', displayName: 'Stable Max Vault', riskLevel: 'Very Low', apy: 8.2, withdrawalFeeRate: 0.1 },
+  { name: 'hedge', displayName: 'Hedge Vault', riskLevel: 'Low', apy: 10.1, withdrawalFeeRate: 0.5 },
+  { name: 'blue-chip', displayName: 'Blue Chip Vault', riskLevel: 'Medium', apy: 15.3, withdrawalFeeRate: 0.5 },
+  { name: 'sei-hypergrowth', displayName: 'SEI Hypergrowth Vault', riskLevel: 'High', apy: 24.8, withdrawalFeeRate: 1 }
+];
+
+vi.mock('../providers/vault-provider', () => ({
+  vaultProvider: {
+    getRegisteredVaults: vi.fn(() => Promise.resolve(VAULTS.map(v => ({ ...v, address: v.name, isActive: true })))),
+    getVaultMetrics: vi.fn((_runtime: unknown, address: string) => {
+      const vault = VAULTS.find(v => v.name === address)!;
+      return Promise.resolve({ apy: vault.apy, withdrawalFeeRate: vault.withdrawalFeeRate });
+    })
+  }
+}));
+
+import {
+  recommendAllocationAction,
+  recommendAllocation,
+  parseProfileAnswers,
+  AllocationCandidate
+} from '../actions/recommend-allocation';
+
+function candidates(): AllocationCandidate[] {
+  return VAULTS.map(({ name, ...v }) => ({ ...v, vaultName: name, isActive: true })) as AllocationCandidate[];
+}
+
+describe('Recommend allocation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('parses horizon, drawdown tolerance and liquidity answers', () => {
+    expect(parseProfileAnswers('2 years, 10%, not for years')).toEqual({ horizonDays: 730, maxDrawdown: 10, liquidityDays: null });
+    expect(parseProfileAnswers('I might need the cash within 3 months, investing for a year')).toEqual({ liquidityDays: 90, horizonDays: 365 });
+    expect(parseProfileAnswers('anytime')).toEqual({ liquidityDays: 0 });
+    expect(parseProfileAnswers('6 months', ['liquidityDays'])).toEqual({ liquidityDays: 180 });
+    expect(parseProfileAnswers('moderate', ['maxDrawdown'])).toEqual({ maxDrawdown: 15 });
+  });
+
+  it('caps risk by drawdown tolerance and explains exclusions', () => {
+    const result = recommendAllocation({ horizonDays: 730, maxDrawdown: 5, liquidityDays: null }, candidates());
+
+    expect(result.maxRiskLevel).toBe('Low');
+    expect(result.allocations.map(a => a.vaultName)).toEqual(['stable-max', 'delta-neutral', 'hedge']);
+    expect(result.allocations.reduce((sum, a) => sum + a.weight, 0)).toBe(100);
+    expect(result.allocations[0].weight).toBe(40);
+    expect(result.allocations[0].reason).toContain('capped at 40%');
+
+    const excluded = Object.fromEntries(result.excluded.map(e => [e.vaultName, e.reason]));
+    expect(excluded['blue-chip']).toBe('Medium risk is above the Low ceiling for a 5% drawdown tolerance');
+    expect(excluded['sei-hypergrowth']).toContain('High risk');
+
+    const blended = result.allocations.reduce((sum, a) => sum + a.apy * a.weight / 100, 0);
+    expect(result.blendedApy).toBeCloseTo(blended, 9);
+  });
+
+  it('is reproducible and limits risk for short horizons and fee-heavy exits', () => {
+    const profile = { horizonDays: 60, maxDrawdown: 40, liquidityDays: 0 };
+    const first = recommendAllocation(profile, candidates());
+    const second = recommendAllocation(profile, [...candidates()].reverse());
+
+    expect(second).toEqual(first);
+    expect(first.maxRiskLevel).toBe('Low');
+    expect(first.excluded.find(e => e.vaultName === 'blue-chip')?.reason).toBe('Medium risk is too much for a 2-month horizon');
+    // 0.5% exit fee vs ~1% earned over the 30-day minimum window keeps Delta Neutral in
+    expect(first.allocations.map(a => a.vaultName)).toContain('delta-neutral');
+  });
+
+  it('only starts on allocation requests', async () => {
+    const runtime = createMockRuntime() as any;
+    const validate = (text: string) => recommendAllocationAction.validate(runtime, createMockMemory(text) as any);
+
+    expect(await validate('Recommend an allocation for 10k')).toBe(true);
+    expect(await validate('Help me diversify my savings')).toBe(true);
+    expect(await validate('allocate 50% to Delta Neutral')).toBe(false);
+    expect(await validate('what is the current allocation of the stable max vault')).toBe(false);
+  });
+
+  it('asks the questions it still needs, then recommends', async () => {
+    const runtime = createMockRuntime() as any;
+    const first = createMockMemory('How should I split my money across the vaults? I plan to stay in for 2 years') as any;
+    const callback = vi.fn();
+
+    expect(await recommendAllocationAction.validate(runtime, first)).toBe(true);
+    await recommendAllocationAction.handler(runtime, first, undefined, {}, callback);
+
+    const question = callback.mock.calls[0][0];
+    expect(question.content.awaiting).toEqual(['maxDrawdown', 'liquidityDays']);
+    expect(question.text).not.toContain('How long');
+
+    // Other requests during the questionnaire aren't taken as answers
+    for (const other of ['withdraw 25% from Delta Neutral', 'alert me if the APY drops below 5%', 'deposit 100 USDC daily']) {
+      expect(await recommendAllocationAction.validate(runtime, { ...first, content: { text: other } })).toBe(false);
+    }
+
+    const reply = { ...first, content: { text: '5%, not for years' } };
+    expect(await recommendAllocationAction.validate(runtime, reply)).toBe(true);
+    await recommendAllocationAction.handler(runtime, reply, undefined, {}, callback);
+
+    const { text, content } = callback.mock.calls[1][0];
+    expect(content.profile).toEqual({ horizonDays: 730, maxDrawdown: 5, liquidityDays: null });
+    expect(text).toContain('Expected blended APY');
+    expect(text).toContain('Excluded:');
+  });
+});
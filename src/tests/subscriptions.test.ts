@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockRuntime, createMockMemory } from './test-helpers';
+
+const DELTA_NEUTRAL = '0x1111111111111111111111111111111111111111';
+const STABLE_MAX = '0x2222222222222222222222222222222222222222';
+const WALLET = '0xBFC122e34B01a0875301814958D0f47cA4153d7c';
+
+const ADDRESSES: Record<string, string> = { 'delta-neutral': DELTA_NEUTRAL, 'stable-max': STABLE_MAX };
+
+const mockPortfolio = vi.fn();
+const mockMetrics = vi.fn();
+vi.mock('../providers/vault-provider', () => ({
+  vaultProvider: {
+    initialize: vi.fn().mockResolvedValue(undefined),
+    getVaultAddress: (name: string) => ADDRESSES[name] ?? null,
+    getVaultNameByAddress: (address: string) => Object.keys(ADDRESSES).find(name => ADDRESSES[name] === address) ?? null,
+    getCustomerPortfolio: (...args: unknown[]) => mockPortfolio(...args),
+    getVaultMetrics: (...args: unknown[]) => mockMetrics(...args)
+  }
+}));
+
+const mockPrice = vi.fn();
+vi.mock('../providers/sei-oracle', () => ({
+  SeiOracleProvider: class {
+    getPrice(...args: unknown[]) { return mockPrice(...args); }
+  }
+}));
+
+vi.mock('../providers/wallet', () => ({
+  initWalletProvider: () => Promise.resolve({ getAddress: () => WALLET })
+}));
+
+import { parseSubscriptionRule, parseCondition, SubscriptionEngine, subscriptionEngine } from '../providers/subscriptions';
+import { subscribeAlertAction } from '../actions/subscribe';
+import { manageSubscriptionsAction } from '../actions/manage-subscriptions';
+
+function position(vaultAddress: string, shareValue: number, locked = false, valueUnit: 'usd' | 'asset' = 'asset') {
+  return {
+    vaultAddress,
+    vaultName: vaultAddress === DELTA_NEUTRAL ? 'Delta Neutral Vault' : 'Stable Max Vault',
+    shareBalance: shareValue,
+    shareValue,
+    totalDeposited: 1000,
+    totalWithdrawn: 0,
+    unrealizedGains: shareValue - 1000,
+    depositTimestamp: 0,
+    lockTimeRemaining: locked ? 3600 : 0,
+    canWithdraw: !locked,
+    valueUnit
+  };
+}
+
+function runtime() {
+  const rt = createMockRuntime() as any;
+  rt.sendMessageToTarget = vi.fn().mockResolvedValue(undefined);
+  return rt;
+}
+
+describe('Subscriptions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrice.mockResolvedValue({ price: 1 });
+  });
+
+  it('parses position, vault metric and lock rules', () => {
+    expect(parseSubscriptionRule('Alert me if my Delta Neutral position drops below $900')).toEqual({
+      vaultName: 'delta-neutral', metric: 'positionValue', operator: 'below', threshold: 900
+    });
+    expect(parseSubscriptionRule('notify me when Stable Max APY goes above 8.5%')).toMatchObject({
+      vaultName: 'stable-max', metric: 'apy', operator: 'above', threshold: 8.5
+    });
+    expect(parseSubscriptionRule('tell me if delta neutral TVL falls under $1.5m')).toMatchObject({ metric: 'tvl', threshold: 1.5e6 });
+    expect(parseSubscriptionRule('tell me when my lock expires')).toEqual({ vaultName: null, metric: 'lockExpiry' });
+    expect(parseSubscriptionRule('alert me about delta neutral')).toBeNull();
+    expect(parseCondition('to $1,200')).toEqual({ threshold: 1200 });
+  });
+
+  it('notifies once when a threshold is crossed and re-arms after recovery', async () => {
+    const rt = runtime();
+    const engine = new SubscriptionEngine();
+    const message = createMockMemory('alert me') as any;
+    await engine.create(rt, message, {
+      vaultName: 'delta-neutral' as any, metric: 'positionValue', operator: 'below', threshold: 900, ownerAddress: WALLET
+    });
+
+    const values = [950, 880, 870, 920, 890];
+    const sent: number[] = [];
+    for (const value of values) {
+      mockPortfolio.mockResolvedValueOnce([position(DELTA_NEUTRAL, value)]);
+      sent.push((await engine.evaluate(rt)).length);
+    }
+
+    expect(sent).toEqual([0, 1, 0, 0, 1]);
+    const [target, content] = rt.sendMessageToTarget.mock.calls[0];
+    expect(target).toMatchObject({ roomId: message.roomId, entityId: message.entityId, source: 'user' });
+    expect(content.text).toContain('$880.00, below your $900.00 threshold');
+  });
+
+  it('removes lock rules after they fire and watches vault metrics', async () => {
+    const rt = runtime();
+    const engine = new SubscriptionEngine();
+    const message = createMockMemory('alert me') as any;
+    await engine.create(rt, message, { vaultName: 'stable-max' as any, metric: 'lockExpiry', ownerAddress: WALLET });
+    await engine.create(rt, message, { vaultName: 'stable-max' as any, metric: 'apy', operator: 'below', threshold: 5 });
+
+    mockPortfolio.mockResolvedValue([position(STABLE_MAX, 1000, false)]);
+    mockMetrics.mockResolvedValue({ apy: 4.2, totalValueLocked: 1e6, pricePerShare: 1 });
+
+    const notifications = await engine.evaluate(rt);
+    expect(notifications.map(n => n.rule.metric)).toEqual(['lockExpiry', 'apy']);
+    expect((await engine.list(rt, message.entityId)).map(r => r.metric)).toEqual(['apy']);
+  });
+
+  it('creates rules from chat and one lock rule per locked position', async () => {
+    const rt = runtime();
+    const callback = vi.fn();
+    const message = createMockMemory('Alert me if my Delta Neutral position drops below $900') as any;
+
+    expect(await subscribeAlertAction.validate(rt, message)).toBe(true);
+    await subscribeAlertAction.handler(rt, message, undefined, {}, callback);
+
+    const [rule] = callback.mock.calls[0][0].content.rules;
+    expect(rule).toMatchObject({ vaultName: 'delta-neutral', ownerAddress: WALLET, threshold: 900 });
+
+    mockPortfolio.mockResolvedValue([position(DELTA_NEUTRAL, 1000, true), position(STABLE_MAX, 1000, false)]);
+    const lockMessage = createMockMemory('Tell me when my lock expires', message.entityId) as any;
+    await subscribeAlertAction.handler(rt, lockMessage, undefined, {}, callback);
+
+    const lockRules = callback.mock.calls[1][0].content.rules;
+    expect(lockRules.map((r: any) => [r.vaultName, r.metric])).toEqual([['delta-neutral', 'lockExpiry']]);
+  });
+
+  it('lists, edits and deletes rules through chat', async () => {
+    const rt = runtime();
+    const callback = vi.fn();
+    const user = createMockMemory('setup') as any;
+    const other = createMockMemory('setup') as any;
+
+    const mine = await subscriptionEngine.create(rt, user, {
+      vaultName: 'delta-neutral' as any, metric: 'positionValue', operator: 'below', threshold: 900, ownerAddress: WALLET
+    });
+    const theirs = await subscriptionEngine.create(rt, other, { vaultName: 'stable-max' as any, metric: 'apy', operator: 'below', threshold: 5 });
+
+    const say = async (text: string) => {
+      const message = createMockMemory(text, user.entityId) as any;
+      expect(await manageSubscriptionsAction.validate(rt, message)).toBe(true);
+      await manageSubscriptionsAction.handler(rt, message, undefined, {}, callback);
+      return callback.mock.calls[callback.mock.calls.length - 1][0];
+    };
+
+    expect((await say('list my alerts')).content.rules.map((r: any) => r.id)).toEqual([mine.id]);
+
+    const edited = await say(`change alert ${mine.id} to $800`);
+    expect(edited.content.rule).toMatchObject({ operator: 'below', threshold: 800 });
+
+    // Another user's rule can't be deleted
+    const deleted = await say(`delete alerts ${mine.id} and ${theirs.id}`);
+    expect(deleted.content.removed.map((r: any) => r.id)).toEqual([mine.id]);
+    expect(deleted.text).toContain(`#${theirs.id} found`);
+    expect(await subscriptionEngine.list(rt, other.entityId)).toHaveLength(1);
+
+    expect(await manageSubscriptionsAction.validate(rt, createMockMemory('alert me if my position drops below $5') as any)).toBe(false);
+  });
+
+  it('values positions in USD at the asset price', async () => {
+    const rt = runtime();
+    const engine = new SubscriptionEngine();
+    await engine.create(rt, createMockMemory('alert me') as any, {
+      vaultName: 'delta-neutral' as any, metric: 'positionValue', operator: 'below', threshold: 900, ownerAddress: WALLET
+    });
+    mockPortfolio.mockResolvedValue([position(DELTA_NEUTRAL, 2000)]);
+
+    // 2,000 SEI at $0.40 is $800
+    mockPrice.mockResolvedValueOnce(null);
+    expect(await engine.evaluate(rt)).toEqual([]);
+
+    mockPrice.mockResolvedValueOnce({ price: 0.4 });
+    const [notification] = await engine.evaluate(rt);
+    expect(notification.value).toBeCloseTo(800);
+    expect(notification.text).toContain('$800.00, below your $900.00 threshold');
+  });
+
+  it('compares dashboard positions, already in USD, without converting them', async () => {
+    const rt = runtime();
+    const engine = new SubscriptionEngine();
+    await engine.create(rt, createMockMemory('alert me') as any, {
+      vaultName: 'delta-neutral' as any, metric: 'positionValue', operator: 'below', threshold: 900, ownerAddress: WALLET
+    });
+    mockPrice.mockResolvedValue({ price: 0.4 });
+
+    mockPortfolio.mockResolvedValue([position(DELTA_NEUTRAL, 1000, false, 'usd')]);
+    expect(await engine.evaluate(rt)).toEqual([]);
+
+    mockPortfolio.mockResolvedValue([position(DELTA_NEUTRAL, 850, false, 'usd')]);
+    const [notification] = await engine.evaluate(rt);
+    expect(notification.value).toBe(850);
+    expect(mockPrice).not.toHaveBeenCalled();
+  });
+
+  it('keeps an edit made while rules are being evaluated', async () => {
+    const rt = runtime();
+    const engine = new SubscriptionEngine();
+    const message = createMockMemory('alert me') as any;
+    const rule = await engine.create(rt, message, {
+      vaultName: 'delta-neutral' as any, metric: 'positionValue', operator: 'below', threshold: 900, ownerAddress: WALLET
+    });
+
+    mockPortfolio.mockImplementationOnce(async () => {
+      await engine.update(rt, message.entityId, rule.id, { threshold: 500 });
+      return [position(DELTA_NEUTRAL, 800)];
+    });
+
+    expect(await engine.evaluate(rt)).toEqual([]);
+    expect(rt.sendMessageToTarget).not.toHaveBeenCalled();
+    expect((await engine.list(rt, message.entityId))[0]).toMatchObject({ threshold: 500, conditionMet: false });
+  });
+});
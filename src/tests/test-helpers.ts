@@ -170,6 +170,41 @@ export function createMockRuntime() {
   };
 }
 
+// A mock runtime whose only settings are `settings`
+export function runtimeWith(settings: Record<string, string>) {
+  const runtime = createMockRuntime() as any;
+  runtime.getSetting = (key: string) => settings[key];
+  return runtime;
+}
+
+// A mock runtime for VaultProvider tests against a local testnet RPC
+export function createVaultRuntime(settings: Record<string, string> = {}) {
+  const runtime = createMockRuntime();
+  runtime.getSetting = vi.fn((key: string) => {
+    const values: Record<string, string> = {
+      SEI_NETWORK: 'sei-testnet',
+      SEI_RPC_URL: 'http://127.0.0.1:8545',
+      ...settings
+    };
+    return values[key] || null;
+  });
+  return runtime as any;
+}
+
+// A getVaultInfo() result as the vault contract returns it
+export function vaultInfo(name: string, strategy = 'test') {
+  return {
+    name,
+    strategy,
+    token0: '0x0000000000000000000000000000000000000001',
+    token1: '0x0000000000000000000000000000000000000002',
+    poolFee: 3000,
+    totalSupply: 10n ** 18n,
+    totalValueLocked: 1_000_000n,
+    isActive: true
+  };
+}
+
 export function createMockCallback() {
   return vi.fn();
 }
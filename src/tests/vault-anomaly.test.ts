@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { createMockRuntime } from './test-helpers';
+import {
+  detectAnomalies,
+  computeBaseline,
+  VaultBaselineTracker,
+  type VaultObservation
+} from '../providers/vault-anomaly';
+
+const VAULT = '0x1111111111111111111111111111111111111111';
+
+function observation(i: number, overrides: Partial<VaultObservation> = {}): VaultObservation {
+  return {
+    timestamp: 1_700_000_000 + i * 3600,
+    totalValueLocked: 100_000 * (1 + (i % 2) * 0.01),
+    pricePerShare: 1 + i * 0.0005,
+    apy: 15 + (i % 3) * 0.5,
+    managementFeeRate: 2,
+    performanceFeeRate: 20,
+    withdrawalFeeRate: 0.5,
+    ...overrides
+  };
+}
+
+const steady = Array.from({ length: 10 }, (_, i) => observation(i));
+
+describe('Vault anomaly detection', () => {
+  it('computes a sample baseline with a standard deviation floor', () => {
+    const baseline = computeBaseline([1, 2, 3]);
+    expect(baseline.mean).toBe(2);
+    expect(baseline.stdDev).toBeCloseTo(1, 9);
+    expect(computeBaseline([5, 5, 5], 0.5).stdDev).toBe(0.5);
+  });
+
+  it('stays quiet for a reading in line with the baseline', () => {
+    expect(detectAnomalies(steady, observation(10))).toEqual([]);
+  });
+
+  it('flags share-price drops and TVL outflows with their baseline', () => {
+    const last = steady[steady.length - 1];
+    const current = observation(10, {
+      pricePerShare: last.pricePerShare * 0.99,
+      totalValueLocked: 100_000 * 0.7
+    });
+
+    const anomalies = detectAnomalies(steady, current);
+    const price = anomalies.find(a => a.metric === 'pricePerShare')!;
+    const tvl = anomalies.find(a => a.metric === 'totalValueLocked')!;
+
+    expect(price.severity).toBe('critical');
+    expect(price.value).toBeCloseTo(-1, 6);
+    expect(price.baseline.samples).toBe(9);
+    expect(price.zScore!).toBeLessThan(-5);
+    expect(tvl.severity).toBe('critical');
+    expect(tvl.message).toContain('TVL outflow of 30.7%');
+  });
+
+  it('flags APY spikes against the level baseline', () => {
+    const [apy] = detectAnomalies(steady, observation(10, { apy: 19.5 }));
+    expect(apy.metric).toBe('apy');
+    expect(apy.severity).toBe('warning');
+    expect(apy.message).toContain('spiked');
+    expect(apy.baseline.samples).toBe(10);
+  });
+
+  it('reports fee changes even before the baseline has enough samples', () => {
+    const anomalies = detectAnomalies(steady.slice(0, 2), observation(2, { performanceFeeRate: 25, withdrawalFeeRate: 0.1 }));
+    expect(anomalies.map(a => [a.metric, a.severity])).toEqual([
+      ['performanceFeeRate', 'warning'],
+      ['withdrawalFeeRate', 'info']
+    ]);
+    expect(anomalies[0].baseline.mean).toBe(20);
+    expect(anomalies[0].zScore).toBeNull();
+  });
+
+  it('keeps a rolling window per vault', async () => {
+    const runtime = createMockRuntime() as any;
+    runtime.getSetting = (key: string) => (key === 'VAULT_MONITOR_BASELINE_WINDOW' ? '3' : undefined);
+    const tracker = new VaultBaselineTracker();
+
+    for (let i = 0; i < 5; i++) {
+      const { timestamp, ...metrics } = observation(i);
+      await tracker.observe(runtime, VAULT, metrics as any, timestamp);
+    }
+
+    const history = await tracker.getHistory(runtime, VAULT);
+    expect(history.map(o => o.timestamp)).toEqual([2, 3, 4].map(i => observation(i).timestamp));
+  });
+
+  it('checks against the baseline without recording', async () => {
+    const runtime = createMockRuntime() as any;
+    const tracker = new VaultBaselineTracker();
+    for (const { timestamp, ...metrics } of steady) {
+      await tracker.observe(runtime, VAULT, metrics as any, timestamp);
+    }
+
+    const { timestamp, ...metrics } = observation(steady.length, { pricePerShare: 0.9 });
+    const anomalies = await tracker.check(runtime, VAULT, metrics as any, timestamp);
+
+    expect(anomalies.map(a => a.metric)).toContain('pricePerShare');
+    expect(await tracker.getHistory(runtime, VAULT)).toHaveLength(steady.length);
+  });
+});
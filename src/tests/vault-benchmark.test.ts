@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockRuntime, createMockMemory } from './test-helpers';
+
+const VAULT = '0x1111111111111111111111111111111111111111';
+const WSEI = '0x3333333333333333333333333333333333333333';
+const USDC = '0x4444444444444444444444444444444444444444';
+const DAY = 86400;
+const START = 1_700_000_000;
+
+const mockInfo = vi.fn();
+vi.mock('../providers/vault-provider', () => ({
+  vaultProvider: {
+    initialize: vi.fn().mockResolvedValue(undefined),
+    getVaultAddress: () => VAULT,
+    getVaultNameByAddress: () => 'delta-neutral',
+    getVaultInfo: (...args: unknown[]) => mockInfo(...args)
+  }
+}));
+
+const mockHistory = vi.fn();
+vi.mock('../providers/vault-history', async () => {
+  const actual = await vi.importActual<typeof import('../providers/vault-history')>('../providers/vault-history');
+  return {
+    ...actual,
+    vaultHistoryEngine: { getYieldHistory: (...args: unknown[]) => mockHistory(...args) }
+  };
+});
+
+vi.mock('../providers/position-analytics', async () => {
+  const actual = await vi.importActual<typeof import('../providers/position-analytics')>('../providers/position-analytics');
+  return {
+    ...actual,
+    positionAnalytics: {
+      getTokenInfo: (address: string) => Promise.resolve({ address, decimals: 18, symbol: address === WSEI ? 'WSEI' : 'USDC' })
+    }
+  };
+});
+
+import { compareToBenchmarks, VaultBenchmarkEngine } from '../providers/vault-benchmark';
+import { vaultBenchmarkAction } from '../actions/vault-benchmark';
+
+// Share price from 1.00 to 1.03 over 30 days
+function history() {
+  return {
+    source: 'snapshots',
+    history: [0, 10, 20, 30].map((day, i) => ({
+      timestamp: START + day * DAY,
+      totalValue: 1,
+      yieldGenerated: 0,
+      apy: 0,
+      sharePrice: 1 + i * 0.01
+    }))
+  };
+}
+
+// SEI falls from $0.50 to $0.40; USDC holds its peg
+const PRICES: Record<string, [number, number]> = { SEI: [0.5, 0.4], USDC: [1, 1] };
+const priceLookup = (symbol: string, timestamp: number) =>
+  Promise.resolve(PRICES[symbol] ? PRICES[symbol][timestamp === START ? 0 : 1] : null);
+
+describe('Vault benchmark', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockHistory.mockResolvedValue(history());
+    mockInfo.mockResolvedValue({ token0: WSEI, token1: USDC, poolFee: 3000 });
+  });
+
+  it('computes each benchmark and the excess over it', () => {
+    const result = compareToBenchmarks(
+      5,
+      { token0: 'WSEI', token1: 'USDC' },
+      {
+        token0: { start: 0.5, end: 0.6 },
+        token1: { start: 1, end: 1 },
+        stablecoin: { start: 1, end: null }
+      }
+    );
+
+    expect(result.token0.return).toBeCloseTo(20, 9);
+    expect(result.token0.excess).toBeCloseTo(-15, 9);
+    expect(result.fiftyFifty.label).toBe('50/50 WSEI/USDC');
+    expect(result.fiftyFifty.return).toBeCloseTo(10, 9);
+    expect(result.stablecoin.return).toBeNull();
+    expect(result.stablecoin.excess).toBeNull();
+  });
+
+  it('converts share-price growth to USD with the vault asset price', async () => {
+    const runtime = createMockRuntime() as any;
+    const benchmark = await new VaultBenchmarkEngine().benchmarkVault(runtime, VAULT, START, START + 30 * DAY, { priceLookup });
+
+    expect(benchmark.vaultAssetReturn).toBeCloseTo(3, 9);
+    // Delta Neutral's asset is SEI: 1.03 * 0.8 - 1
+    expect(benchmark.vaultReturn).toBeCloseTo(-17.6, 9);
+    expect(benchmark.benchmarks.token0.return).toBeCloseTo(-20, 9);
+    expect(benchmark.benchmarks.token0.excess).toBeCloseTo(2.4, 9);
+    expect(benchmark.benchmarks.stablecoin.excess).toBeCloseTo(-17.6, 9);
+    expect(benchmark.fromTimestamp).toBe(START);
+  });
+
+  it('prices a vault denominated in USDC with the USDC price', async () => {
+    mockInfo.mockResolvedValue({ token0: USDC, token1: WSEI, poolFee: 3000 });
+    const benchmark = await new VaultBenchmarkEngine().benchmarkVault(createMockRuntime() as any, VAULT, START, START + 30 * DAY, { priceLookup });
+
+    expect(benchmark.vaultReturn).toBeCloseTo(3, 9);
+  });
+
+  it('refuses to benchmark without enough history', async () => {
+    mockHistory.mockResolvedValue({ source: 'archive', history: [] });
+    await expect(
+      new VaultBenchmarkEngine().benchmarkVault(createMockRuntime() as any, VAULT, START, START + DAY, { priceLookup })
+    ).rejects.toThrow('Not enough share price history');
+  });
+
+  it('validates benchmark requests and reports the window', async () => {
+    const runtime = createMockRuntime() as any;
+    const callback = vi.fn();
+    const message = createMockMemory('Did Delta Neutral beat holding SEI over the last 2 weeks?') as any;
+
+    expect(await vaultBenchmarkAction.validate(runtime, message)).toBe(true);
+    expect(await vaultBenchmarkAction.validate(runtime, createMockMemory('benchmark please') as any)).toBe(false);
+
+    await vaultBenchmarkAction.handler(runtime, message, undefined, {}, callback);
+
+    const fromTimestamp = mockHistory.mock.calls[0][2];
+    expect(Math.floor(Date.now() / 1000) - fromTimestamp).toBeCloseTo(14 * DAY, -2);
+    expect(callback.mock.calls[0][0].content.days).toBe(14);
+  });
+});
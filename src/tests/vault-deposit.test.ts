@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { encodeAbiParameters, encodeEventTopics } from 'viem';
+import { createMockRuntime, createMockMemory } from './test-helpers';
+import { STRATEGY_VAULT_ABI } from '../types/vault';
+
+const SEI_VAULT = '0x1111111111111111111111111111111111111111';
+const USDC_VAULT = '0x2222222222222222222222222222222222222222';
+const USDC = '0x3333333333333333333333333333333333333333';
+const STABLE_VAULT = '0x5555555555555555555555555555555555555555';
+const WALLET = '0x4444444444444444444444444444444444444444';
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+
+vi.mock('../providers/vault-provider', () => ({
+  vaultProvider: {
+    initialize: vi.fn().mockResolvedValue(undefined),
+    getVaultAddress: (name: string) => ({ sei: SEI_VAULT, usdc: USDC_VAULT, 'stable-max': STABLE_VAULT } as Record<string, string>)[name] ?? null,
+    getVaultAsset: vi.fn((_runtime: unknown, address: string) => Promise.resolve(address === SEI_VAULT
+      ? { symbol: 'SEI', address: null, decimals: 18 }
+      : { symbol: 'USDC', address: USDC, decimals: 6 })),
+    getVaultMetrics: vi.fn().mockResolvedValue({ managementFeeRate: 2, performanceFeeRate: 20, withdrawalFeeRate: 0.5 })
+  }
+}));
+
+import { VaultDepositAction, parseDepositRequest, vaultDepositAction } from '../actions/vault-deposit';
+import { vaultWithdrawAction } from '../actions/vault-withdraw';
+import { pendingTransactions, isConfirmation, isCancellation } from '../providers/pending-transactions';
+import { VaultName } from '../types/vault';
+import { SeiOracleProvider } from '../providers/sei-oracle';
+import { vaultProvider } from '../providers/vault-provider';
+
+const publicClient = {
+  readContract: vi.fn(),
+  getBalance: vi.fn(),
+  simulateContract: vi.fn(),
+  waitForTransactionReceipt: vi.fn()
+};
+
+const walletClient = {
+  account: { address: WALLET },
+  writeContract: vi.fn()
+};
+
+const walletProvider = {
+  getAddress: () => WALLET,
+  getEvmPublicClient: () => publicClient,
+  getEvmWalletClient: () => walletClient
+} as any;
+
+function depositReceipt(amount: bigint, shares: bigint) {
+  return {
+    status: 'success',
+    logs: [{
+      address: SEI_VAULT,
+      topics: encodeEventTopics({ abi: STRATEGY_VAULT_ABI, eventName: 'SEIOptimizedDeposit', args: { user: WALLET } }),
+      data: encodeAbiParameters([{ type: 'uint256' }, { type: 'uint256' }, { type: 'uint256' }], [amount, shares, 1700000000n]),
+      blockNumber: 1n,
+      transactionHash: TX_HASH,
+      logIndex: 0,
+      blockHash: `0x${'00'.repeat(32)}`,
+      transactionIndex: 0,
+      removed: false
+    }]
+  };
+}
+
+describe('Vault deposit', () => {
+  let action: VaultDepositAction;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    action = new VaultDepositAction(createMockRuntime() as any, walletProvider);
+  });
+
+  it('parses the amount and vault from the request', () => {
+    expect(parseDepositRequest('Deposit $1,500.25 into the USDC vault')).toEqual({ vaultName: VaultName.USDC, amount: '1500.25', denomination: 'usd' });
+    expect(parseDepositRequest('deposit 20 usd in the SEI vault')).toEqual({ vaultName: VaultName.SEI, amount: '20', denomination: 'usd' });
+    expect(parseDepositRequest('deposit 1,500 SEI in the SEI vault')).toEqual({ vaultName: VaultName.SEI, amount: '1500', denomination: 'asset' });
+    expect(parseDepositRequest('deposit into delta neutral')).toBeNull();
+  });
+
+  it('simulates native SEI deposits and reports fees', async () => {
+    publicClient.getBalance.mockResolvedValue(10n * 10n ** 18n);
+    publicClient.simulateContract.mockResolvedValue({ result: 49n * 10n ** 17n });
+
+    const preview = await action.preview(VaultName.SEI, '5');
+
+    expect(publicClient.simulateContract.mock.calls[0][0].value).toBe(5n * 10n ** 18n);
+    expect(preview.assetAddress).toBeNull();
+    expect(preview.needsApproval).toBe(false);
+    expect(preview.sharesSource).toBe('simulation');
+    expect(preview.expectedShares).toBe('4.9');
+    expect(preview.fees?.withdrawalFeeRate).toBe(0.5);
+  });
+
+  it('converts dollar amounts to the vault asset at the oracle price', async () => {
+    publicClient.getBalance.mockResolvedValue(10_000n * 10n ** 18n);
+    publicClient.simulateContract.mockResolvedValue({ result: 3750n * 10n ** 18n });
+    const getPrice = vi.spyOn(SeiOracleProvider.prototype, 'getPrice').mockResolvedValue({ price: 0.4 } as any);
+
+    const preview = await action.preview(VaultName.SEI, '1500', 'usd');
+
+    expect(preview).toMatchObject({ amount: '3750', usdAmount: 1500, assetPriceUsd: 0.4, amountBaseUnits: (3750n * 10n ** 18n).toString() });
+
+    getPrice.mockResolvedValue(null);
+    await expect(action.preview(VaultName.SEI, '1500', 'usd')).rejects.toThrow("Couldn't price SEI in USD");
+    getPrice.mockRestore();
+  });
+
+  function mockUsdcReads() {
+    publicClient.readContract.mockImplementation(({ functionName }: { functionName: string }) => {
+      switch (functionName) {
+        case 'decimals': return Promise.resolve(6);
+        case 'balanceOf': return Promise.resolve(500_000_000n);
+        case 'allowance': return Promise.resolve(0n);
+        case 'totalAssets': return Promise.resolve(2_000_000n);
+        case 'totalSupply': return Promise.resolve(10n ** 18n);
+        default: return Promise.resolve(0n);
+      }
+    });
+  }
+
+  it('flags ERC20 approval and estimates shares from the share price', async () => {
+    mockUsdcReads();
+
+    const preview = await action.preview(VaultName.USDC, '100');
+
+    expect(preview.assetAddress).toBe(USDC);
+    expect(preview.needsApproval).toBe(true);
+    expect(preview.sharesSource).toBe('share-price');
+    expect(preview.expectedShares).toBe('50');
+    expect(publicClient.simulateContract).not.toHaveBeenCalled();
+  });
+
+  it("deposits the vault's token0 for every non-native vault and refuses an unknown asset", async () => {
+    mockUsdcReads();
+
+    // Stable Max has no built-in asset mapping; its token0 decides
+    const preview = await action.preview(VaultName.STABLE_MAX, '100');
+    expect(preview).toMatchObject({ asset: 'USDC', assetAddress: USDC, decimals: 6, amountBaseUnits: '100000000', needsApproval: true });
+    expect(publicClient.getBalance).not.toHaveBeenCalled();
+
+    publicClient.readContract.mockClear();
+    vi.mocked(vaultProvider.getVaultAsset).mockRejectedValueOnce(new Error(`Couldn't determine the asset of vault ${STABLE_VAULT}`));
+    await expect(action.preview(VaultName.STABLE_MAX, '100')).rejects.toThrow("Couldn't determine the asset");
+    expect(publicClient.readContract).not.toHaveBeenCalled();
+  });
+
+  it('rejects deposits larger than the wallet balance', async () => {
+    publicClient.getBalance.mockResolvedValue(10n ** 18n);
+
+    await expect(action.preview(VaultName.SEI, '5')).rejects.toThrow('Insufficient SEI balance');
+  });
+
+  it('approves, deposits and decodes minted shares from the event', async () => {
+    walletClient.writeContract.mockResolvedValue(TX_HASH);
+    publicClient.waitForTransactionReceipt
+      .mockResolvedValueOnce({ status: 'success', logs: [] })
+      .mockResolvedValueOnce(depositReceipt(100_000_000n, 495n * 10n ** 17n));
+
+    const result = await action.execute({
+      vaultName: VaultName.USDC,
+      vaultAddress: USDC_VAULT,
+      asset: 'USDC',
+      assetAddress: USDC,
+      decimals: 6,
+      amount: '100',
+      amountBaseUnits: '100000000',
+      usdAmount: null,
+      assetPriceUsd: null,
+      walletBalance: '500',
+      currentAllowance: '0',
+      needsApproval: true,
+      expectedShares: '50',
+      sharesSource: 'share-price',
+      fees: null,
+      receiver: WALLET
+    });
+
+    expect(walletClient.writeContract).toHaveBeenCalledTimes(2);
+    expect(walletClient.writeContract.mock.calls[0][0].functionName).toBe('approve');
+    expect(walletClient.writeContract.mock.calls[1][0].functionName).toBe('seiOptimizedDeposit');
+    expect(walletClient.writeContract.mock.calls[1][0].value).toBe(0n);
+    expect(result.sharesMinted).toBe('49.5');
+    expect(result.amountDeposited).toBe('100');
+  });
+
+  it('keeps a pending deposit per room and user until it expires', async () => {
+    const runtime = createMockRuntime() as any;
+    const message = createMockMemory('Deposit 5 SEI into the SEI vault') as any;
+
+    await pendingTransactions.create(runtime, message, 'vault-deposit', { amount: '5' }, -1);
+    expect(await pendingTransactions.get(runtime, message, 'vault-deposit')).toBeUndefined();
+
+    await pendingTransactions.create(runtime, message, 'vault-deposit', { amount: '5' });
+    expect((await pendingTransactions.get<{ amount: string }>(runtime, message, 'vault-deposit'))?.params.amount).toBe('5');
+    expect(isConfirmation('Yes, go ahead')).toBe(true);
+    expect(isCancellation('cancel that')).toBe(true);
+    expect(isConfirmation('deposit 5 SEI')).toBe(false);
+  });
+
+  it('lets one confirmation reach only the latest preview when a deposit and a withdrawal are both previewed', async () => {
+    const runtime = createMockRuntime() as any;
+    const user = createMockMemory('Deposit 5 SEI into the SEI vault') as any;
+    const yes = { ...createMockMemory('yes', user.entityId), roomId: user.roomId } as any;
+
+    await pendingTransactions.create(runtime, user, 'vault-deposit', { amount: '5' });
+    await pendingTransactions.create(runtime, user, 'vault-withdraw', { mode: 'full' });
+
+    expect(await vaultDepositAction.validate(runtime, yes)).toBe(false);
+    expect(await vaultWithdrawAction.validate(runtime, yes)).toBe(true);
+
+    // Clearing the replaced kind leaves the latest preview alone
+    await pendingTransactions.clear(runtime, user, 'vault-deposit');
+    expect(await pendingTransactions.get(runtime, user, 'vault-withdraw')).toBeDefined();
+  });
+});
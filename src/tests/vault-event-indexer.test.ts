@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockRuntime } from './test-helpers';
+
+const mockClient = {
+  getBlockNumber: vi.fn(),
+  getLogs: vi.fn(),
+  getCode: vi.fn()
+};
+
+vi.mock('../providers/vault-provider', () => ({
+  vaultProvider: {
+    initialize: vi.fn().mockResolvedValue(undefined),
+    getPublicClient: () => mockClient,
+    getConfiguredVaults: () => [
+      { name: 'usdc', address: '0x1111111111111111111111111111111111111111' }
+    ]
+  }
+}));
+
+import { VaultEventIndexer } from '../providers/vault-event-indexer';
+
+const USER = '0xAbCdEf0000000000000000000000000000000001';
+
+function depositLog(blockNumber: bigint, logIndex: number, amount: bigint) {
+  return {
+    eventName: 'SEIOptimizedDeposit',
+    args: { user: USER, amount, shares: amount * 10n ** 12n, blockTime: 1700000000n + blockNumber },
+    blockNumber,
+    transactionHash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+    logIndex
+  };
+}
+
+function createIndexerRuntime(settings: Record<string, string> = {}) {
+  const runtime = createMockRuntime();
+  runtime.getSetting = vi.fn((key: string) => settings[key] || null);
+  return runtime as any;
+}
+
+describe('VaultEventIndexer', () => {
+  let indexer: VaultEventIndexer;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    indexer = new VaultEventIndexer();
+  });
+
+  it('backfills in chunks and builds a per-user ledger', async () => {
+    mockClient.getBlockNumber.mockResolvedValue(250n);
+    mockClient.getLogs.mockImplementation(({ fromBlock }: { fromBlock: bigint }) =>
+      Promise.resolve(fromBlock === 100n ? [depositLog(120n, 0, 1_000_000n)] : [])
+    );
+
+    const runtime = createIndexerRuntime({ VAULT_INDEXER_START_BLOCK: '0', VAULT_INDEXER_CHUNK_SIZE: '100' });
+    const ledger = await indexer.getLedger(runtime, USER.toLowerCase() as `0x${string}`);
+
+    const ranges = mockClient.getLogs.mock.calls.map(([args]: any) => [args.fromBlock, args.toBlock]);
+    expect(ranges).toEqual([[0n, 99n], [100n, 199n], [200n, 250n]]);
+    expect(ledger).toHaveLength(1);
+    expect(ledger[0]).toMatchObject({ type: 'deposit', amount: 1, vaultName: 'USDC Vault' });
+  });
+
+  it('resumes from the last indexed block without duplicating entries', async () => {
+    const runtime = createIndexerRuntime({ VAULT_INDEXER_START_BLOCK: '0' });
+    mockClient.getBlockNumber.mockResolvedValueOnce(100n).mockResolvedValueOnce(150n);
+    mockClient.getLogs
+      .mockResolvedValueOnce([depositLog(50n, 0, 2_000_000n)])
+      .mockResolvedValueOnce([depositLog(50n, 0, 2_000_000n), depositLog(140n, 1, 3_000_000n)]);
+
+    await indexer.sync(runtime);
+    await indexer.sync(runtime);
+
+    expect(mockClient.getLogs.mock.calls[1][0].fromBlock).toBe(101n);
+    const ledger = await indexer.getLedger(runtime, USER as `0x${string}`, {}, false);
+    expect(ledger.map(e => e.amount)).toEqual([2, 3]);
+  });
+
+  it('halves the chunk size when the RPC rejects a range', async () => {
+    mockClient.getBlockNumber.mockResolvedValue(99n);
+    mockClient.getLogs
+      .mockRejectedValueOnce(new Error('block range too large'))
+      .mockResolvedValue([]);
+
+    await indexer.sync(createIndexerRuntime({ VAULT_INDEXER_START_BLOCK: '0', VAULT_INDEXER_CHUNK_SIZE: '100' }));
+
+    const ranges = mockClient.getLogs.mock.calls.map(([args]: any) => [args.fromBlock, args.toBlock]);
+    expect(ranges).toEqual([[0n, 99n], [0n, 49n], [50n, 99n]]);
+  });
+
+  it('starts at the deployment block and keeps completed chunks when a later one fails', async () => {
+    mockClient.getBlockNumber.mockResolvedValue(1000n);
+    mockClient.getCode.mockImplementation(({ blockNumber }: { blockNumber: bigint }) =>
+      Promise.resolve(blockNumber >= 700n ? '0x6080' : undefined)
+    );
+    mockClient.getLogs.mockImplementation(({ fromBlock }: { fromBlock: bigint }) => {
+      if (fromBlock === 900n) return Promise.reject(new Error('rpc unavailable'));
+      return Promise.resolve(fromBlock === 700n ? [depositLog(750n, 0, 1_000_000n)] : []);
+    });
+
+    const runtime = createIndexerRuntime({ VAULT_INDEXER_CHUNK_SIZE: '100' });
+    await indexer.sync(runtime);
+
+    const ranges = mockClient.getLogs.mock.calls.map(([args]: any) => args.fromBlock);
+    expect(ranges.slice(0, 3)).toEqual([700n, 800n, 900n]);
+    expect(await indexer.getLedger(runtime, USER as `0x${string}`, {}, false)).toHaveLength(1);
+
+    mockClient.getCode.mockClear();
+    mockClient.getLogs.mockClear().mockResolvedValue([]);
+    await indexer.sync(runtime);
+
+    expect(mockClient.getCode).not.toHaveBeenCalled();
+    expect(mockClient.getLogs.mock.calls[0][0].fromBlock).toBe(900n);
+  });
+
+  it('ignores malformed settings instead of throwing', async () => {
+    mockClient.getBlockNumber.mockResolvedValue(50n);
+    mockClient.getLogs.mockResolvedValue([]);
+
+    await indexer.sync(createIndexerRuntime({ VAULT_INDEXER_START_BLOCK: '10', VAULT_INDEXER_CHUNK_SIZE: '1e3' }));
+
+    const ranges = mockClient.getLogs.mock.calls.map(([args]: any) => [args.fromBlock, args.toBlock]);
+    expect(ranges).toEqual([[10n, 50n]]);
+  });
+});
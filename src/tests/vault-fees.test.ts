@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { calculateNetReturn, netApy, breakEvenDays, formatBreakEven } from '../providers/vault-fees';
+
+const FEES = { managementFeeRate: 2, performanceFeeRate: 20, withdrawalFeeRate: 0.5 };
+
+describe('Vault fee calculator', () => {
+  it('breaks a one-year hold down into each fee', () => {
+    const result = calculateNetReturn(FEES, 10, 10_000, 365);
+
+    expect(result.grossValue).toBeCloseTo(11_000, 6);
+    expect(result.managementFees).toBeCloseTo(220, 6);
+    expect(result.performanceFees).toBeCloseTo(0.2 * (10_780 - 10_000), 6);
+    expect(result.withdrawalFee).toBeCloseTo(0.005 * (10_780 - 156), 6);
+    expect(result.netValue).toBeCloseTo(10_624 * 0.995, 6);
+    expect(result.totalFees).toBeCloseTo(result.grossValue - result.netValue, 6);
+    expect(result.netApy).toBeCloseTo(result.netReturnPct, 9);
+    expect(netApy(FEES, 10)).toBeCloseTo(result.netApy, 9);
+  });
+
+  it('does not charge performance fees on a loss', () => {
+    const result = calculateNetReturn(FEES, -5, 1_000, 365);
+
+    expect(result.performanceFees).toBe(0);
+    expect(result.netReturn).toBeLessThan(0);
+    expect(result.breakEvenDays).toBeNull();
+    expect(formatBreakEven(result.breakEvenDays)).toContain('never');
+  });
+
+  it('finds the hold at which the withdrawal fee is earned back', () => {
+    const days = breakEvenDays(FEES, 10)!;
+
+    expect(calculateNetReturn(FEES, 10, 1_000, days).netReturn).toBeGreaterThanOrEqual(0);
+    expect(calculateNetReturn(FEES, 10, 1_000, days - 1).netReturn).toBeLessThan(0);
+    expect(breakEvenDays({ ...FEES, withdrawalFeeRate: 0 }, 10)).toBe(0);
+    expect(breakEvenDays({ ...FEES, managementFeeRate: 12 }, 10)).toBeNull();
+  });
+});
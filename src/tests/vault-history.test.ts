@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockRuntime } from './test-helpers';
+
+const VAULT = '0x1111111111111111111111111111111111111111';
+const GENESIS = 1_700_000_000;
+const LATEST_BLOCK = 100_000n;
+
+// 2-second blocks; share price grows 0.01% per 1,000 blocks
+const blockTime = (n: bigint) => GENESIS + Number(n) * 2;
+const mockClient = {
+  getBlock: vi.fn(({ blockNumber, blockTag }: { blockNumber?: bigint; blockTag?: string }) => {
+    const number = blockTag === 'latest' ? LATEST_BLOCK : blockNumber!;
+    return Promise.resolve({ number, timestamp: BigInt(blockTime(number)) });
+  }),
+  readContract: vi.fn()
+};
+
+const mockDashboardHistory = vi.fn();
+let hasDashboard = false;
+
+vi.mock('../providers/vault-provider', () => ({
+  vaultProvider: {
+    initialize: vi.fn().mockResolvedValue(undefined),
+    getPublicClient: () => mockClient,
+    getVaultNameByAddress: () => 'usdc',
+    hasCustomerDashboard: () => hasDashboard,
+    getYieldHistory: (...args: unknown[]) => mockDashboardHistory(...args)
+  }
+}));
+
+import { VaultHistoryEngine, sampleTimestamps, toYieldHistory } from '../providers/vault-history';
+
+function mockVaultState(deployedAt = 0n) {
+  mockClient.readContract.mockImplementation(({ functionName, blockNumber }: { functionName: string; blockNumber: bigint }) => {
+    if (blockNumber < deployedAt) return Promise.reject(new Error('execution reverted'));
+    if (functionName === 'totalSupply') return Promise.resolve(1_000n * 10n ** 18n);
+    // 1,000 USDC growing 0.01% per 1,000 blocks
+    return Promise.resolve(1_000_000_000n + blockNumber * 100n);
+  });
+}
+
+describe('VaultHistoryEngine', () => {
+  let engine: VaultHistoryEngine;
+  const runtime = createMockRuntime() as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    hasDashboard = false;
+    engine = new VaultHistoryEngine();
+    mockVaultState();
+  });
+
+  it('binary-searches the last block at or before a timestamp', async () => {
+    expect(await engine.findBlockByTimestamp(runtime, blockTime(12_345n))).toBe(12_345n);
+    expect(await engine.findBlockByTimestamp(runtime, blockTime(12_345n) + 1)).toBe(12_345n);
+    expect(await engine.findBlockByTimestamp(runtime, GENESIS - 100)).toBe(0n);
+    expect(await engine.findBlockByTimestamp(runtime, blockTime(LATEST_BLOCK) + 500)).toBe(LATEST_BLOCK);
+
+    // ~log2(100,000) lookups, not a scan
+    expect(mockClient.getBlock.mock.calls.length).toBeLessThan(60);
+  });
+
+  it('reconstructs share price, TVL and realized APY from archive reads', async () => {
+    const { source, history } = await engine.getYieldHistory(runtime, VAULT, blockTime(20_000n), blockTime(80_000n));
+
+    expect(source).toBe('archive');
+    expect(history.length).toBeGreaterThan(10);
+    expect(mockClient.readContract.mock.calls.every(([args]: any) => typeof args.blockNumber === 'bigint')).toBe(true);
+
+    const last = history[history.length - 1];
+    expect(last.totalValue).toBeCloseTo(1_008, 0);
+    expect(last.sharePrice).toBeCloseTo(1.008, 3);
+    expect(last.yieldGenerated).toBeGreaterThan(0);
+    expect(last.apy).toBeGreaterThan(0);
+  });
+
+  it('skips blocks before the vault existed', async () => {
+    mockVaultState(50_000n);
+
+    const series = await engine.getSharePriceSeries(runtime, VAULT, {
+      fromTimestamp: blockTime(0n),
+      toTimestamp: blockTime(LATEST_BLOCK),
+      maxSamples: 10
+    });
+
+    expect(series.length).toBeGreaterThan(0);
+    expect(series.every(p => p.blockNumber >= 50_000)).toBe(true);
+  });
+
+  it('falls back to archive reads when the dashboard fails', async () => {
+    hasDashboard = true;
+    mockDashboardHistory.mockRejectedValue(new Error('execution reverted'));
+
+    const { source } = await engine.getYieldHistory(runtime, VAULT, blockTime(20_000n), blockTime(80_000n));
+
+    expect(mockDashboardHistory).toHaveBeenCalled();
+    expect(source).toBe('archive');
+  });
+
+  it('annualizes share price growth between samples', () => {
+    const day = 86400;
+    const history = toYieldHistory([
+      { timestamp: 0, blockNumber: 1, totalAssets: 100, totalSupply: 100, sharePrice: 1 },
+      { timestamp: day, blockNumber: 2, totalAssets: 100.1, totalSupply: 100, sharePrice: 1.001 }
+    ]);
+
+    expect(history).toHaveLength(1);
+    expect(history[0].yieldGenerated).toBeCloseTo(0.1, 9);
+    expect(history[0].apy).toBeCloseTo((Math.pow(1.001, 365) - 1) * 100, 6);
+    expect(sampleTimestamps(0, 10 * day, 11)).toHaveLength(11);
+  });
+});
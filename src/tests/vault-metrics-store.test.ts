@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { createMockRuntime } from './test-helpers';
+import {
+  VaultMetricsStore,
+  MemorySnapshotBackend,
+  JsonFileSnapshotBackend,
+  realizedApy
+} from '../providers/vault-metrics-store';
+import { snapshotsToYieldHistory } from '../providers/vault-history';
+
+const VAULT = '0x1111111111111111111111111111111111111111';
+const DAY = 86400;
+const START = 1_700_000_000;
+
+function metrics(pricePerShare: number, totalValueLocked = 1_000_000) {
+  return {
+    totalValueLocked,
+    totalShares: totalValueLocked / pricePerShare,
+    pricePerShare,
+    apy: 10,
+    totalYieldGenerated: 0,
+    managementFeeRate: 2,
+    performanceFeeRate: 20,
+    withdrawalFeeRate: 0.5
+  };
+}
+
+describe('VaultMetricsStore', () => {
+  const runtime = createMockRuntime() as any;
+  let store: VaultMetricsStore;
+
+  beforeEach(() => {
+    store = new VaultMetricsStore();
+    store.setBackend(new MemorySnapshotBackend());
+  });
+
+  it('records at most one snapshot per interval', async () => {
+    expect(await store.record(runtime, VAULT, metrics(1), START)).toBe(true);
+    expect(await store.record(runtime, VAULT, metrics(1.001), START + 60)).toBe(false);
+    expect(await store.record(runtime, VAULT, metrics(1.002), START + 3600)).toBe(true);
+
+    const snapshots = await store.getSnapshots(runtime, VAULT);
+    expect(snapshots.map(s => s.pricePerShare)).toEqual([1, 1.002]);
+  });
+
+  it('answers range and point-in-time queries', async () => {
+    for (let day = 0; day < 10; day++) {
+      await store.record(runtime, VAULT, metrics(1 + day / 1000), START + day * DAY);
+    }
+
+    const range = await store.getSnapshots(runtime, VAULT, { fromTimestamp: START + 2 * DAY, toTimestamp: START + 5 * DAY });
+    expect(range).toHaveLength(4);
+    expect((await store.getSnapshots(runtime, VAULT, { limit: 2 })).map(s => s.timestamp)).toEqual([START + 8 * DAY, START + 9 * DAY]);
+    expect((await store.getSnapshotAt(runtime, VAULT, START + 3 * DAY + 100))?.timestamp).toBe(START + 3 * DAY);
+    expect((await store.getLatest(runtime, VAULT))?.pricePerShare).toBeCloseTo(1.009, 9);
+  });
+
+  it('only finds a snapshot near the requested time', async () => {
+    await store.record(runtime, VAULT, metrics(1), START);
+    await store.record(runtime, VAULT, metrics(1.001), START + 3600);
+
+    expect((await store.getSnapshotNear(runtime, VAULT, START + 3000, 7200))?.timestamp).toBe(START + 3600);
+    expect(await store.getSnapshotNear(runtime, VAULT, START + 30 * DAY, 7200)).toBeNull();
+  });
+
+  it('derives realized APY and yield history from snapshots', async () => {
+    await store.record(runtime, VAULT, metrics(1), START);
+    await store.record(runtime, VAULT, metrics(1.01), START + 30 * DAY);
+    const snapshots = await store.getSnapshots(runtime, VAULT);
+
+    expect(realizedApy(snapshots)).toBeCloseTo((Math.pow(1.01, 365 / 30) - 1) * 100, 6);
+    expect(realizedApy(snapshots.slice(0, 1))).toBeNull();
+
+    const history = snapshotsToYieldHistory(snapshots);
+    expect(history).toHaveLength(1);
+    expect(history[0].yieldGenerated).toBeCloseTo(10_000, 6);
+  });
+
+  describe('JSON file backend', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'vault-metrics-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('persists snapshots across instances', async () => {
+      const filePath = path.join(dir, 'nested', 'metrics.json');
+      const first = new JsonFileSnapshotBackend(filePath);
+      await first.append({ ...metrics(1), vaultAddress: VAULT, timestamp: START });
+      await first.append({ ...metrics(1.1), vaultAddress: VAULT, timestamp: START + DAY });
+
+      // One line per snapshot, appended
+      const lines = (await readFile(filePath, 'utf8')).trim().split('\n');
+      expect(lines.map(line => JSON.parse(line).timestamp)).toEqual([START, START + DAY]);
+
+      const second = new JsonFileSnapshotBackend(filePath);
+      expect((await second.latest(VAULT))?.pricePerShare).toBe(1.1);
+      expect(await second.prune(START + 1)).toBe(1);
+      expect((await readFile(filePath, 'utf8')).trim().split('\n')).toHaveLength(1);
+      expect(await new JsonFileSnapshotBackend(filePath).query(VAULT, {})).toHaveLength(1);
+    });
+
+    it('skips a partial last line and reads the older single-object format', async () => {
+      const filePath = path.join(dir, 'metrics.json');
+      const snapshot = (day: number) => ({ ...metrics(1 + day / 100), vaultAddress: VAULT, timestamp: START + day * DAY });
+
+      await writeFile(filePath, JSON.stringify(snapshot(0)) + '\n{"vaultAdd');
+      expect(await new JsonFileSnapshotBackend(filePath).query(VAULT, {})).toHaveLength(1);
+
+      await writeFile(filePath, JSON.stringify({ [VAULT.toLowerCase()]: [snapshot(0), snapshot(1)] }));
+      const legacy = new JsonFileSnapshotBackend(filePath);
+      expect(await legacy.query(VAULT, {})).toHaveLength(2);
+      // Rewritten as one snapshot per line
+      expect((await readFile(filePath, 'utf8')).trim().split('\n')).toHaveLength(2);
+    });
+  });
+});
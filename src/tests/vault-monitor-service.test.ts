@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runtimeWith } from './test-helpers';
+
+const mockHealthCheck = vi.fn();
+vi.mock('../evaluators/vault-monitor', () => ({
+  runVaultHealthCheck: (...args: unknown[]) => mockHealthCheck(...args)
+}));
+
+const mockRegisteredVaults = vi.fn();
+const mockVaultMetrics = vi.fn();
+vi.mock('../providers/vault-provider', () => ({
+  vaultProvider: {
+    getRegisteredVaults: (...args: unknown[]) => mockRegisteredVaults(...args),
+    getVaultMetrics: (...args: unknown[]) => mockVaultMetrics(...args)
+  }
+}));
+
+const mockRecord = vi.fn();
+vi.mock('../providers/vault-metrics-store', () => ({
+  vaultMetricsStore: {
+    getSnapshotInterval: () => 3600,
+    record: (...args: unknown[]) => mockRecord(...args)
+  }
+}));
+
+import { VaultMonitorService, diffReports } from '../services/vault-monitor-service';
+
+const MINUTE = 60 * 1000;
+
+function vault(status: 'healthy' | 'warning' | 'critical', alerts: string[] = [], anomalies: any[] = []) {
+  return { vaultName: 'Delta Neutral Vault', tvl: 1000, apy: 15, pricePerShare: 1, totalYield: 0, status, alerts, anomalies };
+}
+
+function report(timestamp: number, ...vaults: ReturnType<typeof vault>[]) {
+  return { timestamp, overallStatus: 'healthy', vaults, summary: '' } as any;
+}
+
+describe('Vault monitor service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRegisteredVaults.mockResolvedValue([]);
+  });
+
+  it('alerts on status changes and new alerts only', () => {
+    const before = report(0, vault('warning', ['Low TVL: $812.40']));
+    const after = report(1, vault('critical', ['Low TVL: $790.12', 'Share price fell 1.20% in 24h']));
+
+    const alerts = diffReports(before, after);
+    expect(alerts.map(a => [a.kind, a.severity])).toEqual([
+      ['status_change', 'critical'],
+      ['new_alert', 'critical']
+    ]);
+    expect(alerts[1].message).toContain('Share price fell');
+    expect(diffReports(after, after)).toEqual([]);
+  });
+
+  it('reports new anomalies and recoveries', () => {
+    const anomaly = { metric: 'apy', severity: 'warning', message: 'APY spiked to 40.00%' };
+    const alerts = diffReports(report(0, vault('healthy')), report(1, vault('warning', [], [anomaly])));
+    expect(alerts.map(a => a.kind)).toEqual(['status_change', 'new_anomaly']);
+
+    const [recovery] = diffReports(report(1, vault('warning')), report(2, vault('healthy')));
+    expect(recovery.severity).toBe('info');
+    expect(recovery.message).toContain('recovered');
+  });
+
+  it('persists the last report and throttles repeated alerts', async () => {
+    const service = new VaultMonitorService(runtimeWith({ VAULT_MONITOR_ALERT_THROTTLE_MINUTES: '30' }));
+    const listener = vi.fn();
+    service.onAlert(listener);
+
+    // healthy -> critical -> healthy -> critical within 30 minutes
+    mockHealthCheck
+      .mockResolvedValueOnce(report(0, vault('critical')))
+      .mockResolvedValueOnce(report(10 * MINUTE, vault('healthy')))
+      .mockResolvedValueOnce(report(20 * MINUTE, vault('critical')))
+      .mockResolvedValueOnce(report(40 * MINUTE, vault('healthy')))
+      .mockResolvedValueOnce(report(50 * MINUTE, vault('critical')));
+
+    const emitted: number[] = [];
+    for (let i = 0; i < 5; i++) emitted.push((await service.runOnce()).length);
+
+    expect(emitted).toEqual([1, 1, 0, 1, 1]);
+    expect(listener).toHaveBeenCalledTimes(4);
+    expect((await service.getLastReport())!.timestamp).toBe(50 * MINUTE);
+  });
+
+  it('runs on the configured interval until stopped', async () => {
+    vi.useFakeTimers();
+    try {
+      mockHealthCheck.mockResolvedValue(report(0, vault('healthy')));
+      const service = await VaultMonitorService.start(runtimeWith({ VAULT_MONITOR_INTERVAL_MINUTES: '5' }));
+
+      await vi.advanceTimersByTimeAsync(10 * MINUTE);
+      expect(mockHealthCheck).toHaveBeenCalledTimes(3);
+      // Only the scheduled runs grow the anomaly baseline
+      expect(mockHealthCheck).toHaveBeenCalledWith(expect.anything(), { recordBaseline: true });
+
+      await service.stop();
+      await vi.advanceTimersByTimeAsync(10 * MINUTE);
+      expect(mockHealthCheck).toHaveBeenCalledTimes(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('records metric snapshots for every vault on the snapshot interval, even with health checks disabled', async () => {
+    vi.useFakeTimers();
+    try {
+      mockRegisteredVaults.mockResolvedValue([
+        { name: 'delta-neutral', address: '0x1111111111111111111111111111111111111111', info: {} },
+        { name: 'stable-max', address: '0x2222222222222222222222222222222222222222', info: {} },
+        { name: 'unreachable', address: '0x3333333333333333333333333333333333333333', info: null }
+      ]);
+      mockVaultMetrics
+        .mockRejectedValueOnce(new Error('rpc down'))
+        .mockResolvedValue({ totalValueLocked: 1000, pricePerShare: 1 });
+      mockRecord.mockResolvedValue(true);
+
+      const service = await VaultMonitorService.start(runtimeWith({ VAULT_MONITOR_ENABLED: 'false' }));
+      await vi.advanceTimersByTimeAsync(0);
+
+      // The first read failed; the other vault is still recorded
+      expect(mockRecord).toHaveBeenCalledTimes(1);
+      expect(mockRecord.mock.calls[0][1]).toBe('0x2222222222222222222222222222222222222222');
+
+      await vi.advanceTimersByTimeAsync(3600 * 1000);
+      expect(mockRecord).toHaveBeenCalledTimes(3);
+      expect(mockHealthCheck).not.toHaveBeenCalled();
+
+      await service.stop();
+      await vi.advanceTimersByTimeAsync(3600 * 1000);
+      expect(mockRecord).toHaveBeenCalledTimes(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { simulateProjection, percentile } from '../providers/vault-projections';
+import { calculateNetReturn } from '../providers/vault-fees';
+
+const DAY = 86400;
+const FEES = { managementFeeRate: 2, performanceFeeRate: 20, withdrawalFeeRate: 0.5 };
+
+// Daily share prices from a list of daily returns
+function history(dailyReturns: number[]) {
+  let sharePrice = 1;
+  return [{ timestamp: 1_700_000_000, totalValue: 1, yieldGenerated: 0, apy: 0, sharePrice }].concat(
+    dailyReturns.map((r, i) => {
+      sharePrice *= 1 + r;
+      return { timestamp: 1_700_000_000 + (i + 1) * DAY, totalValue: 1, yieldGenerated: 0, apy: 0, sharePrice };
+    })
+  );
+}
+
+describe('Monte Carlo projections', () => {
+  it('collapses to the deterministic projection for steady growth', () => {
+    const daily = Math.pow(1.1, 1 / 365) - 1;
+    const result = simulateProjection(history(Array(30).fill(daily)), FEES, 1_000, 90, { simulations: 200 })!;
+    const expected = calculateNetReturn(FEES, 10, 1_000, 90).netValue;
+
+    expect(result.p5).toBeCloseTo(expected, 6);
+    expect(result.p95).toBeCloseTo(expected, 6);
+    expect(result.probabilityOfLoss).toBe(0);
+    expect(result.expectedDrawdown).toBe(0);
+  });
+
+  it('spreads outcomes for a volatile vault and is reproducible', () => {
+    const returns = Array.from({ length: 60 }, (_, i) => (i % 3 === 0 ? -0.02 : 0.012));
+    const first = simulateProjection(history(returns), FEES, 1_000, 30, { simulations: 500, seed: 7 })!;
+    const second = simulateProjection(history(returns), FEES, 1_000, 30, { simulations: 500, seed: 7 })!;
+
+    expect(second).toEqual(first);
+    expect(first.sampleIntervals).toBe(60);
+    expect(first.p5).toBeLessThan(first.p50);
+    expect(first.p50).toBeLessThan(first.p95);
+    expect(first.probabilityOfLoss).toBeGreaterThan(0);
+    expect(first.probabilityOfLoss).toBeLessThan(100);
+    expect(first.expectedDrawdown).toBeGreaterThan(2);
+  });
+
+  it('needs enough history to sample from', () => {
+    expect(simulateProjection(history([0.001, 0.001]), FEES, 1_000, 30)).toBeNull();
+    expect(percentile([1, 2, 3, 4, 5], 50)).toBe(3);
+    expect(percentile([0, 10], 95)).toBeCloseTo(9.5, 9);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createVaultRuntime, vaultInfo } from './test-helpers';
+
+const mockClient = {
+  multicall: vi.fn(),
+  readContract: vi.fn()
+};
+
+vi.mock('viem', async () => {
+  const actual = await vi.importActual<typeof import('viem')>('viem');
+  return {
+    ...actual,
+    createPublicClient: vi.fn(() => mockClient)
+  };
+});
+
+import { VaultProvider } from '../providers/vault-provider';
+
+const DELTA_NEUTRAL = '0x1111111111111111111111111111111111111111';
+const SEI_VAULT = '0x2222222222222222222222222222222222222222';
+const CUSTOMER = '0x3333333333333333333333333333333333333333';
+
+const VAULT_SETTINGS = { DELTA_NEUTRAL_VAULT_ADDRESS: DELTA_NEUTRAL, SEI_VAULT_ADDRESS: SEI_VAULT };
+
+describe('VaultProvider multicall batching', () => {
+  let provider: VaultProvider;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    provider = new VaultProvider();
+  });
+
+  it('batches per-vault portfolio reads into a single multicall', async () => {
+    mockClient.multicall.mockResolvedValue([
+      { status: 'success', result: [10n ** 18n, 2n * 10n ** 18n, 10n ** 18n, 0n, 1700000000n, 0n] },
+      { status: 'success', result: [0n, 0n, 0n, 0n, 0n, 0n] }
+    ]);
+
+    const portfolios = await provider.getCustomerPortfolio(createVaultRuntime(VAULT_SETTINGS), CUSTOMER);
+
+    expect(mockClient.multicall).toHaveBeenCalledTimes(1);
+    expect(mockClient.multicall.mock.calls[0][0].contracts).toHaveLength(2);
+    expect(mockClient.readContract).not.toHaveBeenCalled();
+    expect(portfolios).toHaveLength(1);
+    expect(portfolios[0].vaultName).toBe('Delta Neutral Vault');
+    expect(portfolios[0].shareValue).toBe(2);
+    expect(portfolios[0].canWithdraw).toBe(true);
+  });
+
+  it('isolates a failing vault from the rest of the batch', async () => {
+    mockClient.multicall.mockResolvedValue([
+      { status: 'failure', error: new Error('execution reverted') },
+      { status: 'success', result: [5n * 10n ** 18n, 5n * 10n ** 18n, 4n * 10n ** 18n, 0n, 1700000000n, 3600n] }
+    ]);
+
+    const portfolios = await provider.getCustomerPortfolio(createVaultRuntime(VAULT_SETTINGS), CUSTOMER);
+
+    expect(portfolios).toHaveLength(1);
+    expect(portfolios[0].vaultName).toBe('SEI Vault');
+    expect(portfolios[0].canWithdraw).toBe(false);
+  });
+
+  it('uses the configured multicall address for local chains', async () => {
+    const localMulticall = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+    mockClient.multicall.mockResolvedValue([
+      { status: 'success', result: vaultInfo('Delta Neutral') },
+      { status: 'success', result: vaultInfo('SEI') }
+    ]);
+
+    const vaults = await provider.getAllVaults(createVaultRuntime({ ...VAULT_SETTINGS, MULTICALL3_ADDRESS: localMulticall }));
+
+    expect(mockClient.multicall.mock.calls[0][0].multicallAddress).toBe(localMulticall);
+    expect(vaults.map(v => v.name)).toEqual(['Delta Neutral Vault', 'SEI Vault']);
+  });
+
+  it('falls back to individual reads when the multicall itself fails', async () => {
+    mockClient.multicall.mockRejectedValue(new Error('no code at address'));
+    mockClient.readContract
+      .mockResolvedValueOnce(vaultInfo('Delta Neutral'))
+      .mockRejectedValueOnce(new Error('execution reverted'));
+
+    const vaults = await provider.getAllVaults(createVaultRuntime(VAULT_SETTINGS));
+
+    expect(mockClient.readContract).toHaveBeenCalledTimes(2);
+    expect(vaults).toHaveLength(1);
+    expect(vaults[0].name).toBe('Delta Neutral Vault');
+  });
+});
+
+describe('VaultProvider vault asset', () => {
+  let provider: VaultProvider;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    provider = new VaultProvider();
+  });
+
+  it("reads the vault's token0 symbol and decimals, and treats a zero token0 as native SEI", async () => {
+    mockClient.readContract.mockImplementation(async ({ address, functionName }: { address: string; functionName: string }) => {
+      switch (functionName) {
+        case 'getVaultInfo': return { ...vaultInfo('Stable Max'), token0: address === SEI_VAULT ? '0x0000000000000000000000000000000000000000' : CUSTOMER };
+        case 'decimals': return 6;
+        case 'symbol': return 'USDC';
+        default: throw new Error(`unexpected ${functionName}`);
+      }
+    });
+    const runtime = createVaultRuntime(VAULT_SETTINGS);
+
+    expect(await provider.getVaultAsset(runtime, DELTA_NEUTRAL)).toEqual({ symbol: 'USDC', address: CUSTOMER, decimals: 6 });
+    expect(await provider.getVaultAsset(runtime, SEI_VAULT)).toEqual({ symbol: 'SEI', address: null, decimals: 18 });
+  });
+
+  it('refuses to guess when the asset cannot be read', async () => {
+    mockClient.readContract.mockRejectedValueOnce(new Error('execution reverted'));
+    await expect(provider.getVaultAsset(createVaultRuntime(VAULT_SETTINGS), DELTA_NEUTRAL)).rejects.toThrow("Couldn't determine the asset of vault");
+
+    mockClient.readContract.mockImplementation(async ({ functionName }: { functionName: string }) => {
+      if (functionName === 'getVaultInfo') return { ...vaultInfo('Stable Max'), token0: CUSTOMER };
+      throw new Error('not a token');
+    });
+    await expect(provider.getVaultAsset(createVaultRuntime(VAULT_SETTINGS), DELTA_NEUTRAL)).rejects.toThrow(`Couldn't read the asset token ${CUSTOMER}`);
+  });
+});
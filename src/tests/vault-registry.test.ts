@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createVaultRuntime, vaultInfo } from './test-helpers';
+
+const mockClient = {
+  multicall: vi.fn(),
+  readContract: vi.fn()
+};
+
+vi.mock('viem', async () => {
+  const actual = await vi.importActual<typeof import('viem')>('viem');
+  return {
+    ...actual,
+    createPublicClient: vi.fn(() => mockClient)
+  };
+});
+
+import { VaultProvider } from '../providers/vault-provider';
+import {
+  VaultName,
+  matchVaultName,
+  deriveRiskLevel,
+  resolveBuiltInVault,
+  getVaultDisplayName,
+  clearDiscoveredVaults
+} from '../types/vault';
+
+const FACTORY = '0x9999999999999999999999999999999999999999';
+const DELTA_NEUTRAL = '0x1111111111111111111111111111111111111111';
+const FACTORY_DELTA_NEUTRAL = '0x2222222222222222222222222222222222222222';
+const FACTORY_STABLE_MAX = '0x3333333333333333333333333333333333333333';
+const BOOSTER = '0x4444444444444444444444444444444444444444';
+
+const VAULT_SETTINGS = { VAULT_FACTORY_ADDRESS: FACTORY, DELTA_NEUTRAL_VAULT_ADDRESS: DELTA_NEUTRAL };
+
+describe('Vault registry', () => {
+  let provider: VaultProvider;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearDiscoveredVaults();
+    provider = new VaultProvider();
+    mockClient.readContract.mockResolvedValue([FACTORY_DELTA_NEUTRAL, FACTORY_STABLE_MAX, BOOSTER]);
+    mockClient.multicall.mockResolvedValue([
+      { status: 'success', result: vaultInfo('Delta Neutral Vault', 'Delta-neutral LP') },
+      { status: 'success', result: vaultInfo('Delta Neutral Vault', 'Delta-neutral LP') },
+      { status: 'success', result: vaultInfo('Stable Max Vault', 'Stablecoin optimization') },
+      { status: 'success', result: vaultInfo('SEI Yield Booster', 'Leveraged SEI staking loop') }
+    ]);
+  });
+
+  it('merges env-configured vaults with vaults discovered from the factory', async () => {
+    const vaults = await provider.getRegisteredVaults(createVaultRuntime(VAULT_SETTINGS));
+
+    expect(mockClient.readContract.mock.calls[0][0].functionName).toBe('getAllVaults');
+    expect(mockClient.multicall).toHaveBeenCalledTimes(1);
+    expect(vaults.map(v => [v.displayName, v.address, v.source])).toEqual([
+      ['Delta Neutral Vault', DELTA_NEUTRAL, 'env'],
+      ['Stable Max Vault', FACTORY_STABLE_MAX, 'factory'],
+      ['SEI Yield Booster', BOOSTER, 'factory']
+    ]);
+    expect(provider.getVaultAddress(VaultName.DELTA_NEUTRAL)).toBe(DELTA_NEUTRAL);
+    expect(provider.getVaultAddress(VaultName.STABLE_MAX)).toBe(FACTORY_STABLE_MAX);
+  });
+
+  it('derives metadata for new vaults and resolves them by name', async () => {
+    const vaults = await provider.getRegisteredVaults(createVaultRuntime(VAULT_SETTINGS));
+    const booster = vaults[2];
+
+    expect(booster.name).toBe('sei-yield-booster');
+    expect(booster.strategy).toBe('Leveraged SEI staking loop');
+    expect(booster.riskLevel).toBe('High');
+    expect(getVaultDisplayName(booster.name)).toBe('SEI Yield Booster');
+
+    expect(matchVaultName('show me the sei yield booster')).toBe('sei-yield-booster');
+    expect(matchVaultName('sei vault')).toBe(VaultName.SEI);
+    expect(provider.getVaultAddress(matchVaultName('SEI Yield Booster')!)).toBe(BOOSTER);
+  });
+
+  it('caches the registry until it is forced to refresh', async () => {
+    const runtime = createVaultRuntime(VAULT_SETTINGS);
+    await provider.getRegisteredVaults(runtime);
+    await provider.getRegisteredVaults(runtime);
+    expect(mockClient.multicall).toHaveBeenCalledTimes(1);
+
+    await provider.getRegisteredVaults(runtime, true);
+    expect(mockClient.multicall).toHaveBeenCalledTimes(2);
+  });
+
+  it('maps on-chain names to built-in vaults strictly', () => {
+    expect(resolveBuiltInVault('Stable Max Vault')).toBe(VaultName.STABLE_MAX);
+    expect(resolveBuiltInVault('USDC')).toBe(VaultName.USDC);
+    expect(resolveBuiltInVault('SEI Yield Booster')).toBeNull();
+    expect(deriveRiskLevel('USDC lending')).toBe('Very Low');
+    expect(deriveRiskLevel('Hedged BTC basis')).toBe('Low');
+    expect(deriveRiskLevel('Cross-DEX arbitrage')).toBe('Medium-High');
+    expect(deriveRiskLevel('LP farming')).toBe('Medium');
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockRuntime } from './test-helpers';
+
+const VAULT = '0x1111111111111111111111111111111111111111';
+const USER = '0x2222222222222222222222222222222222222222';
+const SPOUSE = '0x3333333333333333333333333333333333333333';
+const DAY = 86400;
+const START = 1735689600; // 2025-01-01
+
+const mockLedger = vi.fn();
+const mockGroupLedger = vi.fn();
+const mockMetrics = vi.fn();
+
+vi.mock('../providers/vault-event-indexer', () => ({
+  vaultEventIndexer: {
+    getLedger: (...args: unknown[]) => mockLedger(...args),
+    getGroupLedger: (...args: unknown[]) => mockGroupLedger(...args)
+  }
+}));
+
+vi.mock('../providers/vault-provider', () => ({
+  vaultProvider: {
+    getVaultNameByAddress: () => 'usdc',
+    getVaultMetrics: (...args: unknown[]) => mockMetrics(...args)
+  }
+}));
+
+import { generateVaultStatement, formatStatementCsv } from '../providers/vault-statement';
+
+function entry(type: 'deposit' | 'withdraw', amount: number, shares: number, timestamp: number, logIndex = 0, user = USER) {
+  return {
+    type,
+    vaultAddress: VAULT,
+    vaultName: 'USDC Vault',
+    user,
+    amount,
+    shares,
+    timestamp,
+    blockNumber: timestamp - START,
+    transactionHash: `0x${(timestamp - START + logIndex).toString(16).padStart(64, '0')}`,
+    logIndex
+  };
+}
+
+describe('Vault statement export', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockMetrics.mockResolvedValue({ withdrawalFeeRate: 0.5 });
+    mockLedger.mockResolvedValue([
+      entry('deposit', 1000, 1000, START),
+      entry('withdraw', 550, 500, START + 30 * DAY),
+      entry('deposit', 200, 180, START + 400 * DAY)
+    ]);
+  });
+
+  it('emits deposit, withdraw, fee and realized yield rows valued in USD', async () => {
+    const statement = await generateVaultStatement(createMockRuntime() as any, USER, {
+      fromTimestamp: START,
+      toTimestamp: START + 365 * DAY,
+      priceLookup: async () => 1
+    });
+
+    expect(statement.events.map(e => e.type)).toEqual(['deposit', 'withdraw', 'fee', 'yield']);
+
+    const fee = statement.events.find(e => e.type === 'fee')!;
+    expect(fee.amount).toBeCloseTo(550 * 0.5 / 99.5, 6);
+
+    const summary = statement.vaults[0];
+    expect(summary.asset).toBe('USDC');
+    expect(summary.deposited).toBe(1000);
+    expect(summary.withdrawn).toBe(550);
+    expect(summary.realizedYield).toBeCloseTo(50, 6);
+    expect(statement.totals.realizedYieldUsd).toBeCloseTo(50, 6);
+    expect(statement.totals.unpricedEvents).toBe(0);
+  });
+
+  it('carries cost basis from before the range and flags unpriced rows', async () => {
+    const statement = await generateVaultStatement(createMockRuntime() as any, USER, {
+      fromTimestamp: START + 10 * DAY,
+      toTimestamp: START + 365 * DAY,
+      priceLookup: async () => null
+    });
+
+    expect(statement.events.some(e => e.type === 'deposit')).toBe(false);
+    expect(statement.events.find(e => e.type === 'yield')!.amount).toBeCloseTo(50, 6);
+    expect(statement.events.every(e => e.valueUsd === null)).toBe(true);
+    expect(statement.totals.unpricedEvents).toBe(statement.events.length);
+  });
+
+  it('formats a CSV with a header row and RFC 4180 quoting', async () => {
+    const statement = await generateVaultStatement(createMockRuntime() as any, USER, {
+      fromTimestamp: START,
+      toTimestamp: START + 365 * DAY,
+      priceLookup: async () => 1
+    });
+
+    const lines = formatStatementCsv(statement).trim().split('\n');
+    const events = statement.events.length;
+
+    expect(lines[0]).toBe('date,type,vaultName,vaultAddress,asset,amount,shares,priceUsd,valueUsd,transactionHash,note');
+    expect(lines[1].startsWith('2025-01-01T00:00:00.000Z,deposit,USDC Vault,')).toBe(true);
+    expect(lines[4].endsWith(',Realized on withdrawal (FIFO)')).toBe(true);
+
+    // Per-vault summary after a blank line
+    expect(lines[events + 1]).toBe('');
+    expect(lines[events + 2]).toBe('vaultName,vaultAddress,asset,deposited,withdrawn,fees,realizedYield,depositedUsd,withdrawnUsd,feesUsd,realizedYieldUsd');
+    expect(lines).toHaveLength(events + 3 + statement.vaults.length);
+    const [vault] = statement.vaults;
+    expect(lines[events + 3]).toBe([
+      vault.vaultName, vault.vaultAddress, vault.asset,
+      vault.deposited, vault.withdrawn, vault.fees, vault.realizedYield,
+      vault.depositedUsd, vault.withdrawnUsd, vault.feesUsd, vault.realizedYieldUsd
+    ].join(','));
+
+    statement.events[0].vaultName = 'Vault, "Quoted"';
+    expect(formatStatementCsv(statement)).toContain('"Vault, ""Quoted"""');
+  });
+
+  it('neutralises spreadsheet formulas in CSV text cells', async () => {
+    const statement = await generateVaultStatement(createMockRuntime() as any, USER, {
+      fromTimestamp: START,
+      toTimestamp: START + 365 * DAY,
+      priceLookup: async () => 1
+    });
+    statement.events[0].vaultName = '=HYPERLINK("http://evil")';
+    statement.events[0].note = '@SUM(A1)\rnext';
+    statement.events[0].amount = -5;
+
+    const [, row] = formatStatementCsv(statement).split('\n');
+
+    expect(row).toContain(`"'=HYPERLINK(""http://evil"")"`);
+    expect(row).toContain(`"'@SUM(A1)\rnext"`);
+    expect(row).toContain(',-5,');
+  });
+
+  it('keeps cost basis per address in a group statement', async () => {
+    // The spouse's cheap lot must not be consumed by the user's withdrawal
+    mockGroupLedger.mockResolvedValue([
+      entry('deposit', 1000, 1000, START),
+      entry('deposit', 500, 1000, START + DAY, 0, SPOUSE),
+      entry('withdraw', 1100, 1000, START + 30 * DAY)
+    ]);
+
+    const statement = await generateVaultStatement(createMockRuntime() as any, [USER, SPOUSE] as any, {
+      fromTimestamp: START,
+      toTimestamp: START + 365 * DAY,
+      priceLookup: async () => 1
+    });
+
+    expect(statement.events.find(e => e.type === 'yield')!.amount).toBeCloseTo(100, 6);
+    expect(statement.accounts.map(a => [a.account, a.depositedUsd])).toEqual([[USER, 1000], [SPOUSE, 500]]);
+    expect(formatStatementCsv(statement).split('\n')[0]).toBe('date,type,vaultName,vaultAddress,account,asset,amount,shares,priceUsd,valueUsd,transactionHash,note');
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runtimeWith } from './test-helpers';
+
+const STABLE_MAX = '0x1111111111111111111111111111111111111111';
+const HYPERGROWTH = '0x2222222222222222222222222222222222222222';
+const UNREADABLE = '0x3333333333333333333333333333333333333333';
+
+const mockMetrics = vi.fn();
+vi.mock('../providers/vault-provider', () => ({
+  vaultProvider: {
+    initialize: vi.fn().mockResolvedValue(undefined),
+    getRegisteredVaults: () => Promise.resolve([
+      { name: 'stable-max', address: STABLE_MAX, displayName: 'Stable Max Vault', riskLevel: 'Very Low', info: {} },
+      { name: 'sei-hypergrowth', address: HYPERGROWTH, displayName: 'SEI Hypergrowth Vault', riskLevel: 'High', info: {} },
+      { name: 'usdc', address: UNREADABLE, displayName: 'USDC Vault', riskLevel: 'Very Low', info: null }
+    ]),
+    getVaultMetrics: (...args: unknown[]) => mockMetrics(...args)
+  }
+}));
+
+const mockPrevious = vi.fn();
+vi.mock('../providers/vault-metrics-store', () => ({
+  vaultMetricsStore: {
+    getSnapshotInterval: () => 3600,
+    getSnapshotNear: (...args: unknown[]) => mockPrevious(...args)
+  }
+}));
+
+import {
+  resolveThresholds,
+  parseThresholdsConfig,
+  VaultThresholdRegistry,
+  DEFAULT_HEALTH_THRESHOLDS,
+  vaultThresholds
+} from '../providers/vault-thresholds';
+import { runVaultHealthCheck } from '../evaluators/vault-monitor';
+
+function metrics(apy: number, pricePerShare: number, totalValueLocked = 50_000) {
+  return {
+    apy,
+    pricePerShare,
+    totalValueLocked,
+    totalYieldGenerated: 0,
+    managementFeeRate: 0.5,
+    performanceFeeRate: 10,
+    withdrawalFeeRate: 0
+  };
+}
+
+describe('Vault health thresholds', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vaultThresholds.reload();
+  });
+
+  it('layers tier defaults, default, risk level and vault overrides', () => {
+    const config = {
+      default: { minTvl: 5000 },
+      riskLevels: { 'Very Low': { minApy: 2, targetApy: 5 } },
+      vaults: { 'stable-max': { targetApy: 8 } }
+    };
+
+    const stableMax = resolveThresholds(config, 'stable-max', 'Very Low');
+    expect(stableMax).toMatchObject({ minTvl: 5000, minApy: 2, targetApy: 8 });
+    expect(stableMax.maxTvlOutflow24h).toBe(DEFAULT_HEALTH_THRESHOLDS['Very Low'].maxTvlOutflow24h);
+
+    expect(resolveThresholds(config, 'usdc', 'Very Low').targetApy).toBe(5);
+    expect(resolveThresholds({}, 'sei-hypergrowth', 'High')).toEqual(DEFAULT_HEALTH_THRESHOLDS.High);
+  });
+
+  it('drops unknown keys, risk levels and non-numeric values', () => {
+    const config = parseThresholdsConfig({
+      default: { minApy: 4, minAPY: 5, targetApy: '10' },
+      riskLevels: { Extreme: { minApy: 50 } }
+    });
+
+    expect(config).toEqual({ default: { minApy: 4 }, riskLevels: {} });
+    expect(() => parseThresholdsConfig([])).toThrow('must be a JSON object');
+  });
+
+  it('loads overrides from a JSON file and falls back on bad input', async () => {
+    const filePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'thresholds-')), 'thresholds.json');
+    await fs.writeFile(filePath, JSON.stringify({ vaults: { 'stable-max': { minApy: 1 } } }));
+
+    const fromFile = new VaultThresholdRegistry();
+    const thresholds = await fromFile.getThresholds(runtimeWith({ VAULT_HEALTH_THRESHOLDS_PATH: filePath }), 'stable-max', 'Very Low');
+    expect(thresholds.minApy).toBe(1);
+
+    const broken = new VaultThresholdRegistry();
+    const defaults = await broken.getThresholds(runtimeWith({ VAULT_HEALTH_THRESHOLDS: '{not json' }), 'stable-max', 'Very Low');
+    expect(defaults).toEqual(DEFAULT_HEALTH_THRESHOLDS['Very Low']);
+  });
+
+  it('reads each registered vault by its address and skips vaults without on-chain info', async () => {
+    mockMetrics.mockResolvedValue(metrics(15, 1.01));
+    mockPrevious.mockResolvedValue(null);
+
+    const report = (await runVaultHealthCheck(runtimeWith({})))!;
+
+    expect(mockMetrics.mock.calls.map(call => call[1])).toEqual([STABLE_MAX, HYPERGROWTH]);
+    expect(report.vaults.map(v => v.vaultName)).toEqual(['Stable Max Vault', 'SEI Hypergrowth Vault']);
+  });
+
+  it('judges each vault against its own tier', async () => {
+    // 5% is fine for Stable Max but far too low for SEI Hypergrowth
+    mockMetrics.mockImplementation((_runtime: unknown, address: string) =>
+      Promise.resolve(address === STABLE_MAX ? metrics(5, 1.01) : metrics(5, 1.2)));
+    // Hypergrowth dipped 2% in a day, inside its tier's tolerance
+    mockPrevious.mockImplementation((_runtime: unknown, address: string) =>
+      Promise.resolve(address === STABLE_MAX
+        ? { totalValueLocked: 50_000, pricePerShare: 1.01 }
+        : { totalValueLocked: 50_000, pricePerShare: 1.2 / 0.98 }));
+
+    const report = (await runVaultHealthCheck(runtimeWith({})))!;
+    const [stableMax, hypergrowth] = report.vaults;
+
+    expect(stableMax.status).toBe('healthy');
+    expect(hypergrowth.status).toBe('critical');
+    expect(hypergrowth.alerts).toEqual(['APY below minimum: 5.00% (expected >15%)']);
+  });
+
+  it('flags TVL outflows and slow share-price growth from configured thresholds', async () => {
+    mockMetrics.mockResolvedValue(metrics(6, 1.01, 40_000));
+    mockPrevious.mockResolvedValue({ totalValueLocked: 50_000, pricePerShare: 1.01 });
+
+    const runtime = runtimeWith({
+      VAULT_HEALTH_THRESHOLDS: JSON.stringify({
+        vaults: { 'stable-max': { maxTvlOutflow24h: 10, minSharePriceGrowth24h: 0.01 } }
+      })
+    });
+    const [stableMax] = (await runVaultHealthCheck(runtime))!.vaults;
+
+    expect(stableMax.status).toBe('warning');
+    expect(stableMax.alerts).toEqual([
+      'TVL down 20.0% in 24h (max outflow 10%)',
+      'Share price grew 0.000% in 24h (minimum 0.01%)'
+    ]);
+  });
+
+  it('warns on a dip within tolerance and is critical beyond it', async () => {
+    mockPrevious.mockResolvedValue({ totalValueLocked: 50_000, pricePerShare: 1 });
+
+    mockMetrics.mockResolvedValue(metrics(6, 0.9995));
+    const [smallDip] = (await runVaultHealthCheck(runtimeWith({})))!.vaults;
+    expect(smallDip.status).toBe('warning');
+    expect(smallDip.alerts).toEqual(['Share price fell 0.050% in 24h (minimum growth 0%)']);
+
+    mockMetrics.mockResolvedValue(metrics(6, 0.995));
+    const [loss] = (await runVaultHealthCheck(runtimeWith({})))!.vaults;
+    expect(loss.status).toBe('critical');
+    expect(loss.alerts).toEqual(['Share price fell 0.50% in 24h (tolerance 0.1%)']);
+  });
+
+  it('skips the 24h checks without a snapshot from about a day ago', async () => {
+    mockMetrics.mockResolvedValue(metrics(6, 0.9, 10_000));
+    mockPrevious.mockResolvedValue(null);
+
+    const [stableMax] = (await runVaultHealthCheck(runtimeWith({})))!.vaults;
+
+    expect(mockPrevious).toHaveBeenCalledWith(expect.anything(), STABLE_MAX, expect.any(Number), 7200);
+    expect(stableMax.alerts.filter(alert => alert.includes('24h'))).toEqual([]);
+  });
+});
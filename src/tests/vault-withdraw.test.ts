@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { encodeAbiParameters, encodeEventTopics } from 'viem';
+import { createMockRuntime } from './test-helpers';
+import { STRATEGY_VAULT_ABI } from '../types/vault';
+
+const USDC_VAULT = '0x2222222222222222222222222222222222222222';
+const USDC = '0x3333333333333333333333333333333333333333';
+const WALLET = '0x4444444444444444444444444444444444444444';
+const TX_HASH = `0x${'cd'.repeat(32)}`;
+
+const SHARE = 10n ** 18n;
+const mockPortfolio = vi.fn();
+const mockStats = vi.fn();
+
+vi.mock('../providers/vault-provider', () => ({
+  vaultProvider: {
+    initialize: vi.fn().mockResolvedValue(undefined),
+    getVaultAddress: (name: string) => (name === 'usdc' ? USDC_VAULT : null),
+    getCustomerPortfolio: (...args: unknown[]) => mockPortfolio(...args),
+    getCustomerStats: (...args: unknown[]) => mockStats(...args),
+    getVaultAsset: () => Promise.resolve({ symbol: 'USDC', address: USDC, decimals: 6 }),
+    // 2 USDC per share
+    convertToAssets: (_runtime: unknown, _vault: unknown, shares: bigint) => Promise.resolve(shares * 2_000_000n / SHARE),
+    getVaultMetrics: vi.fn(() => Promise.resolve({ withdrawalFeeRate: 1 }))
+  }
+}));
+
+import {
+  VaultWithdrawAction,
+  WithdrawalLockedError,
+  parseWithdrawRequest
+} from '../actions/vault-withdraw';
+import { VaultName } from '../types/vault';
+
+const publicClient = {
+  simulateContract: vi.fn(),
+  waitForTransactionReceipt: vi.fn()
+};
+
+const walletClient = {
+  account: { address: WALLET },
+  writeContract: vi.fn()
+};
+
+const walletProvider = {
+  getAddress: () => WALLET,
+  getEvmPublicClient: () => publicClient,
+  getEvmWalletClient: () => walletClient
+} as any;
+
+describe('Vault withdraw', () => {
+  let action: VaultWithdrawAction;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    action = new VaultWithdrawAction(createMockRuntime() as any, walletProvider);
+    mockStats.mockResolvedValue({ shares: 1000n * SHARE, lockTimeRemaining: 0 });
+    publicClient.simulateContract.mockResolvedValue({ result: 990_000_000n });
+  });
+
+  it('parses full, percentage, share and USD requests', () => {
+    expect(parseWithdrawRequest('Withdraw everything from the USDC vault')).toEqual({ vaultName: VaultName.USDC, mode: 'full', value: 0 });
+    expect(parseWithdrawRequest('withdraw 25% from usdc vault')).toEqual({ vaultName: VaultName.USDC, mode: 'percent', value: 25 });
+    expect(parseWithdrawRequest('withdraw 100 shares from usdc vault')).toEqual({ vaultName: VaultName.USDC, mode: 'shares', value: 100 });
+    expect(parseWithdrawRequest('withdraw $1,250.50 from stable max')).toEqual({ vaultName: VaultName.STABLE_MAX, mode: 'usd', value: 1250.5 });
+  });
+
+  it('reads explicit amounts before "all" and bare numbers as the vault asset', () => {
+    expect(parseWithdrawRequest('withdraw 25% of all my Delta Neutral')).toEqual({ vaultName: VaultName.DELTA_NEUTRAL, mode: 'percent', value: 25 });
+    expect(parseWithdrawRequest('withdraw 50 SEI from SEI Vault')).toEqual({ vaultName: VaultName.SEI, mode: 'asset', value: 50 });
+    expect(parseWithdrawRequest('withdraw 500 usd from stable max')).toEqual({ vaultName: VaultName.STABLE_MAX, mode: 'usd', value: 500 });
+    expect(parseWithdrawRequest('withdraw 50 USDC from SEI Vault')).toBeNull();
+  });
+
+  it('sizes asset-amount withdrawals so the net received matches the request', async () => {
+    const preview = await action.preview({ vaultName: VaultName.USDC, mode: 'asset', value: 990 });
+
+    expect(preview.netAmount).toBeCloseTo(990, 6);
+    expect(preview.sharesToBurn).toBe((500n * SHARE).toString());
+  });
+
+  it('refuses locked positions with the time remaining', async () => {
+    mockStats.mockResolvedValue({ shares: 1000n * SHARE, lockTimeRemaining: 2 * 86400 + 3600 });
+
+    const preview = action.preview({ vaultName: VaultName.USDC, mode: 'full', value: 0 });
+
+    await expect(preview).rejects.toBeInstanceOf(WithdrawalLockedError);
+    await expect(preview).rejects.toThrow('locked for another 2 days 1 hour');
+  });
+
+  it('burns the exact raw share balance on a full withdrawal and previews the net after fees', async () => {
+    const preview = await action.preview({ vaultName: VaultName.USDC, mode: 'full', value: 0 });
+
+    expect(preview.sharesToBurn).toBe((1000n * SHARE).toString());
+    expect(preview.grossAmount).toBe(2000);
+    expect(preview.feeAmount).toBeCloseTo(20, 9);
+    expect(preview.netAmount).toBeCloseTo(1980, 9);
+    expect(preview.simulatedAmount).toBe(990);
+    // Dashboard values may be USD; the preview never reads the portfolio
+    expect(mockPortfolio).not.toHaveBeenCalled();
+  });
+
+  it('sizes USD withdrawals so the net received matches the request', async () => {
+    const preview = await action.preview({ vaultName: VaultName.USDC, mode: 'usd', value: 990 });
+
+    expect(preview.netAmount).toBeCloseTo(990, 6);
+    expect(preview.fraction).toBeCloseTo(0.5, 9);
+    expect(preview.sharesToBurn).toBe((500n * SHARE).toString());
+  });
+
+  it('rejects share withdrawals larger than the position', async () => {
+    await expect(action.preview({ vaultName: VaultName.USDC, mode: 'shares', value: 1500 }))
+      .rejects.toThrow('You only hold 1,000 shares');
+  });
+
+  it('sends seiOptimizedWithdraw and reads the payout from the event', async () => {
+    walletClient.writeContract.mockResolvedValue(TX_HASH);
+    publicClient.waitForTransactionReceipt.mockResolvedValue({
+      status: 'success',
+      logs: [{
+        address: USDC_VAULT,
+        topics: encodeEventTopics({ abi: STRATEGY_VAULT_ABI, eventName: 'SEIOptimizedWithdraw', args: { user: WALLET } }),
+        data: encodeAbiParameters([{ type: 'uint256' }, { type: 'uint256' }, { type: 'uint256' }], [990_000_000n, 500n * SHARE, 1700000000n]),
+        blockNumber: 1n,
+        transactionHash: TX_HASH,
+        logIndex: 0,
+        blockHash: `0x${'00'.repeat(32)}`,
+        transactionIndex: 0,
+        removed: false
+      }]
+    });
+
+    const preview = await action.preview({ vaultName: VaultName.USDC, mode: 'percent', value: 50 });
+    const result = await action.execute(preview);
+
+    expect(walletClient.writeContract.mock.calls[0][0].functionName).toBe('seiOptimizedWithdraw');
+    expect(walletClient.writeContract.mock.calls[0][0].args).toEqual([500n * SHARE, WALLET]);
+    expect(result.amountReceived).toBe('990');
+    expect(result.sharesBurned).toBe('500');
+    expect(result.hash).toBe(TX_HASH);
+  });
+});
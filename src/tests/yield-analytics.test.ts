@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeYieldHistory,
+  resampleHistory,
+  maxDrawdown,
+  defaultGranularity
+} from '../providers/yield-analytics';
+
+const DAY = 86400;
+// Monday 2024-01-01 00:00 UTC
+const START = 1_704_067_200;
+
+// One sample per day at noon, share prices given directly
+function history(sharePrices: number[]) {
+  return sharePrices.map((sharePrice, i) => ({
+    timestamp: START + i * DAY + DAY / 2,
+    totalValue: 1,
+    yieldGenerated: 0,
+    apy: 0,
+    sharePrice
+  }));
+}
+
+describe('Yield analytics', () => {
+  it('resamples into calendar buckets that chain to the cumulative return', () => {
+    const prices = Array.from({ length: 15 }, (_, i) => 1 + i * 0.001);
+    const daily = resampleHistory(history(prices), 'daily');
+    const weekly = resampleHistory(history(prices), 'weekly');
+
+    expect(daily).toHaveLength(14);
+    expect(weekly.map(b => b.start)).toEqual([START, START + 7 * DAY, START + 14 * DAY]);
+
+    const chained = weekly.reduce((growth, b) => growth * (1 + b.return / 100), 1);
+    expect((chained - 1) * 100).toBeCloseTo(1.4, 9);
+    expect(resampleHistory(history(prices), 'monthly')).toHaveLength(1);
+  });
+
+  it('measures max drawdown and recovery time', () => {
+    const result = maxDrawdown(history([1, 1.02, 0.99, 0.97, 1.0, 1.03, 1.01]));
+
+    expect(result.maxDrawdown).toBeCloseTo((1 - 0.97 / 1.02) * 100, 9);
+    expect(result.peakTimestamp).toBe(START + DAY + DAY / 2);
+    expect(result.troughTimestamp).toBe(START + 3 * DAY + DAY / 2);
+    expect(result.recoveryDays).toBe(2);
+
+    expect(maxDrawdown(history([1, 1.1, 1.05])).recoveryTimestamp).toBeNull();
+    expect(maxDrawdown(history([1, 1.01, 1.02])).maxDrawdown).toBe(0);
+  });
+
+  it('computes volatility, Sharpe and Sortino against the risk-free rate', () => {
+    const prices = [1, 1.002, 1.001, 1.004, 1.003, 1.006, 1.005, 1.008];
+    const withZero = analyzeYieldHistory(history(prices), { riskFreeRate: 0 });
+    const withHigh = analyzeYieldHistory(history(prices), { riskFreeRate: 50 });
+
+    expect(withZero.cumulativeReturn).toBeCloseTo(0.8, 9);
+    expect(withZero.volatility).toBeGreaterThan(0);
+    expect(withZero.sharpeRatio).toBeGreaterThan(0);
+    expect(withZero.sortinoRatio).toBeGreaterThan(withZero.sharpeRatio!);
+    expect(withHigh.sharpeRatio).toBeLessThan(withZero.sharpeRatio!);
+    expect(withZero.bestPeriod!.return).toBeCloseTo((1.004 / 1.001 - 1) * 100, 9);
+    expect(withZero.worstPeriod!.return).toBeLessThan(0);
+  });
+
+  it('handles short histories and picks a default bucket size', () => {
+    const single = analyzeYieldHistory(history([1]));
+    expect(single.periods).toEqual([]);
+    expect(single.volatility).toBeNull();
+    expect(single.sharpeRatio).toBeNull();
+    expect(single.bestPeriod).toBeNull();
+
+    expect(defaultGranularity(7)).toBe('daily');
+    expect(defaultGranularity(90)).toBe('weekly');
+    expect(defaultGranularity(365)).toBe('monthly');
+  });
+});
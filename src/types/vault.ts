@@ -58,6 +58,35 @@ export const VaultRiskLevels: Record<VaultName, RiskLevel> = {
     [VaultName.USDC]: "Very Low"
 };
 
+// Ordinal scale for comparing risk levels (1 = Very Low, 5 = High)
+export const RiskScores: Record<RiskLevel, number> = {
+    "Very Low": 1,
+    "Low": 2,
+    "Medium": 3,
+    "Medium-High": 4,
+    "High": 5
+};
+
+// Underlying asset decimals per vault (vaults not listed use 18)
+export const VaultAssetDecimals: Partial<Record<VaultName, number>> = {
+    [VaultName.SEI]: 18,
+    [VaultName.USDC]: 6
+};
+
+export function getVaultAssetDecimals(vaultName: VaultName | null): number {
+    return (vaultName && VaultAssetDecimals[vaultName]) || 18;
+}
+
+// Underlying asset symbol per vault (18-decimal vaults take native SEI)
+export const VaultAssetSymbols: Partial<Record<VaultName, string>> = {
+    [VaultName.SEI]: "SEI",
+    [VaultName.USDC]: "USDC"
+};
+
+export function getVaultAssetSymbol(vaultName: VaultName | null): string {
+    return (vaultName && VaultAssetSymbols[vaultName]) || "SEI";
+}
+
 // Matches Solidity struct VaultInfo
 export interface VaultInfo {
     name: string;
@@ -142,6 +171,13 @@ export interface FormattedVaultInfo {
     isActive: boolean;
 }
 
+// What a vault takes as deposits and pays out on withdrawal: its token0
+export interface VaultAsset {
+    symbol: string;
+    address: Address | null; // null for native SEI
+    decimals: number;
+}
+
 export interface FormattedPosition {
     tickLower: number;
     tickUpper: number;
@@ -164,6 +200,41 @@ export interface FormattedCustomerPortfolio {
     depositTimestamp: number;
     lockTimeRemaining: number;
     canWithdraw: boolean;
+    // Unit of shareValue, totalDeposited, totalWithdrawn and unrealizedGains:
+    // the dashboard reports USD, direct vault reads the vault's asset
+    valueUnit: "usd" | "asset";
+}
+
+// One address's share of an aggregated (address group) portfolio
+export interface AddressPortfolio {
+    address: Address;
+    positions: FormattedCustomerPortfolio[];
+    totalValue: number;
+    totalGains: number;
+    error?: string; // Set when the portfolio couldn't be read; positions is then empty
+}
+
+export interface AggregatedVaultPosition {
+    vaultAddress: Address;
+    vaultName: string;
+    shareBalance: number;
+    shareValue: number;
+    totalDeposited: number;
+    totalWithdrawn: number;
+    unrealizedGains: number;
+    withdrawableValue: number; // Value held by addresses whose lock has ended
+    holders: Address[];
+}
+
+export interface AggregatedPortfolio {
+    addresses: Address[];
+    totalValue: number;
+    totalGains: number;
+    totalDeposited: number;
+    totalWithdrawn: number;
+    positionCount: number;
+    byVault: AggregatedVaultPosition[];
+    byAddress: AddressPortfolio[];
 }
 
 export interface FormattedVaultMetrics {
@@ -182,6 +253,16 @@ export interface FormattedYieldHistory {
     totalValue: number;
     yieldGenerated: number;
     apy: number;
+    sharePrice?: number; // Only set by the archive history engine
+}
+
+// Vault state read at a historical block (assets in underlying units, shares 18 decimals)
+export interface SharePricePoint {
+    timestamp: number;
+    blockNumber: number;
+    totalAssets: number;
+    totalSupply: number;
+    sharePrice: number;
 }
 
 export interface FormattedProjectedReturns {
@@ -199,6 +280,22 @@ export interface FormattedDepositRatio {
     currentPrice: number;
 }
 
+// Vault activity decoded from SEIOptimizedDeposit / SEIOptimizedWithdraw events
+export type VaultActivityType = "deposit" | "withdraw";
+
+export interface VaultLedgerEntry {
+    type: VaultActivityType;
+    vaultAddress: Address;
+    vaultName: string;
+    user: Address;
+    amount: number;
+    shares: number;
+    timestamp: number;
+    blockNumber: number;
+    transactionHash: `0x${string}`;
+    logIndex: number;
+}
+
 // Vault address mapping type
 export type VaultAddressMap = Partial<Record<VaultName, Address>>;
 
@@ -321,6 +418,15 @@ export function matchVaultName(input: string): VaultName | null {
         return vaultNameAliases[normalized];
     }
 
+    // Discovered vaults have longer, more specific names than the built-in
+    // aliases ("SEI Yield Booster" vs "sei"), so they are checked first
+    for (const [id, metadata] of discoveredVaults) {
+        const aliases = getDiscoveredAliases(id, metadata);
+        if (aliases.includes(normalized) || aliases.some(alias => normalized.includes(alias))) {
+            return id as VaultName;
+        }
+    }
+
     // Partial match
     for (const [alias, vaultName] of Object.entries(vaultNameAliases)) {
         if (normalized.includes(alias) || alias.includes(normalized)) {
@@ -331,6 +437,98 @@ export function matchVaultName(input: string): VaultName | null {
     return null;
 }
 
+/**
+ * Every vault mentioned in the input, in order of appearance
+ * ("Delta Neutral vs Stable Max vs Blue Chip", "compare sei and usdc vaults")
+ */
+export function matchVaultNames(input: string): VaultName[] {
+    const filler = /\b(compare|comparing|comparison|between|the|vaults?)\b/g;
+    const segments = input
+        .toLowerCase()
+        .split(/\s+(?:vs\.?|versus|and|or|with|against|to)\s+|[,;&/]/)
+        .map(segment => segment.replace(filler, " ").replace(/[?!.]/g, " ").replace(/\s+/g, " ").trim())
+        .filter(segment => segment.length >= 2);
+
+    const names: VaultName[] = [];
+    for (const segment of segments) {
+        const name = matchVaultName(segment);
+        if (name && !names.includes(name)) {
+            names.push(name);
+        }
+    }
+    return names;
+}
+
+// Vault metadata; built-in vaults come from the tables above, discovered ones from getVaultInfo
+export interface VaultMetadata {
+    displayName: string;
+    strategy: string;
+    riskLevel: RiskLevel;
+}
+
+// Vaults found through the factory that aren't in the VaultName enum. Their ids
+// (slugs of the on-chain name) are carried as VaultName so they flow through
+// the same address and metadata lookups as built-in vaults.
+const discoveredVaults = new Map<string, VaultMetadata>();
+
+export function registerDiscoveredVault(id: string, metadata: VaultMetadata): VaultName {
+    discoveredVaults.set(id, metadata);
+    return id as VaultName;
+}
+
+export function clearDiscoveredVaults(): void {
+    discoveredVaults.clear();
+}
+
+export function getVaultDisplayName(name: VaultName): string {
+    return VaultDisplayNames[name] ?? discoveredVaults.get(name)?.displayName ?? name;
+}
+
+export function getVaultStrategy(name: VaultName): string {
+    return VaultStrategies[name] ?? discoveredVaults.get(name)?.strategy ?? "";
+}
+
+export function getVaultRiskLevel(name: VaultName): RiskLevel {
+    return VaultRiskLevels[name] ?? discoveredVaults.get(name)?.riskLevel ?? "Medium";
+}
+
+export function slugifyVaultName(name: string): string {
+    return name.toLowerCase().replace(/\bvault\b/g, "").trim().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Map an on-chain vault name to a built-in vault. Stricter than matchVaultName:
+ * only the exact display name or an exact alias counts, so a new "SEI Yield
+ * Booster" isn't mistaken for the SEI vault.
+ */
+export function resolveBuiltInVault(onChainName: string): VaultName | null {
+    const normalized = onChainName.toLowerCase().trim();
+
+    for (const [name, displayName] of Object.entries(VaultDisplayNames)) {
+        if (displayName.toLowerCase() === normalized) return name as VaultName;
+    }
+
+    return vaultNameAliases[normalized] ?? vaultNameAliases[normalized.replace(/\s+vault$/, "")] ?? null;
+}
+
+/**
+ * Best-effort risk tier from a vault's on-chain strategy description
+ */
+export function deriveRiskLevel(strategy: string): RiskLevel {
+    const text = strategy.toLowerCase();
+
+    if (/stable|usdc|usdt|treasury/.test(text)) return "Very Low";
+    if (/delta[- ]?neutral|hedg/.test(text)) return "Low";
+    if (/leverag|hypergrowth|perp|degen/.test(text)) return "High";
+    if (/arbitrage|arb\b/.test(text)) return "Medium-High";
+    return "Medium";
+}
+
+function getDiscoveredAliases(id: string, metadata: VaultMetadata): string[] {
+    const displayName = metadata.displayName.toLowerCase();
+    return [id, id.replace(/-/g, " "), displayName, displayName.replace(/\s+vault$/, "")];
+}
+
 // Contract ABIs (partial, for vault interactions)
 export const STRATEGY_VAULT_ABI = [
     {
@@ -552,3 +750,66 @@ export const VAULT_FACTORY_ABI = [
         outputs: [{ name: "", type: "address" }]
     }
 ] as const;
+
+// Uniswap-V3-style pool (DragonSwap V2 and forks)
+export const CL_POOL_ABI = [
+    {
+        name: "slot0",
+        type: "function",
+        stateMutability: "view",
+        inputs: [],
+        outputs: [
+            { name: "sqrtPriceX96", type: "uint160" },
+            { name: "tick", type: "int24" },
+            { name: "observationIndex", type: "uint16" },
+            { name: "observationCardinality", type: "uint16" },
+            { name: "observationCardinalityNext", type: "uint16" },
+            { name: "feeProtocol", type: "uint8" },
+            { name: "unlocked", type: "bool" }
+        ]
+    },
+    {
+        name: "feeGrowthGlobal0X128",
+        type: "function",
+        stateMutability: "view",
+        inputs: [],
+        outputs: [{ name: "", type: "uint256" }]
+    },
+    {
+        name: "feeGrowthGlobal1X128",
+        type: "function",
+        stateMutability: "view",
+        inputs: [],
+        outputs: [{ name: "", type: "uint256" }]
+    },
+    {
+        name: "ticks",
+        type: "function",
+        stateMutability: "view",
+        inputs: [{ name: "tick", type: "int24" }],
+        outputs: [
+            { name: "liquidityGross", type: "uint128" },
+            { name: "liquidityNet", type: "int128" },
+            { name: "feeGrowthOutside0X128", type: "uint256" },
+            { name: "feeGrowthOutside1X128", type: "uint256" },
+            { name: "tickCumulativeOutside", type: "int56" },
+            { name: "secondsPerLiquidityOutsideX128", type: "uint160" },
+            { name: "secondsOutside", type: "uint32" },
+            { name: "initialized", type: "bool" }
+        ]
+    }
+] as const;
+
+export const CL_POOL_FACTORY_ABI = [
+    {
+        name: "getPool",
+        type: "function",
+        stateMutability: "view",
+        inputs: [
+            { name: "tokenA", type: "address" },
+            { name: "tokenB", type: "address" },
+            { name: "fee", type: "uint24" }
+        ],
+        outputs: [{ name: "", type: "address" }]
+    }
+] as const;